@@ -0,0 +1,86 @@
+// @vitest-environment node
+import { createRequire } from 'module';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+
+const require = createRequire(import.meta.url);
+const Database = require('better-sqlite3');
+
+// database.cjs keeps its file under app.getPath('userData'); point that at a scratch folder
+const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'bulk-edits-'));
+require.cache[require.resolve('electron')] = {
+  exports: { app: { getPath: () => dir } },
+};
+const db = require('../database.cjs');
+
+let count = 0;
+/** Save a confirmed file and return its id. */
+function addFile({ name, tags = [], categories = {} } = {}) {
+  const id = `file-${count++}`;
+  db.saveFile({ id, name: name ?? `${id}.stl`, relativePath: `${id}.stl`, tags, categories });
+  return id;
+}
+
+const fileById = (id) => db.getAllFiles().find((f) => f.id === id);
+
+let raw;
+beforeAll(() => {
+  db.getAllFiles(); // creates and migrates the database
+  raw = new Database(path.join(dir, 'stl-library.db'), { readonly: true });
+});
+afterAll(() => {
+  raw.close();
+  fs.rmSync(dir, { recursive: true, force: true });
+});
+
+describe('bulkRemoveTags', () => {
+  it('drops only the named tags and the paths below them', () => {
+    const id = addFile({ tags: ['orc', 'orc/boss', 'orcish', 'painted'] });
+    const other = addFile({ tags: ['orc'] });
+    db.bulkRemoveTags([id], ['orc']);
+    expect(fileById(id).tags).toEqual(['orcish', 'painted']);
+    expect(fileById(other).tags).toEqual(['orc']);
+  });
+});
+
+describe('bulkClearCategoryValue', () => {
+  it('clears one category and keeps the others', () => {
+    const id = addFile({ categories: { race: 'Orc', role: 'Hero' } });
+    db.bulkClearCategoryValue([id], 'race');
+    expect(fileById(id).categories).toEqual({ role: 'Hero' });
+  });
+});
+
+describe('bulkReplaceCategoryValue', () => {
+  it('rewrites only the files whose value is `from`', () => {
+    const match = addFile({ categories: { race: 'Orc' } });
+    const differs = addFile({ categories: { race: 'Elf' } });
+    const unset = addFile();
+    db.bulkReplaceCategoryValue([match, differs, unset], 'race', 'Orc', 'Ork');
+
+    expect(fileById(match).categories.race).toBe('Ork');
+    expect(fileById(match).provenance.categories.race.source).toBe('bulk');
+    expect(fileById(differs).categories.race).toBe('Elf');
+    expect(fileById(unset).categories.race).toBeUndefined();
+  });
+});
+
+describe('deleteFiles', () => {
+  it('removes the files with their tags, values, collection places and search rows', () => {
+    const gone = addFile({ name: 'Zorblax.stl', tags: ['orc'], categories: { race: 'Orc' } });
+    const kept = addFile({ name: 'Quibble.stl' });
+    db.createCollection({ id: 'c1', name: 'Picks' });
+    db.addToCollection('c1', [gone, kept]);
+    expect(db.searchFiles('zorblax').map((h) => h.id)).toEqual([gone]);
+
+    db.deleteFiles([gone]);
+    expect(fileById(gone)).toBeUndefined();
+    expect(db.getCollections().find((c) => c.id === 'c1').fileIds).toEqual([kept]);
+    expect(raw.prepare('SELECT COUNT(*) AS n FROM collection_files WHERE file_id = ?').get(gone).n).toBe(0);
+    expect(raw.prepare('SELECT COUNT(*) AS n FROM tags WHERE file_id = ?').get(gone).n).toBe(0);
+    expect(raw.prepare('SELECT COUNT(*) AS n FROM category_values WHERE file_id = ?').get(gone).n).toBe(0);
+    expect(raw.prepare('SELECT COUNT(*) AS n FROM files_fts WHERE files_fts MATCH ?').get('zorblax').n).toBe(0);
+    expect(db.searchFiles('quibble').map((h) => h.id)).toEqual([kept]);
+  });
+});
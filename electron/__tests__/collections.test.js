@@ -0,0 +1,106 @@
+// @vitest-environment node
+import { createRequire } from 'module';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+
+const require = createRequire(import.meta.url);
+
+// database.cjs keeps its file under app.getPath('userData'); point that at a scratch folder
+const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'collections-'));
+require.cache[require.resolve('electron')] = {
+  exports: { app: { getPath: () => path.join(dir, 'userData') } },
+};
+const db = require('../database.cjs');
+const { exportCollection, safeFileName } = require('../collectionExport.cjs');
+
+const library = path.join(dir, 'library');
+
+/** Save a confirmed file backed by a model on disk. */
+function addFile(name) {
+  const fullPath = path.join(library, name);
+  fs.writeFileSync(fullPath, `solid ${name}\nendsolid\n`);
+  db.saveFile({ id: name, name, relativePath: name, fullPath });
+  return name;
+}
+
+let count = 0;
+function makeCollection(fileIds = [], name = `Collection ${count}`) {
+  const id = `c${count++}`;
+  db.createCollection({ id, name });
+  if (fileIds.length > 0) db.addToCollection(id, fileIds);
+  return id;
+}
+
+const members = (id) => db.getCollections().find((c) => c.id === id).fileIds;
+
+const [a, b, c, d] = ['a.stl', 'b.stl', 'c.stl', 'd.stl'];
+beforeAll(() => {
+  fs.mkdirSync(path.join(dir, 'userData'));
+  fs.mkdirSync(library);
+  [a, b, c, d].forEach(addFile);
+});
+afterAll(() => { fs.rmSync(dir, { recursive: true, force: true }); });
+
+describe('collection membership', () => {
+  it('appends in the given order and leaves existing members in place', () => {
+    const id = makeCollection([b, a]);
+    db.addToCollection(id, [d, a, c]);
+    expect(members(id)).toEqual([b, a, d, c]);
+  });
+
+  it('reorders members to the given order', () => {
+    const id = makeCollection([a, b, c]);
+    db.reorderCollection(id, [c, a, b]);
+    expect(members(id)).toEqual([c, a, b]);
+    db.addToCollection(id, [d]);
+    expect(members(id)).toEqual([c, a, b, d]);
+  });
+
+  it('moves files to the end of another collection', () => {
+    const from = makeCollection([a, b, c]);
+    const to = makeCollection([d, b]);
+    db.moveToCollection(from, to, [c, b]);
+    expect(members(from)).toEqual([a]);
+    expect(members(to)).toEqual([d, b, c]);
+  });
+
+  it('removes members and drops them with a deleted collection', () => {
+    const id = makeCollection([a, b]);
+    db.removeFromCollection(id, [a]);
+    expect(members(id)).toEqual([b]);
+    db.deleteCollection(id);
+    expect(db.getCollections().some((col) => col.id === id)).toBe(false);
+  });
+});
+
+describe('exportCollection', () => {
+  it('copies members numbered in playlist order with a manifest', async () => {
+    const id = makeCollection([c, a], 'Friday: session');
+    const dest = path.join(dir, 'export-1');
+    const result = await exportCollection(id, dest);
+
+    expect(result).toEqual({ folder: path.join(dest, 'Friday_ session'), exported: 2, failed: [] });
+    expect(fs.readdirSync(result.folder).sort()).toEqual(['01 - c.stl', '02 - a.stl', 'manifest.json']);
+    const manifest = JSON.parse(fs.readFileSync(path.join(result.folder, 'manifest.json'), 'utf8'));
+    expect(manifest.files.map((f) => [f.position, f.source])).toEqual([[1, c], [2, a]]);
+  });
+
+  it('keeps a collection named ".." inside the destination', async () => {
+    const dest = path.join(dir, 'export-2');
+    const result = await exportCollection(makeCollection([a], '..'), dest);
+    expect(result.folder).toBe(path.join(dest, '__'));
+    expect(fs.existsSync(path.join(result.folder, '01 - a.stl'))).toBe(true);
+  });
+});
+
+describe('safeFileName', () => {
+  it('never yields a name that points at a folder', () => {
+    expect(safeFileName('.')).toBe('_');
+    expect(safeFileName('..')).toBe('__');
+    expect(safeFileName(' .. ')).toBe('__');
+    expect(safeFileName('../etc')).toBe('.._etc');
+    expect(safeFileName('')).toBe('untitled');
+    expect(safeFileName('.hidden')).toBe('.hidden');
+  });
+});
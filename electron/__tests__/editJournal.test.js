@@ -0,0 +1,210 @@
+// @vitest-environment node
+import { createRequire } from 'module';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+
+const require = createRequire(import.meta.url);
+
+// database.cjs keeps its file under app.getPath('userData'); point that at a scratch folder
+const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'edit-journal-'));
+require.cache[require.resolve('electron')] = {
+  exports: { app: { getPath: () => dir } },
+};
+const db = require('../database.cjs');
+
+let count = 0;
+/** Save a confirmed file and return its id. */
+function addFile({ tags = [], categories = {} } = {}) {
+  const id = `file-${count++}`;
+  db.saveFile({ id, name: `${id}.stl`, relativePath: `${id}.stl`, metadata: { notes: '' }, tags, categories });
+  return id;
+}
+
+const fileById = (id) => db.getAllFiles().find((f) => f.id === id);
+const latestLabel = () => db.getEditHistory()[0]?.label;
+
+// A fresh edit drops whatever earlier tests left undone, so redo starts clean
+beforeEach(() => { db.updateFile(addFile(), { tags: ['reset'] }); });
+
+afterAll(() => { fs.rmSync(dir, { recursive: true, force: true }); });
+
+describe('journaled edits', () => {
+  it('undoes and redoes a file edit', () => {
+    const id = addFile({ tags: ['orc'] });
+    db.updateFile(id, { tags: ['orc', 'warrior'], metadata: { notes: 'painted' } });
+    expect(latestLabel()).toBe(`Edit tags and details of ${id}.stl`);
+
+    const undone = db.undoEdit();
+    expect(undone.label).toBe(`Edit tags and details of ${id}.stl`);
+    expect(undone.files.map((f) => f.id)).toEqual([id]);
+    expect(fileById(id).tags).toEqual(['orc']);
+    expect(fileById(id).metadata.notes).toBe('');
+
+    db.redoEdit();
+    expect(fileById(id).tags).toEqual(['orc', 'warrior']);
+    expect(fileById(id).metadata.notes).toBe('painted');
+  });
+
+  it('renames and deletes tags across the library as one step each', () => {
+    const a = addFile({ tags: ['elf', 'elf/archer'] });
+    const b = addFile({ tags: ['dwarf'] });
+    db.renameTags(['elf'], 'elves');
+    expect(latestLabel()).toBe('Rename tag: elf → elves');
+    expect(fileById(a).tags).toEqual(['elves', 'elves/archer']);
+
+    db.deleteTags(['dwarf']);
+    expect(db.getEditHistory()[0]).toMatchObject({ label: 'Delete tags: dwarf', fileCount: 1 });
+    db.undoEdit();
+    db.undoEdit();
+    expect(fileById(a).tags).toEqual(['elf', 'elf/archer']);
+    expect(fileById(b).tags).toEqual(['dwarf']);
+  });
+
+  it('journals renaming, merging and deleting category values', () => {
+    const a = addFile({ categories: { race: 'Orc' } });
+    const b = addFile({ categories: { race: 'Orcs' } });
+    db.renameCategoryValues('race', ['Orc', 'Orcs'], 'Orks');
+    expect(latestLabel()).toBe('Merge Race: Orc, Orcs → Orks');
+    db.deleteCategoryValues('race', ['Orks']);
+    expect(latestLabel()).toBe('Delete Race: Orks');
+    expect(fileById(a).categories.race).toBeUndefined();
+
+    db.undoEdit();
+    db.undoEdit();
+    expect(fileById(a).categories.race).toBe('Orc');
+    expect(fileById(b).categories.race).toBe('Orcs');
+  });
+
+  it('journals the retagging done by a new alias', () => {
+    const id = addFile({ tags: ['mini'] });
+    expect(db.saveTagAlias({ alias: 'mini', tag: 'miniature' })).toBe(1);
+    expect(latestLabel()).toBe('Alias mini → miniature');
+    db.undoEdit();
+    expect(fileById(id).tags).toEqual(['mini']);
+  });
+
+  it('counts only the tags an alias actually rewrote', () => {
+    const id = addFile({ tags: ['bust', 'bust/female', 'Busts'] });
+    expect(db.saveTagAlias({ alias: 'busts', tag: 'bust' })).toBe(1);
+    // Both tags match but already read as the canonical tag
+    expect(db.saveTagAlias({ alias: 'bust', tag: 'bust' })).toBe(0);
+    expect(fileById(id).tags).toEqual(['bust', 'bust/female']);
+  });
+
+  it('journals the values of a deleted category', () => {
+    const id = addFile({ categories: { fill: 'Hollow', size: 'Large' } });
+    const defs = db.getCategoryDefs();
+    db.saveCategoryDefs(defs.filter((d) => d.id !== 'fill'));
+    expect(latestLabel()).toBe('Delete category: Fill');
+    expect(fileById(id).categories).toEqual({ size: 'Large' });
+
+    db.undoEdit();
+    expect(fileById(id).categories).toEqual({ fill: 'Hollow', size: 'Large' });
+    db.saveCategoryDefs(defs);
+  });
+
+  it('journals merging duplicates, removed copies included', () => {
+    const keep = addFile({ tags: ['orc'] });
+    const copy = addFile({ tags: ['warrior'], categories: { role: 'Hero' } });
+    db.mergeDuplicates(keep, [copy]);
+    expect(latestLabel()).toBe(`Merge duplicates into ${keep}.stl`);
+
+    const step = db.undoEdit();
+    expect(step.files.map((f) => f.id).sort()).toEqual([keep, copy].sort());
+    expect(fileById(keep).tags).toEqual(['orc']);
+    expect(fileById(keep).categories.role).toBeUndefined();
+    expect(fileById(copy)).toMatchObject({ tags: ['warrior'], categories: { role: 'Hero' } });
+  });
+
+  it('puts removed files back with their tags, values, details and collection places', () => {
+    const a = addFile({ tags: ['orc'], categories: { race: 'Orc' } });
+    const b = addFile();
+    db.updateFile(a, { metadata: { notes: 'primed' } });
+    db.createCollection({ id: 'picks', name: 'Picks' });
+    db.addToCollection('picks', [b, a]);
+
+    db.deleteFiles([a, b]);
+    expect(latestLabel()).toBe('Remove 2 files');
+    expect(fileById(a)).toBeUndefined();
+
+    const undone = db.undoEdit();
+    expect(undone.files.map((f) => f.id).sort()).toEqual([a, b].sort());
+    expect(fileById(a)).toMatchObject({ name: `${a}.stl`, tags: ['orc'], categories: { race: 'Orc' } });
+    expect(fileById(a).metadata.notes).toBe('primed');
+    expect(db.getCollections().find((c) => c.id === 'picks').fileIds).toEqual([b, a]);
+    expect(db.searchFiles(a).map((h) => h.id)).toContain(a);
+
+    expect(db.redoEdit()).toMatchObject({ files: [], removedFileIds: [a, b], skipped: 0 });
+    expect(fileById(b)).toBeUndefined();
+  });
+
+  it('leaves a removed file out when its path was taken since', () => {
+    const id = addFile();
+    db.deleteFiles([id]);
+    db.saveFile({ id: 'reimported', name: 'again.stl', relativePath: `${id}.stl` });
+
+    expect(db.undoEdit()).toMatchObject({ files: [], skipped: 1 });
+    expect(fileById(id)).toBeUndefined();
+  });
+
+  it('records nothing when an edit changes no file', () => {
+    const before = db.getEditHistory().length;
+    db.deleteTags(['never-used']);
+    expect(db.getEditHistory()).toHaveLength(before);
+  });
+});
+
+describe('undo and redo', () => {
+  it('lists entries newest first and marks the undone ones', () => {
+    const id = addFile();
+    db.updateFile(id, { tags: ['one'] });
+    db.updateFile(id, { tags: ['two'] });
+    db.undoEdit();
+    expect(db.getEditHistory().slice(0, 2).map((e) => [e.label, e.undone])).toEqual([
+      [`Edit tags of ${id}.stl`, true],
+      [`Edit tags of ${id}.stl`, false],
+    ]);
+  });
+
+  it('drops undone entries once a new edit is made', () => {
+    const id = addFile();
+    db.updateFile(id, { tags: ['one'] });
+    db.undoEdit();
+    db.updateFile(id, { tags: ['two'] });
+    expect(db.getEditHistory().some((e) => e.undone)).toBe(false);
+    expect(db.redoEdit()).toBeNull();
+  });
+
+  it('leaves files edited outside the journal since alone', () => {
+    const edited = addFile({ tags: ['orc'] });
+    const untouched = addFile({ tags: ['orc'] });
+    db.bulkAddTags([edited, untouched], ['warrior']);
+    // A re-save bypasses the journal, like an import refreshing the file
+    db.saveFile({ id: edited, name: `${edited}.stl`, relativePath: `${edited}.stl`, tags: ['orc', 'warrior', 'painted'] });
+
+    const step = db.undoEdit();
+    expect(step.skipped).toBe(1);
+    expect(step.files.map((f) => f.id)).toEqual([untouched]);
+    expect(fileById(edited).tags).toEqual(['orc', 'painted', 'warrior']);
+    expect(fileById(untouched).tags).toEqual(['orc']);
+  });
+
+  it('skips files removed from the library outside the journal', () => {
+    const id = addFile();
+    db.updateFile(id, { tags: ['orc'] });
+    db.deleteFile(id);
+    expect(db.undoEdit()).toMatchObject({ files: [], skipped: 1 });
+  });
+
+  it('checks the state before the edit on redo', () => {
+    const id = addFile({ tags: ['orc'] });
+    db.updateFile(id, { tags: ['orc', 'warrior'] });
+    db.undoEdit();
+    db.saveFile({ id, name: `${id}.stl`, relativePath: `${id}.stl`, tags: ['goblin'] });
+
+    expect(db.redoEdit().skipped).toBe(1);
+    expect(fileById(id).tags).toEqual(['goblin']);
+    expect(db.getEditHistory()[0].undone).toBe(false);
+  });
+});
@@ -0,0 +1,90 @@
+// @vitest-environment node
+import { createRequire } from 'module';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+
+const require = createRequire(import.meta.url);
+
+// database.cjs keeps its file under app.getPath('userData'); point that at a scratch folder
+const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'import-sessions-'));
+require.cache[require.resolve('electron')] = {
+  exports: { app: { getPath: () => dir } },
+};
+const db = require('../database.cjs');
+
+const info = (relativePath, withPath = true) => ({
+  relativePath,
+  fullPath: withPath ? `/lib/${relativePath}` : undefined,
+  sizeBytes: 100,
+  lastModified: 1,
+  file: { name: relativePath }, // a browser File handle, which is not stored
+});
+
+/** Stage a file the way processing does during an import. */
+function stage(sessionId, relativePath, status = 'pending') {
+  const id = `${sessionId}:${relativePath}`;
+  const data = { id, directoryId: 'lib', name: relativePath, relativePath, importSessionId: sessionId };
+  if (status === 'pending') db.savePendingFile(data);
+  else db.saveFile(data);
+  return id;
+}
+
+// Every row of the library folder, pending or confirmed
+const ids = () => db.getDirectoryFileIndex('lib').map((r) => r.id).sort();
+
+beforeAll(() => { db.saveDirectory({ id: 'lib', name: 'Library', path: '/lib' }); });
+afterAll(() => { fs.rmSync(dir, { recursive: true, force: true }); });
+
+describe('import sessions', () => {
+  it('finds an interrupted session with the files still to process', () => {
+    db.createImportSession({ id: 's1', directoryId: 'lib', fileInfos: [info('a.stl'), info('b.stl'), info('c.stl', false)] });
+    stage('s1', 'a.stl');
+
+    // What a relaunch sees
+    const session = db.getInterruptedImportSession();
+    expect(session).toMatchObject({ id: 's1', directoryId: 'lib', status: 'processing', total: 3, staged: 1 });
+    // Only files with a path can be re-read; stored infos drop the File handle
+    expect(session.remaining).toEqual([{ relativePath: 'b.stl', fullPath: '/lib/b.stl', sizeBytes: 100, lastModified: 1 }]);
+    expect(db.getImportSessionFiles('s1').map((f) => f.id)).toEqual(['s1:a.stl']);
+    expect(db.hasOpenImportSession('lib')).toBe(true);
+
+    db.endImportSession('s1', true);
+    expect(db.getInterruptedImportSession()).toBeNull();
+    expect(db.hasOpenImportSession('lib')).toBe(false);
+  });
+
+  it('keeps the review status a session was left in', () => {
+    db.createImportSession({ id: 's2', directoryId: 'lib', fileInfos: [info('a.stl')] });
+    db.setImportSessionStatus('s2', 'review');
+    expect(db.getInterruptedImportSession()).toMatchObject({ id: 's2', status: 'review' });
+    db.endImportSession('s2', true);
+  });
+
+  it('discarding deletes only that session\'s pending rows', () => {
+    const confirmed = stage('earlier', 'kept.stl', 'confirmed');
+    db.createImportSession({ id: 'other', directoryId: 'lib', fileInfos: [info('x.stl')] });
+    const otherPending = stage('other', 'x.stl');
+    db.createImportSession({ id: 's3', directoryId: 'lib', fileInfos: [info('y.stl'), info('z.stl')] });
+    stage('s3', 'y.stl');
+    const confirmedInSession = stage('s3', 'z.stl', 'confirmed');
+
+    db.endImportSession('s3', true);
+    expect(ids()).toEqual([confirmed, confirmedInSession, otherPending].sort());
+    expect(db.getInterruptedImportSession()).toMatchObject({ id: 'other' });
+
+    db.endImportSession('other', true);
+    expect(ids()).toEqual([confirmed, confirmedInSession].sort());
+  });
+
+  it('confirming unlinks the staged rows and keeps them', () => {
+    db.createImportSession({ id: 's4', directoryId: 'lib', fileInfos: [info('w.stl')] });
+    const id = stage('s4', 'w.stl');
+    db.confirmPendingFiles([id]);
+    db.endImportSession('s4', false);
+
+    expect(ids()).toContain(id);
+    expect(db.getImportSessionFiles('s4')).toEqual([]);
+    expect(db.getInterruptedImportSession()).toBeNull();
+  });
+});
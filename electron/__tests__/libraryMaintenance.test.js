@@ -0,0 +1,110 @@
+// @vitest-environment node
+import { createRequire } from 'module';
+import crypto from 'crypto';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+
+const require = createRequire(import.meta.url);
+
+// database.cjs keeps its file under app.getPath('userData'); point that at a scratch folder
+const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'library-maintenance-'));
+require.cache[require.resolve('electron')] = {
+  exports: { app: { getPath: () => path.join(dir, 'userData') } },
+};
+const db = require('../database.cjs');
+const { scanDirectory } = require('../filesystem.cjs');
+const { detectMoves } = require('../libraryMaintenance.cjs');
+
+const sha256 = (content) => crypto.createHash('sha256').update(content).digest('hex');
+
+let count = 0;
+function makeLibrary() {
+  const n = count++;
+  const root = path.join(dir, `library-${n}`);
+  fs.mkdirSync(root);
+  return db.saveDirectory({ id: `dir-${n}`, name: 'Library', path: root });
+}
+
+/** Write a model and index it with its content hash, tags and categories. */
+function addModel(library, relativePath, content, { tags = [], categories = {} } = {}) {
+  const fullPath = path.join(library.path, relativePath);
+  fs.mkdirSync(path.dirname(fullPath), { recursive: true });
+  fs.writeFileSync(fullPath, content);
+  const id = `${library.id}:${relativePath}`;
+  db.saveFile({
+    id, directoryId: library.id, name: path.basename(relativePath, '.stl'), relativePath, fullPath,
+    sizeBytes: content.length, contentHash: sha256(content), tags, categories,
+    metadata: { originalFilename: path.basename(relativePath) },
+  });
+  return id;
+}
+
+function moveOnDisk(library, from, to) {
+  const target = path.join(library.path, to);
+  fs.mkdirSync(path.dirname(target), { recursive: true });
+  fs.renameSync(path.join(library.path, from), target);
+}
+
+const fileById = (id) => db.getAllFiles().find((f) => f.id === id);
+
+fs.mkdirSync(path.join(dir, 'userData'));
+afterAll(() => { fs.rmSync(dir, { recursive: true, force: true }); });
+
+describe('detectMoves', () => {
+  it('relinks a moved and renamed file, keeping its tags and categories', async () => {
+    const library = makeLibrary();
+    const id = addModel(library, 'unsorted/orc_boss.stl', 'solid orc boss\nendsolid\n', {
+      tags: ['painted'], categories: { race: 'Orc' },
+    });
+    moveOnDisk(library, 'unsorted/orc_boss.stl', 'Orcs/Warboss.stl');
+
+    const moves = await detectMoves(library.id, await scanDirectory(library.path));
+    expect(moves).toEqual([expect.objectContaining({
+      fileId: id, name: 'Warboss', fromPath: 'unsorted/orc_boss.stl', toPath: 'Orcs/Warboss.stl',
+    })]);
+
+    const file = fileById(id);
+    expect(file).toMatchObject({
+      relativePath: 'Orcs/Warboss.stl',
+      fullPath: path.join(library.path, 'Orcs/Warboss.stl'),
+      name: 'Warboss',
+      tags: ['painted'],
+      categories: { race: 'Orc' },
+    });
+    expect(file.metadata.originalFilename).toBe('Warboss.stl');
+  });
+
+  it('clears the missing flag of a relinked file', async () => {
+    const library = makeLibrary();
+    const id = addModel(library, 'a.stl', 'solid a\nendsolid\n');
+    db.markFilesMissing([id]);
+    moveOnDisk(library, 'a.stl', 'b.stl');
+
+    await detectMoves(library.id, await scanDirectory(library.path));
+    expect(db.getDirectoryFileIndex(library.id)[0]).toMatchObject({ relativePath: 'b.stl', missingAt: null });
+  });
+
+  it('leaves a same-size file with different content alone', async () => {
+    const library = makeLibrary();
+    const id = addModel(library, 'orc.stl', 'solid orc\nendsolid\n');
+    fs.rmSync(path.join(library.path, 'orc.stl'));
+    // Same length, different bytes
+    fs.writeFileSync(path.join(library.path, 'elf.stl'), 'solid elf\nendsolid\n');
+
+    expect(await detectMoves(library.id, await scanDirectory(library.path))).toEqual([]);
+    expect(fileById(id).relativePath).toBe('orc.stl');
+  });
+
+  it('claims each vanished row once when its content appears twice', async () => {
+    const library = makeLibrary();
+    const content = 'solid twin\nendsolid\n';
+    const id = addModel(library, 'twin.stl', content);
+    fs.rmSync(path.join(library.path, 'twin.stl'));
+    fs.writeFileSync(path.join(library.path, 'copy-1.stl'), content);
+    fs.writeFileSync(path.join(library.path, 'copy-2.stl'), content);
+
+    const moves = await detectMoves(library.id, await scanDirectory(library.path));
+    expect(moves.map((m) => m.fileId)).toEqual([id]);
+  });
+});
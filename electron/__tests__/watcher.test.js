@@ -0,0 +1,116 @@
+// @vitest-environment node
+import { createRequire } from 'module';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+
+const require = createRequire(import.meta.url);
+
+// database.cjs keeps its file under app.getPath('userData'); point that at a scratch folder
+const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'watcher-'));
+require.cache[require.resolve('electron')] = {
+  exports: { app: { getPath: () => path.join(dir, 'userData') } },
+};
+const db = require('../database.cjs');
+const { reconcileDirectory } = require('../watcher.cjs');
+
+let count = 0;
+/** A library folder on disk and its directories row. */
+function makeLibrary() {
+  const n = count++;
+  const root = path.join(dir, `library-${n}`);
+  fs.mkdirSync(root);
+  return db.saveDirectory({ id: `dir-${n}`, name: 'Library', path: root });
+}
+
+function writeModel(directory, relativePath, content = 'solid cube\nendsolid cube\n') {
+  const fullPath = path.join(directory.path, relativePath);
+  fs.mkdirSync(path.dirname(fullPath), { recursive: true });
+  fs.writeFileSync(fullPath, content);
+  return fullPath;
+}
+
+/** Index a file on disk as it is now, the way a confirmed import leaves it. */
+function indexModel(directory, relativePath) {
+  const fullPath = path.join(directory.path, relativePath);
+  const stat = fs.statSync(fullPath);
+  const id = `${directory.id}:${relativePath}`;
+  db.saveFile({
+    id, directoryId: directory.id, name: path.basename(relativePath), relativePath, fullPath,
+    sizeBytes: stat.size, lastModified: stat.mtimeMs,
+  });
+  return id;
+}
+
+const missingAt = (id) => db.getDirectoryFileIndex(id.split(':')[0]).find((r) => r.id === id).missingAt;
+
+fs.mkdirSync(path.join(dir, 'userData'));
+afterAll(() => { fs.rmSync(dir, { recursive: true, force: true }); });
+
+describe('reconcileDirectory', () => {
+  it('reports added, changed and removed files', async () => {
+    const library = makeLibrary();
+    writeModel(library, 'same.stl');
+    writeModel(library, 'edited.stl');
+    writeModel(library, 'gone.stl');
+    indexModel(library, 'same.stl');
+    indexModel(library, 'edited.stl');
+    const gone = indexModel(library, 'gone.stl');
+
+    writeModel(library, 'edited.stl', 'solid cube\n  facet normal 0 0 1\nendsolid cube\n');
+    fs.rmSync(path.join(library.path, 'gone.stl'));
+    writeModel(library, 'orcs/new.stl', 'solid orc\nendsolid orc\n');
+    fs.writeFileSync(path.join(library.path, 'readme.txt'), 'not a model');
+
+    const change = await reconcileDirectory(library);
+    expect(change.directoryId).toBe(library.id);
+    expect(change.added.map((f) => f.relativePath)).toEqual(['orcs/new.stl']);
+    expect(change.changed.map((f) => f.relativePath)).toEqual(['edited.stl']);
+    expect(change.removedIds).toEqual([gone]);
+    expect(change.restoredIds).toEqual([]);
+    expect(change.moved).toEqual([]);
+  });
+
+  it('flags vanished files missing once and unflags them when they come back', async () => {
+    const library = makeLibrary();
+    const fullPath = writeModel(library, 'orc.stl');
+    const id = indexModel(library, 'orc.stl');
+    const content = fs.readFileSync(fullPath);
+    const { mtime } = fs.statSync(fullPath);
+
+    fs.rmSync(fullPath);
+    expect((await reconcileDirectory(library)).removedIds).toEqual([id]);
+    const flaggedAt = missingAt(id);
+    expect(flaggedAt).not.toBeNull();
+    // Still missing: already flagged, so not reported again and the timestamp stays
+    expect((await reconcileDirectory(library)).removedIds).toEqual([]);
+    expect(missingAt(id)).toBe(flaggedAt);
+
+    fs.writeFileSync(fullPath, content);
+    fs.utimesSync(fullPath, mtime, mtime);
+    const change = await reconcileDirectory(library);
+    expect(change.restoredIds).toEqual([id]);
+    expect(change.changed).toEqual([]);
+    expect(missingAt(id)).toBeNull();
+  });
+
+  it('returns null when the folder is unreachable, leaving its files alone', async () => {
+    const library = makeLibrary();
+    writeModel(library, 'orc.stl');
+    const id = indexModel(library, 'orc.stl');
+    fs.rmSync(library.path, { recursive: true });
+
+    expect(await reconcileDirectory(library)).toBeNull();
+    expect(missingAt(id)).toBeNull();
+  });
+
+  it('returns null while an import session owns the folder', async () => {
+    const library = makeLibrary();
+    writeModel(library, 'orc.stl');
+    db.createImportSession({ id: 'import-1', directoryId: library.id, fileInfos: [] });
+
+    expect(await reconcileDirectory(library)).toBeNull();
+    db.endImportSession('import-1', false);
+    expect((await reconcileDirectory(library)).added.map((f) => f.relativePath)).toEqual(['orc.stl']);
+  });
+});
@@ -0,0 +1,208 @@
+// @vitest-environment node
+import { createRequire } from 'module';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import zlib from 'zlib';
+
+const require = createRequire(import.meta.url);
+const { splitArchivePath, isArchiveFile, listEntries, readEntry } = require('../zipArchive.cjs');
+
+// 2024-03-15 10:20:30, local time
+const DOS_DATE = ((2024 - 1980) << 9) | (3 << 5) | 15;
+const DOS_TIME = (10 << 11) | (20 << 5) | (30 / 2);
+
+const u16 = (n) => { const b = Buffer.alloc(2); b.writeUInt16LE(n); return b; };
+const u32 = (n) => { const b = Buffer.alloc(4); b.writeUInt32LE(n); return b; };
+const u64 = (n) => { const b = Buffer.alloc(8); b.writeBigUInt64LE(BigInt(n)); return b; };
+
+/**
+ * Build an archive in memory. Entries: { name, data, method = 8, encrypted, localExtra }.
+ * With `zip64`, sizes and offsets move to ZIP64 extra fields and records.
+ */
+function buildZip(entries, { zip64 = false, comment = '' } = {}) {
+  const locals = [];
+  const centrals = [];
+  let offset = 0;
+
+  for (const { name, data = Buffer.alloc(0), method = 8, encrypted = false, localExtra = Buffer.alloc(0) } of entries) {
+    const body = method === 8 ? zlib.deflateRawSync(data) : data;
+    const nameBytes = Buffer.from(name);
+    const flags = encrypted ? 1 : 0;
+    const local = Buffer.concat([
+      u32(0x04034b50), u16(20), u16(flags), u16(method), u16(DOS_TIME), u16(DOS_DATE), u32(0),
+      u32(body.length), u32(data.length), u16(nameBytes.length), u16(localExtra.length), nameBytes, localExtra, body,
+    ]);
+    const extra = zip64
+      ? Buffer.concat([u16(0x0001), u16(24), u64(data.length), u64(body.length), u64(offset)])
+      : Buffer.alloc(0);
+    const placeholder = (n) => (zip64 ? 0xffffffff : n);
+    centrals.push(Buffer.concat([
+      u32(0x02014b50), u16(20), u16(20), u16(flags), u16(method), u16(DOS_TIME), u16(DOS_DATE), u32(0),
+      u32(placeholder(body.length)), u32(placeholder(data.length)), u16(nameBytes.length), u16(extra.length), u16(0),
+      u16(0), u16(0), u32(0), u32(placeholder(offset)), nameBytes, extra,
+    ]));
+    locals.push(local);
+    offset += local.length;
+  }
+
+  const cd = Buffer.concat(centrals);
+  const commentBytes = Buffer.from(comment);
+  const parts = [...locals, cd];
+  if (zip64) {
+    const recordOffset = offset + cd.length;
+    parts.push(
+      Buffer.concat([
+        u32(0x06064b50), u64(44), u16(45), u16(45), u32(0), u32(0),
+        u64(entries.length), u64(entries.length), u64(cd.length), u64(offset),
+      ]),
+      Buffer.concat([u32(0x07064b50), u32(0), u64(recordOffset), u32(1)]),
+      Buffer.concat([u32(0x06054b50), u16(0), u16(0), u16(0xffff), u16(0xffff), u32(0xffffffff), u32(0xffffffff), u16(commentBytes.length), commentBytes]),
+    );
+  } else {
+    parts.push(Buffer.concat([
+      u32(0x06054b50), u16(0), u16(0), u16(entries.length), u16(entries.length),
+      u32(cd.length), u32(offset), u16(commentBytes.length), commentBytes,
+    ]));
+  }
+  return Buffer.concat(parts);
+}
+
+let dir;
+let count = 0;
+// Listings are cached by path, so every archive gets its own file
+const writeZip = (bytes) => {
+  const file = path.join(dir, `archive-${count++}.zip`);
+  fs.writeFileSync(file, bytes);
+  return file;
+};
+
+const MODEL = Buffer.from('solid cube\n'.repeat(40));
+
+beforeAll(() => { dir = fs.mkdtempSync(path.join(os.tmpdir(), 'zip-archive-')); });
+afterAll(() => { fs.rmSync(dir, { recursive: true, force: true }); });
+
+describe('archive paths', () => {
+  it('splits virtual paths into archive and entry', () => {
+    expect(splitArchivePath('/lib/Pack.ZIP!/inner/model.stl')).toEqual({ archivePath: '/lib/Pack.ZIP', entryName: 'inner/model.stl' });
+    expect(splitArchivePath('/lib/model.stl')).toBeNull();
+    expect(isArchiveFile('Pack.Zip')).toBe(true);
+  });
+});
+
+describe('listEntries', () => {
+  it('lists file entries from the central directory, skipping folders', async () => {
+    const file = writeZip(buildZip([
+      { name: 'minis/', method: 0 },
+      { name: 'minis/orc.stl', data: MODEL },
+      { name: 'readme.txt', data: Buffer.from('hi'), method: 0 },
+    ]));
+    const entries = await listEntries(file);
+    expect(entries.map((e) => e.name)).toEqual(['minis/orc.stl', 'readme.txt']);
+    expect(entries[0]).toMatchObject({ method: 8, size: MODEL.length, encrypted: false });
+    expect(entries[1]).toMatchObject({ method: 0, size: 2, compressedSize: 2 });
+    expect(entries[0].lastModified).toBe(new Date(2024, 2, 15, 10, 20, 30).getTime());
+  });
+
+  it('finds the end of central directory behind an archive comment', async () => {
+    const file = writeZip(buildZip([{ name: 'a.stl', data: MODEL }], { comment: 'PK\x05\x06 looks like a signature' }));
+    expect((await listEntries(file)).map((e) => e.name)).toEqual(['a.stl']);
+  });
+
+  it('reads sizes and offsets from ZIP64 records and extra fields', async () => {
+    const file = writeZip(buildZip([{ name: 'a.stl', data: MODEL }, { name: 'b.stl', data: Buffer.from('b'), method: 0 }], { zip64: true }));
+    const entries = await listEntries(file);
+    expect(entries.map((e) => [e.name, e.size])).toEqual([['a.stl', MODEL.length], ['b.stl', 1]]);
+    expect(entries[1].localHeaderOffset).toBeGreaterThan(0);
+    expect(Buffer.from(await readEntry(file, 'b.stl')).toString()).toBe('b');
+  });
+
+  it('flags encrypted entries', async () => {
+    const file = writeZip(buildZip([{ name: 'secret.stl', data: MODEL, method: 0, encrypted: true }]));
+    expect((await listEntries(file))[0].encrypted).toBe(true);
+  });
+
+  it('rejects files that are not archives', async () => {
+    const file = writeZip(Buffer.from('solid cube\nendsolid cube\n'.repeat(4)));
+    await expect(listEntries(file)).rejects.toThrow(/Not a ZIP archive/);
+  });
+
+  it('rejects a corrupt or truncated central directory', async () => {
+    const bytes = buildZip([{ name: 'a.stl', data: MODEL }]);
+    const cdOffset = bytes.readUInt32LE(bytes.length - 6);
+
+    const corrupt = Buffer.from(bytes);
+    corrupt.writeUInt32LE(0, cdOffset);
+    await expect(listEntries(writeZip(corrupt))).rejects.toThrow(/Corrupt central directory/);
+
+    const truncated = Buffer.from(bytes);
+    truncated.writeUInt32LE(bytes.length, bytes.length - 10); // central directory size past the end of the file
+    await expect(listEntries(writeZip(truncated))).rejects.toThrow(/Truncated central directory/);
+  });
+
+  it('rejects ZIP64 archives missing their records', async () => {
+    const bytes = buildZip([{ name: 'a.stl', data: MODEL }], { zip64: true });
+    const locator = bytes.length - 22 - 20;
+
+    const noLocator = Buffer.from(bytes);
+    noLocator.writeUInt32LE(0, locator);
+    await expect(listEntries(writeZip(noLocator))).rejects.toThrow(/ZIP64 locator missing/);
+
+    const badRecord = Buffer.from(bytes);
+    badRecord.writeBigUInt64LE(0n, locator + 8);
+    await expect(listEntries(writeZip(badRecord))).rejects.toThrow(/ZIP64 end of central directory missing/);
+  });
+});
+
+describe('readEntry', () => {
+  it('returns stored and deflated contents', async () => {
+    const file = writeZip(buildZip([
+      { name: 'stored.stl', data: MODEL, method: 0 },
+      { name: 'deflated.stl', data: MODEL },
+    ]));
+    expect(Buffer.from(await readEntry(file, 'stored.stl')).equals(MODEL)).toBe(true);
+    const deflated = await readEntry(file, 'deflated.stl');
+    expect(Buffer.from(deflated).equals(MODEL)).toBe(true);
+    // The result owns its buffer, so the renderer can read `.buffer` directly
+    expect(deflated.byteLength).toBe(deflated.buffer.byteLength);
+  });
+
+  it('locates data using the local header name and extra lengths', async () => {
+    const file = writeZip(buildZip([
+      { name: 'first.stl', data: Buffer.from('first'), method: 0, localExtra: Buffer.alloc(13, 7) },
+      { name: 'second.stl', data: MODEL, localExtra: Buffer.alloc(5, 1) },
+    ]));
+    expect(Buffer.from(await readEntry(file, 'first.stl')).toString()).toBe('first');
+    expect(Buffer.from(await readEntry(file, 'second.stl')).equals(MODEL)).toBe(true);
+  });
+
+  it('refuses missing, encrypted and unsupported entries', async () => {
+    const bytes = buildZip([
+      { name: 'secret.stl', data: MODEL, method: 0, encrypted: true },
+      { name: 'bzip.stl', data: MODEL, method: 0 },
+    ]);
+    // Rewrite the second entry's method to bzip2 (12) in the central directory
+    const cdOffset = bytes.readUInt32LE(bytes.length - 6);
+    const second = bytes.indexOf(Buffer.from([0x50, 0x4b, 0x01, 0x02]), cdOffset + 4);
+    bytes.writeUInt16LE(12, second + 10);
+    const file = writeZip(bytes);
+    await expect(readEntry(file, 'missing.stl')).rejects.toThrow(/not found/);
+    await expect(readEntry(file, 'secret.stl')).rejects.toThrow(/encrypted/);
+    await expect(readEntry(file, 'bzip.stl')).rejects.toThrow(/Unsupported compression method 12/);
+  });
+
+  it('rejects a corrupt local header', async () => {
+    const bytes = buildZip([{ name: 'a.stl', data: MODEL }]);
+    bytes.writeUInt32LE(0, 0);
+    await expect(readEntry(writeZip(bytes), 'a.stl')).rejects.toThrow(/Corrupt local file header/);
+  });
+
+  it('rejects entry data cut short by a truncated archive', async () => {
+    const bytes = buildZip([{ name: 'a.stl', data: MODEL, method: 0 }]);
+    const cd = bytes.subarray(bytes.readUInt32LE(bytes.length - 6));
+    // Keep the central directory but drop the tail of the entry's data
+    const cut = Buffer.concat([bytes.subarray(0, 30 + 'a.stl'.length + 10), cd]);
+    cut.writeUInt32LE(30 + 'a.stl'.length + 10, cut.length - 6);
+    await expect(readEntry(writeZip(cut), 'a.stl')).rejects.toThrow(/truncated/);
+  });
+});
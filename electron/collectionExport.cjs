@@ -0,0 +1,57 @@
+const fs = require('fs');
+const path = require('path');
+const db = require('./database.cjs');
+const { readFile } = require('./filesystem.cjs');
+
+/**
+ * Copies a collection's model files into a folder for a print session. Copies are
+ * numbered in playlist order so slicers and file browsers list them the same way,
+ * and a manifest.json records where each one came from.
+ */
+
+const UNSAFE_CHARS_RE = /[\/\\:*?"<>|\u0000-\u001f]/g;
+
+// `.` and `..` would resolve to the destination folder or its parent
+const DOTS_ONLY_RE = /^\.+$/;
+
+function safeFileName(name) {
+  const safe = name.replace(UNSAFE_CHARS_RE, '_').trim();
+  if (DOTS_ONLY_RE.test(safe)) return safe.replace(/\./g, '_');
+  return safe || 'untitled';
+}
+
+exports.safeFileName = safeFileName;
+
+/**
+ * Export into `<destDir>/<collection name>/`, which is created if needed.
+ * Archive entries are extracted. Files that can't be read are reported, not fatal.
+ * Returns { folder, exported, failed: [name] }.
+ */
+exports.exportCollection = async (collectionId, destDir) => {
+  const collection = db.getCollectionExportRows(collectionId);
+  if (!collection) throw new Error(`Collection ${collectionId} not found`);
+
+  const folder = path.join(destDir, safeFileName(collection.name));
+  await fs.promises.mkdir(folder, { recursive: true });
+
+  const digits = Math.max(2, String(collection.files.length).length);
+  const manifest = [];
+  const failed = [];
+  for (const [i, file] of collection.files.entries()) {
+    const data = file.fullPath ? await readFile(file.fullPath) : null;
+    if (!data) {
+      failed.push(file.name);
+      continue;
+    }
+    const fileName = `${String(i + 1).padStart(digits, '0')} - ${safeFileName(path.posix.basename(file.relativePath))}`;
+    await fs.promises.writeFile(path.join(folder, fileName), data);
+    manifest.push({ position: i + 1, file: fileName, name: file.name, source: file.relativePath });
+  }
+
+  await fs.promises.writeFile(
+    path.join(folder, 'manifest.json'),
+    JSON.stringify({ collection: collection.name, exportedAt: new Date().toISOString(), files: manifest }, null, 2)
+  );
+
+  return { folder, exported: manifest.length, failed };
+};
@@ -1,6 +1,7 @@
 const Database = require('better-sqlite3');
 const path = require('path');
 const fs = require('fs');
+const crypto = require('crypto');
 const { app } = require('electron');
 
 let database; // renamed from `db` to avoid shadowing in nested scopes
@@ -8,18 +9,301 @@ let dbPath;
 
 // ── Schema versioning ──────────────────────────────────────────────────────────
 
-const SCHEMA_VERSION = 2;
+const SCHEMA_VERSION = 17;
+
+/** Version of the schema created by initSchema(); later versions come from MIGRATIONS. */
+const BASELINE_VERSION = 2;
+
+/** Column values of a files_fts row, selected from `files f`. */
+const FTS_ROW_SELECT = `
+  SELECT f.rowid, f.name, f.relative_path,
+    (SELECT group_concat(tag, ' ') FROM tags WHERE file_id = f.id),
+    (SELECT group_concat(value, ' ') FROM category_values WHERE file_id = f.id),
+    CASE WHEN json_valid(f.metadata_json) THEN json_extract(f.metadata_json, '$.headerText') END`;
+
+/** Trigger body that rebuilds the files_fts row for the given files rowid expression. */
+const FTS_REFRESH_SQL = (rowidExpr) => `
+  DELETE FROM files_fts WHERE rowid = ${rowidExpr};
+  INSERT INTO files_fts (rowid, name, path, tags, categories, header)
+    ${FTS_ROW_SELECT} FROM files f WHERE f.rowid = ${rowidExpr};`;
+
+// Seed for the categories table — mirrors CATEGORY_IDS / CATEGORY_LABELS in src/utils/categoryClassifier.ts
+const DEFAULT_CATEGORIES = [
+  ['creator', 'Creator'],
+  ['collection', 'Collection'],
+  ['role', 'Role'],
+  ['size', 'Size'],
+  ['fill', 'Fill'],
+  ['creature', 'Creature'],
+  ['race', 'Race'],
+  ['class', 'Class'],
+];
 
 /**
  * Incremental migration list. Each entry moves the database from (version-1) to (version).
  * NEVER modify existing entries — only append new ones.
- *
- * Example future migration:
- *   { version: 3, up(db) { db.exec('ALTER TABLE files ADD COLUMN starred INTEGER DEFAULT 0'); } }
  */
 const MIGRATIONS = [
-  // Version 2 is the current baseline created by initSchema().
-  // Future incremental migrations go here.
+  // Version 2 is the baseline created by initSchema().
+  {
+    version: 3,
+    up(db) {
+      // Files that disappeared from disk are flagged instead of deleted, so tags survive
+      db.exec('ALTER TABLE files ADD COLUMN missing_at INTEGER');
+      // last_modified was only ever written into metadata_json; backfill the column
+      // so folder watching can compare mtimes without reprocessing every file
+      db.exec(`
+        UPDATE files SET last_modified = json_extract(metadata_json, '$.lastModified')
+        WHERE last_modified IS NULL AND metadata_json IS NOT NULL
+      `);
+    },
+  },
+  {
+    version: 4,
+    up(db) {
+      // Duplicate detection: SHA-256 of the file bytes + geometry fingerprint (see src/utils/duplicates.ts)
+      db.exec(`
+        ALTER TABLE files ADD COLUMN content_hash TEXT;
+        ALTER TABLE files ADD COLUMN geometry_fingerprint TEXT;
+        CREATE INDEX IF NOT EXISTS idx_files_content_hash ON files(content_hash);
+        CREATE INDEX IF NOT EXISTS idx_files_geometry_fingerprint ON files(geometry_fingerprint);
+      `);
+    },
+  },
+  {
+    version: 5,
+    up(db) {
+      // Set by the health check while a directory root is unreachable (unplugged drive, NAS offline)
+      db.exec('ALTER TABLE directories ADD COLUMN offline_at INTEGER');
+    },
+  },
+  {
+    version: 6,
+    up(db) {
+      // Persisted import sessions, so an import interrupted by quitting can be resumed or reviewed
+      db.exec(`
+        CREATE TABLE import_sessions (
+          id TEXT PRIMARY KEY,
+          directory_id TEXT REFERENCES directories(id) ON DELETE CASCADE,
+          status TEXT NOT NULL DEFAULT 'processing',
+          file_infos_json TEXT NOT NULL,
+          total INTEGER NOT NULL,
+          started_at INTEGER NOT NULL
+        );
+        ALTER TABLE files ADD COLUMN import_session_id TEXT;
+        CREATE INDEX IF NOT EXISTS idx_files_import_session ON files(import_session_id);
+      `);
+      // Pending rows left behind before sessions existed become one reviewable session
+      const { count } = db.prepare("SELECT COUNT(*) AS count FROM files WHERE import_status = 'pending'").get();
+      if (count > 0) {
+        const id = crypto.randomUUID();
+        db.prepare(`
+          INSERT INTO import_sessions (id, directory_id, status, file_infos_json, total, started_at)
+          VALUES (?, NULL, 'reviewing', '[]', ?, ?)
+        `).run(id, count, Date.now());
+        db.prepare("UPDATE files SET import_session_id = ? WHERE import_status = 'pending'").run(id);
+      }
+    },
+  },
+  {
+    version: 7,
+    up(db) {
+      // Full-text index over everything a user might search for. Rows share the files
+      // rowid and are kept in sync by triggers, including tag/category edits.
+      db.exec(`
+        CREATE VIRTUAL TABLE files_fts USING fts5(
+          name, path, tags, categories, header,
+          tokenize = 'unicode61 remove_diacritics 2'
+        );
+
+        CREATE TRIGGER files_fts_insert AFTER INSERT ON files BEGIN
+          ${FTS_REFRESH_SQL('NEW.rowid')}
+        END;
+        CREATE TRIGGER files_fts_update AFTER UPDATE OF name, relative_path, metadata_json ON files BEGIN
+          ${FTS_REFRESH_SQL('NEW.rowid')}
+        END;
+        CREATE TRIGGER files_fts_delete AFTER DELETE ON files BEGIN
+          DELETE FROM files_fts WHERE rowid = OLD.rowid;
+        END;
+
+        CREATE TRIGGER tags_fts_insert AFTER INSERT ON tags BEGIN
+          ${FTS_REFRESH_SQL('(SELECT rowid FROM files WHERE id = NEW.file_id)')}
+        END;
+        CREATE TRIGGER tags_fts_delete AFTER DELETE ON tags BEGIN
+          ${FTS_REFRESH_SQL('(SELECT rowid FROM files WHERE id = OLD.file_id)')}
+        END;
+        CREATE TRIGGER catval_fts_insert AFTER INSERT ON category_values BEGIN
+          ${FTS_REFRESH_SQL('(SELECT rowid FROM files WHERE id = NEW.file_id)')}
+        END;
+        CREATE TRIGGER catval_fts_update AFTER UPDATE ON category_values BEGIN
+          ${FTS_REFRESH_SQL('(SELECT rowid FROM files WHERE id = NEW.file_id)')}
+        END;
+        CREATE TRIGGER catval_fts_delete AFTER DELETE ON category_values BEGIN
+          ${FTS_REFRESH_SQL('(SELECT rowid FROM files WHERE id = OLD.file_id)')}
+        END;
+      `);
+      db.exec(`INSERT INTO files_fts (rowid, name, path, tags, categories, header) ${FTS_ROW_SELECT} FROM files f`);
+    },
+  },
+  {
+    version: 8,
+    up(db) {
+      // Named filter combinations; filters_json is the renderer's SavedFilters shape
+      db.exec(`
+        CREATE TABLE saved_searches (
+          id TEXT PRIMARY KEY,
+          name TEXT NOT NULL,
+          filters_json TEXT NOT NULL,
+          created_at INTEGER NOT NULL
+        );
+      `);
+    },
+  },
+  {
+    version: 9,
+    up(db) {
+      // Hand-picked, ordered sets of files (distinct from the auto-derived `collection` category)
+      db.exec(`
+        CREATE TABLE collections (
+          id TEXT PRIMARY KEY,
+          name TEXT NOT NULL,
+          created_at INTEGER NOT NULL
+        );
+        CREATE TABLE collection_files (
+          collection_id TEXT NOT NULL REFERENCES collections(id) ON DELETE CASCADE,
+          file_id TEXT NOT NULL REFERENCES files(id) ON DELETE CASCADE,
+          position INTEGER NOT NULL,
+          added_at INTEGER NOT NULL,
+          PRIMARY KEY (collection_id, file_id)
+        );
+        CREATE INDEX IF NOT EXISTS idx_collection_files_file ON collection_files(file_id);
+      `);
+    },
+  },
+  {
+    version: 10,
+    up(db) {
+      // User-editable category schema; allowed_values_json is null for free-text categories
+      db.exec(`
+        CREATE TABLE categories (
+          id TEXT PRIMARY KEY,
+          label TEXT NOT NULL,
+          position INTEGER NOT NULL,
+          allowed_values_json TEXT
+        );
+      `);
+      const insert = db.prepare('INSERT INTO categories (id, label, position) VALUES (?, ?, ?)');
+      DEFAULT_CATEGORIES.forEach(([id, label], i) => insert.run(id, label, i));
+    },
+  },
+  {
+    version: 11,
+    up(db) {
+      // User classification rules, applied on top of the built-in classifier at import
+      db.exec(`
+        CREATE TABLE classification_rules (
+          id TEXT PRIMARY KEY,
+          category_id TEXT NOT NULL,
+          value TEXT NOT NULL,
+          priority INTEGER NOT NULL DEFAULT 0,
+          enabled INTEGER NOT NULL DEFAULT 1,
+          keywords_json TEXT NOT NULL DEFAULT '[]',
+          pattern TEXT,
+          pattern_target TEXT NOT NULL DEFAULT 'filename',
+          min_height REAL,
+          max_height REAL,
+          created_at INTEGER NOT NULL
+        );
+      `);
+    },
+  },
+  {
+    version: 12,
+    up(db) {
+      // Folder layout used to derive categories from relative paths; null = built-in layout
+      db.exec('ALTER TABLE directories ADD COLUMN path_template TEXT');
+    },
+  },
+  {
+    version: 13,
+    up(db) {
+      // Category corrections counted per file feature (filename token or folder name)
+      db.exec(`
+        CREATE TABLE IF NOT EXISTS learned_associations (
+          feature TEXT NOT NULL,
+          category_id TEXT NOT NULL,
+          value TEXT NOT NULL,
+          count INTEGER NOT NULL DEFAULT 0,
+          updated_at INTEGER NOT NULL,
+          PRIMARY KEY (feature, category_id, value)
+        );
+      `);
+    },
+  },
+  {
+    version: 14,
+    up(db) {
+      // Classifier confidence (0–1) and reason per value; null for values set by hand
+      db.exec(`
+        ALTER TABLE category_values ADD COLUMN confidence REAL;
+        ALTER TABLE category_values ADD COLUMN evidence TEXT;
+      `);
+    },
+  },
+  {
+    version: 15,
+    up(db) {
+      // Who assigned each tag and category value, and when; null for rows stored before tracking
+      db.exec(`
+        ALTER TABLE tags ADD COLUMN source TEXT;
+        ALTER TABLE tags ADD COLUMN assigned_at INTEGER;
+        ALTER TABLE category_values ADD COLUMN source TEXT;
+        ALTER TABLE category_values ADD COLUMN assigned_at INTEGER;
+      `);
+      // Values with classifier evidence were machine-assigned when their file was imported
+      db.exec(`
+        UPDATE category_values SET
+          source = CASE
+            WHEN evidence LIKE 'Rule:%' THEN 'rule'
+            WHEN evidence LIKE 'Keywords:%' OR evidence LIKE 'Filename mentions%' THEN 'filename'
+            ELSE 'classifier'
+          END,
+          assigned_at = (SELECT imported_at FROM files WHERE files.id = category_values.file_id)
+        WHERE confidence IS NOT NULL
+      `);
+    },
+  },
+  {
+    version: 16,
+    up(db) {
+      // Other spellings of a tag; alias is normalized and lowercase, tag may be a path like `terrain/dungeon`
+      db.exec(`
+        CREATE TABLE IF NOT EXISTS tag_aliases (
+          alias TEXT PRIMARY KEY,
+          tag TEXT NOT NULL,
+          created_at INTEGER NOT NULL
+        );
+      `);
+    },
+  },
+  {
+    version: 17,
+    up(db) {
+      // Undo history. changes_json lists, per file, the parts of it (tags, categories,
+      // metadata) an edit changed, as stored before and after; undone_at marks entries
+      // that can be redone.
+      db.exec(`
+        CREATE TABLE IF NOT EXISTS edit_journal (
+          id INTEGER PRIMARY KEY AUTOINCREMENT,
+          label TEXT NOT NULL,
+          file_count INTEGER NOT NULL,
+          changes_json TEXT NOT NULL,
+          created_at INTEGER NOT NULL,
+          undone_at INTEGER
+        );
+      `);
+    },
+  },
 ];
 
 // ── Initialisation ─────────────────────────────────────────────────────────────
@@ -30,6 +314,8 @@ function getDB() {
   database = new Database(dbPath);
   database.pragma('journal_mode = WAL');
   database.pragma('foreign_keys = ON');
+  // INSERT OR REPLACE must fire DELETE triggers so the replaced row's files_fts entry is dropped
+  database.pragma('recursive_triggers = ON');
   migrateIfNeeded();
   return database;
 }
@@ -53,8 +339,9 @@ function migrateIfNeeded() {
   const current = row ? row.version : 0;
 
   if (current === 0) {
-    // Brand-new database — create full schema directly
+    // Brand-new database — create the baseline schema, then bring it up to date
     initSchema();
+    applyMigrations(BASELINE_VERSION);
     return;
   }
 
@@ -71,17 +358,24 @@ function migrateIfNeeded() {
       DROP TABLE IF EXISTS schema_version;
     `);
     initSchema();
+    applyMigrations(BASELINE_VERSION);
     return;
   }
 
   // Apply any pending incremental migrations (current < SCHEMA_VERSION)
+  if (MIGRATIONS.some((m) => m.version > current)) {
+    backupDB();
+    applyMigrations(current);
+  }
+}
+
+function applyMigrations(current) {
   const pending = MIGRATIONS.filter((m) => m.version > current);
   if (pending.length === 0) return;
 
-  backupDB();
   console.log(`[database] Applying ${pending.length} migration(s) (v${current} → v${SCHEMA_VERSION})`);
 
-  const applyMigrations = database.transaction(() => {
+  const runPending = database.transaction(() => {
     for (const migration of pending) {
       console.log(`[database] Running migration to v${migration.version}`);
       migration.up(database);
@@ -90,7 +384,7 @@ function migrateIfNeeded() {
   });
 
   try {
-    applyMigrations();
+    runPending();
   } catch (e) {
     console.error('[database] Migration failed — database restored from backup on next launch:', e);
     throw e;
@@ -100,7 +394,7 @@ function migrateIfNeeded() {
 function initSchema() {
   database.exec(`
     CREATE TABLE IF NOT EXISTS schema_version (version INTEGER NOT NULL);
-    INSERT INTO schema_version (version) VALUES (${SCHEMA_VERSION});
+    INSERT INTO schema_version (version) VALUES (${BASELINE_VERSION});
 
     CREATE TABLE IF NOT EXISTS directories (
       id TEXT PRIMARY KEY,
@@ -158,18 +452,33 @@ function filesToEntries(rows) {
   const ids = rows.map((r) => r.id);
   const placeholders = ids.map(() => '?').join(',');
 
-  const allTagRows = db.prepare(`SELECT file_id, tag FROM tags WHERE file_id IN (${placeholders})`).all(ids);
+  const allTagRows = db.prepare(
+    `SELECT file_id, tag, source, assigned_at FROM tags WHERE file_id IN (${placeholders})`
+  ).all(ids);
   const tagsByFileId = {};
-  for (const { file_id, tag } of allTagRows) {
+  const provenanceByFileId = {};
+  const provenanceOf = (fileId) =>
+    provenanceByFileId[fileId] || (provenanceByFileId[fileId] = { tags: {}, categories: {} });
+  for (const { file_id, tag, source, assigned_at } of allTagRows) {
     if (!tagsByFileId[file_id]) tagsByFileId[file_id] = [];
     tagsByFileId[file_id].push(tag);
+    if (source) provenanceOf(file_id).tags[tag] = { source, assignedAt: assigned_at };
   }
 
-  const allCatRows = db.prepare(`SELECT file_id, category_id, value FROM category_values WHERE file_id IN (${placeholders})`).all(ids);
+  const allCatRows = db.prepare(
+    `SELECT file_id, category_id, value, confidence, evidence, source, assigned_at
+     FROM category_values WHERE file_id IN (${placeholders})`
+  ).all(ids);
   const catsByFileId = {};
-  for (const { file_id, category_id, value } of allCatRows) {
+  const evidenceByFileId = {};
+  for (const { file_id, category_id, value, confidence, evidence, source, assigned_at } of allCatRows) {
     if (!catsByFileId[file_id]) catsByFileId[file_id] = {};
     catsByFileId[file_id][category_id] = value;
+    if (source) provenanceOf(file_id).categories[category_id] = { source, assignedAt: assigned_at };
+    if (confidence == null) continue;
+    if (!evidenceByFileId[file_id]) evidenceByFileId[file_id] = {};
+    evidenceByFileId[file_id][category_id] = { confidence, evidence: evidence || '' };
+    if (source && source !== 'classifier') evidenceByFileId[file_id][category_id].source = source;
   }
 
   return rows.map((row) => {
@@ -190,33 +499,82 @@ function filesToEntries(rows) {
       thumbnail: row.thumbnail,
       tags: tagsByFileId[row.id] || [],
       categories: catsByFileId[row.id] || {},
+      classification: evidenceByFileId[row.id],
+      provenance: provenanceByFileId[row.id],
       metadata,
       importedAt: row.imported_at,
       lastModified: row.last_modified,
+      missingAt: row.missing_at,
+      contentHash: row.content_hash,
+      geometryFingerprint: row.geometry_fingerprint,
     };
   });
 }
 
-/** Internal helper: replace all tags for a file in one transaction */
-function saveFileTags(fileId, tags) {
+/**
+ * Internal helper: replace all tags for a file in one transaction. Tags it already
+ * had keep their provenance; new ones are recorded as assigned by `source` now.
+ */
+function saveFileTags(fileId, tags, source = 'manual') {
   const db = getDB();
+  const previous = {};
+  for (const row of db.prepare('SELECT tag, source, assigned_at FROM tags WHERE file_id = ?').all(fileId)) {
+    previous[row.tag] = row;
+  }
   const deleteStmt = db.prepare('DELETE FROM tags WHERE file_id = ?');
-  const insertStmt = db.prepare('INSERT OR IGNORE INTO tags (file_id, tag) VALUES (?, ?)');
+  const insertStmt = db.prepare('INSERT OR IGNORE INTO tags (file_id, tag, source, assigned_at) VALUES (?, ?, ?, ?)');
+  const now = Date.now();
   deleteStmt.run(fileId);
-  for (const tag of tags) insertStmt.run(fileId, tag);
+  for (const tag of tags) {
+    const kept = previous[tag];
+    if (kept) insertStmt.run(fileId, tag, kept.source, kept.assigned_at);
+    else insertStmt.run(fileId, tag, source, now);
+  }
 }
 
-/** Internal helper: replace all category values for a file */
-function saveFileCategoryValues(fileId, categories) {
+/**
+ * Internal helper: replace all category values for a file. `classification` is the
+ * classifier's evidence per value; without it, unchanged values keep their evidence
+ * and changed ones are stored as set by hand. Unchanged values keep their provenance;
+ * changed ones are recorded as assigned now by their evidence's source, or by `source`.
+ */
+function saveFileCategoryValues(fileId, categories, classification, source = 'manual') {
   const db = getDB();
+  const previous = {};
+  const rows = db.prepare(
+    'SELECT category_id, value, confidence, evidence, source, assigned_at FROM category_values WHERE file_id = ?'
+  ).all(fileId);
+  for (const row of rows) previous[row.category_id] = row;
   const deleteStmt = db.prepare('DELETE FROM category_values WHERE file_id = ?');
-  const insertStmt = db.prepare('INSERT OR REPLACE INTO category_values (file_id, category_id, value) VALUES (?, ?, ?)');
+  const insertStmt = db.prepare(`
+    INSERT OR REPLACE INTO category_values (file_id, category_id, value, confidence, evidence, source, assigned_at)
+    VALUES (?, ?, ?, ?, ?, ?, ?)
+  `);
+  const now = Date.now();
   deleteStmt.run(fileId);
   for (const [catId, value] of Object.entries(categories)) {
-    if (value != null && value !== '') insertStmt.run(fileId, catId, value);
+    if (value == null || value === '') continue;
+    const kept = previous[catId]?.value === value ? previous[catId] : null;
+    const info = classification ? classification[catId] : kept;
+    const assigned = kept
+      ? { source: kept.source, at: kept.assigned_at }
+      : { source: classification?.[catId] ? classification[catId].source || 'classifier' : source, at: now };
+    insertStmt.run(fileId, catId, value, info?.confidence ?? null, info?.evidence ?? null, assigned.source, assigned.at);
   }
 }
 
+// Setting a value by hand drops the classifier's evidence and provenance, unless the value is unchanged.
+// Parameters: file_id, category_id, value, source, assigned_at
+const SET_CATEGORY_VALUE_SQL = `
+  INSERT INTO category_values (file_id, category_id, value, source, assigned_at) VALUES (?, ?, ?, ?, ?)
+  ON CONFLICT(file_id, category_id) DO UPDATE SET
+    confidence = CASE WHEN value = excluded.value THEN confidence END,
+    evidence = CASE WHEN value = excluded.value THEN evidence END,
+    source = CASE WHEN value = excluded.value THEN source ELSE excluded.source END,
+    assigned_at = CASE WHEN value = excluded.value THEN assigned_at ELSE excluded.assigned_at END,
+    value = excluded.value
+`;
+
 /**
  * Internal: write a file row with the given import_status.
  * Returns the effective DB id (may differ from data.id on re-import upsert).
@@ -235,8 +593,9 @@ function saveFileWithStatus(data, status) {
     const row = db.prepare(`
       INSERT INTO files
         (id, directory_id, relative_path, name, original_filename, full_path,
-         size_bytes, size_display, thumbnail, import_status, imported_at, last_modified, metadata_json)
-      VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+         size_bytes, size_display, thumbnail, import_status, imported_at, last_modified, metadata_json,
+         content_hash, geometry_fingerprint, import_session_id)
+      VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
       ON CONFLICT(directory_id, relative_path) DO UPDATE SET
         name = excluded.name,
         original_filename = excluded.original_filename,
@@ -246,6 +605,9 @@ function saveFileWithStatus(data, status) {
         thumbnail = excluded.thumbnail,
         last_modified = excluded.last_modified,
         metadata_json = excluded.metadata_json,
+        content_hash = excluded.content_hash,
+        geometry_fingerprint = excluded.geometry_fingerprint,
+        import_session_id = excluded.import_session_id,
         import_status = CASE
           WHEN import_status = 'confirmed' THEN 'confirmed'
           ELSE excluded.import_status
@@ -257,7 +619,8 @@ function saveFileWithStatus(data, status) {
       data.sizeBytes || 0, data.size || '0 MB',
       data.thumbnail || null, status,
       data.metadata?.importedAt || Date.now(),
-      data.lastModified || null, metadataJson
+      data.lastModified || data.metadata?.lastModified || null, metadataJson,
+      data.contentHash || null, data.geometryFingerprint || null, data.importSessionId || null
     );
     effectiveId = row.id;
   } else {
@@ -265,26 +628,196 @@ function saveFileWithStatus(data, status) {
     db.prepare(`
       INSERT OR REPLACE INTO files
         (id, directory_id, relative_path, name, original_filename, full_path,
-         size_bytes, size_display, thumbnail, import_status, imported_at, last_modified, metadata_json)
-      VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+         size_bytes, size_display, thumbnail, import_status, imported_at, last_modified, metadata_json,
+         content_hash, geometry_fingerprint, import_session_id)
+      VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
     `).run(
       data.id, data.directoryId || null, data.relativePath || '', data.name,
       data.metadata?.originalFilename || data.name, data.fullPath || null,
       data.sizeBytes || 0, data.size || '0 MB',
       data.thumbnail || null, status,
       data.metadata?.importedAt || Date.now(),
-      data.lastModified || null, metadataJson
+      data.lastModified || data.metadata?.lastModified || null, metadataJson,
+      data.contentHash || null, data.geometryFingerprint || null, data.importSessionId || null
     );
     effectiveId = data.id;
   }
 
   // Use effectiveId for FK-linked tables so tags/categories reference the canonical row
   if (data.tags) saveFileTags(effectiveId, data.tags);
-  if (data.categories) saveFileCategoryValues(effectiveId, data.categories);
+  if (data.categories) saveFileCategoryValues(effectiveId, data.categories, data.classification);
 
   return effectiveId;
 }
 
+// ── Edit journal ──────────────────────────────────────────────────────────────
+
+/** Entries kept for undo; older ones are dropped as new edits are recorded. */
+const EDIT_JOURNAL_LIMIT = 200;
+
+const JOURNALED_PARTS = ['tags', 'categories', 'metadata'];
+
+/**
+ * Reads a file's tags, category values and metadata as stored, or null if the file is gone.
+ * With `withRow`, the whole files row and collection memberships come along so a removed file can be put back.
+ */
+function fileSnapshotter(db, { withRow = false } = {}) {
+  const fileRow = db.prepare(`SELECT ${withRow ? '*' : 'metadata_json'} FROM files WHERE id = ?`);
+  const tagRows = db.prepare('SELECT tag, source, assigned_at FROM tags WHERE file_id = ? ORDER BY tag');
+  const categoryRows = db.prepare(`
+    SELECT category_id, value, confidence, evidence, source, assigned_at
+    FROM category_values WHERE file_id = ? ORDER BY category_id
+  `);
+  const collectionRows = db.prepare('SELECT collection_id, position, added_at FROM collection_files WHERE file_id = ?');
+  return (fileId) => {
+    const row = fileRow.get(fileId);
+    if (!row) return null;
+    const state = { tags: tagRows.all(fileId), categories: categoryRows.all(fileId), metadata: row.metadata_json };
+    if (withRow) Object.assign(state, { row, collections: collectionRows.all(fileId) });
+    return state;
+  };
+}
+
+function categoryLabel(db, categoryId) {
+  return db.prepare('SELECT label FROM categories WHERE id = ?').get(categoryId)?.label ?? categoryId;
+}
+
+/** Files carrying one of `tags`, or a path below one. */
+function fileIdsWithTags(db, tags) {
+  const stmt = db.prepare('SELECT DISTINCT file_id FROM tags WHERE tag = ? OR substr(tag, 1, ?) = ?');
+  return [...new Set(tags.flatMap((tag) => stmt.all(tag, tag.length + 1, `${tag}/`).map((r) => r.file_id)))];
+}
+
+/** Files with one of `values` in the category. */
+function fileIdsWithValues(db, categoryId, values) {
+  const list = values.map(() => '?').join(', ');
+  return db.prepare(`SELECT DISTINCT file_id FROM category_values WHERE category_id = ? AND value IN (${list})`)
+    .all(categoryId, ...values).map((r) => r.file_id);
+}
+
+/**
+ * Run `edit` in a transaction and journal what it changed on `fileIds` under `label`.
+ * With `removesFiles`, files the edit removes are journaled whole so undo can restore them.
+ * Recording an edit drops the undone ones, which can no longer be redone.
+ */
+function journaled(label, fileIds, edit, { removesFiles = false } = {}) {
+  const db = getDB();
+  const snapshot = fileSnapshotter(db, { withRow: removesFiles });
+
+  return db.transaction(() => {
+    const before = new Map(fileIds.map((id) => [id, snapshot(id)]));
+    const result = edit();
+
+    const changes = [];
+    for (const [fileId, previous] of before) {
+      const current = snapshot(fileId);
+      if (previous && !current && removesFiles) {
+        changes.push({ fileId, before: previous, after: { removed: true } });
+        continue;
+      }
+      if (!previous || !current) continue;
+      const change = { fileId, before: {}, after: {} };
+      for (const part of JOURNALED_PARTS) {
+        if (JSON.stringify(previous[part]) === JSON.stringify(current[part])) continue;
+        change.before[part] = previous[part];
+        change.after[part] = current[part];
+      }
+      if (Object.keys(change.before).length > 0) changes.push(change);
+    }
+
+    if (changes.length > 0) {
+      db.prepare('DELETE FROM edit_journal WHERE undone_at IS NOT NULL').run();
+      const { lastInsertRowid } = db.prepare(
+        'INSERT INTO edit_journal (label, file_count, changes_json, created_at) VALUES (?, ?, ?, ?)'
+      ).run(label, changes.length, JSON.stringify(changes), Date.now());
+      db.prepare('DELETE FROM edit_journal WHERE id <= ?').run(Number(lastInsertRowid) - EDIT_JOURNAL_LIMIT);
+    }
+    return result;
+  })();
+}
+
+/** Whether a removed file's row can go back: its folder is still known and nothing took its path. */
+function canReinsertFile(db, row) {
+  if (row.directory_id && !db.prepare('SELECT 1 FROM directories WHERE id = ?').get(row.directory_id)) return false;
+  return !db.prepare('SELECT 1 FROM files WHERE directory_id IS ? AND relative_path = ?').get(row.directory_id, row.relative_path);
+}
+
+/** Put back the journaled parts of a file, re-adding or removing the file itself when the state says so. */
+function restoreFile(db, fileId, state) {
+  if (state.removed) {
+    db.prepare('DELETE FROM files WHERE id = ?').run(fileId);
+    return;
+  }
+  if (state.row) {
+    const columns = Object.keys(state.row);
+    db.prepare(`INSERT INTO files (${columns.join(', ')}) VALUES (${columns.map(() => '?').join(', ')})`)
+      .run(...columns.map((c) => state.row[c]));
+  }
+  if ('tags' in state) {
+    db.prepare('DELETE FROM tags WHERE file_id = ?').run(fileId);
+    const insert = db.prepare('INSERT INTO tags (file_id, tag, source, assigned_at) VALUES (?, ?, ?, ?)');
+    for (const t of state.tags) insert.run(fileId, t.tag, t.source, t.assigned_at);
+  }
+  if ('categories' in state) {
+    db.prepare('DELETE FROM category_values WHERE file_id = ?').run(fileId);
+    const insert = db.prepare(`
+      INSERT INTO category_values (file_id, category_id, value, confidence, evidence, source, assigned_at)
+      VALUES (?, ?, ?, ?, ?, ?, ?)
+    `);
+    for (const c of state.categories) {
+      insert.run(fileId, c.category_id, c.value, c.confidence, c.evidence, c.source, c.assigned_at);
+    }
+  }
+  if ('metadata' in state) db.prepare('UPDATE files SET metadata_json = ? WHERE id = ?').run(state.metadata, fileId);
+  if (state.collections) {
+    // Collections deleted in the meantime are not brought back
+    const insert = db.prepare(`
+      INSERT OR IGNORE INTO collection_files (collection_id, file_id, position, added_at)
+      SELECT ?, ?, ?, ? WHERE EXISTS (SELECT 1 FROM collections WHERE id = ?)
+    `);
+    for (const c of state.collections) insert.run(c.collection_id, fileId, c.position, c.added_at, c.collection_id);
+  }
+}
+
+/**
+ * Undo the latest applied entry, or redo the earliest undone one. Files removed or
+ * edited outside the journal since are left alone and counted as `skipped`.
+ */
+function stepJournal(undo) {
+  const db = getDB();
+  const entry = undo
+    ? db.prepare('SELECT * FROM edit_journal WHERE undone_at IS NULL ORDER BY id DESC LIMIT 1').get()
+    : db.prepare('SELECT * FROM edit_journal WHERE undone_at IS NOT NULL ORDER BY id LIMIT 1').get();
+  if (!entry) return null;
+  const snapshot = fileSnapshotter(db);
+
+  const { restored, removed, skipped } = db.transaction(() => {
+    const result = { restored: [], removed: [], skipped: 0 };
+    for (const { fileId, before, after } of JSON.parse(entry.changes_json)) {
+      // The file must still look the way the entry left it (or, on redo, found it)
+      const expected = undo ? after : before;
+      const target = undo ? before : after;
+      const current = snapshot(fileId);
+      const matches = expected.removed
+        ? !current && canReinsertFile(db, target.row)
+        : current && JOURNALED_PARTS.filter((part) => part in expected)
+          .every((part) => JSON.stringify(current[part]) === JSON.stringify(expected[part]));
+      if (!matches) {
+        result.skipped++;
+        continue;
+      }
+      restoreFile(db, fileId, target);
+      (target.removed ? result.removed : result.restored).push(fileId);
+    }
+    db.prepare('UPDATE edit_journal SET undone_at = ? WHERE id = ?').run(undo ? Date.now() : null, entry.id);
+    return result;
+  })();
+
+  const placeholders = restored.map(() => '?').join(',');
+  const rows = restored.length > 0 ? db.prepare(`SELECT * FROM files WHERE id IN (${placeholders})`).all(restored) : [];
+  return { id: entry.id, label: entry.label, files: filesToEntries(rows), removedFileIds: removed, skipped };
+}
+
 // ── CRUD exports ──────────────────────────────────────────────────────────────
 
 exports.getAllFiles = () => {
@@ -300,22 +833,26 @@ exports.saveFile = (data) => saveFileWithStatus(data, 'confirmed');
 /** Writes a pending file and returns the canonical DB id for this row. */
 exports.savePendingFile = (data) => saveFileWithStatus(data, 'pending');
 
-exports.updateFile = (id, updates) => {
+/** `source` is recorded for tags and category values the update adds or changes. */
+exports.updateFile = (id, updates, source = 'manual') => {
   const db = getDB();
   const row = db.prepare('SELECT * FROM files WHERE id = ?').get(id);
   if (!row) return;
 
-  if (updates.tags) saveFileTags(id, updates.tags);
-  if (updates.categories) saveFileCategoryValues(id, updates.categories);
-  if (updates.metadata) {
-    let existing = {};
-    if (row.metadata_json) {
-      try { existing = JSON.parse(row.metadata_json); }
-      catch (e) { console.error(`[database] Failed to parse metadata_json for file ${id}:`, e); }
+  const edited = [updates.tags && 'tags', updates.categories && 'categories', updates.metadata && 'details'].filter(Boolean);
+  journaled(`Edit ${edited.join(' and ')} of ${row.name}`, [id], () => {
+    if (updates.tags) saveFileTags(id, updates.tags, source);
+    if (updates.categories) saveFileCategoryValues(id, updates.categories, undefined, source);
+    if (updates.metadata) {
+      let existing = {};
+      if (row.metadata_json) {
+        try { existing = JSON.parse(row.metadata_json); }
+        catch (e) { console.error(`[database] Failed to parse metadata_json for file ${id}:`, e); }
+      }
+      const merged = { ...existing, ...updates.metadata };
+      db.prepare('UPDATE files SET metadata_json = ? WHERE id = ?').run(JSON.stringify(merged), id);
     }
-    const merged = { ...existing, ...updates.metadata };
-    db.prepare('UPDATE files SET metadata_json = ? WHERE id = ?').run(JSON.stringify(merged), id);
-  }
+  });
 };
 
 exports.deleteFile = (id) => {
@@ -346,6 +883,307 @@ exports.cancelPendingFiles = (sessionIds) => {
   }
 };
 
+// ── Full-text search ──────────────────────────────────────────────────────────
+
+const SEARCH_FIELDS = ['name', 'path', 'tags', 'categories', 'header'];
+// bm25 weights, in SEARCH_FIELDS order: a hit in the name outranks one buried in a header
+const SEARCH_WEIGHTS = [10, 4, 6, 5, 1];
+// Marks around matched terms in highlights; must match src/utils/searchHighlight.ts
+const HIGHLIGHT_START = '\u0002';
+const HIGHLIGHT_END = '\u0003';
+
+/**
+ * Turn free text into an FTS5 query: every word must match, as a prefix so results
+ * appear while typing. Words are quoted so FTS syntax characters are taken literally.
+ */
+function toFtsQuery(text) {
+  const words = text.toLowerCase().match(/[\p{L}\p{N}]+/gu) || [];
+  return words.map((w) => `"${w}"*`).join(' ');
+}
+
+/**
+ * Ranked full-text search over confirmed files. Returns [{ id, rank, highlights }],
+ * best match first, where highlights holds only the fields that matched.
+ */
+exports.searchFiles = (text) => {
+  const query = toFtsQuery(text);
+  if (!query) return [];
+  const db = getDB();
+  const highlightCols = SEARCH_FIELDS.map((field, i) =>
+    field === 'header'
+      ? `snippet(files_fts, ${i}, '${HIGHLIGHT_START}', '${HIGHLIGHT_END}', '…', 8) AS ${field}`
+      : `highlight(files_fts, ${i}, '${HIGHLIGHT_START}', '${HIGHLIGHT_END}') AS ${field}`
+  ).join(', ');
+  const rows = db.prepare(`
+    SELECT f.id, bm25(files_fts, ${SEARCH_WEIGHTS.join(', ')}) AS rank, ${highlightCols}
+    FROM files_fts JOIN files f ON f.rowid = files_fts.rowid
+    WHERE files_fts MATCH ? AND f.import_status = 'confirmed'
+    ORDER BY rank
+  `).all(query);
+
+  return rows.map((row) => {
+    const highlights = {};
+    for (const field of SEARCH_FIELDS) {
+      if (row[field] && row[field].includes(HIGHLIGHT_START)) highlights[field] = row[field];
+    }
+    return { id: row.id, rank: row.rank, highlights };
+  });
+};
+
+// ── Import sessions ───────────────────────────────────────────────────────────
+
+/**
+ * Persist the file list of an import before processing starts. Files staged with
+ * this session's id count as done, so an interrupted import can resume from there.
+ */
+exports.createImportSession = ({ id, directoryId, fileInfos }) => {
+  const db = getDB();
+  // Browser File handles can't be persisted; only the path fields are needed to resume
+  const infos = fileInfos.map(({ relativePath, fullPath, sizeBytes, lastModified }) => (
+    { relativePath, fullPath, sizeBytes, lastModified }
+  ));
+  db.prepare(`
+    INSERT INTO import_sessions (id, directory_id, status, file_infos_json, total, started_at)
+    VALUES (?, ?, 'processing', ?, ?, ?)
+  `).run(id, directoryId || null, JSON.stringify(infos), infos.length, Date.now());
+};
+
+exports.setImportSessionStatus = (id, status) => {
+  const db = getDB();
+  db.prepare('UPDATE import_sessions SET status = ? WHERE id = ?').run(status, id);
+};
+
+/**
+ * The most recent session that was never confirmed or cancelled, or null.
+ * `remaining` lists the files not yet staged (only those with a path can be re-read).
+ */
+exports.getInterruptedImportSession = () => {
+  const db = getDB();
+  const row = db.prepare('SELECT * FROM import_sessions ORDER BY started_at DESC LIMIT 1').get();
+  if (!row) return null;
+
+  const stagedPaths = new Set(
+    db.prepare('SELECT relative_path FROM files WHERE import_session_id = ?').all(row.id).map((r) => r.relative_path)
+  );
+  let fileInfos = [];
+  try { fileInfos = JSON.parse(row.file_infos_json); }
+  catch (e) { console.error(`[database] Failed to parse file list for import session ${row.id}:`, e); }
+
+  return {
+    id: row.id,
+    directoryId: row.directory_id,
+    status: row.status,
+    total: row.total,
+    staged: stagedPaths.size,
+    startedAt: row.started_at,
+    remaining: fileInfos.filter((info) => info.fullPath && !stagedPaths.has(info.relativePath)),
+  };
+};
+
+/** Pending rows staged by a session, for reopening the review panel. */
+exports.getImportSessionFiles = (id) => {
+  const db = getDB();
+  const rows = db.prepare(
+    "SELECT * FROM files WHERE import_session_id = ? AND import_status = 'pending' ORDER BY imported_at"
+  ).all(id);
+  return filesToEntries(rows);
+};
+
+/**
+ * Close a session. When discarding, its still-pending rows are deleted; otherwise
+ * (after confirming) rows are just unlinked from it.
+ */
+exports.endImportSession = (id, discard) => {
+  const db = getDB();
+  db.transaction(() => {
+    if (discard) {
+      db.prepare("DELETE FROM files WHERE import_session_id = ? AND import_status = 'pending'").run(id);
+    }
+    db.prepare('UPDATE files SET import_session_id = NULL WHERE import_session_id = ?').run(id);
+    db.prepare('DELETE FROM import_sessions WHERE id = ?').run(id);
+  })();
+};
+
+/**
+ * Whether an import into the directory is running or waiting to be resumed or reviewed.
+ * Folder sync leaves such directories alone, so new files go through the import review.
+ */
+exports.hasOpenImportSession = (directoryId) => {
+  const db = getDB();
+  return !!db.prepare('SELECT 1 FROM import_sessions WHERE directory_id = ? LIMIT 1').get(directoryId);
+};
+
+// ── Folder sync ───────────────────────────────────────────────────────────────
+
+/** Rows needed to diff a directory scan against the library (no tags/categories). */
+exports.getDirectoryFileIndex = (directoryId) => {
+  const db = getDB();
+  return db.prepare(
+    'SELECT id, relative_path, size_bytes, last_modified, missing_at, content_hash FROM files WHERE directory_id = ?'
+  ).all(directoryId).map((r) => ({
+    id: r.id,
+    relativePath: r.relative_path,
+    sizeBytes: r.size_bytes,
+    lastModified: r.last_modified,
+    missingAt: r.missing_at,
+    contentHash: r.content_hash,
+  }));
+};
+
+/** Location and missing flag of every confirmed file, for the library health check. */
+exports.getFileLocations = () => {
+  const db = getDB();
+  return db.prepare(
+    "SELECT id, directory_id, full_path, missing_at FROM files WHERE import_status = 'confirmed'"
+  ).all().map((r) => ({
+    id: r.id,
+    directoryId: r.directory_id,
+    fullPath: r.full_path,
+    missingAt: r.missing_at,
+  }));
+};
+
+/** Flag files whose path disappeared from disk. Already-flagged rows keep their original timestamp. */
+exports.markFilesMissing = (ids) => {
+  const db = getDB();
+  const stmt = db.prepare('UPDATE files SET missing_at = ? WHERE id = ? AND missing_at IS NULL');
+  const now = Date.now();
+  db.transaction(() => { for (const id of ids) stmt.run(now, id); })();
+};
+
+/**
+ * Point existing rows at the paths their files were moved/renamed to, keeping the
+ * row id (and with it every tag and category value). Clears any missing flag.
+ * moves: [{ fileId, toPath, fullPath, name, lastModified }]
+ */
+exports.relinkFiles = (moves) => {
+  const db = getDB();
+  const stmt = db.prepare(`
+    UPDATE files SET relative_path = ?, full_path = ?, name = ?, original_filename = ?,
+      metadata_json = CASE WHEN json_valid(metadata_json)
+        THEN json_set(metadata_json, '$.originalFilename', ?) ELSE metadata_json END,
+      last_modified = ?, missing_at = NULL
+    WHERE id = ?
+  `);
+  db.transaction(() => {
+    for (const m of moves) {
+      const fileName = m.toPath.split('/').pop();
+      stmt.run(m.toPath, m.fullPath, m.name, fileName, fileName, m.lastModified ?? null, m.fileId);
+    }
+  })();
+};
+
+exports.clearFilesMissing = (ids) => {
+  const db = getDB();
+  const stmt = db.prepare('UPDATE files SET missing_at = NULL WHERE id = ?');
+  db.transaction(() => { for (const id of ids) stmt.run(id); })();
+};
+
+/**
+ * Lay fresh geometry from a re-index over the stored metadata, so fields edited in the
+ * app survive. A weight recalculated for this file's print settings keeps its ratio to
+ * the volume instead of falling back to the global settings.
+ */
+function mergeIndexedMetadata(fileId, storedJson, metadata) {
+  if (!metadata) return storedJson;
+  let stored = {};
+  if (storedJson) {
+    try { stored = JSON.parse(storedJson); }
+    catch (e) { console.error(`[database] Failed to parse metadata_json for file ${fileId}:`, e); }
+  }
+  const merged = { ...stored, ...metadata };
+  const before = stored.printEstimate;
+  const after = metadata.printEstimate;
+  if (before?.estimatedGrams != null && before.volumeCm3 && after?.volumeCm3 != null) {
+    const estimatedGrams = +(before.estimatedGrams * (after.volumeCm3 / before.volumeCm3)).toFixed(1);
+    merged.printEstimate = { ...after, estimatedGrams };
+  }
+  return JSON.stringify(merged);
+}
+
+/**
+ * Write a file found by folder watching. New paths are inserted as confirmed with their
+ * auto-classified categories; existing rows get fresh geometry/thumbnail/size but keep
+ * their id, import status, tags, categories and edited metadata. Clears any missing flag.
+ * Returns { id, isNew } with the canonical row id.
+ */
+exports.saveIndexedFile = (data) => {
+  const db = getDB();
+  const existing = db.prepare(
+    'SELECT id, metadata_json FROM files WHERE directory_id = ? AND relative_path = ?'
+  ).get(data.directoryId || null, data.relativePath || '');
+  const lastModified = data.lastModified || data.metadata?.lastModified || null;
+
+  if (existing) {
+    const metadataJson = mergeIndexedMetadata(existing.id, existing.metadata_json, data.metadata);
+    db.prepare(`
+      UPDATE files SET
+        full_path = ?, size_bytes = ?, size_display = ?, thumbnail = ?,
+        last_modified = ?, metadata_json = ?, content_hash = ?, geometry_fingerprint = ?,
+        missing_at = NULL
+      WHERE id = ?
+    `).run(
+      data.fullPath || null, data.sizeBytes || 0, data.size || '0 MB', data.thumbnail || null,
+      lastModified, metadataJson, data.contentHash || null, data.geometryFingerprint || null,
+      existing.id
+    );
+    return { id: existing.id, isNew: false };
+  }
+
+  db.transaction(() => saveFileWithStatus(data, 'confirmed'))();
+  return { id: data.id, isNew: true };
+};
+
+// ── Duplicates ────────────────────────────────────────────────────────────────
+
+/** Confirmed, present files that predate content hashing. */
+exports.getUnhashedFiles = () => {
+  const db = getDB();
+  return db.prepare(`
+    SELECT id, full_path FROM files
+    WHERE content_hash IS NULL AND full_path IS NOT NULL
+      AND missing_at IS NULL AND import_status = 'confirmed'
+  `).all().map((r) => ({ id: r.id, fullPath: r.full_path }));
+};
+
+exports.setContentHashes = (entries) => {
+  const db = getDB();
+  const stmt = db.prepare('UPDATE files SET content_hash = ? WHERE id = ?');
+  db.transaction(() => { for (const { id, contentHash } of entries) stmt.run(contentHash, id); })();
+};
+
+/**
+ * Collapse duplicates onto one row in a single transaction: the keeper gains the
+ * union of all tags and any category it has no value for, then the other rows are
+ * deleted (tags/categories cascade). Undo puts the copies back. Returns the updated keeper entry.
+ */
+exports.mergeDuplicates = (keepId, removeIds) => {
+  const db = getDB();
+  const others = removeIds.filter((id) => id !== keepId);
+  const insertTag = db.prepare(`
+    INSERT OR IGNORE INTO tags (file_id, tag, source, assigned_at)
+    SELECT ?, tag, source, assigned_at FROM tags WHERE file_id = ?
+  `);
+  // INSERT OR IGNORE keeps the keeper's own value when both rows set a category
+  const insertCategories = db.prepare(`
+    INSERT OR IGNORE INTO category_values (file_id, category_id, value, confidence, evidence, source, assigned_at)
+    SELECT ?, category_id, value, confidence, evidence, source, assigned_at FROM category_values WHERE file_id = ?
+  `);
+  const deleteFile = db.prepare('DELETE FROM files WHERE id = ?');
+  const keptName = db.prepare('SELECT name FROM files WHERE id = ?').get(keepId)?.name ?? keepId;
+
+  journaled(`Merge duplicates into ${keptName}`, [keepId, ...others], () => {
+    for (const id of others) {
+      insertTag.run(keepId, id);
+      insertCategories.run(keepId, id);
+      deleteFile.run(id);
+    }
+  }, { removesFiles: true });
+
+  const row = db.prepare('SELECT * FROM files WHERE id = ?').get(keepId);
+  return row ? filesToEntries([row])[0] : null;
+};
+
 // ── Category-specific CRUD ────────────────────────────────────────────────────
 
 exports.getCategoryValues = (fileId) => {
@@ -362,34 +1200,587 @@ exports.setCategoryValues = (fileId, valuesObj) => {
 
 exports.bulkSetCategoryValue = (fileIds, categoryId, value) => {
   const db = getDB();
-  const stmt = db.prepare('INSERT OR REPLACE INTO category_values (file_id, category_id, value) VALUES (?, ?, ?)');
-  db.transaction(() => { for (const fileId of fileIds) stmt.run(fileId, categoryId, value); })();
+  const stmt = db.prepare(SET_CATEGORY_VALUE_SQL);
+  const now = Date.now();
+  journaled(`Set ${categoryLabel(db, categoryId)}: ${value}`, fileIds, () => {
+    for (const fileId of fileIds) stmt.run(fileId, categoryId, value, 'bulk', now);
+  });
 };
 
+/** Store the categories of reviewed imports; values changed during review count as set by hand. */
 exports.bulkSetCategoryValues = (entries) => {
   const db = getDB();
-  const stmt = db.prepare('INSERT OR REPLACE INTO category_values (file_id, category_id, value) VALUES (?, ?, ?)');
+  const stmt = db.prepare(SET_CATEGORY_VALUE_SQL);
+  const now = Date.now();
   db.transaction(() => {
     for (const { fileId, categories } of entries) {
       for (const [catId, value] of Object.entries(categories)) {
-        if (value != null && value !== '') stmt.run(fileId, catId, value);
+        if (value != null && value !== '') stmt.run(fileId, catId, value, 'manual', now);
       }
     }
   })();
 };
 
-// ── Directory CRUD ────────────────────────────────────────────────────────────
+/**
+ * Replace every category value of each file in one transaction; missing keys are cleared.
+ * Entries with `classification` store it as the values' evidence (see saveFileCategoryValues);
+ * changed values without evidence are recorded with the entry's `source`.
+ */
+exports.bulkReplaceCategoryValues = (entries) => {
+  journaled('Re-classify', entries.map((e) => e.fileId), () => {
+    for (const { fileId, categories, classification, source } of entries) {
+      saveFileCategoryValues(fileId, categories, classification, source);
+    }
+  });
+};
 
-exports.getAllDirectories = () => {
+// ── Bulk edits ────────────────────────────────────────────────────────────────
+// Each runs in one journaled transaction over the selected files; values they set are recorded as 'bulk'.
+
+/** Add tags to every file; tags a file already carries keep their provenance. */
+exports.bulkAddTags = (fileIds, tags) => {
   const db = getDB();
-  const rows = db.prepare('SELECT * FROM directories ORDER BY added_at DESC').all();
+  const stmt = db.prepare('INSERT OR IGNORE INTO tags (file_id, tag, source, assigned_at) VALUES (?, ?, ?, ?)');
+  const now = Date.now();
+  journaled(`Add tags: ${tags.join(', ')}`, fileIds, () => {
+    for (const fileId of fileIds) {
+      for (const tag of tags) stmt.run(fileId, tag, 'bulk', now);
+    }
+  });
+};
+
+/** Remove tags, and the paths below them, from every file. */
+exports.bulkRemoveTags = (fileIds, tags) => {
+  const db = getDB();
+  const stmt = db.prepare('DELETE FROM tags WHERE file_id = ? AND (tag = ? OR substr(tag, 1, ?) = ?)');
+  journaled(`Remove tags: ${tags.join(', ')}`, fileIds, () => {
+    for (const fileId of fileIds) {
+      for (const tag of tags) stmt.run(fileId, tag, tag.length + 1, `${tag}/`);
+    }
+  });
+};
+
+exports.bulkClearCategoryValue = (fileIds, categoryId) => {
+  const db = getDB();
+  const stmt = db.prepare('DELETE FROM category_values WHERE file_id = ? AND category_id = ?');
+  journaled(`Clear ${categoryLabel(db, categoryId)}`, fileIds, () => {
+    for (const fileId of fileIds) stmt.run(fileId, categoryId);
+  });
+};
+
+/** Set `to` on the files whose value is `from`; the others are left alone. */
+exports.bulkReplaceCategoryValue = (fileIds, categoryId, from, to) => {
+  const db = getDB();
+  const stmt = db.prepare(`
+    UPDATE category_values SET value = ?, confidence = NULL, evidence = NULL, source = 'bulk', assigned_at = ?
+    WHERE file_id = ? AND category_id = ? AND value = ?
+  `);
+  const now = Date.now();
+  journaled(`Replace ${categoryLabel(db, categoryId)}: ${from} → ${to}`, fileIds, () => {
+    for (const fileId of fileIds) stmt.run(to, now, fileId, categoryId, from);
+  });
+};
+
+/** Remove files from the library, with their tags, values and collection memberships. Files on disk are untouched. */
+exports.deleteFiles = (fileIds) => {
+  const db = getDB();
+  const stmt = db.prepare('DELETE FROM files WHERE id = ?');
+  const label = fileIds.length === 1
+    ? `Remove ${db.prepare('SELECT name FROM files WHERE id = ?').get(fileIds[0])?.name ?? fileIds[0]}`
+    : `Remove ${fileIds.length} files`;
+  journaled(label, fileIds, () => {
+    for (const fileId of fileIds) stmt.run(fileId);
+  }, { removesFiles: true });
+};
+
+// ── Undo history ──────────────────────────────────────────────────────────────
+
+/** Journal entries, newest first, without their per-file changes. */
+exports.getEditHistory = () => {
+  const db = getDB();
+  return db.prepare('SELECT id, label, file_count, created_at, undone_at FROM edit_journal ORDER BY id DESC').all()
+    .map((r) => ({
+      id: r.id,
+      label: r.label,
+      fileCount: r.file_count,
+      createdAt: r.created_at,
+      undone: r.undone_at != null,
+    }));
+};
+
+/** Restore the files changed by the latest edit to how they were before it; null when there is nothing to undo. */
+exports.undoEdit = () => stepJournal(true);
+
+/** Re-apply the earliest undone edit; null when there is nothing to redo. */
+exports.redoEdit = () => stepJournal(false);
+
+// ── Saved searches ────────────────────────────────────────────────────────────
+
+exports.getSavedSearches = () => {
+  const db = getDB();
+  const rows = db.prepare('SELECT * FROM saved_searches ORDER BY created_at').all();
   return rows.map((r) => ({
+    id: r.id,
+    name: r.name,
+    filters: JSON.parse(r.filters_json),
+    createdAt: r.created_at,
+  }));
+};
+
+/** Insert or update a saved search; updating keeps its position in the list. */
+exports.saveSavedSearch = (data) => {
+  const db = getDB();
+  db.prepare(`
+    INSERT INTO saved_searches (id, name, filters_json, created_at)
+    VALUES (?, ?, ?, ?)
+    ON CONFLICT(id) DO UPDATE SET
+      name = excluded.name,
+      filters_json = excluded.filters_json
+  `).run(data.id, data.name, JSON.stringify(data.filters), data.createdAt || Date.now());
+};
+
+exports.deleteSavedSearch = (id) => {
+  const db = getDB();
+  db.prepare('DELETE FROM saved_searches WHERE id = ?').run(id);
+};
+
+// ── Category schema ───────────────────────────────────────────────────────────
+
+exports.getCategoryDefs = () => {
+  const db = getDB();
+  return db.prepare('SELECT * FROM categories ORDER BY position').all().map((r) => ({
+    id: r.id,
+    label: r.label,
+    position: r.position,
+    allowedValues: r.allowed_values_json ? JSON.parse(r.allowed_values_json) : null,
+  }));
+};
+
+/**
+ * Replace the whole schema with `defs` (in display order). Categories left out
+ * are deleted together with every value, rule and learned association for them;
+ * folder layouts skip their levels as {ignore}.
+ */
+exports.saveCategoryDefs = (defs) => {
+  const db = getDB();
+  const upsert = db.prepare(`
+    INSERT INTO categories (id, label, position, allowed_values_json)
+    VALUES (?, ?, ?, ?)
+    ON CONFLICT(id) DO UPDATE SET
+      label = excluded.label,
+      position = excluded.position,
+      allowed_values_json = excluded.allowed_values_json
+  `);
+  const keep = new Set(defs.map((d) => d.id));
+  const removed = db.prepare('SELECT id FROM categories').all().map((r) => r.id).filter((id) => !keep.has(id));
+  const valueFiles = db.prepare('SELECT file_id FROM category_values WHERE category_id = ?');
+  const affected = removed.flatMap((id) => valueFiles.all(id).map((r) => r.file_id));
+  const label = `Delete ${removed.length === 1 ? 'category' : 'categories'}: ${removed.map((id) => categoryLabel(db, id)).join(', ')}`;
+
+  // Undo brings back the files' values; the category itself, its rules and layout levels stay deleted
+  journaled(label, [...new Set(affected)], () => {
+    for (const id of removed) {
+      db.prepare('DELETE FROM category_values WHERE category_id = ?').run(id);
+      db.prepare('DELETE FROM learned_associations WHERE category_id = ?').run(id);
+      db.prepare('DELETE FROM classification_rules WHERE category_id = ?').run(id);
+      db.prepare('DELETE FROM categories WHERE id = ?').run(id);
+    }
+    if (removed.length > 0) {
+      const setTemplate = db.prepare('UPDATE directories SET path_template = ? WHERE id = ?');
+      for (const dir of db.prepare('SELECT id, path_template FROM directories WHERE path_template IS NOT NULL').all()) {
+        const template = dir.path_template
+          .split('/')
+          .map((part) => (removed.includes(/^\{([a-z0-9_]+)\}$/.exec(part.trim())?.[1]) ? '{ignore}' : part))
+          .join('/');
+        if (template !== dir.path_template) setTemplate.run(template, dir.id);
+      }
+    }
+    defs.forEach((d, i) => {
+      upsert.run(d.id, d.label, i, d.allowedValues ? JSON.stringify(d.allowedValues) : null);
+    });
+  });
+};
+
+// ── Classification rules ──────────────────────────────────────────────────────
+
+exports.getClassificationRules = () => {
+  const db = getDB();
+  return db.prepare('SELECT * FROM classification_rules ORDER BY created_at').all().map((r) => ({
+    id: r.id,
+    categoryId: r.category_id,
+    value: r.value,
+    priority: r.priority,
+    enabled: !!r.enabled,
+    keywords: JSON.parse(r.keywords_json),
+    pattern: r.pattern,
+    patternTarget: r.pattern_target,
+    minHeight: r.min_height,
+    maxHeight: r.max_height,
+    createdAt: r.created_at,
+  }));
+};
+
+/** Insert or update a rule; updating keeps its creation time (the tie-breaker between equal priorities). */
+exports.saveClassificationRule = (rule) => {
+  const db = getDB();
+  db.prepare(`
+    INSERT INTO classification_rules
+      (id, category_id, value, priority, enabled, keywords_json, pattern, pattern_target, min_height, max_height, created_at)
+    VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+    ON CONFLICT(id) DO UPDATE SET
+      category_id = excluded.category_id,
+      value = excluded.value,
+      priority = excluded.priority,
+      enabled = excluded.enabled,
+      keywords_json = excluded.keywords_json,
+      pattern = excluded.pattern,
+      pattern_target = excluded.pattern_target,
+      min_height = excluded.min_height,
+      max_height = excluded.max_height
+  `).run(
+    rule.id,
+    rule.categoryId,
+    rule.value,
+    rule.priority,
+    rule.enabled ? 1 : 0,
+    JSON.stringify(rule.keywords || []),
+    rule.pattern || null,
+    rule.patternTarget || 'filename',
+    rule.minHeight ?? null,
+    rule.maxHeight ?? null,
+    rule.createdAt || Date.now()
+  );
+};
+
+exports.deleteClassificationRule = (id) => {
+  const db = getDB();
+  db.prepare('DELETE FROM classification_rules WHERE id = ?').run(id);
+};
+
+// ── Learned associations ──────────────────────────────────────────────────────
+
+exports.getLearnedAssociations = () => {
+  const db = getDB();
+  return db.prepare('SELECT * FROM learned_associations').all().map((r) => ({
+    feature: r.feature,
+    categoryId: r.category_id,
+    value: r.value,
+    count: r.count,
+    updatedAt: r.updated_at,
+  }));
+};
+
+/**
+ * Count corrections against the features of the corrected files. One call is one
+ * edit, so a value given to many files at once counts once per feature, not once per file.
+ */
+exports.recordCorrections = (corrections) => {
+  const db = getDB();
+  const now = Date.now();
+  const stmt = db.prepare(`
+    INSERT INTO learned_associations (feature, category_id, value, count, updated_at)
+    VALUES (?, ?, ?, 1, ?)
+    ON CONFLICT(feature, category_id, value) DO UPDATE SET
+      count = count + 1,
+      updated_at = excluded.updated_at
+  `);
+  const counted = new Set();
+  db.transaction(() => {
+    for (const { features, categoryId, value } of corrections) {
+      for (const feature of features) {
+        const key = JSON.stringify([feature, categoryId, value]);
+        if (counted.has(key)) continue;
+        counted.add(key);
+        stmt.run(feature, categoryId, value, now);
+      }
+    }
+  })();
+};
+
+// ── Tag aliases ───────────────────────────────────────────────────────────────
+
+exports.getTagAliases = () => {
+  const db = getDB();
+  return db.prepare('SELECT * FROM tag_aliases ORDER BY alias').all().map((r) => ({
+    alias: r.alias,
+    tag: r.tag,
+    createdAt: r.created_at,
+  }));
+};
+
+/**
+ * Save an alias and retag files already carrying it, or a path below it, with the
+ * canonical tag in one transaction. Retagged tags keep their provenance.
+ * Returns how many tags were rewritten.
+ */
+exports.saveTagAlias = ({ alias, tag }) => {
+  const db = getDB();
+  const rows = db.prepare(`
+    SELECT file_id, tag, source, assigned_at FROM tags
+    WHERE lower(tag) = ? OR substr(lower(tag), 1, ?) = ?
+  `);
+  const insertTag = db.prepare('INSERT OR IGNORE INTO tags (file_id, tag, source, assigned_at) VALUES (?, ?, ?, ?)');
+  const deleteTag = db.prepare('DELETE FROM tags WHERE file_id = ? AND tag = ?');
+  const matches = rows.all(alias, alias.length + 1, `${alias}/`);
+
+  // Undo restores the retagged files; the alias itself stays until deleted
+  return journaled(`Alias ${alias} → ${tag}`, [...new Set(matches.map((r) => r.file_id))], () => {
+    db.prepare(`
+      INSERT INTO tag_aliases (alias, tag, created_at) VALUES (?, ?, ?)
+      ON CONFLICT(alias) DO UPDATE SET tag = excluded.tag
+    `).run(alias, tag, Date.now());
+    let rewritten = 0;
+    for (const row of matches) {
+      const retagged = tag + row.tag.slice(alias.length);
+      if (retagged === row.tag) continue;
+      deleteTag.run(row.file_id, row.tag);
+      insertTag.run(row.file_id, retagged, row.source, row.assigned_at);
+      rewritten++;
+    }
+    return rewritten;
+  });
+};
+
+exports.deleteTagAlias = (alias) => {
+  const db = getDB();
+  db.prepare('DELETE FROM tag_aliases WHERE alias = ?').run(alias);
+};
+
+// ── Tag and value management ──────────────────────────────────────────────────
+
+const isTagWithin = (tag, parent) => tag === parent || tag.startsWith(`${parent}/`);
+
+/**
+ * The source in `from` that `tag` is, or lies below; the longest wins. Null when the
+ * tag is already at or below `to` and only an ancestor of `to` contains it.
+ */
+function renamedPrefix(tag, from, to) {
+  let best = null;
+  for (const f of from) {
+    if (isTagWithin(tag, f) && (best == null || f.length > best.length)) best = f;
+  }
+  if (best != null && isTagWithin(tag, to) && !isTagWithin(best, to)) return null;
+  return best;
+}
+
+/**
+ * Rename the tags in `from`, and every path below them, to `to` in one transaction.
+ * Several sources merge into one; a file that already carries the new tag keeps its
+ * own provenance. Aliases pointing at a renamed tag follow it. Tags already at or
+ * below `to` stay put, so renaming `a` to `a/b` leaves `a/b` alone.
+ */
+exports.renameTags = (from, to) => {
+  const db = getDB();
+  const insertTag = db.prepare('INSERT OR IGNORE INTO tags (file_id, tag, source, assigned_at) VALUES (?, ?, ?, ?)');
+  const deleteTag = db.prepare('DELETE FROM tags WHERE file_id = ? AND tag = ?');
+  const updateAlias = db.prepare('UPDATE tag_aliases SET tag = ? WHERE alias = ?');
+  const label = from.length > 1 ? `Merge tags: ${from.join(', ')} → ${to}` : `Rename tag: ${from[0]} → ${to}`;
+
+  journaled(label, fileIdsWithTags(db, from), () => {
+    for (const row of db.prepare('SELECT file_id, tag, source, assigned_at FROM tags').all()) {
+      const prefix = renamedPrefix(row.tag, from, to);
+      if (prefix == null) continue;
+      const renamed = to + row.tag.slice(prefix.length);
+      if (renamed === row.tag) continue;
+      deleteTag.run(row.file_id, row.tag);
+      insertTag.run(row.file_id, renamed, row.source, row.assigned_at);
+    }
+    for (const row of db.prepare('SELECT alias, tag FROM tag_aliases').all()) {
+      const prefix = renamedPrefix(row.tag, from, to);
+      if (prefix != null) updateAlias.run(to + row.tag.slice(prefix.length), row.alias);
+    }
+  });
+};
+
+/** Remove the given tags, and every path below them, from all files. */
+exports.deleteTags = (tags) => {
+  const db = getDB();
+  const stmt = db.prepare('DELETE FROM tags WHERE tag = ? OR substr(tag, 1, ?) = ?');
+  journaled(`Delete tags: ${tags.join(', ')}`, fileIdsWithTags(db, tags), () => {
+    for (const tag of tags) stmt.run(tag, tag.length + 1, `${tag}/`);
+  });
+};
+
+/**
+ * Rewrite a category's allowed-value list: `from` values become `to`, or are
+ * dropped when `to` is null. Free-text categories are left alone.
+ */
+function renameAllowedValues(db, categoryId, from, to) {
+  const row = db.prepare('SELECT allowed_values_json FROM categories WHERE id = ?').get(categoryId);
+  if (!row?.allowed_values_json) return;
+  const values = JSON.parse(row.allowed_values_json).flatMap((v) => (from.includes(v) ? (to == null ? [] : [to]) : [v]));
+  if (to != null && !values.includes(to)) values.push(to);
+  db.prepare('UPDATE categories SET allowed_values_json = ? WHERE id = ?').run(JSON.stringify([...new Set(values)]), categoryId);
+}
+
+/**
+ * Rename or merge values of one category into `to` in one transaction. Files keep
+ * the evidence and provenance of their value; classification rules setting an old
+ * value set the new one, and learned associations are merged into it.
+ */
+exports.renameCategoryValues = (categoryId, from, to) => {
+  const db = getDB();
+  const sources = from.filter((v) => v !== to);
+  if (sources.length === 0) return;
+  const list = sources.map(() => '?').join(', ');
+  const verb = sources.length > 1 ? 'Merge' : 'Rename';
+
+  journaled(`${verb} ${categoryLabel(db, categoryId)}: ${sources.join(', ')} → ${to}`, fileIdsWithValues(db, categoryId, sources), () => {
+    db.prepare(`UPDATE category_values SET value = ? WHERE category_id = ? AND value IN (${list})`)
+      .run(to, categoryId, ...sources);
+    db.prepare(`UPDATE classification_rules SET value = ? WHERE category_id = ? AND value IN (${list})`)
+      .run(to, categoryId, ...sources);
+    db.prepare(`
+      INSERT INTO learned_associations (feature, category_id, value, count, updated_at)
+      SELECT feature, category_id, ?, SUM(count), MAX(updated_at) FROM learned_associations
+      WHERE category_id = ? AND value IN (${list})
+      GROUP BY feature
+      ON CONFLICT(feature, category_id, value) DO UPDATE SET
+        count = count + excluded.count,
+        updated_at = max(updated_at, excluded.updated_at)
+    `).run(to, categoryId, ...sources);
+    db.prepare(`DELETE FROM learned_associations WHERE category_id = ? AND value IN (${list})`)
+      .run(categoryId, ...sources);
+    renameAllowedValues(db, categoryId, sources, to);
+  });
+};
+
+/** Clear the given values of one category from every file, its allowed values and learned associations. */
+exports.deleteCategoryValues = (categoryId, values) => {
+  const db = getDB();
+  if (values.length === 0) return;
+  const list = values.map(() => '?').join(', ');
+  journaled(`Delete ${categoryLabel(db, categoryId)}: ${values.join(', ')}`, fileIdsWithValues(db, categoryId, values), () => {
+    db.prepare(`DELETE FROM category_values WHERE category_id = ? AND value IN (${list})`).run(categoryId, ...values);
+    db.prepare(`DELETE FROM learned_associations WHERE category_id = ? AND value IN (${list})`).run(categoryId, ...values);
+    renameAllowedValues(db, categoryId, values, null);
+  });
+};
+
+// ── Collections ───────────────────────────────────────────────────────────────
+
+/** Every collection with its member file ids in playlist order. */
+exports.getCollections = () => {
+  const db = getDB();
+  const collections = db.prepare('SELECT * FROM collections ORDER BY created_at').all();
+  const members = db.prepare(`
+    SELECT cf.collection_id, cf.file_id FROM collection_files cf
+    JOIN files f ON f.id = cf.file_id
+    WHERE f.import_status = 'confirmed'
+    ORDER BY cf.collection_id, cf.position
+  `).all();
+
+  const fileIdsByCollection = new Map(collections.map((c) => [c.id, []]));
+  for (const m of members) fileIdsByCollection.get(m.collection_id)?.push(m.file_id);
+
+  return collections.map((c) => ({
+    id: c.id,
+    name: c.name,
+    createdAt: c.created_at,
+    fileIds: fileIdsByCollection.get(c.id),
+  }));
+};
+
+exports.createCollection = ({ id, name, createdAt }) => {
+  const db = getDB();
+  db.prepare('INSERT INTO collections (id, name, created_at) VALUES (?, ?, ?)').run(id, name, createdAt || Date.now());
+};
+
+exports.renameCollection = (id, name) => {
+  const db = getDB();
+  db.prepare('UPDATE collections SET name = ? WHERE id = ?').run(name, id);
+};
+
+exports.deleteCollection = (id) => {
+  const db = getDB();
+  db.prepare('DELETE FROM collections WHERE id = ?').run(id);
+};
+
+/** Append files to the end of a collection, in the given order. Files already in it keep their place. */
+exports.addToCollection = (id, fileIds) => {
+  const db = getDB();
+  const { maxPosition } = db.prepare(
+    'SELECT COALESCE(MAX(position), -1) AS maxPosition FROM collection_files WHERE collection_id = ?'
+  ).get(id);
+  const insert = db.prepare(`
+    INSERT OR IGNORE INTO collection_files (collection_id, file_id, position, added_at)
+    VALUES (?, ?, ?, ?)
+  `);
+  const now = Date.now();
+  db.transaction(() => {
+    let position = maxPosition;
+    for (const fileId of fileIds) {
+      if (insert.run(id, fileId, position + 1, now).changes > 0) position++;
+    }
+  })();
+};
+
+exports.removeFromCollection = (id, fileIds) => {
+  const db = getDB();
+  const remove = db.prepare('DELETE FROM collection_files WHERE collection_id = ? AND file_id = ?');
+  db.transaction(() => {
+    for (const fileId of fileIds) remove.run(id, fileId);
+  })();
+};
+
+/** Take files out of one collection and append them to another in one transaction. */
+exports.moveToCollection = (fromId, toId, fileIds) => {
+  const db = getDB();
+  db.transaction(() => {
+    exports.removeFromCollection(fromId, fileIds);
+    exports.addToCollection(toId, fileIds);
+  })();
+};
+
+/** Rewrite positions to match fileIds; members not listed are left at their old positions. */
+exports.reorderCollection = (id, fileIds) => {
+  const db = getDB();
+  const update = db.prepare('UPDATE collection_files SET position = ? WHERE collection_id = ? AND file_id = ?');
+  db.transaction(() => {
+    fileIds.forEach((fileId, i) => update.run(i, id, fileId));
+  })();
+};
+
+/** Members with what's needed to copy them out, in playlist order. */
+exports.getCollectionExportRows = (id) => {
+  const db = getDB();
+  const collection = db.prepare('SELECT * FROM collections WHERE id = ?').get(id);
+  if (!collection) return null;
+  const rows = db.prepare(`
+    SELECT f.id, f.name, f.relative_path, f.full_path
+    FROM collection_files cf JOIN files f ON f.id = cf.file_id
+    WHERE cf.collection_id = ? AND f.import_status = 'confirmed'
+    ORDER BY cf.position
+  `).all(id);
+  return {
+    name: collection.name,
+    files: rows.map((r) => ({
+      id: r.id,
+      name: r.name,
+      relativePath: r.relative_path,
+      fullPath: r.full_path,
+    })),
+  };
+};
+
+// ── Directory CRUD ────────────────────────────────────────────────────────────
+
+function directoryFromRow(r) {
+  return {
     id: r.id,
     name: r.name,
     path: r.path,
     addedAt: r.added_at,
     lastScannedAt: r.last_scanned_at,
-  }));
+    offlineAt: r.offline_at,
+    pathTemplate: r.path_template ?? null,
+  };
+}
+
+exports.getAllDirectories = () => {
+  const db = getDB();
+  const rows = db.prepare('SELECT * FROM directories ORDER BY added_at DESC').all();
+  return rows.map(directoryFromRow);
 };
 
 exports.saveDirectory = (data) => {
@@ -405,13 +1796,47 @@ exports.saveDirectory = (data) => {
 
   // Return the canonical row (existing id on re-import, newly inserted id on first import)
   const row = db.prepare('SELECT * FROM directories WHERE path = ?').get(data.path);
-  return {
-    id: row.id,
-    name: row.name,
-    path: row.path,
-    addedAt: row.added_at,
-    lastScannedAt: row.last_scanned_at,
-  };
+  return directoryFromRow(row);
+};
+
+/** Flag a directory root as unreachable (keeping the first timestamp), or clear the flag with null. */
+exports.setDirectoryOffline = (id, offlineAt) => {
+  const db = getDB();
+  if (offlineAt == null) {
+    db.prepare('UPDATE directories SET offline_at = NULL WHERE id = ?').run(id);
+  } else {
+    db.prepare('UPDATE directories SET offline_at = ? WHERE id = ? AND offline_at IS NULL').run(offlineAt, id);
+  }
+};
+
+/** Set a directory's folder layout template; null restores the built-in layout. */
+exports.setDirectoryPathTemplate = (id, template) => {
+  const db = getDB();
+  db.prepare('UPDATE directories SET path_template = ? WHERE id = ?').run(template || null, id);
+};
+
+/**
+ * Move a directory root to a new location (drive remounted elsewhere, folder moved)
+ * and rewrite the full_path prefix of every file under it, in one transaction.
+ * Returns the updated directory.
+ */
+exports.relocateDirectory = (id, newPath) => {
+  const db = getDB();
+  const dir = db.prepare('SELECT * FROM directories WHERE id = ?').get(id);
+  if (!dir) throw new Error(`Directory ${id} not found`);
+  const clash = db.prepare('SELECT id FROM directories WHERE path = ? AND id != ?').get(newPath, id);
+  if (clash) throw new Error(`"${newPath}" is already a library folder`);
+
+  db.transaction(() => {
+    db.prepare('UPDATE directories SET path = ?, name = ?, offline_at = NULL WHERE id = ?')
+      .run(newPath, path.basename(newPath) || newPath, id);
+    db.prepare(`
+      UPDATE files SET full_path = ? || substr(full_path, ?)
+      WHERE directory_id = ? AND substr(full_path, 1, ?) = ?
+    `).run(newPath, dir.path.length + 1, id, dir.path.length, dir.path);
+  })();
+
+  return directoryFromRow(db.prepare('SELECT * FROM directories WHERE id = ?').get(id));
 };
 
 exports.deleteDirectory = (id) => {
@@ -1,9 +1,40 @@
 const fs = require('fs');
 const path = require('path');
+const crypto = require('crypto');
+const { ARCHIVE_SEPARATOR, splitArchivePath, isArchiveFile, listEntries, readEntry } = require('./zipArchive.cjs');
+
+// Supported model extensions — keep in sync with src/utils/modelFormats.ts
+const MODEL_EXTENSIONS = ['.stl', '.3mf', '.obj', '.ply'];
+
+function isModelFile(name) {
+  return MODEL_EXTENSIONS.includes(path.extname(name).toLowerCase());
+}
+
+exports.isModelFile = isModelFile;
+
+// macOS zips carry resource-fork shadows of every file under __MACOSX/
+function isIndexableEntry(entry) {
+  return !entry.encrypted && isModelFile(entry.name) && !entry.name.startsWith('__MACOSX/');
+}
+
+/** List indexable model entries inside an archive; unreadable archives yield none. */
+async function listArchiveModels(archivePath) {
+  try {
+    return (await listEntries(archivePath)).filter(isIndexableEntry);
+  } catch (e) {
+    console.error(`[filesystem] Cannot read archive "${archivePath}":`, e.message);
+    return [];
+  }
+}
 
 /**
- * Recursively scan for .stl files, returning an array of
+ * Recursively scan for model files (STL, 3MF, OBJ, PLY), returning an array of
  * {relativePath, fullPath, sizeBytes, lastModified}
+ *
+ * Models inside .zip archives are listed as virtual entries: relativePath runs
+ * through the archive name (`Creator/Pack.zip/inner/model.stl`) and fullPath uses
+ * ARCHIVE_SEPARATOR (`/lib/Creator/Pack.zip!/inner/model.stl`) so readFile can
+ * stream the entry on demand. Virtual entries carry the archive's mtime.
  */
 exports.scanDirectory = async (rootPath) => {
   const results = [];
@@ -20,7 +51,7 @@ exports.scanDirectory = async (rootPath) => {
       const fullPath = path.join(dir, entry.name);
       const relPath = rel ? `${rel}/${entry.name}` : entry.name;
       try {
-        if (entry.isFile() && entry.name.toLowerCase().endsWith('.stl')) {
+        if (entry.isFile() && isModelFile(entry.name)) {
           const stat = await fs.promises.stat(fullPath);
           results.push({
             relativePath: relPath,
@@ -28,6 +59,16 @@ exports.scanDirectory = async (rootPath) => {
             sizeBytes: stat.size,
             lastModified: stat.mtimeMs,
           });
+        } else if (entry.isFile() && isArchiveFile(entry.name)) {
+          const stat = await fs.promises.stat(fullPath);
+          for (const inner of await listArchiveModels(fullPath)) {
+            results.push({
+              relativePath: `${relPath}/${inner.name}`,
+              fullPath: `${fullPath}${ARCHIVE_SEPARATOR}${inner.name}`,
+              sizeBytes: inner.size,
+              lastModified: stat.mtimeMs,
+            });
+          }
         } else if (entry.isDirectory()) {
           await walk(fullPath, relPath);
         }
@@ -46,10 +87,13 @@ exports.scanDirectory = async (rootPath) => {
 };
 
 /**
- * Read a file as a Buffer (transferred to renderer as ArrayBuffer-like)
+ * Read a file as a Buffer (transferred to renderer as ArrayBuffer-like).
+ * Virtual archive paths are decompressed from the containing .zip.
  */
 exports.readFile = async (filePath) => {
   try {
+    const archived = splitArchivePath(filePath);
+    if (archived) return await readEntry(archived.archivePath, archived.entryName);
     await fs.promises.access(filePath);
     return fs.promises.readFile(filePath);
   } catch (e) {
@@ -59,7 +103,46 @@ exports.readFile = async (filePath) => {
 };
 
 /**
- * Count .stl files in a directory tree without reading them
+ * Whether a path (plain or archive entry) currently exists. Used by the health check
+ * and to tell "file vanished" apart from "file unreadable" when loading fails.
+ */
+exports.pathExists = async (filePath) => {
+  try {
+    const archived = splitArchivePath(filePath);
+    if (archived) {
+      const entries = await listEntries(archived.archivePath);
+      return entries.some((e) => e.name === archived.entryName);
+    }
+    await fs.promises.access(filePath);
+    return true;
+  } catch {
+    return false;
+  }
+};
+
+/**
+ * Hex SHA-256 of a file's bytes (or of the inflated entry for archive paths).
+ * Must match hashBuffer() in src/utils/duplicates.ts. Returns null if unreadable.
+ */
+exports.hashFile = async (filePath) => {
+  try {
+    const archived = splitArchivePath(filePath);
+    if (archived) {
+      const data = await readEntry(archived.archivePath, archived.entryName);
+      return crypto.createHash('sha256').update(data).digest('hex');
+    }
+    // Stream plain files so large models aren't buffered whole
+    const hash = crypto.createHash('sha256');
+    for await (const chunk of fs.createReadStream(filePath)) hash.update(chunk);
+    return hash.digest('hex');
+  } catch (e) {
+    console.error(`[filesystem] hashFile failed for "${filePath}":`, e.message);
+    return null;
+  }
+};
+
+/**
+ * Count model files in a directory tree without reading them
  */
 exports.countSTLFiles = async (rootPath) => {
   let count = 0;
@@ -74,8 +157,10 @@ exports.countSTLFiles = async (rootPath) => {
     }
     for (const entry of entries) {
       try {
-        if (entry.isFile() && entry.name.toLowerCase().endsWith('.stl')) count++;
-        else if (entry.isDirectory()) await walk(path.join(dir, entry.name));
+        if (entry.isFile() && isModelFile(entry.name)) count++;
+        else if (entry.isFile() && isArchiveFile(entry.name)) {
+          count += (await listArchiveModels(path.join(dir, entry.name))).length;
+        } else if (entry.isDirectory()) await walk(path.join(dir, entry.name));
       } catch (e) {
         console.error(`[filesystem] Skipping entry "${entry.name}":`, e.message);
       }
@@ -0,0 +1,105 @@
+const db = require('./database.cjs');
+const { hashFile, pathExists } = require('./filesystem.cjs');
+
+/**
+ * Library-wide maintenance jobs that combine filesystem access with DB updates.
+ */
+
+/**
+ * Hash every confirmed file imported before content hashing existed, so the
+ * duplicate finder can match exact copies across the whole library.
+ * Returns [{ id, contentHash }] for the files that could be read.
+ */
+exports.computeMissingHashes = async () => {
+  const results = [];
+  for (const { id, fullPath } of db.getUnhashedFiles()) {
+    const contentHash = await hashFile(fullPath);
+    if (contentHash) results.push({ id, contentHash });
+  }
+  if (results.length > 0) db.setContentHashes(results);
+  return results;
+};
+
+/** Display name for a relative path — mirrors the naming in src/utils/processFiles.ts. */
+function displayNameFor(relativePath) {
+  const fileName = relativePath.split('/').pop() ?? relativePath;
+  return fileName.replace(/\.(stl|3mf|obj|ply)$/i, '').replace(/[_-]/g, ' ');
+}
+
+/**
+ * Match files that vanished from a directory against newly appeared ones by
+ * content hash, and relink the existing rows to the new paths so hand-entered
+ * tags and categories survive reorganising folders on disk.
+ *
+ * Only appeared files whose size matches a vanished row are hashed, so a rescan
+ * with no moves costs no extra reads. Rows imported before hashing can't be matched.
+ * Returns [{ fileId, name, fromPath, toPath, fullPath, lastModified }].
+ */
+exports.detectMoves = async (directoryId, scanned) => {
+  const rows = db.getDirectoryFileIndex(directoryId);
+  const scannedPaths = new Set(scanned.map((info) => info.relativePath));
+  const knownPaths = new Set(rows.map((r) => r.relativePath));
+
+  const vanishedByHash = new Map();
+  const vanishedSizes = new Set();
+  for (const row of rows) {
+    if (!row.contentHash || scannedPaths.has(row.relativePath)) continue;
+    const list = vanishedByHash.get(row.contentHash);
+    if (list) list.push(row);
+    else vanishedByHash.set(row.contentHash, [row]);
+    vanishedSizes.add(row.sizeBytes);
+  }
+  if (vanishedByHash.size === 0) return [];
+
+  const moves = [];
+  for (const info of scanned) {
+    if (knownPaths.has(info.relativePath) || !vanishedSizes.has(info.sizeBytes)) continue;
+    const hash = await hashFile(info.fullPath);
+    // Each vanished row can only be claimed once, even if copies of it appeared twice
+    const row = hash ? vanishedByHash.get(hash)?.shift() : undefined;
+    if (!row) continue;
+    moves.push({
+      fileId: row.id,
+      name: displayNameFor(info.relativePath),
+      fromPath: row.relativePath,
+      toPath: info.relativePath,
+      fullPath: info.fullPath,
+      lastModified: info.lastModified,
+    });
+  }
+
+  if (moves.length > 0) db.relinkFiles(moves);
+  return moves;
+};
+
+/**
+ * Verify every directory root and confirmed file path. Unreachable roots are
+ * flagged offline and their files left alone (a disconnected drive is not a
+ * deletion); files that vanished from reachable roots are flagged missing, and
+ * ones that came back are unflagged.
+ * Returns { checkedAt, directories, missingIds, restoredIds } where the id lists
+ * only contain files whose flag changed.
+ */
+exports.checkLibraryHealth = async () => {
+  const checkedAt = Date.now();
+  const offlineIds = new Set();
+  for (const directory of db.getAllDirectories()) {
+    const online = await pathExists(directory.path);
+    db.setDirectoryOffline(directory.id, online ? null : checkedAt);
+    if (!online) offlineIds.add(directory.id);
+  }
+
+  const missingIds = [];
+  const restoredIds = [];
+  for (const file of db.getFileLocations()) {
+    if (!file.fullPath || offlineIds.has(file.directoryId)) continue;
+    const exists = await pathExists(file.fullPath);
+    if (!exists && file.missingAt == null) missingIds.push(file.id);
+    else if (exists && file.missingAt != null) restoredIds.push(file.id);
+  }
+
+  if (missingIds.length > 0) db.markFilesMissing(missingIds);
+  if (restoredIds.length > 0) db.clearFilesMissing(restoredIds);
+
+  return { checkedAt, directories: db.getAllDirectories(), missingIds, restoredIds };
+};
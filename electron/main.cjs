@@ -1,7 +1,10 @@
 const { app, BrowserWindow, ipcMain, dialog } = require('electron');
 const path = require('path');
 const db = require('./database.cjs');
-const { scanDirectory, readFile, countSTLFiles } = require('./filesystem.cjs');
+const { scanDirectory, readFile, pathExists, countSTLFiles } = require('./filesystem.cjs');
+const watcher = require('./watcher.cjs');
+const maintenance = require('./libraryMaintenance.cjs');
+const { exportCollection } = require('./collectionExport.cjs');
 
 let mainWindow;
 
@@ -27,6 +30,13 @@ function createWindow() {
 
 app.whenReady().then(createWindow);
 
+/** Push an event to the renderer, ignoring windows that are gone (macOS keeps the app alive). */
+function sendToRenderer(channel, payload) {
+  if (mainWindow && !mainWindow.isDestroyed()) mainWindow.webContents.send(channel, payload);
+}
+
+app.on('before-quit', () => watcher.stopWatching());
+
 app.on('window-all-closed', () => {
   if (process.platform !== 'darwin') app.quit();
 });
@@ -38,18 +48,74 @@ app.on('activate', () => {
 // ── Database IPC handlers ──
 ipcMain.handle('db:getAllFiles', () => db.getAllFiles());
 ipcMain.handle('db:saveFile', (_, data) => db.saveFile(data));
-ipcMain.handle('db:updateFile', (_, id, updates) => db.updateFile(id, updates));
+ipcMain.handle('db:updateFile', (_, id, updates, source) => db.updateFile(id, updates, source));
 ipcMain.handle('db:deleteFile', (_, id) => db.deleteFile(id));
 ipcMain.handle('db:savePendingFile', (_, data) => db.savePendingFile(data));
 ipcMain.handle('db:confirmPendingFiles', (_, ids) => db.confirmPendingFiles(ids));
 ipcMain.handle('db:cancelPendingFiles', (_, sessionIds) => db.cancelPendingFiles(sessionIds));
+ipcMain.handle('db:createImportSession', (_, data) => db.createImportSession(data));
+ipcMain.handle('db:setImportSessionStatus', (_, id, status) => db.setImportSessionStatus(id, status));
+ipcMain.handle('db:getInterruptedImportSession', () => db.getInterruptedImportSession());
+ipcMain.handle('db:getImportSessionFiles', (_, id) => db.getImportSessionFiles(id));
+ipcMain.handle('db:endImportSession', (_, id, discard) => db.endImportSession(id, discard));
 ipcMain.handle('db:getAllDirectories', () => db.getAllDirectories());
-ipcMain.handle('db:saveDirectory', (_, data) => db.saveDirectory(data));
-ipcMain.handle('db:deleteDirectory', (_, id) => db.deleteDirectory(id));
+ipcMain.handle('db:saveDirectory', (_, data) => {
+  const directory = db.saveDirectory(data);
+  // The import that follows indexes the initial contents; only watch for later changes
+  watcher.watchDirectory(directory);
+  return directory;
+});
+ipcMain.handle('db:deleteDirectory', (_, id) => {
+  watcher.unwatchDirectory(id);
+  return db.deleteDirectory(id);
+});
+ipcMain.handle('db:relocateDirectory', (_, id, newPath) => {
+  const directory = db.relocateDirectory(id, newPath);
+  watcher.watchDirectory(directory);
+  return directory;
+});
+ipcMain.handle('db:setDirectoryPathTemplate', (_, id, template) => db.setDirectoryPathTemplate(id, template));
+ipcMain.handle('db:saveIndexedFile', (_, data) => db.saveIndexedFile(data));
+ipcMain.handle('db:searchFiles', (_, text) => db.searchFiles(text));
+ipcMain.handle('db:getSavedSearches', () => db.getSavedSearches());
+ipcMain.handle('db:saveSavedSearch', (_, data) => db.saveSavedSearch(data));
+ipcMain.handle('db:deleteSavedSearch', (_, id) => db.deleteSavedSearch(id));
+ipcMain.handle('db:getCategoryDefs', () => db.getCategoryDefs());
+ipcMain.handle('db:saveCategoryDefs', (_, defs) => db.saveCategoryDefs(defs));
+ipcMain.handle('db:getClassificationRules', () => db.getClassificationRules());
+ipcMain.handle('db:saveClassificationRule', (_, rule) => db.saveClassificationRule(rule));
+ipcMain.handle('db:deleteClassificationRule', (_, id) => db.deleteClassificationRule(id));
+ipcMain.handle('db:getLearnedAssociations', () => db.getLearnedAssociations());
+ipcMain.handle('db:recordCorrections', (_, corrections) => db.recordCorrections(corrections));
+ipcMain.handle('db:getTagAliases', () => db.getTagAliases());
+ipcMain.handle('db:saveTagAlias', (_, alias) => db.saveTagAlias(alias));
+ipcMain.handle('db:deleteTagAlias', (_, alias) => db.deleteTagAlias(alias));
+ipcMain.handle('db:renameTags', (_, from, to) => db.renameTags(from, to));
+ipcMain.handle('db:deleteTags', (_, tags) => db.deleteTags(tags));
+ipcMain.handle('db:renameCategoryValues', (_, categoryId, from, to) => db.renameCategoryValues(categoryId, from, to));
+ipcMain.handle('db:deleteCategoryValues', (_, categoryId, values) => db.deleteCategoryValues(categoryId, values));
+ipcMain.handle('db:getCollections', () => db.getCollections());
+ipcMain.handle('db:createCollection', (_, data) => db.createCollection(data));
+ipcMain.handle('db:renameCollection', (_, id, name) => db.renameCollection(id, name));
+ipcMain.handle('db:deleteCollection', (_, id) => db.deleteCollection(id));
+ipcMain.handle('db:addToCollection', (_, id, fileIds) => db.addToCollection(id, fileIds));
+ipcMain.handle('db:removeFromCollection', (_, id, fileIds) => db.removeFromCollection(id, fileIds));
+ipcMain.handle('db:moveToCollection', (_, fromId, toId, fileIds) => db.moveToCollection(fromId, toId, fileIds));
+ipcMain.handle('db:reorderCollection', (_, id, fileIds) => db.reorderCollection(id, fileIds));
+ipcMain.handle('db:mergeDuplicates', (_, keepId, removeIds) => db.mergeDuplicates(keepId, removeIds));
 ipcMain.handle('db:getCategoryValues', (_, fileId) => db.getCategoryValues(fileId));
 ipcMain.handle('db:setCategoryValues', (_, fileId, values) => db.setCategoryValues(fileId, values));
 ipcMain.handle('db:bulkSetCategoryValue', (_, fileIds, categoryId, value) => db.bulkSetCategoryValue(fileIds, categoryId, value));
 ipcMain.handle('db:bulkSetCategoryValues', (_, entries) => db.bulkSetCategoryValues(entries));
+ipcMain.handle('db:bulkReplaceCategoryValues', (_, entries) => db.bulkReplaceCategoryValues(entries));
+ipcMain.handle('db:bulkAddTags', (_, fileIds, tags) => db.bulkAddTags(fileIds, tags));
+ipcMain.handle('db:bulkRemoveTags', (_, fileIds, tags) => db.bulkRemoveTags(fileIds, tags));
+ipcMain.handle('db:bulkClearCategoryValue', (_, fileIds, categoryId) => db.bulkClearCategoryValue(fileIds, categoryId));
+ipcMain.handle('db:bulkReplaceCategoryValue', (_, fileIds, categoryId, from, to) => db.bulkReplaceCategoryValue(fileIds, categoryId, from, to));
+ipcMain.handle('db:deleteFiles', (_, fileIds) => db.deleteFiles(fileIds));
+ipcMain.handle('db:getEditHistory', () => db.getEditHistory());
+ipcMain.handle('db:undoEdit', () => db.undoEdit());
+ipcMain.handle('db:redoEdit', () => db.redoEdit());
 
 // ── Filesystem IPC handlers ──
 ipcMain.handle('dialog:openFolder', async () => {
@@ -62,4 +128,25 @@ ipcMain.handle('dialog:openFolder', async () => {
 
 ipcMain.handle('fs:scanDirectory', (_, folderPath) => scanDirectory(folderPath));
 ipcMain.handle('fs:readFile', (_, filePath) => readFile(filePath));
+ipcMain.handle('fs:pathExists', (_, filePath) => pathExists(filePath));
 ipcMain.handle('fs:countSTLFiles', (_, folderPath) => countSTLFiles(folderPath));
+
+// ── Folder watching ──
+ipcMain.handle('library:startWatching', () => {
+  watcher.startWatching((change) => sendToRenderer('library:directoryChanged', change));
+});
+
+// ── Library maintenance ──
+ipcMain.handle('library:computeMissingHashes', () => maintenance.computeMissingHashes());
+ipcMain.handle('library:checkHealth', () => maintenance.checkLibraryHealth());
+ipcMain.handle('library:detectMoves', (_, directoryId, fileInfos) => maintenance.detectMoves(directoryId, fileInfos));
+
+// ── Collections ──
+ipcMain.handle('collections:export', async (_, id) => {
+  const result = await dialog.showOpenDialog(mainWindow, {
+    title: 'Export collection to folder',
+    properties: ['openDirectory', 'createDirectory'],
+  });
+  if (result.canceled) return null;
+  return exportCollection(id, result.filePaths[0]);
+});
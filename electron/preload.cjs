@@ -5,23 +5,81 @@ contextBridge.exposeInMainWorld('electronAPI', {
   openFolder: () => ipcRenderer.invoke('dialog:openFolder'),
   scanDirectory: (folderPath) => ipcRenderer.invoke('fs:scanDirectory', folderPath),
   readFile: (filePath) => ipcRenderer.invoke('fs:readFile', filePath),
+  pathExists: (filePath) => ipcRenderer.invoke('fs:pathExists', filePath),
   countSTLFiles: (folderPath) => ipcRenderer.invoke('fs:countSTLFiles', folderPath),
 
+  // Folder watching
+  startWatching: () => ipcRenderer.invoke('library:startWatching'),
+  onDirectoryChanged: (callback) => {
+    const listener = (_, change) => callback(change);
+    ipcRenderer.on('library:directoryChanged', listener);
+    return () => ipcRenderer.removeListener('library:directoryChanged', listener);
+  },
+
+  // Library maintenance
+  computeMissingHashes: () => ipcRenderer.invoke('library:computeMissingHashes'),
+  checkHealth: () => ipcRenderer.invoke('library:checkHealth'),
+  detectMoves: (directoryId, fileInfos) => ipcRenderer.invoke('library:detectMoves', directoryId, fileInfos),
+
   // Database
   db: {
     getAllFiles: () => ipcRenderer.invoke('db:getAllFiles'),
     saveFile: (data) => ipcRenderer.invoke('db:saveFile', data),
-    updateFile: (id, updates) => ipcRenderer.invoke('db:updateFile', id, updates),
+    updateFile: (id, updates, source) => ipcRenderer.invoke('db:updateFile', id, updates, source),
     deleteFile: (id) => ipcRenderer.invoke('db:deleteFile', id),
     savePendingFile: (data) => ipcRenderer.invoke('db:savePendingFile', data),
     confirmPendingFiles: (ids) => ipcRenderer.invoke('db:confirmPendingFiles', ids),
     cancelPendingFiles: (sessionIds) => ipcRenderer.invoke('db:cancelPendingFiles', sessionIds),
+    createImportSession: (data) => ipcRenderer.invoke('db:createImportSession', data),
+    setImportSessionStatus: (id, status) => ipcRenderer.invoke('db:setImportSessionStatus', id, status),
+    getInterruptedImportSession: () => ipcRenderer.invoke('db:getInterruptedImportSession'),
+    getImportSessionFiles: (id) => ipcRenderer.invoke('db:getImportSessionFiles', id),
+    endImportSession: (id, discard) => ipcRenderer.invoke('db:endImportSession', id, discard),
     getAllDirectories: () => ipcRenderer.invoke('db:getAllDirectories'),
     saveDirectory: (data) => ipcRenderer.invoke('db:saveDirectory', data),
     deleteDirectory: (id) => ipcRenderer.invoke('db:deleteDirectory', id),
+    relocateDirectory: (id, newPath) => ipcRenderer.invoke('db:relocateDirectory', id, newPath),
+    setDirectoryPathTemplate: (id, template) => ipcRenderer.invoke('db:setDirectoryPathTemplate', id, template),
+    saveIndexedFile: (data) => ipcRenderer.invoke('db:saveIndexedFile', data),
+    searchFiles: (text) => ipcRenderer.invoke('db:searchFiles', text),
+    getSavedSearches: () => ipcRenderer.invoke('db:getSavedSearches'),
+    saveSavedSearch: (data) => ipcRenderer.invoke('db:saveSavedSearch', data),
+    deleteSavedSearch: (id) => ipcRenderer.invoke('db:deleteSavedSearch', id),
+    getCategoryDefs: () => ipcRenderer.invoke('db:getCategoryDefs'),
+    saveCategoryDefs: (defs) => ipcRenderer.invoke('db:saveCategoryDefs', defs),
+    getClassificationRules: () => ipcRenderer.invoke('db:getClassificationRules'),
+    saveClassificationRule: (rule) => ipcRenderer.invoke('db:saveClassificationRule', rule),
+    deleteClassificationRule: (id) => ipcRenderer.invoke('db:deleteClassificationRule', id),
+    getLearnedAssociations: () => ipcRenderer.invoke('db:getLearnedAssociations'),
+    recordCorrections: (corrections) => ipcRenderer.invoke('db:recordCorrections', corrections),
+    getTagAliases: () => ipcRenderer.invoke('db:getTagAliases'),
+    saveTagAlias: (alias) => ipcRenderer.invoke('db:saveTagAlias', alias),
+    deleteTagAlias: (alias) => ipcRenderer.invoke('db:deleteTagAlias', alias),
+    renameTags: (from, to) => ipcRenderer.invoke('db:renameTags', from, to),
+    deleteTags: (tags) => ipcRenderer.invoke('db:deleteTags', tags),
+    renameCategoryValues: (categoryId, from, to) => ipcRenderer.invoke('db:renameCategoryValues', categoryId, from, to),
+    deleteCategoryValues: (categoryId, values) => ipcRenderer.invoke('db:deleteCategoryValues', categoryId, values),
+    getCollections: () => ipcRenderer.invoke('db:getCollections'),
+    createCollection: (data) => ipcRenderer.invoke('db:createCollection', data),
+    renameCollection: (id, name) => ipcRenderer.invoke('db:renameCollection', id, name),
+    deleteCollection: (id) => ipcRenderer.invoke('db:deleteCollection', id),
+    addToCollection: (id, fileIds) => ipcRenderer.invoke('db:addToCollection', id, fileIds),
+    removeFromCollection: (id, fileIds) => ipcRenderer.invoke('db:removeFromCollection', id, fileIds),
+    moveToCollection: (fromId, toId, fileIds) => ipcRenderer.invoke('db:moveToCollection', fromId, toId, fileIds),
+    reorderCollection: (id, fileIds) => ipcRenderer.invoke('db:reorderCollection', id, fileIds),
+    mergeDuplicates: (keepId, removeIds) => ipcRenderer.invoke('db:mergeDuplicates', keepId, removeIds),
     getCategoryValues: (fileId) => ipcRenderer.invoke('db:getCategoryValues', fileId),
     setCategoryValues: (fileId, values) => ipcRenderer.invoke('db:setCategoryValues', fileId, values),
     bulkSetCategoryValue: (fileIds, categoryId, value) => ipcRenderer.invoke('db:bulkSetCategoryValue', fileIds, categoryId, value),
     bulkSetCategoryValues: (entries) => ipcRenderer.invoke('db:bulkSetCategoryValues', entries),
+    bulkReplaceCategoryValues: (entries) => ipcRenderer.invoke('db:bulkReplaceCategoryValues', entries),
+    bulkAddTags: (fileIds, tags) => ipcRenderer.invoke('db:bulkAddTags', fileIds, tags),
+    bulkRemoveTags: (fileIds, tags) => ipcRenderer.invoke('db:bulkRemoveTags', fileIds, tags),
+    bulkClearCategoryValue: (fileIds, categoryId) => ipcRenderer.invoke('db:bulkClearCategoryValue', fileIds, categoryId),
+    bulkReplaceCategoryValue: (fileIds, categoryId, from, to) => ipcRenderer.invoke('db:bulkReplaceCategoryValue', fileIds, categoryId, from, to),
+    deleteFiles: (fileIds) => ipcRenderer.invoke('db:deleteFiles', fileIds),
+    getEditHistory: () => ipcRenderer.invoke('db:getEditHistory'),
+    undoEdit: () => ipcRenderer.invoke('db:undoEdit'),
+    redoEdit: () => ipcRenderer.invoke('db:redoEdit'),
   },
 });
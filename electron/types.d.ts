@@ -3,30 +3,84 @@
  * `window.electronAPI` is only defined inside the Electron renderer process.
  */
 
-import type { STLFile, DirectoryEntry, CategoryValues } from '../src/types/index';
+import type { STLFile, DirectoryEntry, CategoryValues, DirectoryChange, FileInfo, FileMove, HealthReport, ImportSession, SearchHit, SavedSearch, Collection, CollectionExportResult, CategoryDef, ClassificationRule, LearnedAssociation, LearnedCorrection, CategoryReplacement, ValueSource, TagAlias, EditHistoryEntry, EditStep } from '../src/types/index';
 
 interface ElectronDB {
   getAllFiles: () => Promise<STLFile[]>;
   saveFile: (data: Partial<STLFile>) => Promise<void>;
-  updateFile: (id: string, updates: Partial<STLFile>) => Promise<void>;
+  updateFile: (id: string, updates: Partial<STLFile>, source?: ValueSource) => Promise<void>;
   deleteFile: (id: string) => Promise<void>;
   savePendingFile: (data: Partial<STLFile>) => Promise<string>;
   confirmPendingFiles: (ids: string[]) => Promise<void>;
   cancelPendingFiles: (sessionIds?: string[]) => Promise<void>;
+  createImportSession: (data: { id: string; directoryId?: string; fileInfos: FileInfo[] }) => Promise<void>;
+  setImportSessionStatus: (id: string, status: ImportSession['status']) => Promise<void>;
+  getInterruptedImportSession: () => Promise<ImportSession | null>;
+  getImportSessionFiles: (id: string) => Promise<STLFile[]>;
+  endImportSession: (id: string, discard: boolean) => Promise<void>;
   getAllDirectories: () => Promise<DirectoryEntry[]>;
   saveDirectory: (data: DirectoryEntry) => Promise<DirectoryEntry>;
   deleteDirectory: (id: string) => Promise<void>;
+  relocateDirectory: (id: string, newPath: string) => Promise<DirectoryEntry>;
+  setDirectoryPathTemplate: (id: string, template: string | null) => Promise<void>;
+  saveIndexedFile: (data: Partial<STLFile>) => Promise<{ id: string; isNew: boolean }>;
+  searchFiles: (text: string) => Promise<SearchHit[]>;
+  getSavedSearches: () => Promise<SavedSearch[]>;
+  saveSavedSearch: (data: SavedSearch) => Promise<void>;
+  deleteSavedSearch: (id: string) => Promise<void>;
+  getCategoryDefs: () => Promise<CategoryDef[]>;
+  saveCategoryDefs: (defs: CategoryDef[]) => Promise<void>;
+  getClassificationRules: () => Promise<ClassificationRule[]>;
+  saveClassificationRule: (rule: ClassificationRule) => Promise<void>;
+  deleteClassificationRule: (id: string) => Promise<void>;
+  getLearnedAssociations: () => Promise<LearnedAssociation[]>;
+  recordCorrections: (corrections: LearnedCorrection[]) => Promise<void>;
+  getTagAliases: () => Promise<TagAlias[]>;
+  saveTagAlias: (alias: { alias: string; tag: string }) => Promise<number>;
+  deleteTagAlias: (alias: string) => Promise<void>;
+  renameTags: (from: string[], to: string) => Promise<void>;
+  deleteTags: (tags: string[]) => Promise<void>;
+  renameCategoryValues: (categoryId: string, from: string[], to: string) => Promise<void>;
+  deleteCategoryValues: (categoryId: string, values: string[]) => Promise<void>;
+  getCollections: () => Promise<Collection[]>;
+  createCollection: (data: { id: string; name: string; createdAt: number }) => Promise<void>;
+  renameCollection: (id: string, name: string) => Promise<void>;
+  deleteCollection: (id: string) => Promise<void>;
+  addToCollection: (id: string, fileIds: string[]) => Promise<void>;
+  removeFromCollection: (id: string, fileIds: string[]) => Promise<void>;
+  moveToCollection: (fromId: string, toId: string, fileIds: string[]) => Promise<void>;
+  reorderCollection: (id: string, fileIds: string[]) => Promise<void>;
+  mergeDuplicates: (keepId: string, removeIds: string[]) => Promise<STLFile | null>;
   getCategoryValues: (fileId: string) => Promise<CategoryValues>;
   setCategoryValues: (fileId: string, values: CategoryValues) => Promise<void>;
   bulkSetCategoryValue: (fileIds: string[], categoryId: string, value: string) => Promise<void>;
   bulkSetCategoryValues: (entries: Array<{ fileId: string; categories: CategoryValues }>) => Promise<void>;
+  bulkReplaceCategoryValues: (entries: CategoryReplacement[]) => Promise<void>;
+  bulkAddTags: (fileIds: string[], tags: string[]) => Promise<void>;
+  bulkRemoveTags: (fileIds: string[], tags: string[]) => Promise<void>;
+  bulkClearCategoryValue: (fileIds: string[], categoryId: string) => Promise<void>;
+  bulkReplaceCategoryValue: (fileIds: string[], categoryId: string, from: string, to: string) => Promise<void>;
+  deleteFiles: (fileIds: string[]) => Promise<void>;
+  getEditHistory: () => Promise<EditHistoryEntry[]>;
+  undoEdit: () => Promise<EditStep | null>;
+  redoEdit: () => Promise<EditStep | null>;
 }
 
 interface ElectronAPI {
   openFolder: () => Promise<string | null>;
-  scanDirectory: (folderPath: string) => Promise<import('../src/types/index').FileInfo[]>;
+  scanDirectory: (folderPath: string) => Promise<FileInfo[]>;
   readFile: (filePath: string) => Promise<ArrayBuffer | null>;
+  pathExists: (filePath: string) => Promise<boolean>;
   countSTLFiles: (folderPath: string) => Promise<number>;
+  startWatching: () => Promise<void>;
+  /** Subscribe to folder-watch diffs; returns an unsubscribe function. */
+  onDirectoryChanged: (callback: (change: DirectoryChange) => void) => () => void;
+  computeMissingHashes: () => Promise<Array<{ id: string; contentHash: string }>>;
+  checkHealth: () => Promise<HealthReport>;
+  /** Relink rows whose files moved within the directory; returns the moves applied. */
+  detectMoves: (directoryId: string, fileInfos: FileInfo[]) => Promise<FileMove[]>;
+  /** Ask for a destination folder and copy the collection's files there; null if cancelled. */
+  exportCollection: (id: string) => Promise<CollectionExportResult | null>;
   db: ElectronDB;
 }
 
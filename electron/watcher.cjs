@@ -0,0 +1,154 @@
+const fs = require('fs');
+const path = require('path');
+const db = require('./database.cjs');
+const { scanDirectory, isModelFile } = require('./filesystem.cjs');
+const { detectMoves } = require('./libraryMaintenance.cjs');
+
+/**
+ * Watches every library directory and diffs its contents against the `files`
+ * table, so only new or modified models need reprocessing in the renderer.
+ */
+
+// Editors and archivers emit bursts of events per save; wait for them to settle.
+const DEBOUNCE_MS = 1500;
+
+const watched = new Map(); // directoryId -> { directory, watcher, timer }
+let onChangeListener = null;
+let started = false;
+
+/**
+ * Events for files that can't affect the index (e.g. `.DS_Store`, sidecar `.txt`)
+ * are ignored. Extension-less names may be folders being renamed, so they count.
+ */
+function isRelevantEvent(filename) {
+  if (!filename) return true;
+  const ext = path.extname(filename).toLowerCase();
+  return ext === '' || ext === '.zip' || isModelFile(filename);
+}
+
+/** Same-second mtimes are treated as equal; stored values may have lost sub-ms precision. */
+function sameMtime(a, b) {
+  if (a == null || b == null) return true; // unknown on legacy rows — fall back to size only
+  return Math.trunc(a) === Math.trunc(b);
+}
+
+/**
+ * Rescan a directory and compare against its rows in the DB.
+ * Moved/renamed files are relinked first, so they show up in neither added nor removed.
+ * Removed paths are flagged missing (not deleted); reappearing unchanged paths are unflagged.
+ * Returns { directoryId, added, changed, removedIds, restoredIds, moved }, or null when the
+ * root itself is unreachable — an unplugged drive must not flag the whole directory — or
+ * while an import session owns it, since its files must wait for the import review.
+ */
+async function reconcileDirectory(directory) {
+  if (db.hasOpenImportSession(directory.id)) return null;
+  try {
+    await fs.promises.access(directory.path);
+  } catch {
+    return null;
+  }
+
+  const scanned = await scanDirectory(directory.path);
+  const moved = await detectMoves(directory.id, scanned);
+  const index = new Map(db.getDirectoryFileIndex(directory.id).map((r) => [r.relativePath, r]));
+
+  const added = [];
+  const changed = [];
+  const restoredIds = [];
+  for (const info of scanned) {
+    const row = index.get(info.relativePath);
+    index.delete(info.relativePath);
+    if (!row) {
+      added.push(info);
+    } else if (row.sizeBytes !== info.sizeBytes || !sameMtime(row.lastModified, info.lastModified)) {
+      changed.push(info);
+    } else if (row.missingAt != null) {
+      restoredIds.push(row.id);
+    }
+  }
+
+  // Whatever is left in the index was not found on disk
+  const removedIds = [...index.values()].filter((r) => r.missingAt == null).map((r) => r.id);
+
+  if (removedIds.length > 0) db.markFilesMissing(removedIds);
+  if (restoredIds.length > 0) db.clearFilesMissing(restoredIds);
+
+  return { directoryId: directory.id, added, changed, removedIds, restoredIds, moved };
+}
+
+async function reconcileAndNotify(directory) {
+  try {
+    const change = await reconcileDirectory(directory);
+    if (!change) return;
+    const { added, changed, removedIds, restoredIds, moved } = change;
+    if (added.length + changed.length + removedIds.length + restoredIds.length + moved.length === 0) return;
+    onChangeListener?.(change);
+  } catch (e) {
+    console.error(`[watcher] Reconcile failed for "${directory.path}":`, e.message);
+  }
+}
+
+function scheduleReconcile(directoryId) {
+  const entry = watched.get(directoryId);
+  if (!entry) return;
+  clearTimeout(entry.timer);
+  entry.timer = setTimeout(() => {
+    entry.timer = null;
+    reconcileAndNotify(entry.directory);
+  }, DEBOUNCE_MS);
+}
+
+function watchDirectory(directory) {
+  if (!started) return;
+  unwatchDirectory(directory.id);
+  let watcher;
+  try {
+    watcher = fs.watch(directory.path, { recursive: true }, (_event, filename) => {
+      if (isRelevantEvent(filename)) scheduleReconcile(directory.id);
+    });
+  } catch (e) {
+    console.error(`[watcher] Cannot watch "${directory.path}":`, e.message);
+    return;
+  }
+  watcher.on('error', (e) => {
+    console.error(`[watcher] Watch error for "${directory.path}":`, e.message);
+    unwatchDirectory(directory.id);
+  });
+  watched.set(directory.id, { directory, watcher, timer: null });
+}
+
+function unwatchDirectory(directoryId) {
+  const entry = watched.get(directoryId);
+  if (!entry) return;
+  clearTimeout(entry.timer);
+  entry.watcher.close();
+  watched.delete(directoryId);
+}
+
+/**
+ * Start watching every directory in the library and catch up on changes made
+ * while the app was closed. Called once the renderer has subscribed to change
+ * events; later calls are no-ops.
+ */
+function startWatching(onChange) {
+  onChangeListener = onChange;
+  if (started) return;
+  started = true;
+  for (const directory of db.getAllDirectories()) {
+    watchDirectory(directory);
+    reconcileAndNotify(directory);
+  }
+}
+
+function stopWatching() {
+  for (const id of [...watched.keys()]) unwatchDirectory(id);
+  started = false;
+}
+
+module.exports = {
+  reconcileDirectory,
+  startWatching,
+  stopWatching,
+  watchDirectory,
+  unwatchDirectory,
+};
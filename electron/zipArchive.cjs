@@ -0,0 +1,213 @@
+const fs = require('fs');
+const zlib = require('zlib');
+const { promisify } = require('util');
+
+const inflateRaw = promisify(zlib.inflateRaw);
+
+/**
+ * Minimal read-only ZIP reader. Lists entries from the central directory and
+ * inflates a single entry on demand, without extracting the archive to disk.
+ * Supports stored/deflated entries and ZIP64 archives; encrypted entries are skipped.
+ */
+
+const EOCD_SIG = 0x06054b50;
+const ZIP64_LOCATOR_SIG = 0x07064b50;
+const ZIP64_EOCD_SIG = 0x06064b50;
+const CENTRAL_SIG = 0x02014b50;
+const LOCAL_SIG = 0x04034b50;
+const EOCD_MIN_SIZE = 22;
+const MAX_COMMENT = 0xffff;
+
+const METHOD_STORED = 0;
+const METHOD_DEFLATE = 8;
+
+/** Separator between the archive path and the inner entry in a virtual fullPath. */
+const ARCHIVE_SEPARATOR = '!/';
+const ARCHIVE_PATH_RE = /^(.*?\.zip)!\/(.+)$/i;
+
+/**
+ * Split a virtual path like `/lib/Pack.zip!/inner/model.stl` into its parts.
+ * Returns null for plain filesystem paths.
+ */
+function splitArchivePath(fullPath) {
+  const match = ARCHIVE_PATH_RE.exec(fullPath);
+  return match ? { archivePath: match[1], entryName: match[2] } : null;
+}
+
+function isArchiveFile(name) {
+  return name.toLowerCase().endsWith('.zip');
+}
+
+async function readAt(handle, position, length) {
+  const buffer = Buffer.alloc(length);
+  const { bytesRead } = await handle.read(buffer, 0, length, position);
+  return bytesRead === length ? buffer : buffer.subarray(0, bytesRead);
+}
+
+/** Convert a DOS date/time pair to epoch milliseconds (local time). */
+function dosDateTimeToMs(date, time) {
+  return new Date(
+    ((date >> 9) & 0x7f) + 1980,
+    ((date >> 5) & 0x0f) - 1,
+    date & 0x1f,
+    (time >> 11) & 0x1f,
+    (time >> 5) & 0x3f,
+    (time & 0x1f) * 2
+  ).getTime();
+}
+
+async function readCentralDirectoryLocation(handle, fileSize) {
+  const tailSize = Math.min(fileSize, EOCD_MIN_SIZE + MAX_COMMENT);
+  const tail = await readAt(handle, fileSize - tailSize, tailSize);
+
+  // The comment may itself contain the signature; the real record's comment runs exactly to the end
+  let eocd = -1;
+  for (let i = tail.length - EOCD_MIN_SIZE; i >= 0; i--) {
+    if (tail.readUInt32LE(i) === EOCD_SIG && i + EOCD_MIN_SIZE + tail.readUInt16LE(i + 20) === tail.length) {
+      eocd = i;
+      break;
+    }
+  }
+  if (eocd === -1) throw new Error('Not a ZIP archive (end of central directory not found)');
+
+  let entryCount = tail.readUInt16LE(eocd + 10);
+  let cdSize = tail.readUInt32LE(eocd + 12);
+  let cdOffset = tail.readUInt32LE(eocd + 16);
+
+  // ZIP64: the classic record holds 0xFFFF/0xFFFFFFFF placeholders and a locator precedes it
+  if (entryCount === 0xffff || cdSize === 0xffffffff || cdOffset === 0xffffffff) {
+    const locator = eocd - 20;
+    if (locator < 0 || tail.readUInt32LE(locator) !== ZIP64_LOCATOR_SIG) {
+      throw new Error('ZIP64 locator missing');
+    }
+    const zip64Offset = Number(tail.readBigUInt64LE(locator + 8));
+    const record = await readAt(handle, zip64Offset, 56);
+    if (record.length < 56 || record.readUInt32LE(0) !== ZIP64_EOCD_SIG) throw new Error('ZIP64 end of central directory missing');
+    entryCount = Number(record.readBigUInt64LE(32));
+    cdSize = Number(record.readBigUInt64LE(40));
+    cdOffset = Number(record.readBigUInt64LE(48));
+  }
+
+  return { entryCount, cdSize, cdOffset };
+}
+
+/** Apply the ZIP64 extended-information extra field (id 0x0001) to placeholder values. */
+function applyZip64Extra(extra, entry) {
+  let pos = 0;
+  while (pos + 4 <= extra.length) {
+    const id = extra.readUInt16LE(pos);
+    const size = extra.readUInt16LE(pos + 2);
+    if (id === 0x0001) {
+      let field = pos + 4;
+      if (entry.size === 0xffffffff) { entry.size = Number(extra.readBigUInt64LE(field)); field += 8; }
+      if (entry.compressedSize === 0xffffffff) { entry.compressedSize = Number(extra.readBigUInt64LE(field)); field += 8; }
+      if (entry.localHeaderOffset === 0xffffffff) { entry.localHeaderOffset = Number(extra.readBigUInt64LE(field)); }
+      return;
+    }
+    pos += 4 + size;
+  }
+}
+
+async function readEntries(archivePath) {
+  const handle = await fs.promises.open(archivePath, 'r');
+  try {
+    const { size } = await handle.stat();
+    const { entryCount, cdSize, cdOffset } = await readCentralDirectoryLocation(handle, size);
+    const cd = await readAt(handle, cdOffset, cdSize);
+    if (cd.length < cdSize) throw new Error('Truncated central directory');
+
+    const entries = [];
+    let pos = 0;
+    for (let i = 0; i < entryCount && pos + 46 <= cd.length; i++) {
+      if (cd.readUInt32LE(pos) !== CENTRAL_SIG) throw new Error('Corrupt central directory');
+      const flags = cd.readUInt16LE(pos + 8);
+      const nameLength = cd.readUInt16LE(pos + 28);
+      const extraLength = cd.readUInt16LE(pos + 30);
+      const commentLength = cd.readUInt16LE(pos + 32);
+      const name = cd.toString('utf8', pos + 46, pos + 46 + nameLength);
+      const entry = {
+        name,
+        method: cd.readUInt16LE(pos + 10),
+        encrypted: (flags & 0x1) !== 0,
+        lastModified: dosDateTimeToMs(cd.readUInt16LE(pos + 14), cd.readUInt16LE(pos + 12)),
+        compressedSize: cd.readUInt32LE(pos + 20),
+        size: cd.readUInt32LE(pos + 24),
+        localHeaderOffset: cd.readUInt32LE(pos + 42),
+      };
+      applyZip64Extra(cd.subarray(pos + 46 + nameLength, pos + 46 + nameLength + extraLength), entry);
+      if (!name.endsWith('/')) entries.push(entry);
+      pos += 46 + nameLength + extraLength + commentLength;
+    }
+    return entries;
+  } finally {
+    await handle.close();
+  }
+}
+
+// Central directories are re-read for every entry streamed from an archive during
+// an import, so keep the most recent few, invalidated by size + mtime.
+const LISTING_CACHE_SIZE = 8;
+const listingCache = new Map();
+
+/**
+ * List file entries in an archive (directories excluded).
+ * Each entry: { name, method, encrypted, lastModified, compressedSize, size, localHeaderOffset }
+ */
+async function listEntries(archivePath) {
+  const stat = await fs.promises.stat(archivePath);
+  const cached = listingCache.get(archivePath);
+  if (cached && cached.size === stat.size && cached.mtimeMs === stat.mtimeMs) {
+    // Refresh LRU position
+    listingCache.delete(archivePath);
+    listingCache.set(archivePath, cached);
+    return cached.entries;
+  }
+
+  const entries = await readEntries(archivePath);
+  listingCache.set(archivePath, { size: stat.size, mtimeMs: stat.mtimeMs, entries });
+  if (listingCache.size > LISTING_CACHE_SIZE) {
+    listingCache.delete(listingCache.keys().next().value);
+  }
+  return entries;
+}
+
+/**
+ * The renderer reads `.buffer` off what IPC delivers, so the result must own its
+ * ArrayBuffer exactly — small zlib outputs can be views into Node's shared pool.
+ */
+function detach(data) {
+  if (data.byteOffset === 0 && data.byteLength === data.buffer.byteLength) return data;
+  return new Uint8Array(data);
+}
+
+/** Read and decompress a single entry, returning its contents as a byte array. */
+async function readEntry(archivePath, entryName) {
+  const entries = await listEntries(archivePath);
+  const entry = entries.find((e) => e.name === entryName);
+  if (!entry) throw new Error(`Entry "${entryName}" not found in archive`);
+  if (entry.encrypted) throw new Error(`Entry "${entryName}" is encrypted`);
+
+  const handle = await fs.promises.open(archivePath, 'r');
+  let compressed;
+  try {
+    const header = await readAt(handle, entry.localHeaderOffset, 30);
+    if (header.length < 30 || header.readUInt32LE(0) !== LOCAL_SIG) throw new Error('Corrupt local file header');
+    const dataOffset = entry.localHeaderOffset + 30 + header.readUInt16LE(26) + header.readUInt16LE(28);
+    compressed = await readAt(handle, dataOffset, entry.compressedSize);
+    if (compressed.length < entry.compressedSize) throw new Error(`Entry "${entryName}" is truncated`);
+  } finally {
+    await handle.close();
+  }
+
+  if (entry.method === METHOD_STORED) return detach(compressed);
+  if (entry.method === METHOD_DEFLATE) return detach(await inflateRaw(compressed));
+  throw new Error(`Unsupported compression method ${entry.method} for "${entryName}"`);
+}
+
+module.exports = {
+  ARCHIVE_SEPARATOR,
+  splitArchivePath,
+  isArchiveFile,
+  listEntries,
+  readEntry,
+};
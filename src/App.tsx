@@ -1,4 +1,4 @@
-import { useCallback, useMemo } from 'react';
+import { useState, useCallback, useMemo } from 'react';
 import { Box, Sun, Moon } from 'lucide-react';
 import ImportReviewPanel from './components/ImportReviewPanel';
 import ImportProgress from './components/ImportProgress';
@@ -10,6 +10,17 @@ import { MobileFilterDrawer } from './components/MobileFilterDrawer';
 import { FilterSidebar } from './components/FilterSidebar';
 import { FileGrid } from './components/FileGrid';
 import { FileDetailModal } from './components/FileDetailModal';
+import { DuplicateFinderPanel } from './components/DuplicateFinderPanel';
+import { LibraryHealthPanel } from './components/LibraryHealthPanel';
+import { ResumeImportBanner } from './components/ResumeImportBanner';
+import { CollectionPanel } from './components/CollectionPanel';
+import { CategorySettingsPanel } from './components/CategorySettingsPanel';
+import { ClassificationRulesPanel } from './components/ClassificationRulesPanel';
+import { FolderLayoutDialog } from './components/FolderLayoutDialog';
+import { ReclassifyPanel } from './components/ReclassifyPanel';
+import { TagAliasesPanel } from './components/TagAliasesPanel';
+import { ValueManagerPanel } from './components/ValueManagerPanel';
+import { EditHistoryPanel } from './components/EditHistoryPanel';
 import { useLibrary } from './hooks/useLibrary';
 import { useFilters } from './hooks/useFilters';
 import { useSelection } from './hooks/useSelection';
@@ -17,26 +28,86 @@ import { useImport } from './hooks/useImport';
 import { useFileDetail } from './hooks/useFileDetail';
 import { useDragDrop } from './hooks/useDragDrop';
 import { useTheme } from './hooks/useTheme';
+import { useViewOptions } from './hooks/useViewOptions';
+import { useFolderWatch } from './hooks/useFolderWatch';
+import { useLibraryHealth } from './hooks/useLibraryHealth';
+import { useSavedSearches } from './hooks/useSavedSearches';
+import { useCollections } from './hooks/useCollections';
+import { useCategorySchema } from './hooks/useCategorySchema';
+import { useClassificationRules } from './hooks/useClassificationRules';
+import { useReclassify } from './hooks/useReclassify';
+import { useTagAliases } from './hooks/useTagAliases';
+import { useEditHistory } from './hooks/useEditHistory';
+import { MODEL_FILE_ACCEPT } from './utils/modelFormats';
+import { hasFilters } from './utils/fileFilters';
+import { sortFiles } from './utils/sortFiles';
+import { pickSamplePaths } from './utils/pathTemplate';
+import type { SavedSearch, CategoryDef } from './types/index';
 
 export default function App() {
   const {
-    files, isRestoring, setDirectories,
-    allTags, categoryFacets,
-    addFiles, updateFileInList, bulkAddTags, bulkSetCategory,
+    files, isRestoring, directories, setDirectories,
+    allTags, tagFacets, categoryFacets, formatFacets, offlineDirectoryIds, statusFacets, rangeHistograms,
+    addFiles, updateFileInList, applyIndexedFile, setFilesMissing, applyMoves,
+    applyHealthReport, relocateDirectory, setDirectoryPathTemplate, reapplyPathTemplate,
+    mergeDuplicates, hashUnhashedFiles, bulkAddTags, bulkRemoveTags, bulkSetCategory, bulkClearCategory, deleteFiles, bulkEditError, applyRestoredFiles, replaceCategories, applyTagAlias, dropCategories,
+    renameLibraryTags, deleteLibraryTags, renameCategoryValues, deleteCategoryValues,
   } = useLibrary();
 
+  const [showDuplicates, setShowDuplicates] = useState(false);
+  const [showHealth, setShowHealth] = useState(false);
+  const [managedCollectionId, setManagedCollectionId] = useState<string | null>(null);
+  const [showCategorySettings, setShowCategorySettings] = useState(false);
+  const [showRules, setShowRules] = useState(false);
+  const [showTagAliases, setShowTagAliases] = useState(false);
+  const [showValueManager, setShowValueManager] = useState(false);
+  const [showHistory, setShowHistory] = useState(false);
+  const [layoutDirectoryId, setLayoutDirectoryId] = useState<string | null>(null);
+
+  const { categoryDefs, saveCategoryDefs, applyValueRename: renameAllowedValues } = useCategorySchema();
+  const categoryIds = useMemo(() => categoryDefs.map((d) => d.id), [categoryDefs]);
+  const { rules, saveRule, deleteRule, applyValueRename: renameRuleValues, dropCategories: dropCategoryRules } = useClassificationRules();
+  const {
+    aliases: tagAliases, resolveTag, saveAlias, deleteAlias, applyTagRename,
+  } = useTagAliases({ allTags, applyTagAlias });
   const {
-    searchTerm, setSearchTerm, selectedTags, selectedCategories,
-    mobileFiltersOpen, setMobileFiltersOpen,
-    filteredFiles, toggleTag, toggleCategoryValue, activeFilterCount, clearFilters,
-  } = useFilters(files);
+    job: reclassifyJob, run: runReclassify, apply: applyReclassify, close: closeReclassify,
+  } = useReclassify({ files, directories, rules, categoryDefs, replaceCategories });
+
+  const editHistory = useEditHistory({ applyRestoredFiles, isOpen: showHistory });
 
-  const { selectedIds, bulkMode, toggleSelect, selectAllFiltered, clearSelection } = useSelection(filteredFiles);
+  const { pendingCount: reindexCount } = useFolderWatch({ applyIndexedFile, setFilesMissing, applyMoves });
+
+  const {
+    collections, collectionCounts, createCollection, addFiles: addFilesToCollection, removeFiles: removeFilesFromCollection,
+    moveFiles: moveFilesToCollection, moveFile: moveCollectionFile, renameCollection, deleteCollection, exportCollection,
+  } = useCollections(files);
+
+  const {
+    filters, applyFilters, searchTerm, setSearchTerm, searchErrors, searchHits, selectedTags, selectedCategories, selectedFormats, selectedStatuses,
+    selectedRanges, selectedCollectionId, mobileFiltersOpen, setMobileFiltersOpen,
+    filteredFiles, toggleTag, toggleCategoryValue, toggleFormat, toggleStatus, toggleCollection, setRange, activeFilterCount, clearFilters,
+  } = useFilters(files, offlineDirectoryIds, collections, categoryIds);
+
+  const {
+    savedSearches, counts: savedSearchCounts, activeSavedSearchId, saveCurrentSearch, removeSavedSearch,
+  } = useSavedSearches({ files, offlineDirectoryIds, categoryIds, filters });
+  const canSaveSearch = hasFilters(filters);
+  const onApplySavedSearch = useCallback((saved: SavedSearch) => applyFilters(saved.filters), [applyFilters]);
 
   const {
-    importState, fileInputRef,
+    viewMode, setViewMode, sort, setSortKey, toggleSortDirection, tableColumns, availableTableColumns, toggleTableColumn,
+  } = useViewOptions(categoryDefs);
+  const sortedFiles = useMemo(() => sortFiles(filteredFiles, sort), [filteredFiles, sort]);
+
+  const { selectedIds, bulkMode, toggleSelect, selectAllFiltered, clearSelection } = useSelection(sortedFiles);
+  const selectedFiles = useMemo(() => files.filter((f) => selectedIds.has(f.id)), [files, selectedIds]);
+
+  const {
+    importState, interruptedSession, layoutPrompt, fileInputRef,
     handleOpenFolder, handleDroppedFiles, handleFileInput, confirmImport, cancelImport,
-  } = useImport({ addFiles, setDirectories });
+    resumeImport, reviewInterruptedImport, discardInterruptedImport, confirmFolderLayout, cancelFolderLayout,
+  } = useImport({ addFiles, directories, setDirectories, applyMoves });
 
   const { isDragging, dragHandlers } = useDragDrop(handleDroppedFiles);
   const { theme, toggleTheme } = useTheme();
@@ -47,26 +118,101 @@ export default function App() {
     openFile, closeFile, handleLoad3D,
     addEditTag, removeEditTag, saveTags, saveCategories, savePrintSettings,
     tagsChanged, categoriesChanged,
-  } = useFileDetail({ updateFileInList });
+  } = useFileDetail({ updateFileInList, directories, resolveTag });
 
   const onImportFiles = useCallback(() => fileInputRef.current?.click(), [fileInputRef]);
+  const onFindDuplicates = useCallback(() => setShowDuplicates(true), []);
+  const onCheckHealth = useCallback(() => setShowHealth(true), []);
+  const onEditCategories = useCallback(() => setShowCategorySettings(true), []);
+  const onEditRules = useCallback(() => setShowRules(true), []);
+  const onManageTagAliases = useCallback(() => setShowTagAliases(true), []);
+  const onManageValues = useCallback(() => setShowValueManager(true), []);
+  const onShowHistory = useCallback(() => setShowHistory(true), []);
+  const onReclassify = useCallback(() => { runReclassify({ kind: 'library' }); }, [runReclassify]);
+  const onCreateCollection = useCallback((name: string) => { createCollection(name); }, [createCollection]);
+  const managedCollection = collections.find((c) => c.id === managedCollectionId) ?? null;
+
+  const onSaveCategoryDefs = async (defs: CategoryDef[]) => {
+    const kept = new Set(defs.map((d) => d.id));
+    await saveCategoryDefs(defs);
+    const removed = categoryIds.filter((id) => !kept.has(id));
+    dropCategories(removed);
+    dropCategoryRules(removed);
+  };
+
+  const onDeleteSelected = async () => {
+    if (await deleteFiles([...selectedIds])) clearSelection();
+  };
+
+  const onRenameTags = async (from: string[], to: string) => {
+    await renameLibraryTags(from, to);
+    applyTagRename(from, to);
+  };
+
+  const onRenameValues = async (categoryId: string, from: string[], to: string) => {
+    await renameCategoryValues(categoryId, from, to);
+    renameAllowedValues(categoryId, from, to);
+    renameRuleValues(categoryId, from, to);
+  };
+
+  const onDeleteValues = async (categoryId: string, values: string[]) => {
+    await deleteCategoryValues(categoryId, values);
+    renameAllowedValues(categoryId, values, null);
+  };
+
+  const layoutDirectory = directories.find((d) => d.id === layoutDirectoryId) ?? null;
+  const layoutFiles = useMemo(
+    () => (layoutDirectoryId ? files.filter((f) => f.directoryId === layoutDirectoryId) : []),
+    [files, layoutDirectoryId]
+  );
+
+  const onSaveFolderLayout = async (template: string | null, reapply: boolean) => {
+    if (!layoutDirectory) return;
+    const previous = layoutDirectory.pathTemplate ?? null;
+    await setDirectoryPathTemplate(layoutDirectory.id, template);
+    if (reapply) await reapplyPathTemplate(layoutDirectory.id, template, previous);
+    setLayoutDirectoryId(null);
+  };
+
+  const health = useLibraryHealth({ applyHealthReport, relocateDirectory });
 
   const filterSidebarProps = useMemo(() => ({
-    searchTerm, onSearchChange: setSearchTerm,
-    categoryFacets, selectedCategories, onToggleCategoryValue: toggleCategoryValue,
-    allTags, selectedTags, onToggleTag: toggleTag,
+    searchTerm, onSearchChange: setSearchTerm, searchErrors,
+    savedSearches, savedSearchCounts, activeSavedSearchId, canSaveSearch,
+    onApplySavedSearch, onSaveSearch: saveCurrentSearch, onDeleteSavedSearch: removeSavedSearch,
+    collections, collectionCounts, selectedCollectionId,
+    onToggleCollection: toggleCollection, onManageCollection: setManagedCollectionId, onCreateCollection,
+    categoryDefs, categoryFacets, selectedCategories, onToggleCategoryValue: toggleCategoryValue,
+    formatFacets, selectedFormats, onToggleFormat: toggleFormat,
+    statusFacets, selectedStatuses, onToggleStatus: toggleStatus,
+    rangeHistograms, selectedRanges, onSetRange: setRange,
+    allTags, tagFacets, selectedTags, onToggleTag: toggleTag, onManageTagAliases,
     activeFilterCount, onClearFilters: clearFilters,
     onImportFiles,
     onOpenFolder: handleOpenFolder,
+    onFindDuplicates,
+    onCheckHealth,
+    onEditCategories,
+    onManageValues,
+    onEditRules,
+    onReclassify,
+    onShowHistory,
   }), [
-    searchTerm, setSearchTerm, categoryFacets, selectedCategories, toggleCategoryValue,
-    allTags, selectedTags, toggleTag, activeFilterCount, clearFilters,
-    onImportFiles, handleOpenFolder,
+    searchTerm, setSearchTerm, searchErrors,
+    savedSearches, savedSearchCounts, activeSavedSearchId, canSaveSearch,
+    onApplySavedSearch, saveCurrentSearch, removeSavedSearch,
+    collections, collectionCounts, selectedCollectionId, toggleCollection, onCreateCollection,
+    categoryDefs, categoryFacets, selectedCategories, toggleCategoryValue,
+    formatFacets, selectedFormats, toggleFormat,
+    statusFacets, selectedStatuses, toggleStatus,
+    rangeHistograms, selectedRanges, setRange,
+    allTags, tagFacets, selectedTags, toggleTag, onManageTagAliases, activeFilterCount, clearFilters,
+    onImportFiles, handleOpenFolder, onFindDuplicates, onCheckHealth, onEditCategories, onManageValues, onEditRules, onReclassify, onShowHistory,
   ]);
 
   return (
     <div className="app-shell" {...dragHandlers}>
-      <input ref={fileInputRef} type="file" accept=".stl" multiple className="hidden" onChange={handleFileInput} />
+      <input ref={fileInputRef} type="file" accept={MODEL_FILE_ACCEPT} multiple className="hidden" onChange={handleFileInput} />
 
       <DragOverlay isDragging={isDragging} />
 
@@ -84,6 +230,8 @@ export default function App() {
       {importState.status === 'reviewing' && (
         <ImportReviewPanel
           files={importState.files}
+          moves={importState.moves}
+          categoryDefs={categoryDefs}
           onConfirm={confirmImport}
           onCancel={cancelImport}
         />
@@ -137,16 +285,67 @@ export default function App() {
               Restoring library...
             </div>
           )}
+          {interruptedSession && importState.status === 'idle' && (
+            <ResumeImportBanner
+              session={interruptedSession}
+              onResume={resumeImport}
+              onReview={reviewInterruptedImport}
+              onDiscard={discardInterruptedImport}
+            />
+          )}
+          {reindexCount > 0 && (
+            <div className="flex items-center gap-2 mb-4 px-3 py-2 surface-panel rounded-xl text-sm text-soft">
+              <div className="w-4 h-4 border-2 border-cyan-300 border-t-transparent rounded-full animate-spin" />
+              Re-indexing {reindexCount} changed file{reindexCount !== 1 && 's'}...
+            </div>
+          )}
+          {bulkEditError && (
+            <div role="alert" className="mb-4 px-3 py-2 surface-panel rounded-xl text-sm text-red-300">
+              {bulkEditError}
+            </div>
+          )}
+          {editHistory.lastStep && (
+            <div className="flex items-center gap-2 mb-4 px-3 py-2 surface-panel rounded-xl text-sm text-soft">
+              <span className="flex-1 min-w-0 truncate">
+                {editHistory.lastStep.step === 'undo' ? 'Undid' : 'Redid'}: {editHistory.lastStep.label}
+                {editHistory.lastStep.skipped > 0 && (
+                  <span className="text-amber-300">
+                    {' '}({editHistory.lastStep.skipped} file{editHistory.lastStep.skipped !== 1 && 's'} changed since, left as they are)
+                  </span>
+                )}
+              </span>
+              <button
+                onClick={editHistory.lastStep.step === 'undo' ? editHistory.redo : editHistory.undo}
+                className="ui-btn ui-btn-ghost px-2 py-1 text-xs text-cyan-200"
+              >
+                {editHistory.lastStep.step === 'undo' ? 'Redo' : 'Undo'}
+              </button>
+            </div>
+          )}
           <ContentHeader
             filteredCount={filteredFiles.length}
             activeFilterCount={activeFilterCount}
+            sort={sort}
+            onSortChange={setSortKey}
+            onToggleSortDirection={toggleSortDirection}
+            viewMode={viewMode}
+            onViewModeChange={setViewMode}
+            tableColumns={tableColumns}
+            availableTableColumns={availableTableColumns}
+            onToggleTableColumn={toggleTableColumn}
             onSelectAll={selectAllFiltered}
             onClearFilters={clearFilters}
           />
           <FileGrid
-            files={filteredFiles}
+            files={sortedFiles}
+            viewMode={viewMode}
+            tableColumns={tableColumns}
+            sort={sort}
+            onSortChange={setSortKey}
             selectedIds={selectedIds}
             bulkMode={bulkMode}
+            offlineDirectoryIds={offlineDirectoryIds}
+            searchHits={searchHits}
             onOpenFile={openFile}
             onToggleSelect={toggleSelect}
             onClearFilters={clearFilters}
@@ -158,18 +357,161 @@ export default function App() {
         <BulkActionBar
           count={selectedIds.size}
           totalFiltered={filteredFiles.length}
-          onAddTags={(tags) => bulkAddTags(selectedIds, tags)}
-          onSetCategory={(catId, value) => bulkSetCategory(selectedIds, catId, value)}
+          selectedFiles={selectedFiles}
+          onAddTags={(tags) => bulkAddTags(selectedIds, tags.map(resolveTag).filter(Boolean))}
+          onRemoveTags={(tags) => bulkRemoveTags(selectedIds, tags)}
+          onSetCategory={(catId, value, from) => bulkSetCategory(selectedIds, catId, value, from)}
+          onClearCategory={(catId) => bulkClearCategory(selectedIds, catId)}
+          categoryDefs={categoryDefs}
+          collections={collections}
+          currentCollectionId={selectedCollectionId}
+          onAddToCollection={(collectionId) => addFilesToCollection(collectionId, [...selectedIds])}
+          onMoveToCollection={(collectionId) => {
+            if (selectedCollectionId) moveFilesToCollection(selectedCollectionId, collectionId, [...selectedIds]);
+          }}
+          onCreateCollection={(name) => createCollection(name, [...selectedIds])}
+          onReclassify={() => runReclassify({ kind: 'selection', fileIds: [...selectedIds] })}
+          onDelete={onDeleteSelected}
           onSelectAll={selectAllFiltered}
           onClear={clearSelection}
         />
       )}
 
+      {showDuplicates && (
+        <DuplicateFinderPanel
+          files={files}
+          onMerge={mergeDuplicates}
+          onHashMissing={hashUnhashedFiles}
+          onClose={() => setShowDuplicates(false)}
+        />
+      )}
+
+      {showHealth && (
+        <LibraryHealthPanel
+          files={files}
+          directories={directories}
+          offlineDirectoryIds={offlineDirectoryIds}
+          isChecking={health.isChecking}
+          lastCheckedAt={health.lastCheckedAt}
+          relocateError={health.relocateError}
+          onCheck={health.runCheck}
+          onRelocate={health.relocate}
+          onEditLayout={setLayoutDirectoryId}
+          onClose={() => setShowHealth(false)}
+        />
+      )}
+
+      {managedCollection && (
+        <CollectionPanel
+          key={managedCollection.id}
+          collection={managedCollection}
+          files={files}
+          onMove={(fileId, direction) => moveCollectionFile(managedCollection.id, fileId, direction)}
+          onRemove={(fileId) => removeFilesFromCollection(managedCollection.id, [fileId])}
+          onRename={(name) => renameCollection(managedCollection.id, name)}
+          onDelete={() => deleteCollection(managedCollection.id)}
+          onExport={() => exportCollection(managedCollection.id)}
+          onClose={() => setManagedCollectionId(null)}
+        />
+      )}
+
+      {showCategorySettings && (
+        <CategorySettingsPanel
+          categoryDefs={categoryDefs}
+          files={files}
+          onSave={onSaveCategoryDefs}
+          onClose={() => setShowCategorySettings(false)}
+        />
+      )}
+
+      {showRules && (
+        <ClassificationRulesPanel
+          rules={rules}
+          categoryDefs={categoryDefs}
+          files={files}
+          onSave={saveRule}
+          onDelete={deleteRule}
+          onClose={() => setShowRules(false)}
+        />
+      )}
+
+      {showTagAliases && (
+        <TagAliasesPanel
+          aliases={tagAliases}
+          allTags={allTags}
+          onSave={saveAlias}
+          onDelete={deleteAlias}
+          onClose={() => setShowTagAliases(false)}
+        />
+      )}
+
+      {showValueManager && (
+        <ValueManagerPanel
+          files={files}
+          allTags={allTags}
+          tagFacets={tagFacets}
+          categoryDefs={categoryDefs}
+          categoryFacets={categoryFacets}
+          resolveTag={resolveTag}
+          onRenameTags={onRenameTags}
+          onDeleteTags={deleteLibraryTags}
+          onRenameValues={onRenameValues}
+          onDeleteValues={onDeleteValues}
+          onClose={() => setShowValueManager(false)}
+        />
+      )}
+
+      {showHistory && (
+        <EditHistoryPanel
+          entries={editHistory.entries}
+          onUndo={editHistory.undo}
+          onRedo={editHistory.redo}
+          onGoTo={editHistory.goTo}
+          onClose={() => setShowHistory(false)}
+        />
+      )}
+
+      {reclassifyJob && (
+        <ReclassifyPanel
+          job={reclassifyJob}
+          files={files}
+          directories={directories}
+          categoryDefs={categoryDefs}
+          selectedFileIds={[...selectedIds]}
+          onRun={runReclassify}
+          onApply={applyReclassify}
+          onClose={closeReclassify}
+        />
+      )}
+
+      {layoutPrompt && (
+        <FolderLayoutDialog
+          directory={layoutPrompt.directory}
+          samplePaths={layoutPrompt.samplePaths}
+          categoryDefs={categoryDefs}
+          onConfirm={(template) => confirmFolderLayout(template)}
+          onClose={cancelFolderLayout}
+        />
+      )}
+
+      {layoutDirectory && (
+        <FolderLayoutDialog
+          key={layoutDirectory.id}
+          directory={layoutDirectory}
+          samplePaths={pickSamplePaths(layoutFiles.map((f) => f.relativePath))}
+          categoryDefs={categoryDefs}
+          files={layoutFiles}
+          onConfirm={onSaveFolderLayout}
+          onClose={() => setLayoutDirectoryId(null)}
+        />
+      )}
+
       {selectedFile && (
         <FileDetailModal
           file={selectedFile}
           fileTagsEdit={fileTagsEdit}
           fileCategoriesEdit={fileCategoriesEdit}
+          categoryDefs={categoryDefs}
           onCategoryChange={(catId, value) => setFileCategoriesEdit((prev) => ({ ...prev, [catId]: value }))}
           newTag={newTag}
           onNewTagChange={setNewTag}
@@ -1,12 +1,28 @@
-import React, { useState } from 'react';
-import { X } from 'lucide-react';
-import { CATEGORY_IDS, CATEGORY_LABELS } from '../utils/categoryClassifier';
+import React, { useState, useMemo } from 'react';
+import { X, Trash2 } from 'lucide-react';
+import type { STLFile, Collection, CategoryDef } from '../types/index';
+
+const NEW_COLLECTION = '__new__';
 
 interface BulkActionBarProps {
   count: number;
   totalFiltered: number;
+  /** The selected files, for the tags and values that can be removed or replaced */
+  selectedFiles: STLFile[];
   onAddTags: (tags: string[]) => void;
-  onSetCategory: (catId: string, value: string) => void;
+  onRemoveTags: (tags: string[]) => void;
+  /** With `from`, only files whose value is `from` are changed */
+  onSetCategory: (catId: string, value: string, from?: string) => void;
+  onClearCategory: (catId: string) => void;
+  categoryDefs: CategoryDef[];
+  collections: Collection[];
+  /** The collection being browsed, which files can be moved out of */
+  currentCollectionId: string | null;
+  onAddToCollection: (collectionId: string) => void;
+  onMoveToCollection: (collectionId: string) => void;
+  onCreateCollection: (name: string) => void;
+  onReclassify: () => void;
+  onDelete: () => void;
   onSelectAll: () => void;
   onClear: () => void;
 }
@@ -14,8 +30,19 @@ interface BulkActionBarProps {
 export default function BulkActionBar({
   count,
   totalFiltered,
+  selectedFiles,
   onAddTags,
+  onRemoveTags,
   onSetCategory,
+  onClearCategory,
+  categoryDefs,
+  collections,
+  currentCollectionId,
+  onAddToCollection,
+  onMoveToCollection,
+  onCreateCollection,
+  onReclassify,
+  onDelete,
   onSelectAll,
   onClear,
 }: BulkActionBarProps) {
@@ -23,6 +50,35 @@ export default function BulkActionBar({
   const [showTagInput, setShowTagInput] = useState(false);
   const [catInput, setCatInput] = useState('');
   const [activeCatId, setActiveCatId] = useState<string | null>(null);
+  // Value being replaced in the active category; empty sets every selected file
+  const [replaceFrom, setReplaceFrom] = useState('');
+  const [collectionName, setCollectionName] = useState('');
+  const [showCollectionInput, setShowCollectionInput] = useState(false);
+  const activeCat = categoryDefs.find((d) => d.id === activeCatId);
+  const currentCollection = collections.find((c) => c.id === currentCollectionId);
+
+  // Tags carried by the selection, with how many selected files carry each
+  const selectionTags = useMemo(() => {
+    const counts: Record<string, number> = {};
+    for (const f of selectedFiles) for (const t of f.tags ?? []) counts[t] = (counts[t] || 0) + 1;
+    return Object.entries(counts).sort(([a], [b]) => a.localeCompare(b));
+  }, [selectedFiles]);
+
+  const selectionValues = useMemo(() => {
+    if (!activeCatId) return [];
+    const values = new Set<string>();
+    for (const f of selectedFiles) {
+      const value = f.categories?.[activeCatId];
+      if (value) values.add(value);
+    }
+    return [...values].sort((a, b) => a.localeCompare(b));
+  }, [selectedFiles, activeCatId]);
+
+  const closeCategory = () => {
+    setActiveCatId(null);
+    setCatInput('');
+    setReplaceFrom('');
+  };
 
   const handleAddTag = () => {
     const trimmed = tagInput.trim();
@@ -35,10 +91,28 @@ export default function BulkActionBar({
 
   const handleSetCategory = () => {
     const trimmed = catInput.trim();
-    if (trimmed && activeCatId) {
-      onSetCategory(activeCatId, trimmed);
-      setCatInput('');
-      setActiveCatId(null);
+    if (trimmed && activeCatId && trimmed !== replaceFrom) {
+      onSetCategory(activeCatId, trimmed, replaceFrom || undefined);
+      closeCategory();
+    }
+  };
+
+  const handleClearCategory = () => {
+    if (!activeCatId) return;
+    onClearCategory(activeCatId);
+    closeCategory();
+  };
+
+  const handleDelete = () => {
+    if (window.confirm(`Remove ${count} file${count !== 1 ? 's' : ''} from the library? The files on disk are kept.`)) onDelete();
+  };
+
+  const handleCreateCollection = () => {
+    const trimmed = collectionName.trim();
+    if (trimmed) {
+      onCreateCollection(trimmed);
+      setCollectionName('');
+      setShowCollectionInput(false);
     }
   };
 
@@ -78,26 +152,113 @@ export default function BulkActionBar({
         </button>
       )}
 
+      {/* Remove Tag */}
+      {selectionTags.length > 0 && (
+        <select
+          defaultValue=""
+          onChange={(e) => {
+            if (e.target.value) onRemoveTags([e.target.value]);
+            e.target.value = '';
+          }}
+          className="ui-input text-xs px-2 py-1.5 cursor-pointer min-w-[112px]"
+        >
+          <option value="" disabled>Remove Tag</option>
+          {selectionTags.map(([tag, n]) => (
+            <option key={tag} value={tag}>{tag} ({n})</option>
+          ))}
+        </select>
+      )}
+
       {/* Set Category */}
       {activeCatId ? (
         <div className="flex gap-1 items-center">
-          <span className="text-[10px] text-faint whitespace-nowrap">{CATEGORY_LABELS[activeCatId]}:</span>
+          <span className="text-[10px] text-faint whitespace-nowrap">{activeCat?.label ?? activeCatId}:</span>
+          {selectionValues.length > 0 && (
+            <select
+              value={replaceFrom}
+              onChange={(e) => setReplaceFrom(e.target.value)}
+              aria-label="Files to change"
+              className="ui-input text-xs px-2 py-1.5 cursor-pointer"
+            >
+              <option value="">All selected</option>
+              {selectionValues.map((v) => (
+                <option key={v} value={v}>Replace {v}</option>
+              ))}
+            </select>
+          )}
+          {activeCat?.allowedValues ? (
+            <select
+              value={catInput}
+              onChange={(e) => setCatInput(e.target.value)}
+              autoFocus
+              className="ui-input text-xs px-2 py-1.5 cursor-pointer"
+            >
+              <option value="" disabled>Value...</option>
+              {activeCat.allowedValues.map((v) => (
+                <option key={v} value={v}>{v}</option>
+              ))}
+            </select>
+          ) : (
+            <input
+              type="text"
+              value={catInput}
+              onChange={(e) => setCatInput(e.target.value)}
+              onKeyDown={(e) => {
+                if (e.key === 'Enter') handleSetCategory();
+                if (e.key === 'Escape') closeCategory();
+              }}
+              placeholder="Value..."
+              autoFocus
+              className="ui-input w-24 text-xs px-2 py-1.5"
+            />
+          )}
+          <button onClick={handleSetCategory} className="ui-btn ui-btn-primary px-2 py-1.5 text-xs">
+            Set
+          </button>
+          {!replaceFrom && (
+            <button onClick={handleClearCategory} className="ui-btn ui-btn-secondary px-2 py-1.5 text-xs">
+              Clear
+            </button>
+          )}
+          <button onClick={closeCategory} className="ui-btn ui-btn-ghost p-1.5">
+            <X className="w-3 h-3" />
+          </button>
+        </div>
+      ) : (
+        <select
+          defaultValue=""
+          onChange={(e) => {
+            if (e.target.value) setActiveCatId(e.target.value);
+            e.target.value = '';
+          }}
+          className="ui-input text-xs px-2 py-1.5 cursor-pointer min-w-[118px]"
+        >
+          <option value="" disabled>Set Category</option>
+          {categoryDefs.map((def) => (
+            <option key={def.id} value={def.id}>{def.label}</option>
+          ))}
+        </select>
+      )}
+
+      {/* Add to Collection */}
+      {showCollectionInput ? (
+        <div className="flex gap-1">
           <input
             type="text"
-            value={catInput}
-            onChange={(e) => setCatInput(e.target.value)}
+            value={collectionName}
+            onChange={(e) => setCollectionName(e.target.value)}
             onKeyDown={(e) => {
-              if (e.key === 'Enter') handleSetCategory();
-              if (e.key === 'Escape') { setActiveCatId(null); setCatInput(''); }
+              if (e.key === 'Enter') handleCreateCollection();
+              if (e.key === 'Escape') { setShowCollectionInput(false); setCollectionName(''); }
             }}
-            placeholder="Value..."
+            placeholder="New collection..."
             autoFocus
-            className="ui-input w-24 text-xs px-2 py-1.5"
+            className="ui-input w-36 text-xs px-2 py-1.5"
           />
-          <button onClick={handleSetCategory} className="ui-btn ui-btn-primary px-2 py-1.5 text-xs">
-            Set
+          <button onClick={handleCreateCollection} className="ui-btn ui-btn-primary px-2 py-1.5 text-xs">
+            Create
           </button>
-          <button onClick={() => { setActiveCatId(null); setCatInput(''); }} className="ui-btn ui-btn-ghost p-1.5">
+          <button onClick={() => { setShowCollectionInput(false); setCollectionName(''); }} className="ui-btn ui-btn-ghost p-1.5">
             <X className="w-3 h-3" />
           </button>
         </div>
@@ -105,18 +266,53 @@ export default function BulkActionBar({
         <select
           defaultValue=""
           onChange={(e) => {
-            if (e.target.value) setActiveCatId(e.target.value);
+            if (e.target.value === NEW_COLLECTION) setShowCollectionInput(true);
+            else if (e.target.value) onAddToCollection(e.target.value);
             e.target.value = '';
           }}
-          className="ui-input text-xs px-2 py-1.5 cursor-pointer min-w-[118px]"
+          className="ui-input text-xs px-2 py-1.5 cursor-pointer min-w-[136px]"
         >
-          <option value="" disabled>Set Category</option>
-          {CATEGORY_IDS.map((catId) => (
-            <option key={catId} value={catId}>{CATEGORY_LABELS[catId]}</option>
+          <option value="" disabled>Add to Collection</option>
+          {collections.map((collection) => (
+            <option key={collection.id} value={collection.id}>{collection.name}</option>
+          ))}
+          <option value={NEW_COLLECTION}>New collection...</option>
+        </select>
+      )}
+
+      {/* Move out of the collection being browsed */}
+      {currentCollection && collections.length > 1 && (
+        <select
+          defaultValue=""
+          onChange={(e) => {
+            if (e.target.value) onMoveToCollection(e.target.value);
+            e.target.value = '';
+          }}
+          title={`Move out of ${currentCollection.name}`}
+          className="ui-input text-xs px-2 py-1.5 cursor-pointer min-w-[136px]"
+        >
+          <option value="" disabled>Move to Collection</option>
+          {collections.filter((c) => c.id !== currentCollection.id).map((collection) => (
+            <option key={collection.id} value={collection.id}>{collection.name}</option>
           ))}
         </select>
       )}
 
+      <button
+        onClick={onReclassify}
+        className="ui-btn ui-btn-secondary px-3 py-1.5 text-xs font-medium whitespace-nowrap"
+      >
+        Re-classify
+      </button>
+
+      <button
+        onClick={handleDelete}
+        title="Remove from library"
+        className="ui-btn ui-btn-ghost p-1.5 text-faint hover:text-red-300"
+      >
+        <Trash2 className="w-4 h-4" />
+      </button>
+
       <div className="w-px h-6 bg-[rgba(146,173,220,0.24)]" />
 
       {count < totalFiltered && (
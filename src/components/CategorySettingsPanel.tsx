@@ -0,0 +1,208 @@
+import { useState, useMemo } from 'react';
+import { X, ListTree, ChevronUp, ChevronDown, Trash2, Plus, Loader2, AlertCircle } from 'lucide-react';
+import { useDialog } from '../hooks/useDialog';
+import { slugifyCategoryId, validateCategoryDefs, parseAllowedValues } from '../utils/categorySchema';
+import type { STLFile, CategoryDef } from '../types/index';
+
+interface CategorySettingsPanelProps {
+  categoryDefs: CategoryDef[];
+  files: STLFile[];
+  onSave: (defs: CategoryDef[]) => Promise<void>;
+  onClose: () => void;
+}
+
+/** A category being edited; allowed values stay as typed until saved. */
+interface DraftCategory {
+  /** React key; new categories' ids change as their label is typed */
+  key: string;
+  id: string;
+  label: string;
+  allowedText: string;
+  isNew: boolean;
+}
+
+const toDraft = (def: CategoryDef): DraftCategory => ({
+  key: def.id,
+  id: def.id,
+  label: def.label,
+  allowedText: def.allowedValues?.join(', ') ?? '',
+  isNew: false,
+});
+
+export function CategorySettingsPanel({ categoryDefs, files, onSave, onClose }: CategorySettingsPanelProps) {
+  const { dialogRef } = useDialog(true, onClose);
+  const [drafts, setDrafts] = useState<DraftCategory[]>(() => categoryDefs.map(toDraft));
+  const [newLabel, setNewLabel] = useState('');
+  const [isSaving, setIsSaving] = useState(false);
+
+  // Files carrying a value per category, so deleting one shows what will be lost
+  const usage = useMemo(() => {
+    const counts: Record<string, number> = {};
+    for (const f of files) {
+      for (const [catId, value] of Object.entries(f.categories ?? {})) {
+        if (value) counts[catId] = (counts[catId] || 0) + 1;
+      }
+    }
+    return counts;
+  }, [files]);
+
+  const defs: CategoryDef[] = drafts.map((d, position) => ({
+    id: d.id,
+    label: d.label.trim(),
+    position,
+    allowedValues: parseAllowedValues(d.allowedText),
+  }));
+  const errors = validateCategoryDefs(defs);
+
+  const updateDraft = (index: number, patch: Partial<DraftCategory>) =>
+    setDrafts((prev) => prev.map((d, i) => (i === index ? { ...d, ...patch } : d)));
+
+  const moveDraft = (index: number, direction: -1 | 1) =>
+    setDrafts((prev) => {
+      const next = [...prev];
+      [next[index], next[index + direction]] = [next[index + direction], next[index]];
+      return next;
+    });
+
+  const removeDraft = (index: number) => {
+    const draft = drafts[index];
+    const used = usage[draft.id] ?? 0;
+    if (used > 0 && !window.confirm(`Delete "${draft.label}"? Its values will be removed from ${used} file${used !== 1 ? 's' : ''}. Undo can bring the values back once a category of the same name is added again; its rules and folder layout levels are removed for good.`)) return;
+    setDrafts((prev) => prev.filter((_, i) => i !== index));
+  };
+
+  const addDraft = () => {
+    const label = newLabel.trim();
+    if (!label) return;
+    setDrafts((prev) => [...prev, { key: crypto.randomUUID(), id: slugifyCategoryId(label), label, allowedText: '', isNew: true }]);
+    setNewLabel('');
+  };
+
+  const handleSave = async () => {
+    if (errors.length > 0) return;
+    setIsSaving(true);
+    try {
+      await onSave(defs);
+      onClose();
+    } catch (e) {
+      console.error('Failed to save categories:', e);
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center p-4">
+      <div className="absolute inset-0 overlay-backdrop" onClick={onClose} />
+      <div
+        ref={dialogRef}
+        role="dialog"
+        aria-modal="true"
+        aria-label="Edit categories"
+        className="relative overlay-panel rounded-2xl max-w-2xl w-full max-h-[90vh] flex flex-col"
+      >
+        <div className="flex items-center justify-between px-6 py-4 border-b border-[rgba(146,173,220,0.2)]">
+          <div className="flex items-center gap-3">
+            <ListTree className="w-5 h-5 text-cyan-200" />
+            <h2 className="text-lg font-bold brand-title">Categories</h2>
+          </div>
+          <button onClick={onClose} className="p-1.5 ui-btn ui-btn-ghost">
+            <X className="w-5 h-5 text-soft" />
+          </button>
+        </div>
+
+        <div className="flex-1 overflow-y-auto px-6 py-4 space-y-2">
+          {drafts.map((draft, i) => (
+            <div key={draft.key} className="flex items-start gap-2 border border-[rgba(146,173,220,0.22)] rounded-xl px-3 py-2.5 bg-[rgba(8,15,28,0.45)]">
+              <div className="flex-1 min-w-0 space-y-1.5">
+                <div className="flex items-center gap-2">
+                  <input
+                    type="text"
+                    value={draft.label}
+                    onChange={(e) => updateDraft(i, draft.isNew
+                      ? { label: e.target.value, id: slugifyCategoryId(e.target.value) }
+                      : { label: e.target.value })}
+                    aria-label="Category label"
+                    className="ui-input flex-1 min-w-0 text-sm px-2 py-1"
+                  />
+                  <span className="text-[10px] text-faint font-mono flex-shrink-0">{draft.id || '—'}</span>
+                  <span className="text-[10px] text-faint flex-shrink-0 w-14 text-right">
+                    {usage[draft.id] ?? 0} file{usage[draft.id] !== 1 && 's'}
+                  </span>
+                </div>
+                <input
+                  type="text"
+                  value={draft.allowedText}
+                  onChange={(e) => updateDraft(i, { allowedText: e.target.value })}
+                  placeholder="Any value (or list allowed values, comma-separated)"
+                  aria-label="Allowed values"
+                  className="ui-input w-full text-xs px-2 py-1"
+                />
+              </div>
+              <button
+                onClick={() => moveDraft(i, -1)}
+                disabled={i === 0}
+                title="Move up"
+                className="p-1 ui-btn ui-btn-ghost disabled:opacity-30"
+              >
+                <ChevronUp className="w-4 h-4" />
+              </button>
+              <button
+                onClick={() => moveDraft(i, 1)}
+                disabled={i === drafts.length - 1}
+                title="Move down"
+                className="p-1 ui-btn ui-btn-ghost disabled:opacity-30"
+              >
+                <ChevronDown className="w-4 h-4" />
+              </button>
+              <button onClick={() => removeDraft(i)} title="Delete category" className="p-1 ui-btn ui-btn-ghost">
+                <Trash2 className="w-4 h-4" />
+              </button>
+            </div>
+          ))}
+
+          <div className="flex gap-2 pt-2">
+            <input
+              type="text"
+              value={newLabel}
+              onChange={(e) => setNewLabel(e.target.value)}
+              onKeyDown={(e) => e.key === 'Enter' && addDraft()}
+              placeholder="New category..."
+              className="ui-input flex-1 text-sm px-3 py-1.5"
+            />
+            <button onClick={addDraft} className="ui-btn ui-btn-secondary flex items-center gap-1.5 px-3 py-1.5 text-xs">
+              <Plus className="w-3.5 h-3.5" />
+              Add
+            </button>
+          </div>
+        </div>
+
+        <div className="px-6 py-3 border-t border-[rgba(146,173,220,0.2)] space-y-2">
+          {errors.length > 0 && (
+            <ul className="space-y-1">
+              {errors.map((message) => (
+                <li key={message} className="flex items-center gap-1.5 text-xs text-amber-300">
+                  <AlertCircle className="w-3 h-3 flex-shrink-0" />
+                  {message}
+                </li>
+              ))}
+            </ul>
+          )}
+          <div className="flex items-center justify-between gap-3">
+            <p className="text-[10px] text-faint">
+              Deleting a category removes its values from every file. Restricted values only apply to new edits.
+            </p>
+            <button
+              onClick={handleSave}
+              disabled={isSaving || errors.length > 0}
+              className="ui-btn ui-btn-primary flex items-center gap-1.5 px-4 py-1.5 text-xs disabled:opacity-50"
+            >
+              {isSaving && <Loader2 className="w-3 h-3 animate-spin" />}
+              Save
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,342 @@
+import { useState, useMemo } from 'react';
+import { X, Wand2, Plus, Pencil, Trash2, Loader2, AlertCircle } from 'lucide-react';
+import { useDialog } from '../hooks/useDialog';
+import { validateRule, previewRules, describeRuleConditions } from '../utils/classificationRules';
+import { isAllowedValue } from '../utils/categorySchema';
+import type { STLFile, CategoryDef, ClassificationRule } from '../types/index';
+
+interface ClassificationRulesPanelProps {
+  rules: ClassificationRule[];
+  categoryDefs: CategoryDef[];
+  files: STLFile[];
+  onSave: (rule: ClassificationRule) => Promise<void>;
+  onDelete: (id: string) => void;
+  onClose: () => void;
+}
+
+/** The rule being edited, with numeric and list fields kept as typed. */
+interface RuleDraft {
+  id: string;
+  createdAt: number;
+  enabled: boolean;
+  categoryId: string;
+  value: string;
+  priority: string;
+  keywords: string;
+  pattern: string;
+  patternTarget: ClassificationRule['patternTarget'];
+  minHeight: string;
+  maxHeight: string;
+}
+
+const toDraft = (rule: ClassificationRule): RuleDraft => ({
+  id: rule.id,
+  createdAt: rule.createdAt,
+  enabled: rule.enabled,
+  categoryId: rule.categoryId,
+  value: rule.value,
+  priority: String(rule.priority),
+  keywords: rule.keywords.join(', '),
+  pattern: rule.pattern ?? '',
+  patternTarget: rule.patternTarget,
+  minHeight: rule.minHeight != null ? String(rule.minHeight) : '',
+  maxHeight: rule.maxHeight != null ? String(rule.maxHeight) : '',
+});
+
+const parseOptionalNumber = (text: string) => (text.trim() && Number.isFinite(Number(text)) ? Number(text) : null);
+
+const fromDraft = (draft: RuleDraft): ClassificationRule => ({
+  id: draft.id,
+  createdAt: draft.createdAt,
+  enabled: draft.enabled,
+  categoryId: draft.categoryId,
+  value: draft.value.trim(),
+  priority: Math.round(parseOptionalNumber(draft.priority) ?? 0),
+  keywords: [...new Set(draft.keywords.split(',').map((k) => k.trim().toLowerCase()).filter(Boolean))],
+  pattern: draft.pattern.trim() || null,
+  patternTarget: draft.patternTarget,
+  minHeight: parseOptionalNumber(draft.minHeight),
+  maxHeight: parseOptionalNumber(draft.maxHeight),
+});
+
+export function ClassificationRulesPanel({
+  rules, categoryDefs, files, onSave, onDelete, onClose,
+}: ClassificationRulesPanelProps) {
+  const { dialogRef } = useDialog(true, onClose);
+  const [draft, setDraft] = useState<RuleDraft | null>(null);
+  const [isSaving, setIsSaving] = useState(false);
+
+  const labelFor = (categoryId: string) => categoryDefs.find((d) => d.id === categoryId)?.label ?? categoryId;
+
+  const draftRule = useMemo(() => draft && fromDraft(draft), [draft]);
+  const draftDef = draftRule && categoryDefs.find((d) => d.id === draftRule.categoryId);
+  const draftErrors = draftRule
+    ? [
+        ...validateRule(draftRule),
+        ...(draftRule.value && !isAllowedValue(draftDef ?? undefined, draftRule.value)
+          ? [`"${draftRule.value}" is not an allowed ${labelFor(draftRule.categoryId)} value`]
+          : []),
+      ]
+    : [];
+
+  // Counts reflect the draft in place of its saved version, so edits preview live
+  const previews = useMemo(() => {
+    const effective = draftRule
+      ? [...rules.filter((r) => r.id !== draftRule.id), draftRule]
+      : rules;
+    return previewRules(effective, files);
+  }, [rules, draftRule, files]);
+
+  const startNewRule = () =>
+    setDraft(toDraft({
+      id: crypto.randomUUID(),
+      createdAt: Date.now(),
+      enabled: true,
+      categoryId: categoryDefs[0]?.id ?? '',
+      value: '',
+      priority: 0,
+      keywords: [],
+      pattern: null,
+      patternTarget: 'filename',
+      minHeight: null,
+      maxHeight: null,
+    }));
+
+  const updateDraft = (patch: Partial<RuleDraft>) => setDraft((prev) => (prev ? { ...prev, ...patch } : prev));
+
+  const handleSave = async () => {
+    if (!draftRule || draftErrors.length > 0) return;
+    setIsSaving(true);
+    try {
+      await onSave(draftRule);
+      setDraft(null);
+    } catch (e) {
+      console.error('Failed to save rule:', e);
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const draftPreview = draftRule && previews[draftRule.id];
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center p-4">
+      <div className="absolute inset-0 overlay-backdrop" onClick={onClose} />
+      <div
+        ref={dialogRef}
+        role="dialog"
+        aria-modal="true"
+        aria-label="Classification rules"
+        className="relative overlay-panel rounded-2xl max-w-3xl w-full max-h-[90vh] flex flex-col"
+      >
+        <div className="flex items-center justify-between px-6 py-4 border-b border-[rgba(146,173,220,0.2)]">
+          <div className="flex items-center gap-3">
+            <Wand2 className="w-5 h-5 text-cyan-200" />
+            <h2 className="text-lg font-bold brand-title">
+              {rules.length} classification rule{rules.length !== 1 && 's'}
+            </h2>
+          </div>
+          <div className="flex items-center gap-2">
+            {!draft && (
+              <button onClick={startNewRule} className="ui-btn ui-btn-primary flex items-center gap-1.5 px-3 py-1.5 text-xs">
+                <Plus className="w-3.5 h-3.5" />
+                New rule
+              </button>
+            )}
+            <button onClick={onClose} className="p-1.5 ui-btn ui-btn-ghost">
+              <X className="w-5 h-5 text-soft" />
+            </button>
+          </div>
+        </div>
+
+        {draft && draftRule && (
+          <div className="px-6 py-4 border-b border-[rgba(146,173,220,0.2)] space-y-3">
+            <div className="flex flex-wrap items-center gap-2 text-sm">
+              <span className="text-soft">Set</span>
+              <select
+                value={draft.categoryId}
+                onChange={(e) => updateDraft({ categoryId: e.target.value })}
+                className="ui-input text-sm px-2 py-1.5 cursor-pointer"
+              >
+                {categoryDefs.map((def) => (
+                  <option key={def.id} value={def.id}>{def.label}</option>
+                ))}
+              </select>
+              <span className="text-soft">to</span>
+              <input
+                type="text"
+                value={draft.value}
+                onChange={(e) => updateDraft({ value: e.target.value })}
+                list={draftDef?.allowedValues ? 'rule-allowed-values' : undefined}
+                placeholder="Value..."
+                autoFocus
+                className="ui-input w-36 text-sm px-2 py-1.5"
+              />
+              {draftDef?.allowedValues && (
+                <datalist id="rule-allowed-values">
+                  {draftDef.allowedValues.map((v) => <option key={v} value={v} />)}
+                </datalist>
+              )}
+              <label className="flex items-center gap-1.5 ml-auto text-xs text-soft">
+                Priority
+                <input
+                  type="number"
+                  step={1}
+                  value={draft.priority}
+                  onChange={(e) => updateDraft({ priority: e.target.value })}
+                  className="ui-input w-16 text-xs px-2 py-1.5"
+                />
+              </label>
+            </div>
+
+            <div className="grid grid-cols-2 gap-3">
+              <label className="block">
+                <span className="text-[10px] text-faint uppercase tracking-wider">Filename keywords (any)</span>
+                <input
+                  type="text"
+                  value={draft.keywords}
+                  onChange={(e) => updateDraft({ keywords: e.target.value })}
+                  placeholder="wall, ruin, rubble"
+                  className="ui-input w-full text-sm px-2 py-1.5 mt-1"
+                />
+              </label>
+              <div>
+                <span className="text-[10px] text-faint uppercase tracking-wider">Regular expression</span>
+                <div className="flex gap-1 mt-1">
+                  <select
+                    value={draft.patternTarget}
+                    onChange={(e) => updateDraft({ patternTarget: e.target.value as RuleDraft['patternTarget'] })}
+                    className="ui-input text-xs px-1.5 py-1.5 cursor-pointer"
+                  >
+                    <option value="filename">Filename</option>
+                    <option value="path">Path</option>
+                  </select>
+                  <input
+                    type="text"
+                    value={draft.pattern}
+                    onChange={(e) => updateDraft({ pattern: e.target.value })}
+                    placeholder="^Dungeon/.*_wall"
+                    className="ui-input flex-1 min-w-0 text-sm font-mono px-2 py-1.5"
+                  />
+                </div>
+              </div>
+              <div>
+                <span className="text-[10px] text-faint uppercase tracking-wider">Height (mm)</span>
+                <div className="flex items-center gap-1.5 mt-1">
+                  <input
+                    type="number"
+                    min={0}
+                    value={draft.minHeight}
+                    onChange={(e) => updateDraft({ minHeight: e.target.value })}
+                    placeholder="Min"
+                    aria-label="Minimum height"
+                    className="ui-input w-full text-sm px-2 py-1.5"
+                  />
+                  <span className="text-faint">–</span>
+                  <input
+                    type="number"
+                    min={0}
+                    value={draft.maxHeight}
+                    onChange={(e) => updateDraft({ maxHeight: e.target.value })}
+                    placeholder="Max"
+                    aria-label="Maximum height"
+                    className="ui-input w-full text-sm px-2 py-1.5"
+                  />
+                </div>
+              </div>
+              <div className="flex items-end">
+                <p className="text-xs text-soft">
+                  {draftPreview && draftErrors.length === 0
+                    ? <>Matches <span className="text-slate-100 font-semibold">{draftPreview.matched}</span> library file{draftPreview.matched !== 1 && 's'}, would change <span className="text-slate-100 font-semibold">{draftPreview.changed}</span></>
+                    : 'All conditions must match.'}
+                </p>
+              </div>
+            </div>
+
+            {draftErrors.length > 0 && (
+              <ul className="space-y-1">
+                {draftErrors.map((message) => (
+                  <li key={message} className="flex items-center gap-1.5 text-xs text-amber-300">
+                    <AlertCircle className="w-3 h-3 flex-shrink-0" />
+                    {message}
+                  </li>
+                ))}
+              </ul>
+            )}
+
+            <div className="flex justify-end gap-2">
+              <button onClick={() => setDraft(null)} className="ui-btn ui-btn-ghost px-3 py-1.5 text-xs">
+                Cancel
+              </button>
+              <button
+                onClick={handleSave}
+                disabled={isSaving || draftErrors.length > 0}
+                className="ui-btn ui-btn-primary flex items-center gap-1.5 px-3 py-1.5 text-xs disabled:opacity-50"
+              >
+                {isSaving && <Loader2 className="w-3 h-3 animate-spin" />}
+                Save rule
+              </button>
+            </div>
+          </div>
+        )}
+
+        <div className="flex-1 overflow-y-auto px-6 py-4">
+          {rules.length === 0 ? (
+            <p className="text-sm text-soft text-center py-12">
+              No rules yet. Rules teach the classifier your own keywords, folder patterns and size ranges.
+            </p>
+          ) : (
+            <ul className="divide-y divide-[rgba(146,173,220,0.12)] border border-[rgba(146,173,220,0.22)] rounded-xl overflow-hidden bg-[rgba(8,15,28,0.45)]">
+              {rules.map((rule) => {
+                const preview = previews[rule.id];
+                const isEditing = draft?.id === rule.id;
+                return (
+                  <li key={rule.id} className={`flex items-center gap-3 px-4 py-2.5 ${isEditing ? 'bg-[rgba(58,203,255,0.08)]' : ''} ${rule.enabled ? '' : 'opacity-60'}`}>
+                    <input
+                      type="checkbox"
+                      checked={rule.enabled}
+                      onChange={() => onSave({ ...rule, enabled: !rule.enabled }).catch((e) => console.error('Failed to toggle rule:', e))}
+                      title={rule.enabled ? 'Disable rule' : 'Enable rule'}
+                      className="accent-cyan-300"
+                    />
+                    <div className="flex-1 min-w-0">
+                      <p className="text-sm text-slate-100 truncate">
+                        {labelFor(rule.categoryId)} = {rule.value}
+                        {rule.priority !== 0 && <span className="ml-2 text-[10px] text-faint">priority {rule.priority}</span>}
+                      </p>
+                      <p className="text-xs text-faint font-mono truncate">{describeRuleConditions(rule)}</p>
+                    </div>
+                    <span className="text-xs text-faint flex-shrink-0 text-right">
+                      {preview ? `${preview.matched} match · ${preview.changed} change` : ''}
+                    </span>
+                    <button
+                      onClick={() => setDraft(toDraft(rule))}
+                      title="Edit rule"
+                      className="p-1 ui-btn ui-btn-ghost"
+                    >
+                      <Pencil className="w-4 h-4" />
+                    </button>
+                    <button
+                      onClick={() => {
+                        if (isEditing) setDraft(null);
+                        onDelete(rule.id);
+                      }}
+                      title="Delete rule"
+                      className="p-1 ui-btn ui-btn-ghost"
+                    >
+                      <Trash2 className="w-4 h-4" />
+                    </button>
+                  </li>
+                );
+              })}
+            </ul>
+          )}
+        </div>
+
+        <p className="px-6 py-3 border-t border-[rgba(146,173,220,0.2)] text-[10px] text-faint">
+          Rules apply to new imports and override the built-in keyword lists. Existing files keep their values.
+        </p>
+      </div>
+    </div>
+  );
+}
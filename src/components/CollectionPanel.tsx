@@ -0,0 +1,153 @@
+import { useState, useMemo } from 'react';
+import { X, ListOrdered, ChevronUp, ChevronDown, Trash2, FolderOutput, Loader2 } from 'lucide-react';
+import { useDialog } from '../hooks/useDialog';
+import type { STLFile, Collection, CollectionExportResult } from '../types/index';
+
+interface CollectionPanelProps {
+  collection: Collection;
+  files: STLFile[];
+  onMove: (fileId: string, direction: -1 | 1) => void;
+  onRemove: (fileId: string) => void;
+  onRename: (name: string) => void;
+  onDelete: () => void;
+  onExport: () => Promise<CollectionExportResult | null>;
+  onClose: () => void;
+}
+
+export function CollectionPanel({
+  collection, files, onMove, onRemove, onRename, onDelete, onExport, onClose,
+}: CollectionPanelProps) {
+  const { dialogRef } = useDialog(true, onClose);
+  const [name, setName] = useState(collection.name);
+  const [isExporting, setIsExporting] = useState(false);
+  const [exportResult, setExportResult] = useState<CollectionExportResult | null>(null);
+
+  // Members in playlist order; ids whose file left the library are skipped
+  const members = useMemo(() => {
+    const byId = new Map(files.map((f) => [f.id, f]));
+    return collection.fileIds.map((id) => byId.get(id)).filter((f): f is STLFile => !!f);
+  }, [collection.fileIds, files]);
+
+  const handleExport = async () => {
+    setIsExporting(true);
+    try {
+      const result = await onExport();
+      if (result) setExportResult(result);
+    } finally {
+      setIsExporting(false);
+    }
+  };
+
+  const commitName = () => {
+    if (name.trim() && name.trim() !== collection.name) onRename(name);
+    else setName(collection.name);
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center p-4">
+      <div className="absolute inset-0 overlay-backdrop" onClick={onClose} />
+      <div
+        ref={dialogRef}
+        role="dialog"
+        aria-modal="true"
+        aria-label={`Collection ${collection.name}`}
+        className="relative overlay-panel rounded-2xl max-w-2xl w-full max-h-[90vh] flex flex-col"
+      >
+        <div className="flex items-center justify-between gap-3 px-6 py-4 border-b border-[rgba(146,173,220,0.2)]">
+          <div className="flex items-center gap-3 flex-1 min-w-0">
+            <ListOrdered className="w-5 h-5 text-cyan-200 flex-shrink-0" />
+            <input
+              type="text"
+              value={name}
+              onChange={(e) => setName(e.target.value)}
+              onBlur={commitName}
+              onKeyDown={(e) => e.key === 'Enter' && e.currentTarget.blur()}
+              aria-label="Collection name"
+              className="flex-1 min-w-0 bg-transparent text-lg font-bold brand-title outline-none border-b border-transparent focus:border-[rgba(146,173,220,0.4)]"
+            />
+            <span className="text-xs text-faint flex-shrink-0">
+              {members.length} file{members.length !== 1 && 's'}
+            </span>
+          </div>
+          <button onClick={onClose} className="p-1.5 ui-btn ui-btn-ghost">
+            <X className="w-5 h-5 text-soft" />
+          </button>
+        </div>
+
+        <div className="flex-1 overflow-y-auto px-6 py-4">
+          {members.length === 0 ? (
+            <p className="text-sm text-soft text-center py-12">
+              This collection is empty. Select files and use "Add to collection".
+            </p>
+          ) : (
+            <ol className="divide-y divide-[rgba(146,173,220,0.12)] border border-[rgba(146,173,220,0.22)] rounded-xl overflow-hidden bg-[rgba(8,15,28,0.45)]">
+              {members.map((file, i) => (
+                <li key={file.id} className="flex items-center gap-3 px-4 py-2">
+                  <span className="w-6 text-xs text-faint text-right flex-shrink-0">{i + 1}</span>
+                  <div className="w-10 h-10 rounded-lg overflow-hidden bg-slate-950 flex-shrink-0">
+                    {file.thumbnail && <img src={file.thumbnail} alt="" className="w-full h-full object-contain" />}
+                  </div>
+                  <div className="flex-1 min-w-0">
+                    <p className="text-sm text-slate-100 truncate">{file.name}</p>
+                    <p className="text-xs text-faint font-mono truncate">{file.relativePath}</p>
+                  </div>
+                  <button
+                    onClick={() => onMove(file.id, -1)}
+                    disabled={i === 0}
+                    title="Move up"
+                    className="p-1 ui-btn ui-btn-ghost disabled:opacity-30"
+                  >
+                    <ChevronUp className="w-4 h-4" />
+                  </button>
+                  <button
+                    onClick={() => onMove(file.id, 1)}
+                    disabled={i === members.length - 1}
+                    title="Move down"
+                    className="p-1 ui-btn ui-btn-ghost disabled:opacity-30"
+                  >
+                    <ChevronDown className="w-4 h-4" />
+                  </button>
+                  <button
+                    onClick={() => onRemove(file.id)}
+                    title="Remove from collection"
+                    className="p-1 ui-btn ui-btn-ghost"
+                  >
+                    <X className="w-4 h-4" />
+                  </button>
+                </li>
+              ))}
+            </ol>
+          )}
+        </div>
+
+        {exportResult && (
+          <p className="px-6 py-2 text-xs text-soft border-t border-[rgba(146,173,220,0.2)]">
+            Exported {exportResult.exported} file{exportResult.exported !== 1 && 's'} to{' '}
+            <span className="font-mono">{exportResult.folder}</span>
+            {exportResult.failed.length > 0 && (
+              <span className="text-amber-300"> · {exportResult.failed.length} could not be read</span>
+            )}
+          </p>
+        )}
+
+        <div className="flex items-center justify-between px-6 py-4 border-t border-[rgba(146,173,220,0.2)]">
+          <button
+            onClick={() => { onDelete(); onClose(); }}
+            className="ui-btn ui-btn-ghost flex items-center gap-1.5 px-3 py-2 text-sm"
+          >
+            <Trash2 className="w-4 h-4" />
+            Delete collection
+          </button>
+          <button
+            onClick={handleExport}
+            disabled={isExporting || members.length === 0}
+            className="ui-btn ui-btn-primary flex items-center gap-1.5 px-4 py-2 text-sm"
+          >
+            {isExporting ? <Loader2 className="w-4 h-4 animate-spin" /> : <FolderOutput className="w-4 h-4" />}
+            Export to folder
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
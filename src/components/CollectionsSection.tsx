@@ -0,0 +1,89 @@
+import { useState } from 'react';
+import { ListOrdered, Plus, Settings2 } from 'lucide-react';
+import type { Collection } from '../types/index';
+
+interface CollectionsSectionProps {
+  collections: Collection[];
+  counts: Record<string, number>;
+  selectedId: string | null;
+  onToggle: (id: string) => void;
+  onManage: (id: string) => void;
+  onCreate: (name: string) => void;
+}
+
+export function CollectionsSection({
+  collections, counts, selectedId, onToggle, onManage, onCreate,
+}: CollectionsSectionProps) {
+  const [isNaming, setIsNaming] = useState(false);
+  const [name, setName] = useState('');
+
+  const submit = () => {
+    if (name.trim()) onCreate(name);
+    setName('');
+    setIsNaming(false);
+  };
+
+  return (
+    <div>
+      <div className="flex items-center justify-between mb-3">
+        <h3 className="ui-section-label">My collections</h3>
+        <button
+          onClick={() => setIsNaming(true)}
+          title="New collection"
+          className="text-faint hover:text-cyan-200 transition-colors"
+        >
+          <Plus className="w-4 h-4" />
+        </button>
+      </div>
+      <div className="space-y-1">
+        {collections.map((collection) => {
+          const active = collection.id === selectedId;
+          return (
+            <div
+              key={collection.id}
+              className={`group flex items-center rounded-lg text-sm font-medium transition-all ${
+                active ? 'ui-chip-active' : 'ui-chip hover:text-slate-100'
+              }`}
+            >
+              <button
+                onClick={() => onToggle(collection.id)}
+                className="flex-1 min-w-0 flex items-center gap-2 pl-3 py-2 text-left"
+              >
+                <ListOrdered className="w-3.5 h-3.5 flex-shrink-0" />
+                <span className="truncate">{collection.name}</span>
+                <span className="text-xs text-faint ml-auto flex-shrink-0">{counts[collection.id] ?? 0}</span>
+              </button>
+              <button
+                onClick={() => onManage(collection.id)}
+                title={`Manage "${collection.name}"`}
+                className="px-2 py-2 text-faint hover:text-cyan-200 opacity-0 group-hover:opacity-100 focus:opacity-100 transition-opacity"
+              >
+                <Settings2 className="w-3.5 h-3.5" />
+              </button>
+            </div>
+          );
+        })}
+
+        {isNaming && (
+          <input
+            type="text"
+            autoFocus
+            placeholder="Collection name..."
+            value={name}
+            onChange={(e) => setName(e.target.value)}
+            onKeyDown={(e) => {
+              if (e.key === 'Enter') submit();
+              if (e.key === 'Escape') { setName(''); setIsNaming(false); }
+            }}
+            onBlur={submit}
+            className="ui-input w-full px-3 py-2 text-sm"
+          />
+        )}
+
+        {collections.length === 0 && !isNaming && (
+          <p className="text-xs text-faint">Select files and use "Add to collection" to start one.</p>
+        )}
+      </div>
+    </div>
+  );
+}
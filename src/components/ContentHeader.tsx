@@ -1,13 +1,36 @@
+import { useState } from 'react';
+import { LayoutGrid, Rows3, ArrowUp, ArrowDown, Columns3 } from 'lucide-react';
+import { SORT_OPTIONS, SORT_KEYS } from '../utils/sortFiles';
+import type { SortKey, SortOrder } from '../utils/sortFiles';
+import type { TableColumn } from '../constants/tableColumns';
+import type { ViewMode } from '../hooks/useViewOptions';
+
 interface ContentHeaderProps {
   filteredCount: number;
   activeFilterCount: number;
+  sort: SortOrder;
+  onSortChange: (key: SortKey) => void;
+  onToggleSortDirection: () => void;
+  viewMode: ViewMode;
+  onViewModeChange: (mode: ViewMode) => void;
+  tableColumns: TableColumn[];
+  availableTableColumns: TableColumn[];
+  onToggleTableColumn: (id: string) => void;
   onSelectAll: () => void;
   onClearFilters: () => void;
 }
 
-export function ContentHeader({ filteredCount, activeFilterCount, onSelectAll, onClearFilters }: ContentHeaderProps) {
+export function ContentHeader({
+  filteredCount, activeFilterCount,
+  sort, onSortChange, onToggleSortDirection,
+  viewMode, onViewModeChange, tableColumns, availableTableColumns, onToggleTableColumn,
+  onSelectAll, onClearFilters,
+}: ContentHeaderProps) {
+  const [showColumns, setShowColumns] = useState(false);
+  const SortIcon = sort.direction === 'asc' ? ArrowUp : ArrowDown;
+
   return (
-    <div className="mb-5 flex items-center justify-between">
+    <div className="mb-5 flex flex-wrap items-center justify-between gap-3">
       <p className="text-sm text-soft">
         <span className="text-slate-100 font-semibold">{filteredCount}</span>{' '}
         file{filteredCount !== 1 && 's'}
@@ -24,6 +47,78 @@ export function ContentHeader({ filteredCount, activeFilterCount, onSelectAll, o
             Clear filters
           </button>
         )}
+
+        <div className="flex items-center gap-1">
+          <select
+            value={sort.key}
+            onChange={(e) => onSortChange(e.target.value as SortKey)}
+            aria-label="Sort by"
+            className="ui-input text-xs px-2 py-1.5 cursor-pointer"
+          >
+            {SORT_KEYS.map((key) => (
+              <option key={key} value={key}>{SORT_OPTIONS[key].label}</option>
+            ))}
+          </select>
+          {sort.key !== 'default' && (
+            <button
+              onClick={onToggleSortDirection}
+              title={sort.direction === 'asc' ? 'Ascending' : 'Descending'}
+              className="ui-btn ui-btn-ghost p-1.5"
+            >
+              <SortIcon className="w-3.5 h-3.5" />
+            </button>
+          )}
+        </div>
+
+        {viewMode === 'table' && (
+          <div className="relative">
+            <button
+              onClick={() => setShowColumns((v) => !v)}
+              aria-expanded={showColumns}
+              className="ui-btn ui-btn-ghost flex items-center gap-1.5 text-xs px-2 py-1.5"
+            >
+              <Columns3 className="w-3.5 h-3.5" />
+              Columns
+            </button>
+            {showColumns && (
+              <>
+                <div className="fixed inset-0 z-20" onClick={() => setShowColumns(false)} />
+                <div className="absolute right-0 top-full mt-1 z-30 overlay-panel rounded-xl p-2 w-48 max-h-80 overflow-y-auto">
+                  {availableTableColumns.map((column) => (
+                    <label key={column.id} className="flex items-center gap-2 px-2 py-1.5 rounded-md text-xs text-soft cursor-pointer hover:bg-[rgba(24,39,66,0.55)]">
+                      <input
+                        type="checkbox"
+                        checked={tableColumns.some((c) => c.id === column.id)}
+                        onChange={() => onToggleTableColumn(column.id)}
+                        className="accent-cyan-300"
+                      />
+                      {column.label}
+                    </label>
+                  ))}
+                </div>
+              </>
+            )}
+          </div>
+        )}
+
+        <div className="flex items-center rounded-lg ring-1 ring-[rgba(146,173,220,0.25)] overflow-hidden" role="group" aria-label="View">
+          <button
+            onClick={() => onViewModeChange('grid')}
+            title="Grid view"
+            aria-pressed={viewMode === 'grid'}
+            className={`p-1.5 transition-colors ${viewMode === 'grid' ? 'ui-chip-active' : 'text-faint hover:text-slate-100'}`}
+          >
+            <LayoutGrid className="w-4 h-4" />
+          </button>
+          <button
+            onClick={() => onViewModeChange('table')}
+            title="Table view"
+            aria-pressed={viewMode === 'table'}
+            className={`p-1.5 transition-colors ${viewMode === 'table' ? 'ui-chip-active' : 'text-faint hover:text-slate-100'}`}
+          >
+            <Rows3 className="w-4 h-4" />
+          </button>
+        </div>
       </div>
     </div>
   );
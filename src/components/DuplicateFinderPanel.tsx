@@ -0,0 +1,133 @@
+import { useState, useMemo } from 'react';
+import { X, Copy, Loader2, Hash } from 'lucide-react';
+import { useDialog } from '../hooks/useDialog';
+import { findDuplicateGroups, pickKeeper } from '../utils/duplicates';
+import type { STLFile } from '../types/index';
+
+interface DuplicateFinderPanelProps {
+  files: STLFile[];
+  onMerge: (keepId: string, removeIds: string[]) => Promise<void>;
+  onHashMissing: () => Promise<number>;
+  onClose: () => void;
+}
+
+export function DuplicateFinderPanel({ files, onMerge, onHashMissing, onClose }: DuplicateFinderPanelProps) {
+  const { dialogRef } = useDialog(true, onClose);
+  const groups = useMemo(() => findDuplicateGroups(files), [files]);
+  const unhashedCount = useMemo(() => files.filter((f) => !f.contentHash).length, [files]);
+
+  // Keeper chosen per group, keyed by the group's first file id; defaults to pickKeeper()
+  const [keepers, setKeepers] = useState<Record<string, string>>({});
+  const [mergingGroup, setMergingGroup] = useState<string | null>(null);
+  const [isHashing, setIsHashing] = useState(false);
+
+  const handleHashMissing = async () => {
+    setIsHashing(true);
+    try { await onHashMissing(); }
+    catch (e) { console.error('Failed to hash library files:', e); }
+    finally { setIsHashing(false); }
+  };
+
+  const handleMerge = async (groupKey: string, groupFiles: STLFile[], keepId: string) => {
+    setMergingGroup(groupKey);
+    try { await onMerge(keepId, groupFiles.filter((f) => f.id !== keepId).map((f) => f.id)); }
+    catch (e) { console.error('Failed to merge duplicates:', e); }
+    finally { setMergingGroup(null); }
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center p-4">
+      <div className="absolute inset-0 overlay-backdrop" onClick={onClose} />
+      <div
+        ref={dialogRef}
+        role="dialog"
+        aria-modal="true"
+        aria-label="Duplicate finder"
+        className="relative overlay-panel rounded-2xl max-w-3xl w-full max-h-[90vh] flex flex-col"
+      >
+        <div className="flex items-center justify-between px-6 py-4 border-b border-[rgba(146,173,220,0.2)]">
+          <div className="flex items-center gap-3">
+            <Copy className="w-5 h-5 text-cyan-200" />
+            <h2 className="text-lg font-bold brand-title">
+              {groups.length} duplicate group{groups.length !== 1 && 's'}
+            </h2>
+          </div>
+          <button onClick={onClose} className="p-1.5 ui-btn ui-btn-ghost">
+            <X className="w-5 h-5 text-soft" />
+          </button>
+        </div>
+
+        {unhashedCount > 0 && (
+          <div className="flex items-center justify-between gap-3 px-6 py-3 border-b border-[rgba(146,173,220,0.2)] text-xs text-soft">
+            <span>
+              {unhashedCount} file{unhashedCount !== 1 && 's'} imported before content hashing can only be matched by geometry.
+            </span>
+            <button
+              onClick={handleHashMissing}
+              disabled={isHashing}
+              className="ui-btn ui-btn-secondary flex items-center gap-1.5 px-3 py-1.5 text-xs whitespace-nowrap"
+            >
+              {isHashing ? <Loader2 className="w-3 h-3 animate-spin" /> : <Hash className="w-3 h-3" />}
+              Hash files
+            </button>
+          </div>
+        )}
+
+        <div className="flex-1 overflow-y-auto px-6 py-4 space-y-3">
+          {groups.length === 0 && (
+            <p className="text-sm text-soft text-center py-12">No duplicates found</p>
+          )}
+          {groups.map((group) => {
+            const groupKey = group.files[0].id;
+            const keepId = keepers[groupKey] ?? pickKeeper(group.files).id;
+            const isMerging = mergingGroup === groupKey;
+            return (
+              <div key={groupKey} className="border border-[rgba(146,173,220,0.22)] rounded-xl overflow-hidden bg-[rgba(8,15,28,0.45)]">
+                <div className="flex items-center justify-between px-4 py-2.5 border-b border-[rgba(146,173,220,0.2)]">
+                  <span className="ui-section-label">
+                    {group.kind === 'exact' ? 'Exact copies' : 'Same geometry'} · {group.files.length}
+                  </span>
+                  <button
+                    onClick={() => handleMerge(groupKey, group.files, keepId)}
+                    disabled={isMerging}
+                    className="ui-btn ui-btn-primary flex items-center gap-1.5 px-3 py-1.5 text-xs"
+                  >
+                    {isMerging && <Loader2 className="w-3 h-3 animate-spin" />}
+                    Keep selected, remove {group.files.length - 1}
+                  </button>
+                </div>
+                <div className="divide-y divide-[rgba(146,173,220,0.12)]">
+                  {group.files.map((file) => (
+                    <label key={file.id} className="flex items-center gap-3 px-4 py-2 cursor-pointer hover:bg-[rgba(24,39,66,0.55)]">
+                      <input
+                        type="radio"
+                        name={`keeper-${groupKey}`}
+                        checked={file.id === keepId}
+                        onChange={() => setKeepers((prev) => ({ ...prev, [groupKey]: file.id }))}
+                        className="accent-cyan-300"
+                      />
+                      <div className="w-12 h-12 rounded-lg overflow-hidden bg-slate-950 flex-shrink-0">
+                        {file.thumbnail && <img src={file.thumbnail} alt="" className="w-full h-full object-contain" />}
+                      </div>
+                      <div className="flex-1 min-w-0">
+                        <p className="text-sm text-slate-100 truncate">{file.name}</p>
+                        <p className="text-xs text-faint font-mono truncate">{file.relativePath}</p>
+                      </div>
+                      <span className="text-xs text-faint flex-shrink-0">
+                        {file.tags.length} tag{file.tags.length !== 1 && 's'} · {Object.keys(file.categories || {}).length} categories
+                      </span>
+                    </label>
+                  ))}
+                </div>
+              </div>
+            );
+          })}
+        </div>
+
+        <p className="px-6 py-3 border-t border-[rgba(146,173,220,0.2)] text-[10px] text-faint">
+          Tags and categories from removed copies are merged onto the kept file. Files on disk are not deleted.
+        </p>
+      </div>
+    </div>
+  );
+}
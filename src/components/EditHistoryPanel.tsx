@@ -0,0 +1,98 @@
+import { X, History, Undo2, Redo2 } from 'lucide-react';
+import { useDialog } from '../hooks/useDialog';
+import type { EditHistoryEntry } from '../types/index';
+
+interface EditHistoryPanelProps {
+  /** Newest first */
+  entries: EditHistoryEntry[];
+  onUndo: () => void;
+  onRedo: () => void;
+  /** Undo or redo until the entry is the latest applied edit */
+  onGoTo: (id: number) => void;
+  onClose: () => void;
+}
+
+export function EditHistoryPanel({ entries, onUndo, onRedo, onGoTo, onClose }: EditHistoryPanelProps) {
+  const { dialogRef } = useDialog(true, onClose);
+  const canUndo = entries.some((e) => !e.undone);
+  const canRedo = entries.some((e) => e.undone);
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center p-4">
+      <div className="absolute inset-0 overlay-backdrop" onClick={onClose} />
+      <div
+        ref={dialogRef}
+        role="dialog"
+        aria-modal="true"
+        aria-label="Edit history"
+        className="relative overlay-panel rounded-2xl max-w-xl w-full max-h-[90vh] flex flex-col"
+      >
+        <div className="flex items-center justify-between px-6 py-4 border-b border-[rgba(146,173,220,0.2)]">
+          <div className="flex items-center gap-3">
+            <History className="w-5 h-5 text-cyan-200" />
+            <h2 className="text-lg font-bold brand-title">Edit history</h2>
+          </div>
+          <div className="flex items-center gap-2">
+            <button
+              onClick={onUndo}
+              disabled={!canUndo}
+              title="Undo (Ctrl+Z)"
+              className="ui-btn ui-btn-secondary flex items-center gap-1.5 px-3 py-1.5 text-xs disabled:opacity-50"
+            >
+              <Undo2 className="w-3.5 h-3.5" />
+              Undo
+            </button>
+            <button
+              onClick={onRedo}
+              disabled={!canRedo}
+              title="Redo (Ctrl+Shift+Z)"
+              className="ui-btn ui-btn-secondary flex items-center gap-1.5 px-3 py-1.5 text-xs disabled:opacity-50"
+            >
+              <Redo2 className="w-3.5 h-3.5" />
+              Redo
+            </button>
+            <button onClick={onClose} className="p-1.5 ui-btn ui-btn-ghost">
+              <X className="w-5 h-5 text-soft" />
+            </button>
+          </div>
+        </div>
+
+        <div className="flex-1 overflow-y-auto px-6 py-4">
+          {entries.length === 0 ? (
+            <p className="text-sm text-soft text-center py-12">
+              No edits yet. Tag, category and bulk edits show up here and can be undone.
+            </p>
+          ) : (
+            <ul className="divide-y divide-[rgba(146,173,220,0.12)] border border-[rgba(146,173,220,0.22)] rounded-xl overflow-hidden bg-[rgba(8,15,28,0.45)]">
+              {entries.map((entry) => (
+                <li key={entry.id}>
+                  <button
+                    onClick={() => onGoTo(entry.id)}
+                    title={entry.undone ? 'Redo up to here' : 'Undo back to here'}
+                    className={`w-full flex items-center gap-3 px-4 py-2.5 text-left text-sm hover:bg-[rgba(58,203,255,0.06)] ${
+                      entry.undone ? 'opacity-50' : ''
+                    }`}
+                  >
+                    <span className={`flex-1 min-w-0 truncate ${entry.undone ? 'line-through text-soft' : 'text-slate-100'}`}>
+                      {entry.label}
+                    </span>
+                    <span className="text-xs text-faint whitespace-nowrap">
+                      {entry.fileCount} file{entry.fileCount !== 1 && 's'}
+                    </span>
+                    <span className="text-xs text-faint whitespace-nowrap">
+                      {new Date(entry.createdAt).toLocaleString()}
+                    </span>
+                  </button>
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+
+        <p className="px-6 py-3 border-t border-[rgba(146,173,220,0.2)] text-xs text-faint">
+          The last 200 edits to tags, categories and file details, and removals from the library, are kept. Files changed again since an edit are left as they are when it is undone or redone.
+        </p>
+      </div>
+    </div>
+  );
+}
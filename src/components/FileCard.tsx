@@ -1,21 +1,28 @@
 import { memo } from 'react';
 import type { MouseEvent } from 'react';
 import { Box, Check } from 'lucide-react';
-import type { STLFile } from '../types/index';
+import type { STLFile, SearchHit } from '../types/index';
 import { getRoleStyle, ROLE_ICON_MAP } from '../constants/roleStyles';
+import type { FileStatus } from '../utils/libraryHealth';
+import { getSecondaryMatch, SEARCH_FIELD_LABELS } from '../utils/searchHighlight';
+import { HighlightedText } from './HighlightedText';
 
 interface FileCardProps {
   file: STLFile;
   isSelected: boolean;
   bulkMode: boolean;
+  status: FileStatus;
+  /** Set while a full-text search is active and this file matched it */
+  searchHit?: SearchHit;
   onOpen: (file: STLFile) => void;
   onToggleSelect: (id: string, e: MouseEvent) => void;
 }
 
-export const FileCard = memo(function FileCard({ file, isSelected, bulkMode, onOpen, onToggleSelect }: FileCardProps) {
+export const FileCard = memo(function FileCard({ file, isSelected, bulkMode, status, searchHit, onOpen, onToggleSelect }: FileCardProps) {
   const role = file.categories?.role;
   const style = getRoleStyle(role);
   const RoleIcon = ROLE_ICON_MAP[role ?? ''] || Box;
+  const secondaryMatch = searchHit ? getSecondaryMatch(searchHit) : null;
 
   return (
     <article className="grid-card group rounded-xl overflow-hidden transition-all duration-200 relative">
@@ -41,6 +48,22 @@ export const FileCard = memo(function FileCard({ file, isSelected, bulkMode, onO
             <RoleIcon className="w-14 h-14 text-white/15 group-hover:text-white/25 transition-colors duration-300" />
           </>
         )}
+        {status === 'missing' && file.missingAt != null && (
+          <span
+            className="absolute bottom-2.5 left-2.5 bg-amber-600 text-white/90 text-[10px] font-semibold uppercase tracking-wider px-2 py-0.5 rounded-md z-10 shadow-lg"
+            title={`Not found on disk since ${new Date(file.missingAt).toLocaleString()}`}
+          >
+            Missing
+          </span>
+        )}
+        {status === 'offline' && (
+          <span
+            className="absolute bottom-2.5 left-2.5 bg-slate-600 text-white/90 text-[10px] font-semibold uppercase tracking-wider px-2 py-0.5 rounded-md z-10 shadow-lg"
+            title="Library folder is unreachable (drive disconnected?)"
+          >
+            Offline
+          </span>
+        )}
         {role && (
           <span className={`absolute top-2.5 right-2.5 ${style.badge} text-white/90 text-[10px] font-semibold uppercase tracking-wider px-2 py-0.5 rounded-md z-10 shadow-lg`}>
             {role}
@@ -49,8 +72,13 @@ export const FileCard = memo(function FileCard({ file, isSelected, bulkMode, onO
       </div>
       <div className="p-3.5">
         <h3 className="font-semibold text-sm text-slate-100 truncate group-hover:text-cyan-200 transition-colors">
-          {file.name}
+          {searchHit?.highlights.name ? <HighlightedText text={searchHit.highlights.name} /> : file.name}
         </h3>
+        {secondaryMatch && (
+          <p className="text-[11px] text-faint mt-1 truncate">
+            {SEARCH_FIELD_LABELS[secondaryMatch.field]}: <HighlightedText text={secondaryMatch.highlighted} />
+          </p>
+        )}
         <p className="text-xs text-soft mt-1 font-medium">
           {file.size}
           {file.categories?.creator && (
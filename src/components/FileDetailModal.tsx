@@ -2,14 +2,17 @@ import { Box, X, Tag, Loader2, Eye, Settings } from 'lucide-react';
 import { useDialog } from '../hooks/useDialog';
 import STLViewer from './STLViewer';
 import PrintSettingsPopover from './PrintSettingsPopover';
-import { CATEGORY_IDS, CATEGORY_LABELS } from '../utils/categoryClassifier';
+import { isAllowedValue } from '../utils/categorySchema';
 import { getRoleStyle, ROLE_ICON_MAP } from '../constants/roleStyles';
-import type { STLFile, ViewerState, CategoryValues, PrintSettings } from '../types/index';
+import { FORMAT_LABELS, getFileFormat } from '../utils/modelFormats';
+import { describeProvenance } from '../utils/provenance';
+import type { STLFile, ViewerState, CategoryValues, CategoryDef, PrintSettings } from '../types/index';
 
 interface FileDetailModalProps {
   file: STLFile;
   fileTagsEdit: string[];
   fileCategoriesEdit: CategoryValues;
+  categoryDefs: CategoryDef[];
   onCategoryChange: (catId: string, value: string | undefined) => void;
   newTag: string;
   onNewTagChange: (val: string) => void;
@@ -28,7 +31,7 @@ interface FileDetailModalProps {
 }
 
 export function FileDetailModal({
-  file, fileTagsEdit, fileCategoriesEdit, onCategoryChange,
+  file, fileTagsEdit, fileCategoriesEdit, categoryDefs, onCategoryChange,
   newTag, onNewTagChange, viewerState,
   showPrintSettings, onTogglePrintSettings,
   tagsChanged, categoriesChanged,
@@ -74,6 +77,9 @@ export function FileDetailModal({
             <div className="flex flex-col items-center gap-2">
               <X className="w-10 h-10 text-red-400/60" />
               <p className="text-sm text-red-400/60">Failed to load model</p>
+              {viewerState.error && (
+                <p className="text-xs text-red-400/50 max-w-xs text-center px-4">{viewerState.error}</p>
+              )}
             </div>
           ) : (
             <>
@@ -124,18 +130,43 @@ export function FileDetailModal({
           <div className="border-t border-[rgba(146,173,220,0.18)] pt-5 mb-5">
             <h3 className="ui-section-label mb-3">Categories</h3>
             <div className="grid grid-cols-2 gap-3">
-              {CATEGORY_IDS.map((catId) => (
-                <div key={catId}>
-                  <label className="text-[10px] text-faint uppercase tracking-wider">{CATEGORY_LABELS[catId]}</label>
-                  <input
-                    type="text"
-                    value={fileCategoriesEdit[catId] || ''}
-                    onChange={(e) => onCategoryChange(catId, e.target.value || undefined)}
-                    placeholder="—"
-                    className="ui-input w-full text-sm py-1.5 px-2 mt-1"
-                  />
-                </div>
-              ))}
+              {categoryDefs.map((def) => {
+                const value = fileCategoriesEdit[def.id] || '';
+                // Only the stored value has a provenance; an unsaved edit will be recorded as set by hand
+                const assigned = value && value === file.categories?.[def.id] ? file.provenance?.categories[def.id] : undefined;
+                return (
+                  <div key={def.id}>
+                    <label className="text-[10px] text-faint uppercase tracking-wider">{def.label}</label>
+                    {def.allowedValues ? (
+                      <select
+                        value={value}
+                        onChange={(e) => onCategoryChange(def.id, e.target.value || undefined)}
+                        className="ui-input w-full text-sm py-1.5 px-2 mt-1 cursor-pointer"
+                      >
+                        <option value="">—</option>
+                        {/* Keep a value assigned before the list was restricted selectable */}
+                        {value && !isAllowedValue(def, value) && <option value={value}>{value}</option>}
+                        {def.allowedValues.map((v) => (
+                          <option key={v} value={v}>{v}</option>
+                        ))}
+                      </select>
+                    ) : (
+                      <input
+                        type="text"
+                        value={value}
+                        onChange={(e) => onCategoryChange(def.id, e.target.value || undefined)}
+                        placeholder="—"
+                        className="ui-input w-full text-sm py-1.5 px-2 mt-1"
+                      />
+                    )}
+                    {assigned && (
+                      <p className="text-[10px] text-faint mt-0.5 truncate" title={file.classification?.[def.id]?.evidence}>
+                        {describeProvenance(assigned)}
+                      </p>
+                    )}
+                  </div>
+                );
+              })}
             </div>
             {categoriesChanged && (
               <button
@@ -154,14 +185,22 @@ export function FileDetailModal({
               Tags
             </h3>
             <div className="flex flex-wrap gap-2 mb-4 min-h-[32px]">
-              {fileTagsEdit.map((tag) => (
-                <span key={tag} className="group/tag flex items-center gap-1.5 px-3 py-1 rounded-full text-sm text-soft ring-1 ring-[rgba(146,173,220,0.3)] bg-[rgba(13,23,41,0.82)]">
-                  {tag}
-                  <button onClick={() => onRemoveTag(tag)} className="text-faint hover:text-red-300 transition-colors">
-                    <X className="w-3 h-3" />
-                  </button>
-                </span>
-              ))}
+              {fileTagsEdit.map((tag) => {
+                const assigned = file.tags?.includes(tag) ? file.provenance?.tags[tag] : undefined;
+                return (
+                  <span
+                    key={tag}
+                    title={assigned && describeProvenance(assigned)}
+                    className="group/tag flex items-center gap-1.5 px-3 py-1 rounded-full text-sm text-soft ring-1 ring-[rgba(146,173,220,0.3)] bg-[rgba(13,23,41,0.82)]"
+                  >
+                    {tag}
+                    {assigned && assigned.source !== 'manual' && <span className="text-[10px] text-faint">{assigned.source}</span>}
+                    <button onClick={() => onRemoveTag(tag)} className="text-faint hover:text-red-300 transition-colors">
+                      <X className="w-3 h-3" />
+                    </button>
+                  </span>
+                );
+              })}
               {fileTagsEdit.length === 0 && <span className="text-sm text-faint italic">No tags</span>}
             </div>
             <div className="flex gap-2">
@@ -256,6 +295,10 @@ export function FileDetailModal({
               <div className="border-t border-[rgba(146,173,220,0.18)] pt-5 mt-5">
                 <h3 className="ui-section-label mb-3">File Info</h3>
                 <div className="space-y-2 text-sm">
+                  <div className="flex justify-between">
+                    <span className="text-soft">Format</span>
+                    <span className="text-slate-200 text-xs">{FORMAT_LABELS[getFileFormat(file)]}</span>
+                  </div>
                   {file.metadata.originalFilename && (
                     <div className="flex justify-between">
                       <span className="text-soft">Original</span>
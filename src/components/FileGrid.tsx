@@ -2,8 +2,13 @@ import { useRef, useState, useEffect } from 'react';
 import type { MouseEvent } from 'react';
 import { useWindowVirtualizer } from '@tanstack/react-virtual';
 import { Box } from 'lucide-react';
-import type { STLFile } from '../types/index';
+import type { STLFile, SearchHit } from '../types/index';
 import { FileCard } from './FileCard';
+import { FileTable } from './FileTable';
+import { getFileStatus } from '../utils/libraryHealth';
+import type { SortKey, SortOrder } from '../utils/sortFiles';
+import type { ViewMode } from '../hooks/useViewOptions';
+import type { TableColumn } from '../constants/tableColumns';
 
 // Row height estimate: h-40 image (160) + content (~84) + gap (16) ≈ 260px
 const ESTIMATED_ROW_HEIGHT = 260;
@@ -26,29 +31,26 @@ function useColumnsPerRow(): number {
   return cols;
 }
 
-interface FileGridProps {
+interface CardGridProps {
   files: STLFile[];
   selectedIds: Set<string>;
   bulkMode: boolean;
+  offlineDirectoryIds: ReadonlySet<string>;
+  searchHits: Map<string, SearchHit> | null;
   onOpenFile: (file: STLFile) => void;
   onToggleSelect: (id: string, e: MouseEvent) => void;
-  onClearFilters: () => void;
 }
 
-export function FileGrid({ files, selectedIds, bulkMode, onOpenFile, onToggleSelect, onClearFilters }: FileGridProps) {
-  const parentRef = useRef<HTMLDivElement>(null);
-  const cols = useColumnsPerRow();
-  const rowCount = Math.ceil(files.length / cols);
-
-  const virtualizer = useWindowVirtualizer({
-    count: rowCount,
-    estimateSize: () => ESTIMATED_ROW_HEIGHT,
-    overscan: 3,
-    // scrollMargin: distance from top of page to the top of this container
-    scrollMargin: parentRef.current?.offsetTop ?? 0,
-  });
+interface FileGridProps extends CardGridProps {
+  viewMode: ViewMode;
+  tableColumns: TableColumn[];
+  sort: SortOrder;
+  onSortChange: (key: SortKey) => void;
+  onClearFilters: () => void;
+}
 
-  if (files.length === 0) {
+export function FileGrid({ viewMode, tableColumns, sort, onSortChange, onClearFilters, ...gridProps }: FileGridProps) {
+  if (gridProps.files.length === 0) {
     return (
       <div className="text-center py-24 surface-panel rounded-2xl">
         <Box className="w-12 h-12 text-faint mx-auto mb-4" />
@@ -63,6 +65,25 @@ export function FileGrid({ files, selectedIds, bulkMode, onOpenFile, onToggleSel
     );
   }
 
+  if (viewMode === 'table') {
+    return <FileTable {...gridProps} columns={tableColumns} sort={sort} onSortChange={onSortChange} />;
+  }
+  return <CardGrid {...gridProps} />;
+}
+
+function CardGrid({ files, selectedIds, bulkMode, offlineDirectoryIds, searchHits, onOpenFile, onToggleSelect }: CardGridProps) {
+  const parentRef = useRef<HTMLDivElement>(null);
+  const cols = useColumnsPerRow();
+  const rowCount = Math.ceil(files.length / cols);
+
+  const virtualizer = useWindowVirtualizer({
+    count: rowCount,
+    estimateSize: () => ESTIMATED_ROW_HEIGHT,
+    overscan: 3,
+    // scrollMargin: distance from top of page to the top of this container
+    scrollMargin: parentRef.current?.offsetTop ?? 0,
+  });
+
   const virtualRows = virtualizer.getVirtualItems();
   const scrollMargin = virtualizer.options.scrollMargin ?? 0;
 
@@ -94,6 +115,8 @@ export function FileGrid({ files, selectedIds, bulkMode, onOpenFile, onToggleSel
                     file={file}
                     isSelected={selectedIds.has(file.id)}
                     bulkMode={bulkMode}
+                    status={getFileStatus(file, offlineDirectoryIds)}
+                    searchHit={searchHits?.get(file.id)}
                     onOpen={onOpenFile}
                     onToggleSelect={onToggleSelect}
                   />
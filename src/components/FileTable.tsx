@@ -0,0 +1,195 @@
+import { memo, useRef } from 'react';
+import type { MouseEvent, ReactNode } from 'react';
+import { useWindowVirtualizer } from '@tanstack/react-virtual';
+import { Box, Check, ArrowUp, ArrowDown } from 'lucide-react';
+import type { STLFile, SearchHit } from '../types/index';
+import { getColumnCategoryId } from '../constants/tableColumns';
+import type { TableColumn } from '../constants/tableColumns';
+import type { SortKey, SortOrder } from '../utils/sortFiles';
+import { getFileFormat, FORMAT_LABELS } from '../utils/modelFormats';
+import { getFileStatus } from '../utils/libraryHealth';
+import type { FileStatus } from '../utils/libraryHealth';
+import { RANGE_FIELDS } from '../utils/rangeFilters';
+import { HighlightedText } from './HighlightedText';
+
+const ROW_HEIGHT = 48;
+
+const formatDate = (ms: number | null | undefined) => (ms ? new Date(ms).toLocaleDateString() : '—');
+const formatNumber = (n: number | null | undefined, decimals = 0, unit = '') =>
+  n == null ? '—' : `${n.toLocaleString(undefined, { maximumFractionDigits: decimals })}${unit}`;
+
+function renderCell(column: TableColumn, file: STLFile): ReactNode {
+  const dims = file.metadata?.dimensions;
+  const categoryId = getColumnCategoryId(column.id);
+  if (categoryId) return file.categories?.[categoryId] || '—';
+  switch (column.id) {
+    case 'format': return FORMAT_LABELS[getFileFormat(file)];
+    case 'size': return file.size;
+    case 'dimensions': return dims ? `${dims.x.toFixed(0)}×${dims.y.toFixed(0)}×${dims.z.toFixed(0)} mm` : '—';
+    case 'height': return formatNumber(RANGE_FIELDS.height.get(file), 1, ' mm');
+    case 'volume': return formatNumber(RANGE_FIELDS.volume.get(file), 1, ' cm³');
+    case 'triangles': return formatNumber(file.metadata?.triangleCount);
+    case 'grams': return formatNumber(RANGE_FIELDS.grams.get(file), 0, ' g');
+    case 'watertight': return file.metadata ? (file.metadata.isWatertight ? 'Yes' : 'No') : '—';
+    case 'imported': return formatDate(file.importedAt);
+    case 'modified': return formatDate(file.lastModified);
+    case 'tags': return file.tags?.length ? file.tags.join(', ') : '—';
+    default: return null;
+  }
+}
+
+interface FileTableRowProps {
+  file: STLFile;
+  columns: TableColumn[];
+  gridTemplateColumns: string;
+  isSelected: boolean;
+  bulkMode: boolean;
+  status: FileStatus;
+  searchHit?: SearchHit;
+  onOpen: (file: STLFile) => void;
+  onToggleSelect: (id: string, e: MouseEvent) => void;
+}
+
+const FileTableRow = memo(function FileTableRow({
+  file, columns, gridTemplateColumns, isSelected, bulkMode, status, searchHit, onOpen, onToggleSelect,
+}: FileTableRowProps) {
+  return (
+    <div
+      role="row"
+      onClick={() => onOpen(file)}
+      className={`group grid items-center gap-3 px-3 text-xs border-b border-[rgba(146,173,220,0.1)] cursor-pointer transition-colors ${
+        isSelected ? 'bg-[rgba(58,203,255,0.1)]' : 'hover:bg-[rgba(24,39,66,0.55)]'
+      } ${status !== 'available' ? 'opacity-60' : ''}`}
+      style={{ gridTemplateColumns, height: ROW_HEIGHT }}
+    >
+      <button
+        onClick={(e) => onToggleSelect(file.id, e)}
+        aria-label={isSelected ? `Deselect ${file.name}` : `Select ${file.name}`}
+        className={`w-5 h-5 rounded border-2 flex items-center justify-center transition-all ${
+          isSelected
+            ? 'bg-cyan-300 border-cyan-300 text-slate-900'
+            : `border-cyan-200/60 hover:border-cyan-300 ${bulkMode ? '' : 'opacity-0 group-hover:opacity-100'}`
+        }`}
+      >
+        {isSelected && <Check className="w-3.5 h-3.5" />}
+      </button>
+      <div className="flex items-center gap-2.5 min-w-0" role="cell">
+        <div className="w-9 h-9 rounded-md overflow-hidden bg-slate-950 flex-shrink-0 flex items-center justify-center">
+          {file.thumbnail
+            ? <img src={file.thumbnail} alt="" className="w-full h-full object-contain" />
+            : <Box className="w-4 h-4 text-faint" />}
+        </div>
+        <span className="text-sm text-slate-100 truncate group-hover:text-cyan-200 transition-colors">
+          {searchHit?.highlights.name ? <HighlightedText text={searchHit.highlights.name} /> : file.name}
+        </span>
+        {status !== 'available' && (
+          <span className="text-[10px] uppercase tracking-wider text-amber-300 flex-shrink-0">{status}</span>
+        )}
+      </div>
+      {columns.map((column) => (
+        <div
+          key={column.id}
+          role="cell"
+          className={`truncate text-soft ${column.align === 'right' ? 'text-right tabular-nums' : ''}`}
+        >
+          {renderCell(column, file)}
+        </div>
+      ))}
+    </div>
+  );
+});
+
+interface FileTableProps {
+  files: STLFile[];
+  columns: TableColumn[];
+  sort: SortOrder;
+  onSortChange: (key: SortKey) => void;
+  selectedIds: Set<string>;
+  bulkMode: boolean;
+  offlineDirectoryIds: ReadonlySet<string>;
+  searchHits: Map<string, SearchHit> | null;
+  onOpenFile: (file: STLFile) => void;
+  onToggleSelect: (id: string, e: MouseEvent) => void;
+}
+
+/** Dense, virtualised list of files with configurable metadata and category columns. */
+export function FileTable({
+  files, columns, sort, onSortChange, selectedIds, bulkMode, offlineDirectoryIds, searchHits, onOpenFile, onToggleSelect,
+}: FileTableProps) {
+  // Wraps the rows only, so the scroll margin excludes the header
+  const rowsRef = useRef<HTMLDivElement>(null);
+  const gridTemplateColumns = ['1.25rem', 'minmax(12rem, 2fr)', ...columns.map((c) => c.width)].join(' ');
+
+  const virtualizer = useWindowVirtualizer({
+    count: files.length,
+    estimateSize: () => ROW_HEIGHT,
+    overscan: 10,
+    scrollMargin: rowsRef.current?.offsetTop ?? 0,
+  });
+
+  const virtualRows = virtualizer.getVirtualItems();
+  const scrollMargin = virtualizer.options.scrollMargin ?? 0;
+
+  const header = (label: string, sortKey?: SortKey, align?: 'right') => {
+    const active = sortKey && sort.key === sortKey;
+    const SortIcon = sort.direction === 'asc' ? ArrowUp : ArrowDown;
+    return sortKey ? (
+      <button
+        onClick={() => onSortChange(sortKey)}
+        className={`flex items-center gap-1 truncate hover:text-cyan-200 transition-colors ${align === 'right' ? 'justify-end' : ''} ${active ? 'text-cyan-200' : ''}`}
+      >
+        {label}
+        {active && <SortIcon className="w-3 h-3 flex-shrink-0" />}
+      </button>
+    ) : (
+      <span className="truncate">{label}</span>
+    );
+  };
+
+  return (
+    <div role="table" aria-rowcount={files.length} className="surface-panel rounded-2xl">
+      <div
+        role="row"
+        className="sticky top-0 z-10 grid items-center gap-3 px-3 py-2.5 ui-section-label border-b border-[rgba(146,173,220,0.2)] bg-[rgba(8,15,28,0.92)] backdrop-blur"
+        style={{ gridTemplateColumns }}
+      >
+        <span />
+        {header('Name', 'name')}
+        {columns.map((column) => (
+          <div key={column.id} className={column.align === 'right' ? 'text-right' : ''}>
+            {header(column.label, column.sortKey, column.align)}
+          </div>
+        ))}
+      </div>
+      <div ref={rowsRef} style={{ height: `${virtualizer.getTotalSize()}px`, position: 'relative' }}>
+        <div
+          style={{
+            position: 'absolute',
+            top: 0,
+            left: 0,
+            width: '100%',
+            transform: `translateY(${(virtualRows[0]?.start ?? 0) - scrollMargin}px)`,
+          }}
+        >
+          {virtualRows.map((virtualRow) => {
+            const file = files[virtualRow.index];
+            return (
+              <FileTableRow
+                key={file.id}
+                file={file}
+                columns={columns}
+                gridTemplateColumns={gridTemplateColumns}
+                isSelected={selectedIds.has(file.id)}
+                bulkMode={bulkMode}
+                status={getFileStatus(file, offlineDirectoryIds)}
+                searchHit={searchHits?.get(file.id)}
+                onOpen={onOpenFile}
+                onToggleSelect={onToggleSelect}
+              />
+            );
+          })}
+        </div>
+      </div>
+    </div>
+  );
+}
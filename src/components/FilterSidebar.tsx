@@ -1,29 +1,77 @@
 import { memo } from 'react';
-import { Search, X, Upload, FolderOpen } from 'lucide-react';
-import { CATEGORY_IDS, CATEGORY_LABELS } from '../utils/categoryClassifier';
+import { Search, X, Upload, FolderOpen, Copy, HeartPulse, AlertCircle, ListTree, Wand2, RefreshCcw, Tags, History } from 'lucide-react';
+import { MODEL_FORMATS, FORMAT_LABELS } from '../utils/modelFormats';
+import { FILE_STATUSES, FILE_STATUS_LABELS } from '../utils/libraryHealth';
+import type { QueryError } from '../utils/searchQuery';
+import type { SavedSearch, Collection, ValueRange, CategoryDef } from '../types/index';
+import type { RangeFieldId, Histogram } from '../utils/rangeFilters';
+import { SavedSearchesSection } from './SavedSearchesSection';
+import { CollectionsSection } from './CollectionsSection';
+import { RangeFilterSection } from './RangeFilterSection';
+import { TagTreeSection } from './TagTreeSection';
 
 interface FilterSidebarProps {
   searchTerm: string;
   onSearchChange: (term: string) => void;
+  searchErrors: QueryError[];
+  savedSearches: SavedSearch[];
+  savedSearchCounts: Record<string, number>;
+  activeSavedSearchId: string | null;
+  canSaveSearch: boolean;
+  onApplySavedSearch: (saved: SavedSearch) => void;
+  onSaveSearch: (name: string) => void;
+  onDeleteSavedSearch: (id: string) => void;
+  collections: Collection[];
+  collectionCounts: Record<string, number>;
+  selectedCollectionId: string | null;
+  onToggleCollection: (id: string) => void;
+  onManageCollection: (id: string) => void;
+  onCreateCollection: (name: string) => void;
+  categoryDefs: CategoryDef[];
   categoryFacets: Record<string, Record<string, number>>;
   selectedCategories: Record<string, string[]>;
   onToggleCategoryValue: (catId: string, value: string) => void;
+  formatFacets: Record<string, number>;
+  selectedFormats: string[];
+  onToggleFormat: (format: string) => void;
+  statusFacets: Record<string, number>;
+  selectedStatuses: string[];
+  onToggleStatus: (status: string) => void;
+  rangeHistograms: Partial<Record<RangeFieldId, Histogram>>;
+  selectedRanges: Record<string, ValueRange>;
+  onSetRange: (id: RangeFieldId, range: ValueRange | null) => void;
   allTags: string[];
+  tagFacets: Record<string, number>;
   selectedTags: string[];
   onToggleTag: (tag: string) => void;
+  onManageTagAliases: () => void;
   activeFilterCount: number;
   onClearFilters: () => void;
   onImportFiles: () => void;
   onOpenFolder: () => void;
+  onFindDuplicates: () => void;
+  onCheckHealth: () => void;
+  onEditCategories: () => void;
+  onManageValues: () => void;
+  onEditRules: () => void;
+  onReclassify: () => void;
+  onShowHistory: () => void;
   isMobile?: boolean;
 }
 
 export const FilterSidebar = memo(function FilterSidebar({
-  searchTerm, onSearchChange,
-  categoryFacets, selectedCategories, onToggleCategoryValue,
-  allTags, selectedTags, onToggleTag,
+  searchTerm, onSearchChange, searchErrors,
+  savedSearches, savedSearchCounts, activeSavedSearchId, canSaveSearch,
+  onApplySavedSearch, onSaveSearch, onDeleteSavedSearch,
+  collections, collectionCounts, selectedCollectionId,
+  onToggleCollection, onManageCollection, onCreateCollection,
+  categoryDefs, categoryFacets, selectedCategories, onToggleCategoryValue,
+  formatFacets, selectedFormats, onToggleFormat,
+  statusFacets, selectedStatuses, onToggleStatus,
+  rangeHistograms, selectedRanges, onSetRange,
+  allTags, tagFacets, selectedTags, onToggleTag, onManageTagAliases,
   activeFilterCount, onClearFilters,
-  onImportFiles, onOpenFolder,
+  onImportFiles, onOpenFolder, onFindDuplicates, onCheckHealth, onEditCategories, onManageValues, onEditRules, onReclassify, onShowHistory,
   isMobile = false,
 }: FilterSidebarProps) {
   return (
@@ -33,7 +81,7 @@ export const FilterSidebar = memo(function FilterSidebar({
         className="ui-btn ui-btn-primary w-full flex items-center justify-center gap-2 px-4 py-2.5 text-sm"
       >
         <Upload className="w-4 h-4" />
-        Import STL Files
+        Import Model Files
       </button>
       <button
         onClick={onOpenFolder}
@@ -44,27 +92,61 @@ export const FilterSidebar = memo(function FilterSidebar({
       </button>
 
       {!isMobile && (
-        <div className="relative">
-          <Search className="absolute left-3 top-1/2 -translate-y-1/2 w-4 h-4 text-faint" />
-          <input
-            type="text"
-            placeholder="Search STL files..."
-            value={searchTerm}
-            onChange={(e) => onSearchChange(e.target.value)}
-            className="ui-input w-full pl-10 pr-9 py-2.5 text-sm"
-          />
-          {searchTerm && (
-            <button
-              onClick={() => onSearchChange('')}
-              className="absolute right-3 top-1/2 -translate-y-1/2 text-faint hover:text-cyan-200 transition-colors"
-            >
-              <X className="w-4 h-4" />
-            </button>
+        <div>
+          <div className="relative">
+            <Search className="absolute left-3 top-1/2 -translate-y-1/2 w-4 h-4 text-faint" />
+            <input
+              type="text"
+              placeholder="Search names, tags, paths..."
+              title="Filter with key:value terms, e.g. role:monster tag:painted|primed -tag:printed height<60 watertight:yes source:manual"
+              value={searchTerm}
+              onChange={(e) => onSearchChange(e.target.value)}
+              className="ui-input w-full pl-10 pr-9 py-2.5 text-sm"
+            />
+            {searchTerm && (
+              <button
+                onClick={() => onSearchChange('')}
+                className="absolute right-3 top-1/2 -translate-y-1/2 text-faint hover:text-cyan-200 transition-colors"
+              >
+                <X className="w-4 h-4" />
+              </button>
+            )}
+          </div>
+          {searchErrors.length > 0 && (
+            <ul className="mt-2 space-y-1">
+              {searchErrors.map((error, i) => (
+                <li key={i} className="flex items-start gap-1.5 text-xs text-amber-300">
+                  <AlertCircle className="w-3.5 h-3.5 mt-px flex-shrink-0" />
+                  <span>
+                    <span className="font-mono">{error.term}</span> — {error.message}
+                  </span>
+                </li>
+              ))}
+            </ul>
           )}
         </div>
       )}
 
-      {CATEGORY_IDS.map((catId) => {
+      <SavedSearchesSection
+        savedSearches={savedSearches}
+        counts={savedSearchCounts}
+        activeId={activeSavedSearchId}
+        canSave={canSaveSearch}
+        onApply={onApplySavedSearch}
+        onSave={onSaveSearch}
+        onDelete={onDeleteSavedSearch}
+      />
+
+      <CollectionsSection
+        collections={collections}
+        counts={collectionCounts}
+        selectedId={selectedCollectionId}
+        onToggle={onToggleCollection}
+        onManage={onManageCollection}
+        onCreate={onCreateCollection}
+      />
+
+      {categoryDefs.map(({ id: catId, label }) => {
         const values = categoryFacets[catId];
         if (!values) return null;
         const sorted = Object.entries(values).sort((a, b) => b[1] - a[1]);
@@ -72,7 +154,7 @@ export const FilterSidebar = memo(function FilterSidebar({
         return (
           <div key={catId}>
             <h3 className="ui-section-label mb-3">
-              {CATEGORY_LABELS[catId]}
+              {label}
             </h3>
             <div className="space-y-1">
               {sorted.map(([value, count]) => {
@@ -97,23 +179,51 @@ export const FilterSidebar = memo(function FilterSidebar({
         );
       })}
 
-      {allTags.length > 0 && (
+      {/* Only worth showing once the library mixes formats */}
+      {Object.keys(formatFacets).length > 1 && (
+        <div>
+          <h3 className="ui-section-label mb-3">Format</h3>
+          <div className="flex flex-wrap gap-1.5">
+            {MODEL_FORMATS.filter((format) => formatFacets[format]).map((format) => {
+              const active = selectedFormats.includes(format);
+              return (
+                <button
+                  key={format}
+                  onClick={() => onToggleFormat(format)}
+                  className={`px-2.5 py-1 rounded-full text-xs font-medium transition-all ${
+                    active
+                      ? 'ui-chip-active shadow-[0_0_0_1px_rgba(58,203,255,0.28)]'
+                      : 'ui-chip hover:text-slate-100'
+                  }`}
+                >
+                  {FORMAT_LABELS[format]}
+                  <span className="ml-1.5 text-faint">{formatFacets[format]}</span>
+                </button>
+              );
+            })}
+          </div>
+        </div>
+      )}
+
+      {/* Only shown while something is missing or offline */}
+      {(Object.keys(statusFacets).length > 0 || selectedStatuses.length > 0) && (
         <div>
-          <h3 className="ui-section-label mb-3">Tags</h3>
+          <h3 className="ui-section-label mb-3">Status</h3>
           <div className="flex flex-wrap gap-1.5">
-            {allTags.map((tag) => {
-              const active = selectedTags.includes(tag);
+            {FILE_STATUSES.filter((status) => statusFacets[status] || selectedStatuses.includes(status)).map((status) => {
+              const active = selectedStatuses.includes(status);
               return (
                 <button
-                  key={tag}
-                  onClick={() => onToggleTag(tag)}
+                  key={status}
+                  onClick={() => onToggleStatus(status)}
                   className={`px-2.5 py-1 rounded-full text-xs font-medium transition-all ${
                     active
                       ? 'ui-chip-active shadow-[0_0_0_1px_rgba(58,203,255,0.28)]'
                       : 'ui-chip hover:text-slate-100'
                   }`}
                 >
-                  {tag}
+                  {FILE_STATUS_LABELS[status]}
+                  <span className="ml-1.5 text-faint">{statusFacets[status] ?? 0}</span>
                 </button>
               );
             })}
@@ -121,6 +231,18 @@ export const FilterSidebar = memo(function FilterSidebar({
         </div>
       )}
 
+      <RangeFilterSection histograms={rangeHistograms} selectedRanges={selectedRanges} onSetRange={onSetRange} />
+
+      {allTags.length > 0 && (
+        <TagTreeSection
+          allTags={allTags}
+          counts={tagFacets}
+          selectedTags={selectedTags}
+          onToggle={onToggleTag}
+          onManageAliases={onManageTagAliases}
+        />
+      )}
+
       {activeFilterCount > 0 && (
         <button
           onClick={onClearFilters}
@@ -129,6 +251,61 @@ export const FilterSidebar = memo(function FilterSidebar({
           Clear all filters
         </button>
       )}
+
+      <div>
+        <h3 className="ui-section-label mb-3">Library</h3>
+        <div className="space-y-1">
+          <button
+            onClick={onFindDuplicates}
+            className="w-full flex items-center gap-2 px-3 py-2 rounded-lg text-sm font-medium ui-chip hover:text-slate-100 transition-all"
+          >
+            <Copy className="w-4 h-4" />
+            Find duplicates
+          </button>
+          <button
+            onClick={onCheckHealth}
+            className="w-full flex items-center gap-2 px-3 py-2 rounded-lg text-sm font-medium ui-chip hover:text-slate-100 transition-all"
+          >
+            <HeartPulse className="w-4 h-4" />
+            Check library health
+          </button>
+          <button
+            onClick={onEditCategories}
+            className="w-full flex items-center gap-2 px-3 py-2 rounded-lg text-sm font-medium ui-chip hover:text-slate-100 transition-all"
+          >
+            <ListTree className="w-4 h-4" />
+            Edit categories
+          </button>
+          <button
+            onClick={onManageValues}
+            className="w-full flex items-center gap-2 px-3 py-2 rounded-lg text-sm font-medium ui-chip hover:text-slate-100 transition-all"
+          >
+            <Tags className="w-4 h-4" />
+            Tags and values
+          </button>
+          <button
+            onClick={onEditRules}
+            className="w-full flex items-center gap-2 px-3 py-2 rounded-lg text-sm font-medium ui-chip hover:text-slate-100 transition-all"
+          >
+            <Wand2 className="w-4 h-4" />
+            Classification rules
+          </button>
+          <button
+            onClick={onReclassify}
+            className="w-full flex items-center gap-2 px-3 py-2 rounded-lg text-sm font-medium ui-chip hover:text-slate-100 transition-all"
+          >
+            <RefreshCcw className="w-4 h-4" />
+            Re-classify library
+          </button>
+          <button
+            onClick={onShowHistory}
+            className="w-full flex items-center gap-2 px-3 py-2 rounded-lg text-sm font-medium ui-chip hover:text-slate-100 transition-all"
+          >
+            <History className="w-4 h-4" />
+            Edit history
+          </button>
+        </div>
+      </div>
     </div>
   );
 });
@@ -0,0 +1,172 @@
+import { useState, useMemo } from 'react';
+import { X, FolderTree, Loader2, AlertCircle } from 'lucide-react';
+import { useDialog } from '../hooks/useDialog';
+import { IGNORE_SEGMENT, parsePathTemplate, extractFolderCategories, planTemplateReapply } from '../utils/pathTemplate';
+import type { STLFile, DirectoryEntry, CategoryDef } from '../types/index';
+
+interface FolderLayoutDialogProps {
+  directory: DirectoryEntry;
+  samplePaths: string[];
+  categoryDefs: CategoryDef[];
+  /** Files already imported from the directory; when given, the layout can be re-applied to them */
+  files?: STLFile[];
+  /** `template` is null for the built-in layout */
+  onConfirm: (template: string | null, reapply: boolean) => Promise<void> | void;
+  onClose: () => void;
+}
+
+export function FolderLayoutDialog({ directory, samplePaths, categoryDefs, files, onConfirm, onClose }: FolderLayoutDialogProps) {
+  const { dialogRef } = useDialog(true, onClose);
+  const [text, setText] = useState(directory.pathTemplate ?? '');
+  const [isSaving, setIsSaving] = useState(false);
+
+  const categoryIds = useMemo(() => categoryDefs.map((d) => d.id), [categoryDefs]);
+  const labelFor = (id: string) => categoryDefs.find((d) => d.id === id)?.label ?? id;
+
+  // An empty template means the built-in Creator/Collection layout
+  const template = text.trim() || null;
+  const errors = template ? parsePathTemplate(template, categoryIds).errors : [];
+  const valid = errors.length === 0;
+
+  const reapplyCount = useMemo(
+    () => (files && valid ? planTemplateReapply(files, template, [directory.pathTemplate, null]).length : 0),
+    [files, valid, template, directory.pathTemplate]
+  );
+
+  const appendSegment = (name: string) =>
+    setText((prev) => (prev.trim() ? `${prev.trim().replace(/\/$/, '')}/{${name}}` : `{${name}}`));
+
+  const handleConfirm = async (reapply: boolean) => {
+    if (!valid) return;
+    setIsSaving(true);
+    try {
+      await onConfirm(template, reapply);
+    } catch (e) {
+      console.error('Failed to save folder layout:', e);
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center p-4">
+      <div className="absolute inset-0 overlay-backdrop" onClick={onClose} />
+      <div
+        ref={dialogRef}
+        role="dialog"
+        aria-modal="true"
+        aria-label="Folder layout"
+        className="relative overlay-panel rounded-2xl max-w-2xl w-full max-h-[90vh] flex flex-col"
+      >
+        <div className="flex items-center justify-between px-6 py-4 border-b border-[rgba(146,173,220,0.2)]">
+          <div className="flex items-center gap-3 min-w-0">
+            <FolderTree className="w-5 h-5 text-cyan-200 flex-shrink-0" />
+            <div className="min-w-0">
+              <h2 className="text-lg font-bold brand-title">Folder layout</h2>
+              <p className="text-xs text-faint font-mono truncate" title={directory.path}>{directory.path}</p>
+            </div>
+          </div>
+          <button onClick={onClose} className="p-1.5 ui-btn ui-btn-ghost">
+            <X className="w-5 h-5 text-soft" />
+          </button>
+        </div>
+
+        <div className="flex-1 overflow-y-auto px-6 py-4 space-y-4">
+          <div className="space-y-2">
+            <input
+              type="text"
+              value={text}
+              onChange={(e) => setText(e.target.value)}
+              placeholder="Built-in layout: {creator}/{collection}"
+              aria-label="Folder layout template"
+              className="ui-input w-full text-sm font-mono px-3 py-1.5"
+            />
+            <div className="flex flex-wrap gap-1.5">
+              {[IGNORE_SEGMENT, ...categoryIds].map((name) => (
+                <button
+                  key={name}
+                  onClick={() => appendSegment(name)}
+                  className="ui-chip px-2 py-0.5 text-[11px] font-mono"
+                >
+                  {`{${name}}`}
+                </button>
+              ))}
+            </div>
+            <p className="text-[10px] text-faint">
+              One segment per folder level below the root. Deeper folders and the filename are not used.
+            </p>
+          </div>
+
+          <div className="space-y-1.5">
+            <p className="ui-section-label">Preview</p>
+            {samplePaths.length === 0 && <p className="text-xs text-soft">No files to preview</p>}
+            {samplePaths.map((path) => {
+              const values = Object.entries(extractFolderCategories(path, valid ? template : null));
+              return (
+                <div key={path} className="border border-[rgba(146,173,220,0.22)] rounded-xl px-3 py-2 bg-[rgba(8,15,28,0.45)]">
+                  <p className="text-xs text-slate-100 font-mono truncate" title={path}>{path}</p>
+                  <div className="flex flex-wrap gap-1.5 mt-1">
+                    {values.length === 0 && <span className="text-[11px] text-faint">No categories</span>}
+                    {values.map(([catId, value]) => (
+                      <span key={catId} className="text-[11px] text-soft">
+                        <span className="text-faint">{labelFor(catId)}:</span> {value}
+                      </span>
+                    ))}
+                  </div>
+                </div>
+              );
+            })}
+          </div>
+        </div>
+
+        <div className="px-6 py-3 border-t border-[rgba(146,173,220,0.2)] space-y-2">
+          {errors.length > 0 && (
+            <ul className="space-y-1">
+              {errors.map((message) => (
+                <li key={message} className="flex items-center gap-1.5 text-xs text-amber-300">
+                  <AlertCircle className="w-3 h-3 flex-shrink-0" />
+                  {message}
+                </li>
+              ))}
+            </ul>
+          )}
+          <div className="flex items-center justify-end gap-2">
+            {isSaving && <Loader2 className="w-3.5 h-3.5 animate-spin text-soft" />}
+            {files ? (
+              <>
+                <button
+                  onClick={() => handleConfirm(false)}
+                  disabled={isSaving || !valid}
+                  className="ui-btn ui-btn-secondary px-4 py-1.5 text-xs disabled:opacity-50"
+                >
+                  Save
+                </button>
+                <button
+                  onClick={() => handleConfirm(true)}
+                  disabled={isSaving || !valid || reapplyCount === 0}
+                  title="Hand-edited values are kept"
+                  className="ui-btn ui-btn-primary px-4 py-1.5 text-xs disabled:opacity-50"
+                >
+                  Save & re-apply ({reapplyCount} file{reapplyCount !== 1 && 's'})
+                </button>
+              </>
+            ) : (
+              <>
+                <button onClick={onClose} className="ui-btn ui-btn-secondary px-4 py-1.5 text-xs">
+                  Cancel
+                </button>
+                <button
+                  onClick={() => handleConfirm(false)}
+                  disabled={isSaving || !valid}
+                  className="ui-btn ui-btn-primary px-4 py-1.5 text-xs disabled:opacity-50"
+                >
+                  Import
+                </button>
+              </>
+            )}
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
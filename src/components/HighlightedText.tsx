@@ -0,0 +1,21 @@
+import { splitHighlight } from '../utils/searchHighlight';
+
+interface HighlightedTextProps {
+  /** Text with search matches wrapped in sentinel characters */
+  text: string;
+}
+
+/** Render a full-text search highlight, marking the matched terms. */
+export function HighlightedText({ text }: HighlightedTextProps) {
+  return (
+    <>
+      {splitHighlight(text).map((segment, i) =>
+        segment.match ? (
+          <mark key={i} className="bg-cyan-300/25 text-cyan-100 rounded-sm px-0.5">{segment.text}</mark>
+        ) : (
+          <span key={i}>{segment.text}</span>
+        )
+      )}
+    </>
+  );
+}
@@ -1,19 +1,35 @@
 import React, { useState, useMemo } from 'react';
 import { useDialog } from '../hooks/useDialog';
-import { X, Check, ChevronDown, ChevronRight, Pencil, Plus } from 'lucide-react';
-import { CATEGORY_IDS, CATEGORY_LABELS } from '../utils/categoryClassifier';
-import type { STLFile } from '../types/index';
+import { X, Check, ChevronDown, ChevronRight, Pencil, Plus, MoveRight } from 'lucide-react';
+import { isAllowedValue } from '../utils/categorySchema';
+import { LOW_CONFIDENCE, retainEvidence } from '../utils/categoryClassifier';
+import type { STLFile, FileMove, CategoryDef } from '../types/index';
 
 type CategoryGroups = Record<string, STLFile[]>;
 
+/** Values set by hand count as certain. */
+const confidenceOf = (file: STLFile, catId: string) => file.classification?.[catId]?.confidence ?? 1;
+
+const isLowConfidence = (file: STLFile, catId: string) => confidenceOf(file, catId) < LOW_CONFIDENCE;
+
+function describeAssignment(file: STLFile, catId: string): string {
+  const info = file.classification?.[catId];
+  return info ? `${info.evidence} (${Math.round(info.confidence * 100)}%)` : 'Set by hand';
+}
+
 interface ImportReviewPanelProps {
   files: STLFile[];
+  /** Existing files relinked to new paths; already saved, listed for information only */
+  moves?: FileMove[];
+  categoryDefs: CategoryDef[];
   onConfirm: (files: STLFile[]) => void;
   onCancel: () => void;
 }
 
 export default function ImportReviewPanel({
   files,
+  moves = [],
+  categoryDefs,
   onConfirm,
   onCancel,
 }: ImportReviewPanelProps) {
@@ -25,32 +41,44 @@ export default function ImportReviewPanel({
   const [addingTo, setAddingTo] = useState<string | null>(null);
   const [newValueInput, setNewValueInput] = useState('');
   const [selectedFileIds, setSelectedFileIds] = useState<Set<string>>(new Set());
+  const [showMoves, setShowMoves] = useState(false);
+  const [lowConfidenceOnly, setLowConfidenceOnly] = useState(false);
+  const [leastConfidentFirst, setLeastConfidentFirst] = useState(false);
+
+  const lowConfidenceCount = useMemo(
+    () => editedFiles.reduce((n, f) => n + Object.keys(f.categories ?? {}).filter((catId) => isLowConfidence(f, catId)).length, 0),
+    [editedFiles]
+  );
 
   // Build category summary
   const categorySummary = useMemo(() => {
-    return CATEGORY_IDS.map((catId) => {
+    return categoryDefs.map(({ id: catId, label, allowedValues }) => {
       const groups: CategoryGroups = {};
       const unclassified: STLFile[] = [];
       for (const file of editedFiles) {
         const val = file.categories?.[catId];
-        if (val) {
-          (groups[val] ||= []).push(file);
-        } else {
+        if (!val) {
           unclassified.push(file);
+        } else if (!lowConfidenceOnly || isLowConfidence(file, catId)) {
+          (groups[val] ||= []).push(file);
         }
       }
+      if (leastConfidentFirst) {
+        for (const group of Object.values(groups)) group.sort((a, b) => confidenceOf(a, catId) - confidenceOf(b, catId));
+      }
       const totalFiles = editedFiles.length;
       const classifiedCount = totalFiles - unclassified.length;
       const classifiedPct = totalFiles > 0 ? classifiedCount / totalFiles : 0;
       return {
         id: catId,
-        label: CATEGORY_LABELS[catId],
+        label,
+        allowedValues,
         groups,
         unclassified,
         classifiedPct,
       };
     });
-  }, [editedFiles]);
+  }, [editedFiles, categoryDefs, lowConfidenceOnly, leastConfidentFirst]);
 
   const updateFileCategories = (fileIds: Set<string>, catId: string, newValue: string | undefined) => {
     setEditedFiles((prev) =>
@@ -62,17 +90,21 @@ export default function ImportReviewPanel({
         } else {
           delete categories[catId];
         }
-        return { ...f, categories };
+        return { ...f, categories, classification: retainEvidence(f.classification, f.categories, categories) };
       })
     );
   };
 
+  const categoryDef = (catId: string) => categoryDefs.find((d) => d.id === catId);
+
   const handleRename = (catId: string, oldValue: string) => {
     const trimmed = renameInput.trim();
     if (!trimmed || trimmed === oldValue) {
       setRenamingGroup(null);
       return;
     }
+    // Keep the input open so a value outside the category's list can be corrected
+    if (!isAllowedValue(categoryDef(catId), trimmed)) return;
     const affectedIds = new Set(
       editedFiles.filter((f) => f.categories?.[catId] === oldValue).map((f) => f.id)
     );
@@ -89,6 +121,7 @@ export default function ImportReviewPanel({
       setNewValueInput('');
       return;
     }
+    if (!isAllowedValue(categoryDef(catId), trimmed)) return;
     updateFileCategories(selectedFileIds, catId, trimmed);
     setSelectedFileIds(new Set());
     setAddingTo(null);
@@ -134,6 +167,17 @@ export default function ImportReviewPanel({
 
   const visibleThumbnails = expandedValue ? expandedFiles : unclassifiedFiles;
 
+  // Why the files in the open group got their value, most common reason first
+  const expandedReasons = useMemo(() => {
+    if (!expandedCategory || !expandedValue) return [];
+    const counts = new Map<string, number>();
+    for (const file of expandedFiles) {
+      const reason = file.classification?.[expandedCategory]?.evidence ?? 'Set by hand';
+      counts.set(reason, (counts.get(reason) ?? 0) + 1);
+    }
+    return [...counts].sort((a, b) => b[1] - a[1]);
+  }, [expandedCategory, expandedValue, expandedFiles]);
+
   return (
     <div className="fixed inset-0 z-50 flex flex-col justify-end">
       {/* Backdrop */}
@@ -157,16 +201,72 @@ export default function ImportReviewPanel({
           </button>
         </div>
 
+        {/* Confidence controls */}
+        <div className="flex items-center gap-2 px-6 py-2 border-b border-[rgba(146,173,220,0.2)] text-xs">
+          <span className={lowConfidenceCount > 0 ? 'text-amber-300' : 'text-faint'}>
+            {lowConfidenceCount} low-confidence assignment{lowConfidenceCount !== 1 ? 's' : ''}
+          </span>
+          <div className="flex gap-1.5 ml-auto">
+            <button
+              onClick={() => setLowConfidenceOnly((v) => !v)}
+              aria-pressed={lowConfidenceOnly}
+              className={`px-2.5 py-1 rounded-full transition-colors ${lowConfidenceOnly ? 'ui-chip-active' : 'ui-chip hover:text-slate-100'}`}
+            >
+              Low confidence only
+            </button>
+            <button
+              onClick={() => setLeastConfidentFirst((v) => !v)}
+              aria-pressed={leastConfidentFirst}
+              className={`px-2.5 py-1 rounded-full transition-colors ${leastConfidentFirst ? 'ui-chip-active' : 'ui-chip hover:text-slate-100'}`}
+            >
+              Least confident first
+            </button>
+          </div>
+        </div>
+
         {/* Category summary */}
         <div className="flex-1 overflow-y-auto px-6 py-4 space-y-1">
+          {moves.length > 0 && (
+            <div className="border border-[rgba(146,173,220,0.22)] rounded-xl overflow-hidden bg-[rgba(8,15,28,0.45)]">
+              <button
+                onClick={() => setShowMoves((v) => !v)}
+                className="w-full flex items-center gap-2 px-4 py-3 text-left hover:bg-[rgba(24,39,66,0.55)] transition-colors"
+              >
+                {showMoves ? <ChevronDown className="w-4 h-4 text-faint" /> : <ChevronRight className="w-4 h-4 text-faint" />}
+                <MoveRight className="w-4 h-4 text-cyan-200" />
+                <span className="text-sm font-medium text-slate-100">
+                  {moves.length} moved or renamed file{moves.length !== 1 ? 's' : ''} relinked
+                </span>
+                <span className="text-xs text-faint">tags and categories kept</span>
+              </button>
+              {showMoves && (
+                <div className="px-4 pb-3 space-y-1 max-h-48 overflow-y-auto">
+                  {moves.map((m) => (
+                    <p key={m.fileId} className="text-xs font-mono text-soft truncate" title={`${m.fromPath} → ${m.toPath}`}>
+                      <span className="text-faint">{m.fromPath}</span> → {m.toPath}
+                    </p>
+                  ))}
+                </div>
+              )}
+            </div>
+          )}
           {categorySummary.map((cat) => {
-            const groupEntries = Object.entries(cat.groups).sort((a, b) => b[1].length - a[1].length);
+            const groupEntries = Object.entries(cat.groups).sort((a, b) =>
+              leastConfidentFirst
+                ? confidenceOf(a[1][0], cat.id) - confidenceOf(b[1][0], cat.id) || b[1].length - a[1].length
+                : b[1].length - a[1].length
+            );
             const isExpanded = expandedCategory === cat.id;
             // Auto-collapse categories with <10% classified
             const autoCollapsed = cat.classifiedPct < 0.1 && !isExpanded;
 
             return (
               <div key={cat.id} className="border border-[rgba(146,173,220,0.22)] rounded-xl overflow-hidden bg-[rgba(8,15,28,0.45)]">
+                {cat.allowedValues && (
+                  <datalist id={`allowed-${cat.id}`}>
+                    {cat.allowedValues.map((v) => <option key={v} value={v} />)}
+                  </datalist>
+                )}
                 {/* Category header row */}
                 <button
                   onClick={() => {
@@ -203,28 +303,36 @@ export default function ImportReviewPanel({
                       </span>
                     ) : (
                       <>
-                        {groupEntries.map(([value, files]) => (
-                          <span
-                            key={value}
-                            className={`inline-flex items-center gap-1 px-2.5 py-1 rounded-full text-xs font-medium transition-all cursor-pointer ${
-                              expandedValue === value && isExpanded
-                                ? 'bg-blue-500/20 text-blue-300 ring-1 ring-blue-500/40'
-                                : 'ui-chip hover:text-slate-100'
-                            }`}
-                            onClick={(e) => {
-                              e.stopPropagation();
-                              setExpandedCategory(cat.id);
-                              setExpandedValue(expandedValue === value && isExpanded ? null : value);
-                              setShowUnclassified(null);
-                              setSelectedFileIds(new Set());
-                            }}
-                          >
-                            {value}
-                            <span className="text-[10px] text-faint ml-0.5">
-                              {files.length}
+                        {groupEntries.map(([value, files]) => {
+                          const lowCount = files.filter((f) => isLowConfidence(f, cat.id)).length;
+                          return (
+                            <span
+                              key={value}
+                              className={`inline-flex items-center gap-1 px-2.5 py-1 rounded-full text-xs font-medium transition-all cursor-pointer ${
+                                expandedValue === value && isExpanded
+                                  ? 'bg-blue-500/20 text-blue-300 ring-1 ring-blue-500/40'
+                                  : 'ui-chip hover:text-slate-100'
+                              }`}
+                              onClick={(e) => {
+                                e.stopPropagation();
+                                setExpandedCategory(cat.id);
+                                setExpandedValue(expandedValue === value && isExpanded ? null : value);
+                                setShowUnclassified(null);
+                                setSelectedFileIds(new Set());
+                              }}
+                            >
+                              {value}
+                              <span className="text-[10px] text-faint ml-0.5">
+                                {files.length}
+                              </span>
+                              {lowCount > 0 && (
+                                <span className="text-[10px] text-amber-300" title={`${lowCount} low-confidence`}>
+                                  ?{lowCount}
+                                </span>
+                              )}
                             </span>
-                          </span>
-                        ))}
+                          );
+                        })}
                       </>
                     )}
                   </div>
@@ -263,6 +371,7 @@ export default function ImportReviewPanel({
                               <input
                                 type="text"
                                 value={renameInput}
+                                list={cat.allowedValues ? `allowed-${cat.id}` : undefined}
                                 onChange={(e) => setRenameInput(e.target.value)}
                                 onKeyDown={(e) => {
                                   if (e.key === 'Enter') handleRename(cat.id, expandedValue);
@@ -322,6 +431,7 @@ export default function ImportReviewPanel({
                               <input
                                 type="text"
                                 value={newValueInput}
+                                list={cat.allowedValues ? `allowed-${cat.id}` : undefined}
                                 onChange={(e) => setNewValueInput(e.target.value)}
                                 onKeyDown={(e) => {
                                   if (e.key === 'Enter') handleAddValue(cat.id);
@@ -351,6 +461,13 @@ export default function ImportReviewPanel({
                       )}
                     </div>
 
+                    {expandedValue && expandedReasons.length > 0 && (
+                      <p className="text-[10px] text-faint">
+                        Why:{' '}
+                        {expandedReasons.map(([reason, count]) => `${count} × ${reason}`).join(' · ')}
+                      </p>
+                    )}
+
                     {/* Thumbnail grid */}
                     <div className="flex flex-wrap gap-2 max-h-48 overflow-y-auto">
                       {visibleThumbnails.map((file) => (
@@ -362,7 +479,7 @@ export default function ImportReviewPanel({
                               ? 'border-blue-500 ring-1 ring-blue-500/30'
                               : 'border-transparent hover:border-[rgba(109,140,194,0.5)]'
                           }`}
-                          title={file.name}
+                          title={expandedValue ? `${file.name}\n${describeAssignment(file, cat.id)}` : file.name}
                         >
                           {file.thumbnail ? (
                             <img src={file.thumbnail} alt="" className="w-full h-full object-contain" />
@@ -371,6 +488,11 @@ export default function ImportReviewPanel({
                               STL
                             </div>
                           )}
+                          {expandedValue && isLowConfidence(file, cat.id) && (
+                            <span className="absolute bottom-0.5 left-0.5 px-1 rounded bg-slate-950/80 text-[9px] text-amber-300">
+                              {Math.round(confidenceOf(file, cat.id) * 100)}%
+                            </span>
+                          )}
                           {selectedFileIds.has(file.id) && (
                             <div className="absolute top-0.5 right-0.5 w-4 h-4 bg-blue-500 rounded-full flex items-center justify-center">
                               <Check className="w-2.5 h-2.5 text-white" />
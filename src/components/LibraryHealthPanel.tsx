@@ -0,0 +1,154 @@
+import { useEffect, useMemo, useRef } from 'react';
+import { X, HeartPulse, Loader2, RefreshCw, FolderSearch, FolderTree, HardDrive } from 'lucide-react';
+import { useDialog } from '../hooks/useDialog';
+import { getFileStatus } from '../utils/libraryHealth';
+import type { STLFile, DirectoryEntry } from '../types/index';
+
+interface LibraryHealthPanelProps {
+  files: STLFile[];
+  directories: DirectoryEntry[];
+  offlineDirectoryIds: ReadonlySet<string>;
+  isChecking: boolean;
+  lastCheckedAt: number | null;
+  relocateError: string | null;
+  onCheck: () => void;
+  onRelocate: (directoryId: string) => void;
+  onEditLayout: (directoryId: string) => void;
+  onClose: () => void;
+}
+
+export function LibraryHealthPanel({
+  files, directories, offlineDirectoryIds,
+  isChecking, lastCheckedAt, relocateError,
+  onCheck, onRelocate, onEditLayout, onClose,
+}: LibraryHealthPanelProps) {
+  const { dialogRef } = useDialog(true, onClose);
+
+  // Check once on open; the stored flags may be stale (drive plugged back in, files restored)
+  const onCheckRef = useRef(onCheck);
+  onCheckRef.current = onCheck;
+  useEffect(() => { onCheckRef.current(); }, []);
+
+  const rows = useMemo(() => {
+    const counts = new Map<string, { total: number; missing: number }>();
+    let looseMissing = 0;
+    for (const f of files) {
+      const missing = getFileStatus(f, offlineDirectoryIds) === 'missing';
+      if (!f.directoryId) {
+        if (missing) looseMissing++;
+        continue;
+      }
+      const c = counts.get(f.directoryId) ?? { total: 0, missing: 0 };
+      c.total++;
+      if (missing) c.missing++;
+      counts.set(f.directoryId, c);
+    }
+    return {
+      directories: directories.map((d) => ({ directory: d, ...(counts.get(d.id) ?? { total: 0, missing: 0 }) })),
+      looseMissing,
+    };
+  }, [files, directories, offlineDirectoryIds]);
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center p-4">
+      <div className="absolute inset-0 overlay-backdrop" onClick={onClose} />
+      <div
+        ref={dialogRef}
+        role="dialog"
+        aria-modal="true"
+        aria-label="Library health"
+        className="relative overlay-panel rounded-2xl max-w-2xl w-full max-h-[90vh] flex flex-col"
+      >
+        <div className="flex items-center justify-between px-6 py-4 border-b border-[rgba(146,173,220,0.2)]">
+          <div className="flex items-center gap-3">
+            <HeartPulse className="w-5 h-5 text-cyan-200" />
+            <h2 className="text-lg font-bold brand-title">Library health</h2>
+          </div>
+          <button onClick={onClose} className="p-1.5 ui-btn ui-btn-ghost">
+            <X className="w-5 h-5 text-soft" />
+          </button>
+        </div>
+
+        <div className="flex items-center justify-between gap-3 px-6 py-3 border-b border-[rgba(146,173,220,0.2)] text-xs text-soft">
+          <span>
+            {isChecking
+              ? 'Checking every folder and file...'
+              : lastCheckedAt
+              ? `Last checked ${new Date(lastCheckedAt).toLocaleTimeString()}`
+              : 'Not checked yet'}
+          </span>
+          <button
+            onClick={onCheck}
+            disabled={isChecking}
+            className="ui-btn ui-btn-secondary flex items-center gap-1.5 px-3 py-1.5 text-xs whitespace-nowrap"
+          >
+            {isChecking ? <Loader2 className="w-3 h-3 animate-spin" /> : <RefreshCw className="w-3 h-3" />}
+            Check again
+          </button>
+        </div>
+
+        {relocateError && (
+          <p className="px-6 py-2 text-xs text-red-400 border-b border-[rgba(146,173,220,0.2)]">{relocateError}</p>
+        )}
+
+        <div className="flex-1 overflow-y-auto px-6 py-4 space-y-2">
+          {rows.directories.length === 0 && (
+            <p className="text-sm text-soft text-center py-12">No library folders yet</p>
+          )}
+          {rows.directories.map(({ directory, total, missing }) => {
+            const offline = offlineDirectoryIds.has(directory.id);
+            return (
+              <div
+                key={directory.id}
+                className="flex items-center gap-3 px-4 py-3 border border-[rgba(146,173,220,0.22)] rounded-xl bg-[rgba(8,15,28,0.45)]"
+              >
+                <HardDrive className={`w-5 h-5 flex-shrink-0 ${offline ? 'text-slate-500' : 'text-cyan-200'}`} />
+                <div className="flex-1 min-w-0">
+                  <p className="text-sm text-slate-100 truncate">{directory.name}</p>
+                  <p className="text-xs text-faint font-mono truncate" title={directory.path}>{directory.path}</p>
+                  {directory.pathTemplate && (
+                    <p className="text-[10px] text-faint font-mono truncate" title="Folder layout">{directory.pathTemplate}</p>
+                  )}
+                  <p className="text-xs text-soft mt-0.5">
+                    {offline
+                      ? `Offline — folder not reachable · ${total} files unavailable`
+                      : missing > 0
+                      ? `${missing} of ${total} files missing`
+                      : `${total} files, all present`}
+                  </p>
+                </div>
+                {(offline || missing > 0) && (
+                  <button
+                    onClick={() => onRelocate(directory.id)}
+                    disabled={isChecking}
+                    className="ui-btn ui-btn-secondary flex items-center gap-1.5 px-3 py-1.5 text-xs whitespace-nowrap"
+                  >
+                    <FolderSearch className="w-3 h-3" />
+                    Relocate...
+                  </button>
+                )}
+                <button
+                  onClick={() => onEditLayout(directory.id)}
+                  title="Folder layout"
+                  className="ui-btn ui-btn-secondary flex items-center gap-1.5 px-3 py-1.5 text-xs whitespace-nowrap"
+                >
+                  <FolderTree className="w-3 h-3" />
+                  Layout
+                </button>
+              </div>
+            );
+          })}
+          {rows.looseMissing > 0 && (
+            <p className="text-xs text-soft px-1 pt-2">
+              {rows.looseMissing} individually imported file{rows.looseMissing !== 1 && 's'} missing from disk.
+            </p>
+          )}
+        </div>
+
+        <p className="px-6 py-3 border-t border-[rgba(146,173,220,0.2)] text-[10px] text-faint">
+          Missing and offline files keep their tags and categories. Relocate points a folder at its new location without re-importing.
+        </p>
+      </div>
+    </div>
+  );
+}
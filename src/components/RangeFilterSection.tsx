@@ -0,0 +1,108 @@
+import { X } from 'lucide-react';
+import type { ValueRange } from '../types/index';
+import { RANGE_FIELDS, RANGE_FIELD_IDS, isRangeActive } from '../utils/rangeFilters';
+import type { RangeFieldId, Histogram } from '../utils/rangeFilters';
+
+interface RangeFilterSectionProps {
+  histograms: Partial<Record<RangeFieldId, Histogram>>;
+  selectedRanges: Record<string, ValueRange>;
+  onSetRange: (id: RangeFieldId, range: ValueRange | null) => void;
+}
+
+const decimalsFor = (step: number) => (step < 1 ? 1 : 0);
+
+function parseBound(value: string): number | null {
+  const n = parseFloat(value);
+  return Number.isFinite(n) ? n : null;
+}
+
+export function RangeFilterSection({ histograms, selectedRanges, onSetRange }: RangeFilterSectionProps) {
+  const fields = RANGE_FIELD_IDS.filter((id) => histograms[id]);
+  if (fields.length === 0) return null;
+
+  return (
+    <div>
+      <h3 className="ui-section-label mb-3">Size & weight</h3>
+      <div className="space-y-4">
+        {fields.map((id) => {
+          const field = RANGE_FIELDS[id];
+          const histogram = histograms[id]!;
+          const range = selectedRanges[id];
+          const active = isRangeActive(range);
+          const decimals = decimalsFor(field.step);
+          const peak = Math.max(...histogram.counts);
+
+          // Bars outside the selected range are dimmed
+          const binInRange = (i: number) => {
+            if (!active) return true;
+            const lo = histogram.min + i * histogram.binWidth;
+            const hi = lo + histogram.binWidth;
+            return (range.min == null || hi >= range.min) && (range.max == null || lo <= range.max);
+          };
+
+          // Clicking a bar selects exactly that bin
+          const selectBin = (i: number) => {
+            const lo = histogram.min + i * histogram.binWidth;
+            onSetRange(id, {
+              min: Number(lo.toFixed(decimals)),
+              max: Number((lo + histogram.binWidth).toFixed(decimals)),
+            });
+          };
+
+          return (
+            <div key={id}>
+              <div className="flex items-center justify-between mb-1.5">
+                <span className="text-xs font-medium text-soft">
+                  {field.label} <span className="text-faint">({field.unit})</span>
+                </span>
+                {active && (
+                  <button
+                    onClick={() => onSetRange(id, null)}
+                    title={`Clear ${field.label.toLowerCase()} range`}
+                    className="text-faint hover:text-cyan-200 transition-colors"
+                  >
+                    <X className="w-3.5 h-3.5" />
+                  </button>
+                )}
+              </div>
+              <div className="flex items-end gap-px h-10 mb-1.5" aria-hidden="true">
+                {histogram.counts.map((count, i) => (
+                  <div
+                    key={i}
+                    onClick={() => selectBin(i)}
+                    title={`${(histogram.min + i * histogram.binWidth).toFixed(decimals)}–${(histogram.min + (i + 1) * histogram.binWidth).toFixed(decimals)} ${field.unit}: ${count}`}
+                    className={`flex-1 rounded-sm cursor-pointer transition-colors ${
+                      binInRange(i) ? 'bg-cyan-400/70 hover:bg-cyan-300' : 'bg-slate-500/25 hover:bg-slate-400/40'
+                    }`}
+                    style={{ height: `${count === 0 ? 0 : Math.max(8, (count / peak) * 100)}%` }}
+                  />
+                ))}
+              </div>
+              <div className="flex items-center gap-2">
+                <input
+                  type="number"
+                  step={field.step}
+                  value={range?.min ?? ''}
+                  placeholder={histogram.min.toFixed(decimals)}
+                  onChange={(e) => onSetRange(id, { min: parseBound(e.target.value), max: range?.max ?? null })}
+                  aria-label={`Minimum ${field.label.toLowerCase()}`}
+                  className="ui-input w-full px-2 py-1 text-xs"
+                />
+                <span className="text-xs text-faint">–</span>
+                <input
+                  type="number"
+                  step={field.step}
+                  value={range?.max ?? ''}
+                  placeholder={histogram.max.toFixed(decimals)}
+                  onChange={(e) => onSetRange(id, { min: range?.min ?? null, max: parseBound(e.target.value) })}
+                  aria-label={`Maximum ${field.label.toLowerCase()}`}
+                  className="ui-input w-full px-2 py-1 text-xs"
+                />
+              </div>
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+}
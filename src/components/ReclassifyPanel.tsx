@@ -0,0 +1,265 @@
+import { useState, useMemo, useEffect } from 'react';
+import { X, RefreshCcw, Loader2, ChevronDown, ChevronRight, MoveRight } from 'lucide-react';
+import { useDialog } from '../hooks/useDialog';
+import { changeKey } from '../utils/reclassify';
+import type { ReclassifyChange } from '../utils/reclassify';
+import type { ReclassifyJob, ReclassifyScope } from '../hooks/useReclassify';
+import type { STLFile, DirectoryEntry, CategoryDef } from '../types/index';
+
+interface ReclassifyPanelProps {
+  job: ReclassifyJob;
+  files: STLFile[];
+  directories: DirectoryEntry[];
+  categoryDefs: CategoryDef[];
+  /** Currently selected library files; offered as a scope when non-empty */
+  selectedFileIds: string[];
+  onRun: (scope: ReclassifyScope) => void;
+  onApply: (changes: ReclassifyChange[]) => Promise<void>;
+  onClose: () => void;
+}
+
+type GroupBy = 'category' | 'file';
+
+interface ChangeGroup {
+  key: string;
+  label: string;
+  changes: ReclassifyChange[];
+}
+
+const scopeValue = (scope: ReclassifyScope) =>
+  scope.kind === 'directory' ? `directory:${scope.directoryId}` : scope.kind;
+
+export function ReclassifyPanel({
+  job, files, directories, categoryDefs, selectedFileIds, onRun, onApply, onClose,
+}: ReclassifyPanelProps) {
+  const { dialogRef } = useDialog(true, onClose);
+  const [includeManual, setIncludeManual] = useState(false);
+  const [groupBy, setGroupBy] = useState<GroupBy>('category');
+  const [expanded, setExpanded] = useState<Set<string>>(new Set());
+  const [selected, setSelected] = useState<Set<string>>(new Set());
+  const [isApplying, setIsApplying] = useState(false);
+
+  // Every fresh proposal starts with the classifier's own changes accepted; hand-set values need opting in
+  useEffect(() => {
+    setSelected(new Set(job.changes.filter((c) => !c.manual).map(changeKey)));
+  }, [job.changes]);
+
+  const fileNames = useMemo(() => new Map(files.map((f) => [f.id, f.name])), [files]);
+  const categoryLabel = (id: string) => categoryDefs.find((d) => d.id === id)?.label ?? id;
+
+  const manualCount = job.changes.filter((c) => c.manual).length;
+  const visible = useMemo(
+    () => (includeManual ? job.changes : job.changes.filter((c) => !c.manual)),
+    [job.changes, includeManual]
+  );
+  const accepted = visible.filter((c) => selected.has(changeKey(c)));
+
+  const groups = useMemo(() => {
+    const byKey = new Map<string, ChangeGroup>();
+    for (const change of visible) {
+      const key = groupBy === 'category' ? change.categoryId : change.fileId;
+      let group = byKey.get(key);
+      if (!group) {
+        const label = groupBy === 'category'
+          ? categoryDefs.find((d) => d.id === key)?.label ?? key
+          : fileNames.get(key) ?? key;
+        byKey.set(key, (group = { key, label, changes: [] }));
+      }
+      group.changes.push(change);
+    }
+    const list = [...byKey.values()];
+    // Categories keep the schema order; files go largest change set first
+    if (groupBy === 'category') {
+      const order = new Map(categoryDefs.map((d, i) => [d.id, i]));
+      list.sort((a, b) => (order.get(a.key) ?? 0) - (order.get(b.key) ?? 0));
+    } else {
+      list.sort((a, b) => b.changes.length - a.changes.length || a.label.localeCompare(b.label));
+    }
+    return list;
+  }, [visible, groupBy, categoryDefs, fileNames]);
+
+  const setChangesSelected = (changes: ReclassifyChange[], on: boolean) =>
+    setSelected((prev) => {
+      const next = new Set(prev);
+      for (const c of changes) {
+        if (on) next.add(changeKey(c));
+        else next.delete(changeKey(c));
+      }
+      return next;
+    });
+
+  const toggleExpanded = (key: string) =>
+    setExpanded((prev) => {
+      const next = new Set(prev);
+      if (next.has(key)) next.delete(key);
+      else next.add(key);
+      return next;
+    });
+
+  const handleScopeChange = (value: string) => {
+    setExpanded(new Set());
+    if (value === 'library') onRun({ kind: 'library' });
+    else if (value === 'selection') onRun({ kind: 'selection', fileIds: selectedFileIds });
+    else onRun({ kind: 'directory', directoryId: value.slice('directory:'.length) });
+  };
+
+  const handleApply = async () => {
+    if (accepted.length === 0) return;
+    setIsApplying(true);
+    try {
+      await onApply(accepted);
+    } catch (e) {
+      console.error('Failed to apply re-classification:', e);
+    } finally {
+      setIsApplying(false);
+    }
+  };
+
+  const isRunning = job.status === 'running';
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center p-4">
+      <div className="absolute inset-0 overlay-backdrop" onClick={onClose} />
+      <div
+        ref={dialogRef}
+        role="dialog"
+        aria-modal="true"
+        aria-label="Re-classify"
+        className="relative overlay-panel rounded-2xl max-w-3xl w-full max-h-[90vh] flex flex-col"
+      >
+        <div className="flex items-center justify-between px-6 py-4 border-b border-[rgba(146,173,220,0.2)]">
+          <div className="flex items-center gap-3">
+            <RefreshCcw className="w-5 h-5 text-cyan-200" />
+            <h2 className="text-lg font-bold brand-title">Re-classify</h2>
+          </div>
+          <button onClick={onClose} className="p-1.5 ui-btn ui-btn-ghost">
+            <X className="w-5 h-5 text-soft" />
+          </button>
+        </div>
+
+        <div className="flex flex-wrap items-center gap-3 px-6 py-3 border-b border-[rgba(146,173,220,0.2)] text-xs">
+          <select
+            value={scopeValue(job.scope)}
+            onChange={(e) => handleScopeChange(e.target.value)}
+            aria-label="Files to re-classify"
+            className="ui-input text-xs px-2 py-1.5 cursor-pointer"
+          >
+            {(selectedFileIds.length > 0 || job.scope.kind === 'selection') && (
+              <option value="selection">
+                Selected files ({job.scope.kind === 'selection' ? job.scope.fileIds.length : selectedFileIds.length})
+              </option>
+            )}
+            {directories.map((d) => (
+              <option key={d.id} value={`directory:${d.id}`}>Folder: {d.name}</option>
+            ))}
+            <option value="library">Whole library</option>
+          </select>
+          <label className="flex items-center gap-1.5 text-soft cursor-pointer">
+            <input type="checkbox" checked={includeManual} onChange={(e) => setIncludeManual(e.target.checked)} />
+            Include values set by hand ({manualCount})
+          </label>
+          <div className="flex gap-1.5 ml-auto">
+            {(['category', 'file'] as const).map((g) => (
+              <button
+                key={g}
+                onClick={() => { setGroupBy(g); setExpanded(new Set()); }}
+                aria-pressed={groupBy === g}
+                className={`px-2.5 py-1 rounded-full transition-colors ${groupBy === g ? 'ui-chip-active' : 'ui-chip hover:text-slate-100'}`}
+              >
+                By {g}
+              </button>
+            ))}
+          </div>
+        </div>
+
+        <div className="flex-1 overflow-y-auto px-6 py-4 space-y-2">
+          {isRunning && (
+            <p className="flex items-center justify-center gap-2 text-sm text-soft py-12">
+              <Loader2 className="w-4 h-4 animate-spin" />
+              Classifying {job.processed} of {job.total} files...
+            </p>
+          )}
+          {!isRunning && groups.length === 0 && (
+            <p className="text-sm text-soft text-center py-12">
+              {job.total === 0 ? 'No files to re-classify' : 'Every value already matches the classifier'}
+            </p>
+          )}
+          {!isRunning && groups.map((group) => {
+            const selectedCount = group.changes.filter((c) => selected.has(changeKey(c))).length;
+            const isOpen = expanded.has(group.key);
+            return (
+              <div key={group.key} className="border border-[rgba(146,173,220,0.22)] rounded-xl overflow-hidden bg-[rgba(8,15,28,0.45)]">
+                <div className="flex items-center gap-2 px-4 py-2.5">
+                  <input
+                    type="checkbox"
+                    checked={selectedCount === group.changes.length}
+                    ref={(el) => { if (el) el.indeterminate = selectedCount > 0 && selectedCount < group.changes.length; }}
+                    onChange={(e) => setChangesSelected(group.changes, e.target.checked)}
+                    aria-label={`Accept all changes for ${group.label}`}
+                  />
+                  <button
+                    onClick={() => toggleExpanded(group.key)}
+                    className="flex-1 min-w-0 flex items-center gap-2 text-left"
+                  >
+                    {isOpen ? <ChevronDown className="w-4 h-4 text-faint flex-shrink-0" /> : <ChevronRight className="w-4 h-4 text-faint flex-shrink-0" />}
+                    <span className="text-sm font-medium text-slate-100 truncate">{group.label}</span>
+                    <span className="text-xs text-faint flex-shrink-0">
+                      {selectedCount} of {group.changes.length} change{group.changes.length !== 1 && 's'}
+                    </span>
+                  </button>
+                </div>
+                {isOpen && (
+                  <div className="border-t border-[rgba(146,173,220,0.2)] px-4 py-2 space-y-1 max-h-72 overflow-y-auto">
+                    {group.changes.map((change) => {
+                      const key = changeKey(change);
+                      return (
+                        <label key={key} className="flex items-start gap-2 py-1 cursor-pointer">
+                          <input
+                            type="checkbox"
+                            checked={selected.has(key)}
+                            onChange={(e) => setChangesSelected([change], e.target.checked)}
+                            className="mt-0.5"
+                          />
+                          <div className="flex-1 min-w-0">
+                            <p className="flex items-center gap-1.5 text-xs text-slate-100 min-w-0">
+                              <span className="truncate">
+                                {groupBy === 'category' ? fileNames.get(change.fileId) ?? change.fileId : categoryLabel(change.categoryId)}
+                              </span>
+                              <span className="text-faint flex-shrink-0">{change.oldValue ?? '—'}</span>
+                              <MoveRight className="w-3 h-3 text-faint flex-shrink-0" />
+                              <span className="flex-shrink-0">{change.newValue ?? '(cleared)'}</span>
+                              {change.manual && <span className="text-[10px] text-amber-300 flex-shrink-0">set by hand</span>}
+                            </p>
+                            {change.evidence && (
+                              <p className="text-[10px] text-faint truncate">
+                                {change.evidence.evidence} ({Math.round(change.evidence.confidence * 100)}%)
+                              </p>
+                            )}
+                          </div>
+                        </label>
+                      );
+                    })}
+                  </div>
+                )}
+              </div>
+            );
+          })}
+        </div>
+
+        <div className="flex items-center justify-between gap-3 px-6 py-3 border-t border-[rgba(146,173,220,0.2)]">
+          <p className="text-[10px] text-faint">
+            Values without classifier evidence count as set by hand, and are only replaced when included.
+          </p>
+          <button
+            onClick={handleApply}
+            disabled={isRunning || isApplying || accepted.length === 0}
+            className="ui-btn ui-btn-primary flex items-center gap-1.5 px-4 py-1.5 text-xs whitespace-nowrap disabled:opacity-50"
+          >
+            {isApplying && <Loader2 className="w-3 h-3 animate-spin" />}
+            Apply {accepted.length} change{accepted.length !== 1 && 's'}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,40 @@
+import { History } from 'lucide-react';
+import type { ImportSession } from '../types/index';
+
+interface ResumeImportBannerProps {
+  session: ImportSession;
+  onResume: () => void;
+  onReview: () => void;
+  onDiscard: () => void;
+}
+
+/** Offered on launch when the previous run quit before an import was confirmed or cancelled. */
+export function ResumeImportBanner({ session, onResume, onReview, onDiscard }: ResumeImportBannerProps) {
+  const canResume = session.status === 'processing' && session.remaining.length > 0;
+
+  return (
+    <div className="flex flex-wrap items-center gap-3 mb-4 px-4 py-3 surface-panel rounded-xl text-sm">
+      <History className="w-4 h-4 text-cyan-200 flex-shrink-0" />
+      <p className="flex-1 min-w-0 text-soft">
+        {canResume
+          ? `An import from ${new Date(session.startedAt).toLocaleString()} was interrupted after ${session.staged} of ${session.total} files.`
+          : `${session.staged} imported file${session.staged !== 1 ? 's are' : ' is'} still waiting for review.`}
+      </p>
+      <div className="flex gap-2">
+        {canResume && (
+          <button onClick={onResume} className="ui-btn ui-btn-primary px-3 py-1.5 text-xs">
+            Resume import
+          </button>
+        )}
+        {session.staged > 0 && (
+          <button onClick={onReview} className="ui-btn ui-btn-secondary px-3 py-1.5 text-xs">
+            Review {session.staged} staged
+          </button>
+        )}
+        <button onClick={onDiscard} className="ui-btn ui-btn-ghost px-3 py-1.5 text-xs">
+          Discard
+        </button>
+      </div>
+    </div>
+  );
+}
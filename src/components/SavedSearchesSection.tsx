@@ -0,0 +1,90 @@
+import { useState } from 'react';
+import { Bookmark, BookmarkPlus, X } from 'lucide-react';
+import type { SavedSearch } from '../types/index';
+
+interface SavedSearchesSectionProps {
+  savedSearches: SavedSearch[];
+  counts: Record<string, number>;
+  activeId: string | null;
+  /** False while no filter is set — an empty search isn't worth saving */
+  canSave: boolean;
+  onApply: (saved: SavedSearch) => void;
+  onSave: (name: string) => void;
+  onDelete: (id: string) => void;
+}
+
+export function SavedSearchesSection({
+  savedSearches, counts, activeId, canSave, onApply, onSave, onDelete,
+}: SavedSearchesSectionProps) {
+  const [isNaming, setIsNaming] = useState(false);
+  const [name, setName] = useState('');
+
+  const submit = () => {
+    if (name.trim()) onSave(name);
+    setName('');
+    setIsNaming(false);
+  };
+
+  if (savedSearches.length === 0 && !canSave) return null;
+
+  return (
+    <div>
+      <h3 className="ui-section-label mb-3">Saved searches</h3>
+      <div className="space-y-1">
+        {savedSearches.map((saved) => {
+          const active = saved.id === activeId;
+          return (
+            <div
+              key={saved.id}
+              className={`group flex items-center rounded-lg text-sm font-medium transition-all ${
+                active ? 'ui-chip-active' : 'ui-chip hover:text-slate-100'
+              }`}
+            >
+              <button
+                onClick={() => onApply(saved)}
+                className="flex-1 min-w-0 flex items-center gap-2 pl-3 py-2 text-left"
+              >
+                <Bookmark className="w-3.5 h-3.5 flex-shrink-0" />
+                <span className="truncate">{saved.name}</span>
+                <span className="text-xs text-faint ml-auto flex-shrink-0">{counts[saved.id] ?? 0}</span>
+              </button>
+              <button
+                onClick={() => onDelete(saved.id)}
+                title={`Delete "${saved.name}"`}
+                className="px-2 py-2 text-faint hover:text-cyan-200 opacity-0 group-hover:opacity-100 focus:opacity-100 transition-opacity"
+              >
+                <X className="w-3.5 h-3.5" />
+              </button>
+            </div>
+          );
+        })}
+
+        {isNaming ? (
+          <input
+            type="text"
+            autoFocus
+            placeholder="Name this search..."
+            value={name}
+            onChange={(e) => setName(e.target.value)}
+            onKeyDown={(e) => {
+              if (e.key === 'Enter') submit();
+              if (e.key === 'Escape') { setName(''); setIsNaming(false); }
+            }}
+            onBlur={submit}
+            className="ui-input w-full px-3 py-2 text-sm"
+          />
+        ) : (
+          canSave && !activeId && (
+            <button
+              onClick={() => setIsNaming(true)}
+              className="ui-btn ui-btn-ghost w-full flex items-center justify-center gap-1.5 py-2 text-xs"
+            >
+              <BookmarkPlus className="w-3.5 h-3.5" />
+              Save current search
+            </button>
+          )
+        )}
+      </div>
+    </div>
+  );
+}
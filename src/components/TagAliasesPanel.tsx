@@ -0,0 +1,157 @@
+import { useState, useMemo } from 'react';
+import { X, Tags, Trash2, AlertCircle, Loader2, MoveRight } from 'lucide-react';
+import { useDialog } from '../hooks/useDialog';
+import { aliasKey, normalizeTag, validateTagAlias, aliasRenames } from '../utils/tagHierarchy';
+import type { TagAlias } from '../types/index';
+
+interface TagAliasesPanelProps {
+  aliases: TagAlias[];
+  allTags: string[];
+  onSave: (alias: string, tag: string) => Promise<void>;
+  onDelete: (alias: string) => void;
+  onClose: () => void;
+}
+
+export function TagAliasesPanel({ aliases, allTags, onSave, onDelete, onClose }: TagAliasesPanelProps) {
+  const { dialogRef } = useDialog(true, onClose);
+  const [alias, setAlias] = useState('');
+  const [tag, setTag] = useState('');
+  const [isSaving, setIsSaving] = useState(false);
+
+  const isBlank = !alias.trim() && !tag.trim();
+  const errors = isBlank ? [] : validateTagAlias(alias, tag, aliases);
+
+  // Tags in use that saving would rewrite, e.g. "orcs" and "orcs/warband"
+  const retagged = useMemo(() => {
+    const key = aliasKey(alias);
+    const target = normalizeTag(tag);
+    return key && target ? [...aliasRenames(allTags, key, target).keys()] : [];
+  }, [alias, tag, allTags]);
+
+  const handleSave = async () => {
+    if (isBlank || errors.length > 0) return;
+    setIsSaving(true);
+    try {
+      await onSave(alias, tag);
+      setAlias('');
+      setTag('');
+    } catch (e) {
+      console.error('Failed to save tag alias:', e);
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center p-4">
+      <div className="absolute inset-0 overlay-backdrop" onClick={onClose} />
+      <div
+        ref={dialogRef}
+        role="dialog"
+        aria-modal="true"
+        aria-label="Tag aliases"
+        className="relative overlay-panel rounded-2xl max-w-2xl w-full max-h-[90vh] flex flex-col"
+      >
+        <div className="flex items-center justify-between px-6 py-4 border-b border-[rgba(146,173,220,0.2)]">
+          <div className="flex items-center gap-3">
+            <Tags className="w-5 h-5 text-cyan-200" />
+            <h2 className="text-lg font-bold brand-title">
+              {aliases.length} tag alias{aliases.length !== 1 && 'es'}
+            </h2>
+          </div>
+          <button onClick={onClose} className="p-1.5 ui-btn ui-btn-ghost">
+            <X className="w-5 h-5 text-soft" />
+          </button>
+        </div>
+
+        <div className="px-6 py-4 border-b border-[rgba(146,173,220,0.2)] space-y-3">
+          <p className="text-xs text-soft">
+            Tags entered as an alias are saved as the tag it stands for. Use <span className="font-mono">/</span> to
+            nest tags, e.g. <span className="font-mono">terrain/dungeon/door</span>.
+          </p>
+          <div className="flex items-center gap-2">
+            <input
+              type="text"
+              value={alias}
+              onChange={(e) => setAlias(e.target.value)}
+              onKeyDown={(e) => e.key === 'Enter' && handleSave()}
+              placeholder="Alias, e.g. orcs"
+              aria-label="Alias"
+              autoFocus
+              className="ui-input flex-1 min-w-0 text-sm px-2 py-1.5"
+            />
+            <MoveRight className="w-4 h-4 text-faint flex-shrink-0" />
+            <input
+              type="text"
+              value={tag}
+              onChange={(e) => setTag(e.target.value)}
+              onKeyDown={(e) => e.key === 'Enter' && handleSave()}
+              list="tag-alias-targets"
+              placeholder="Tag, e.g. creature/orc"
+              aria-label="Canonical tag"
+              className="ui-input flex-1 min-w-0 text-sm px-2 py-1.5"
+            />
+            <datalist id="tag-alias-targets">
+              {allTags.map((t) => <option key={t} value={t} />)}
+            </datalist>
+            <button
+              onClick={handleSave}
+              disabled={isSaving || isBlank || errors.length > 0}
+              className="ui-btn ui-btn-primary flex items-center gap-1.5 px-3 py-1.5 text-xs disabled:opacity-50"
+            >
+              {isSaving && <Loader2 className="w-3 h-3 animate-spin" />}
+              Save alias
+            </button>
+          </div>
+          {errors.length > 0 && (
+            <ul className="space-y-1">
+              {errors.map((message) => (
+                <li key={message} className="flex items-center gap-1.5 text-xs text-amber-300">
+                  <AlertCircle className="w-3 h-3 flex-shrink-0" />
+                  {message}
+                </li>
+              ))}
+            </ul>
+          )}
+          {errors.length === 0 && retagged.length > 0 && (
+            <p className="text-xs text-soft">
+              Files tagged {retagged.slice(0, 3).map((t) => `"${t}"`).join(', ')}
+              {retagged.length > 3 && ` and ${retagged.length - 3} more`} will be retagged.
+            </p>
+          )}
+        </div>
+
+        <div className="flex-1 overflow-y-auto px-6 py-4">
+          {aliases.length === 0 ? (
+            <p className="text-sm text-soft text-center py-12">
+              No aliases yet. Map plurals and other spellings like "orcs" or "Orc" onto one tag.
+            </p>
+          ) : (
+            <ul className="divide-y divide-[rgba(146,173,220,0.12)] border border-[rgba(146,173,220,0.22)] rounded-xl overflow-hidden bg-[rgba(8,15,28,0.45)]">
+              {aliases.map((a) => (
+                <li key={a.alias} className="flex items-center gap-3 px-4 py-2.5">
+                  <button
+                    onClick={() => { setAlias(a.alias); setTag(a.tag); }}
+                    title="Edit alias"
+                    className="flex-1 min-w-0 flex items-center gap-2 text-sm text-left"
+                  >
+                    <span className="text-soft truncate">{a.alias}</span>
+                    <MoveRight className="w-3.5 h-3.5 text-faint flex-shrink-0" />
+                    <span className="text-slate-100 truncate">{a.tag}</span>
+                  </button>
+                  <button
+                    onClick={() => onDelete(a.alias)}
+                    title="Delete alias"
+                    className="p-1 ui-btn ui-btn-ghost text-faint hover:text-red-300"
+                  >
+                    <Trash2 className="w-4 h-4" />
+                  </button>
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,89 @@
+import { useState, useMemo } from 'react';
+import { ChevronDown, ChevronRight, Settings2 } from 'lucide-react';
+import { buildTagTree, tagLeaf } from '../utils/tagHierarchy';
+import type { TagNode } from '../utils/tagHierarchy';
+
+interface TagTreeSectionProps {
+  allTags: string[];
+  /** Files per tag, parents counting their descendants */
+  counts: Record<string, number>;
+  selectedTags: string[];
+  onToggle: (tag: string) => void;
+  onManageAliases: () => void;
+}
+
+/**
+ * Tags as chips, with path tags (`terrain/dungeon/door`) nested under their parents.
+ * Selecting a parent filters on everything below it.
+ */
+export function TagTreeSection({ allTags, counts, selectedTags, onToggle, onManageAliases }: TagTreeSectionProps) {
+  const [expanded, setExpanded] = useState<Set<string>>(new Set());
+  const tree = useMemo(() => buildTagTree(allTags), [allTags]);
+
+  const toggleExpanded = (tag: string) =>
+    setExpanded((prev) => {
+      const next = new Set(prev);
+      if (next.has(tag)) next.delete(tag);
+      else next.add(tag);
+      return next;
+    });
+
+  const renderLevel = (nodes: TagNode[]) => (
+    <>
+      <div className="flex flex-wrap gap-1.5">
+        {nodes.map(({ tag, children }) => {
+          const active = selectedTags.includes(tag);
+          return (
+            <span
+              key={tag}
+              className={`flex items-center rounded-full text-xs font-medium transition-all ${
+                active
+                  ? 'ui-chip-active shadow-[0_0_0_1px_rgba(58,203,255,0.28)]'
+                  : 'ui-chip hover:text-slate-100'
+              }`}
+            >
+              <button onClick={() => onToggle(tag)} title={tag} className={`py-1 ${children.length > 0 ? 'pl-2.5 pr-1' : 'px-2.5'}`}>
+                {tagLeaf(tag)}
+                <span className="ml-1.5 text-faint">{counts[tag] ?? 0}</span>
+              </button>
+              {children.length > 0 && (
+                <button
+                  onClick={() => toggleExpanded(tag)}
+                  aria-label={`${expanded.has(tag) ? 'Collapse' : 'Expand'} ${tag}`}
+                  aria-expanded={expanded.has(tag)}
+                  className="pr-2 py-1 text-faint hover:text-cyan-200"
+                >
+                  {expanded.has(tag) ? <ChevronDown className="w-3 h-3" /> : <ChevronRight className="w-3 h-3" />}
+                </button>
+              )}
+            </span>
+          );
+        })}
+      </div>
+      {nodes
+        .filter((node) => node.children.length > 0 && expanded.has(node.tag))
+        .map((node) => (
+          <div key={node.tag} className="mt-2 ml-1 pl-2.5 border-l border-[rgba(146,173,220,0.24)]">
+            <p className="text-[10px] text-faint mb-1.5 truncate">{node.tag}</p>
+            {renderLevel(node.children)}
+          </div>
+        ))}
+    </>
+  );
+
+  return (
+    <div>
+      <div className="flex items-center justify-between mb-3">
+        <h3 className="ui-section-label">Tags</h3>
+        <button
+          onClick={onManageAliases}
+          title="Tag aliases"
+          className="text-faint hover:text-cyan-200 transition-colors"
+        >
+          <Settings2 className="w-4 h-4" />
+        </button>
+      </div>
+      {renderLevel(tree)}
+    </div>
+  );
+}
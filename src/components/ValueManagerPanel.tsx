@@ -0,0 +1,244 @@
+import { useState, useMemo } from 'react';
+import { X, Tags, Trash2, AlertCircle, Loader2, Search } from 'lucide-react';
+import { useDialog } from '../hooks/useDialog';
+import { validateTagRename, isTagWithin } from '../utils/tagHierarchy';
+import type { STLFile, CategoryDef } from '../types/index';
+
+interface ValueManagerPanelProps {
+  files: STLFile[];
+  allTags: string[];
+  /** Files per tag, parents counting their descendants */
+  tagFacets: Record<string, number>;
+  categoryDefs: CategoryDef[];
+  categoryFacets: Record<string, Record<string, number>>;
+  /** Canonical form of an entered tag (aliases applied) */
+  resolveTag: (raw: string) => string;
+  onRenameTags: (from: string[], to: string) => Promise<void>;
+  onDeleteTags: (tags: string[]) => Promise<void>;
+  onRenameValues: (categoryId: string, from: string[], to: string) => Promise<void>;
+  onDeleteValues: (categoryId: string, values: string[]) => Promise<void>;
+  onClose: () => void;
+}
+
+const TAGS_SECTION = '';
+
+/**
+ * Every tag and category value in the library with its usage. Selected entries can be
+ * renamed, merged into another (re-assigning their files) or deleted across the library.
+ */
+export function ValueManagerPanel({
+  files, allTags, tagFacets, categoryDefs, categoryFacets, resolveTag,
+  onRenameTags, onDeleteTags, onRenameValues, onDeleteValues, onClose,
+}: ValueManagerPanelProps) {
+  const { dialogRef } = useDialog(true, onClose);
+  // TAGS_SECTION or a category id
+  const [section, setSection] = useState(TAGS_SECTION);
+  const [query, setQuery] = useState('');
+  const [selected, setSelected] = useState<string[]>([]);
+  const [target, setTarget] = useState('');
+  const [isWorking, setIsWorking] = useState(false);
+
+  const isTags = section === TAGS_SECTION;
+  const def = categoryDefs.find((d) => d.id === section);
+
+  const entries = useMemo(() => {
+    if (isTags) return allTags.map((value) => ({ value, count: tagFacets[value] ?? 0 }));
+    const counts = categoryFacets[section] ?? {};
+    const values = new Set([...Object.keys(counts), ...(def?.allowedValues ?? [])]);
+    return [...values].sort((a, b) => a.localeCompare(b)).map((value) => ({ value, count: counts[value] ?? 0 }));
+  }, [isTags, allTags, tagFacets, categoryFacets, section, def]);
+
+  const visible = useMemo(() => {
+    const needle = query.trim().toLowerCase();
+    return needle ? entries.filter((e) => e.value.toLowerCase().includes(needle)) : entries;
+  }, [entries, query]);
+
+  // Files the selection touches; tags count the paths below them too
+  const affected = useMemo(() => {
+    if (selected.length === 0) return 0;
+    return files.filter((f) => (isTags
+      ? (f.tags ?? []).some((t) => selected.some((s) => isTagWithin(t, s)))
+      : selected.includes(f.categories?.[section] ?? ''))).length;
+  }, [files, selected, isTags, section]);
+
+  const resolvedTarget = isTags ? resolveTag(target) : target.trim();
+  const isBlank = !target.trim();
+  const isNoop = selected.length === 1 && selected[0] === resolvedTarget;
+  const errors = isBlank || selected.length === 0
+    ? []
+    : isTags ? validateTagRename(selected, resolvedTarget) : [];
+  const canApply = selected.length > 0 && !isBlank && !isNoop && errors.length === 0 && !isWorking;
+
+  const keepsAllowedValue = !def?.allowedValues || def.allowedValues.some((v) => !selected.includes(v));
+
+  const switchSection = (next: string) => {
+    setSection(next);
+    setSelected([]);
+    setTarget('');
+    setQuery('');
+  };
+
+  const toggle = (value: string) =>
+    setSelected((prev) => (prev.includes(value) ? prev.filter((v) => v !== value) : [...prev, value]));
+
+  const run = async (action: () => Promise<void>) => {
+    setIsWorking(true);
+    try {
+      await action();
+      setSelected([]);
+      setTarget('');
+    } catch (e) {
+      console.error('Failed to update tags or values:', e);
+    } finally {
+      setIsWorking(false);
+    }
+  };
+
+  const handleApply = () => {
+    if (!canApply) return;
+    run(() => (isTags ? onRenameTags(selected, resolvedTarget) : onRenameValues(section, selected, resolvedTarget)));
+  };
+
+  const handleDelete = () => {
+    if (selected.length === 0 || isWorking) return;
+    const what = selected.length === 1 ? `"${selected[0]}"` : `${selected.length} ${isTags ? 'tags' : 'values'}`;
+    if (affected > 0 && !window.confirm(`Delete ${what}? ${affected} file${affected !== 1 ? 's' : ''} will lose ${selected.length === 1 ? 'it' : 'them'}.`)) return;
+    run(() => (isTags ? onDeleteTags(selected) : onDeleteValues(section, selected)));
+  };
+
+  const verb = selected.length > 1 ? 'Merge into' : 'Rename to';
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center p-4">
+      <div className="absolute inset-0 overlay-backdrop" onClick={onClose} />
+      <div
+        ref={dialogRef}
+        role="dialog"
+        aria-modal="true"
+        aria-label="Tags and values"
+        className="relative overlay-panel rounded-2xl max-w-3xl w-full h-[85vh] flex flex-col"
+      >
+        <div className="flex items-center justify-between px-6 py-4 border-b border-[rgba(146,173,220,0.2)]">
+          <div className="flex items-center gap-3">
+            <Tags className="w-5 h-5 text-cyan-200" />
+            <h2 className="text-lg font-bold brand-title">Tags and values</h2>
+          </div>
+          <button onClick={onClose} className="p-1.5 ui-btn ui-btn-ghost">
+            <X className="w-5 h-5 text-soft" />
+          </button>
+        </div>
+
+        <div className="flex-1 min-h-0 flex">
+          <nav className="w-44 flex-shrink-0 overflow-y-auto p-3 space-y-1 border-r border-[rgba(146,173,220,0.2)]">
+            {[{ id: TAGS_SECTION, label: 'Tags' }, ...categoryDefs].map(({ id, label }) => (
+              <button
+                key={id || 'tags'}
+                onClick={() => switchSection(id)}
+                className={`w-full text-left px-3 py-1.5 rounded-lg text-sm truncate transition-all ${
+                  section === id ? 'ui-chip-active' : 'ui-chip hover:text-slate-100'
+                }`}
+              >
+                {label}
+              </button>
+            ))}
+          </nav>
+
+          <div className="flex-1 min-w-0 flex flex-col">
+            <div className="px-4 py-3 border-b border-[rgba(146,173,220,0.2)]">
+              <div className="relative">
+                <Search className="absolute left-2.5 top-1/2 -translate-y-1/2 w-3.5 h-3.5 text-faint" />
+                <input
+                  type="text"
+                  value={query}
+                  onChange={(e) => setQuery(e.target.value)}
+                  placeholder={`Filter ${entries.length} ${isTags ? 'tags' : 'values'}`}
+                  aria-label="Filter"
+                  className="ui-input w-full text-sm pl-8 pr-2 py-1.5"
+                />
+              </div>
+            </div>
+
+            <div className="flex-1 overflow-y-auto px-4 py-3">
+              {visible.length === 0 ? (
+                <p className="text-sm text-soft text-center py-12">
+                  {entries.length === 0 ? `No ${isTags ? 'tags' : 'values'} yet.` : 'Nothing matches the filter.'}
+                </p>
+              ) : (
+                <ul className="divide-y divide-[rgba(146,173,220,0.12)] border border-[rgba(146,173,220,0.22)] rounded-xl overflow-hidden bg-[rgba(8,15,28,0.45)]">
+                  {visible.map(({ value, count }) => (
+                    <li key={value}>
+                      <label className="flex items-center gap-3 px-3 py-2 text-sm cursor-pointer">
+                        <input
+                          type="checkbox"
+                          checked={selected.includes(value)}
+                          onChange={() => toggle(value)}
+                        />
+                        <span className="flex-1 min-w-0 truncate text-slate-100">{value}</span>
+                        <span className={`text-xs ${count === 0 ? 'text-amber-300' : 'text-faint'}`}>
+                          {count === 0 ? 'unused' : `${count} file${count !== 1 ? 's' : ''}`}
+                        </span>
+                      </label>
+                    </li>
+                  ))}
+                </ul>
+              )}
+            </div>
+
+            {selected.length > 0 && (
+              <div className="px-4 py-3 border-t border-[rgba(146,173,220,0.2)] space-y-2">
+                <p className="text-xs text-soft">
+                  {selected.length} selected, used by {affected} file{affected !== 1 && 's'}
+                  {isTags && ' (including tags below them)'}
+                </p>
+                <div className="flex items-center gap-2">
+                  <input
+                    type="text"
+                    value={target}
+                    onChange={(e) => setTarget(e.target.value)}
+                    onKeyDown={(e) => e.key === 'Enter' && handleApply()}
+                    list="value-manager-targets"
+                    placeholder={`${verb}…`}
+                    aria-label={verb}
+                    className="ui-input flex-1 min-w-0 text-sm px-2 py-1.5"
+                  />
+                  <datalist id="value-manager-targets">
+                    {entries.map((e) => <option key={e.value} value={e.value} />)}
+                  </datalist>
+                  <button
+                    onClick={handleApply}
+                    disabled={!canApply}
+                    className="ui-btn ui-btn-primary flex items-center gap-1.5 px-3 py-1.5 text-xs disabled:opacity-50"
+                  >
+                    {isWorking && <Loader2 className="w-3 h-3 animate-spin" />}
+                    {selected.length > 1 ? 'Merge' : 'Rename'}
+                  </button>
+                  <button
+                    onClick={handleDelete}
+                    disabled={isWorking || !keepsAllowedValue}
+                    title={keepsAllowedValue ? 'Delete' : 'A restricted category needs at least one allowed value'}
+                    className="p-1.5 ui-btn ui-btn-ghost text-faint hover:text-red-300 disabled:opacity-50"
+                  >
+                    <Trash2 className="w-4 h-4" />
+                  </button>
+                </div>
+                {errors.length > 0 && (
+                  <ul className="space-y-1">
+                    {errors.map((message) => (
+                      <li key={message} className="flex items-center gap-1.5 text-xs text-amber-300">
+                        <AlertCircle className="w-3 h-3 flex-shrink-0" />
+                        {message}
+                      </li>
+                    ))}
+                  </ul>
+                )}
+                {errors.length === 0 && isTags && !isBlank && resolvedTarget !== target.trim() && (
+                  <p className="text-xs text-soft">Saved as "{resolvedTarget}".</p>
+                )}
+              </div>
+            )}
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,54 @@
+import type { CategoryDef } from '../types/index';
+import type { SortKey } from '../utils/sortFiles';
+
+export interface TableColumn {
+  /** Built-in column id, or `category:<id>` for a category value */
+  id: string;
+  label: string;
+  /** CSS grid track size */
+  width: string;
+  /** Clicking the header sorts by this key */
+  sortKey?: SortKey;
+  align?: 'right';
+}
+
+const CATEGORY_COLUMN_PREFIX = 'category:';
+
+const METADATA_COLUMNS: TableColumn[] = [
+  { id: 'format', label: 'Format', width: '4.5rem' },
+  { id: 'size', label: 'Size', width: '5.5rem', sortKey: 'size', align: 'right' },
+  { id: 'dimensions', label: 'Dimensions', width: '9rem' },
+  { id: 'height', label: 'Height', width: '5rem', sortKey: 'height', align: 'right' },
+  { id: 'volume', label: 'Volume', width: '6rem', sortKey: 'volume', align: 'right' },
+  { id: 'triangles', label: 'Triangles', width: '6rem', sortKey: 'triangles', align: 'right' },
+  { id: 'grams', label: 'Weight', width: '5rem', sortKey: 'grams', align: 'right' },
+  { id: 'watertight', label: 'Watertight', width: '5.5rem' },
+  { id: 'imported', label: 'Imported', width: '6.5rem', sortKey: 'imported' },
+  { id: 'modified', label: 'Modified', width: '6.5rem', sortKey: 'modified' },
+];
+
+const TAGS_COLUMN: TableColumn = { id: 'tags', label: 'Tags', width: 'minmax(8rem, 1.5fr)' };
+
+/** Every available column in canonical order: metadata, one per category in schema order, then tags. */
+export function getTableColumns(categoryDefs: CategoryDef[]): TableColumn[] {
+  return [
+    ...METADATA_COLUMNS,
+    ...categoryDefs.map((def) => ({ id: `${CATEGORY_COLUMN_PREFIX}${def.id}`, label: def.label, width: 'minmax(6rem, 1fr)' })),
+    TAGS_COLUMN,
+  ];
+}
+
+/**
+ * Whether a saved column id could still be valid. Category columns are kept even when
+ * the schema hasn't loaded yet; ids for deleted categories simply never render.
+ */
+export function isKnownColumnId(id: string): boolean {
+  return id.startsWith(CATEGORY_COLUMN_PREFIX) || id === TAGS_COLUMN.id || METADATA_COLUMNS.some((c) => c.id === id);
+}
+
+/** The category id shown by a `category:<id>` column, or null for other columns. */
+export function getColumnCategoryId(id: string): string | null {
+  return id.startsWith(CATEGORY_COLUMN_PREFIX) ? id.slice(CATEGORY_COLUMN_PREFIX.length) : null;
+}
+
+export const DEFAULT_TABLE_COLUMNS = ['format', 'size', 'height', 'triangles', 'category:role', 'category:creator', 'tags'];
@@ -0,0 +1,31 @@
+import { useState, useEffect, useCallback } from 'react';
+import type { CategoryDef } from '../types/index';
+import { getCategoryDefs, saveCategoryDefs as saveCategoryDefsToDB } from '../utils/electronBridge';
+import { DEFAULT_CATEGORY_DEFS, renameAllowedValues } from '../utils/categorySchema';
+
+/** The user-defined category schema, falling back to the built-in categories until loaded. */
+export function useCategorySchema() {
+  const [categoryDefs, setCategoryDefs] = useState<CategoryDef[]>(DEFAULT_CATEGORY_DEFS);
+
+  useEffect(() => {
+    getCategoryDefs()
+      .then((defs) => { if (defs) setCategoryDefs(defs); })
+      .catch((e) => console.error('Failed to load category schema:', e));
+  }, []);
+
+  /** Replace the schema. Removed categories lose their values in the DB. */
+  const saveCategoryDefs = useCallback(async (defs: CategoryDef[]) => {
+    const ordered = defs.map((d, position) => ({ ...d, position }));
+    await saveCategoryDefsToDB(ordered);
+    setCategoryDefs(ordered);
+  }, []);
+
+  /** Mirror a rename (or, with `to` null, removal) of values the DB has already applied to allowed values. */
+  const applyValueRename = useCallback((categoryId: string, from: string[], to: string | null) => {
+    setCategoryDefs((prev) => prev.map((d) => (
+      d.id === categoryId ? { ...d, allowedValues: renameAllowedValues(d.allowedValues, from, to) } : d
+    )));
+  }, []);
+
+  return { categoryDefs, saveCategoryDefs, applyValueRename };
+}
@@ -0,0 +1,41 @@
+import { useState, useEffect, useCallback } from 'react';
+import type { ClassificationRule } from '../types/index';
+import {
+  getClassificationRules,
+  saveClassificationRule,
+  deleteClassificationRule,
+} from '../utils/electronBridge';
+
+/** User classification rules persisted in the DB; imports read them straight from there. */
+export function useClassificationRules() {
+  const [rules, setRules] = useState<ClassificationRule[]>([]);
+
+  useEffect(() => {
+    getClassificationRules()
+      .then(setRules)
+      .catch((e) => console.error('Failed to load classification rules:', e));
+  }, []);
+
+  /** Insert or update a rule, keeping its place in the list. */
+  const saveRule = useCallback(async (rule: ClassificationRule) => {
+    await saveClassificationRule(rule);
+    setRules((prev) => (prev.some((r) => r.id === rule.id) ? prev.map((r) => (r.id === rule.id ? rule : r)) : [...prev, rule]));
+  }, []);
+
+  const deleteRule = useCallback((id: string) => {
+    setRules((prev) => prev.filter((r) => r.id !== id));
+    deleteClassificationRule(id).catch((e) => console.error('Failed to delete classification rule:', e));
+  }, []);
+
+  /** Point rules at a renamed category value; the DB has already done so. */
+  const applyValueRename = useCallback((categoryId: string, from: string[], to: string) => {
+    setRules((prev) => prev.map((r) => (r.categoryId === categoryId && from.includes(r.value) ? { ...r, value: to } : r)));
+  }, []);
+
+  /** Drop rules for categories removed from the schema; the DB has already deleted them. */
+  const dropCategories = useCallback((categoryIds: string[]) => {
+    setRules((prev) => prev.filter((r) => !categoryIds.includes(r.categoryId)));
+  }, []);
+
+  return { rules, saveRule, deleteRule, applyValueRename, dropCategories };
+}
@@ -0,0 +1,121 @@
+import { useState, useEffect, useMemo, useCallback } from 'react';
+import type { STLFile, Collection, CollectionExportResult } from '../types/index';
+import {
+  getCollections,
+  createCollection as createCollectionInDB,
+  renameCollection as renameCollectionInDB,
+  deleteCollection as deleteCollectionInDB,
+  addToCollection,
+  removeFromCollection,
+  moveToCollection,
+  reorderCollection,
+  exportCollection as exportCollectionFromDB,
+} from '../utils/electronBridge';
+
+/** User-created collections: ordered, many-to-many sets of library files. */
+export function useCollections(files: STLFile[]) {
+  const [collections, setCollections] = useState<Collection[]>([]);
+
+  useEffect(() => {
+    getCollections()
+      .then(setCollections)
+      .catch((e) => console.error('Failed to load collections:', e));
+  }, []);
+
+  // Members removed from the library (merged duplicates, deleted folders) drop out of counts
+  const collectionCounts = useMemo(() => {
+    const ids = new Set(files.map((f) => f.id));
+    const counts: Record<string, number> = {};
+    for (const c of collections) counts[c.id] = c.fileIds.filter((id) => ids.has(id)).length;
+    return counts;
+  }, [collections, files]);
+
+  const updateCollection = (id: string, update: (c: Collection) => Collection) =>
+    setCollections((prev) => prev.map((c) => (c.id === id ? update(c) : c)));
+
+  /** Create a collection, optionally seeded with files. Returns its id. */
+  const createCollection = useCallback(async (name: string, fileIds: string[] = []) => {
+    const collection: Collection = { id: crypto.randomUUID(), name: name.trim(), createdAt: Date.now(), fileIds: [] };
+    try {
+      await createCollectionInDB({ id: collection.id, name: collection.name, createdAt: collection.createdAt });
+      if (fileIds.length > 0) await addToCollection(collection.id, fileIds);
+      setCollections((prev) => [...prev, { ...collection, fileIds: [...new Set(fileIds)] }]);
+    } catch (e) {
+      console.error('Failed to create collection:', e);
+    }
+    return collection.id;
+  }, []);
+
+  const addFiles = useCallback((id: string, fileIds: string[]) => {
+    updateCollection(id, (c) => {
+      const existing = new Set(c.fileIds);
+      return { ...c, fileIds: [...c.fileIds, ...fileIds.filter((f) => !existing.has(f))] };
+    });
+    addToCollection(id, fileIds).catch((e) => console.error('Failed to add to collection:', e));
+  }, []);
+
+  const removeFiles = useCallback((id: string, fileIds: string[]) => {
+    const removed = new Set(fileIds);
+    updateCollection(id, (c) => ({ ...c, fileIds: c.fileIds.filter((f) => !removed.has(f)) }));
+    removeFromCollection(id, fileIds).catch((e) => console.error('Failed to remove from collection:', e));
+  }, []);
+
+  /** Take files out of one collection and append them to another. */
+  const moveFiles = useCallback((fromId: string, toId: string, fileIds: string[]) => {
+    if (fromId === toId) return;
+    const moved = new Set(fileIds);
+    setCollections((prev) => prev.map((c) => {
+      if (c.id === fromId) return { ...c, fileIds: c.fileIds.filter((f) => !moved.has(f)) };
+      if (c.id === toId) return { ...c, fileIds: [...c.fileIds, ...fileIds.filter((f) => !c.fileIds.includes(f))] };
+      return c;
+    }));
+    moveToCollection(fromId, toId, fileIds).catch((e) => console.error('Failed to move files between collections:', e));
+  }, []);
+
+  /** Move one member up (-1) or down (+1) in the playlist. */
+  const moveFile = useCallback((id: string, fileId: string, direction: -1 | 1) => {
+    const collection = collections.find((c) => c.id === id);
+    if (!collection) return;
+    const from = collection.fileIds.indexOf(fileId);
+    const to = from + direction;
+    if (from === -1 || to < 0 || to >= collection.fileIds.length) return;
+    const fileIds = [...collection.fileIds];
+    [fileIds[from], fileIds[to]] = [fileIds[to], fileIds[from]];
+    updateCollection(id, (c) => ({ ...c, fileIds }));
+    reorderCollection(id, fileIds).catch((e) => console.error('Failed to reorder collection:', e));
+  }, [collections]);
+
+  const renameCollection = useCallback((id: string, name: string) => {
+    const trimmed = name.trim();
+    if (!trimmed) return;
+    updateCollection(id, (c) => ({ ...c, name: trimmed }));
+    renameCollectionInDB(id, trimmed).catch((e) => console.error('Failed to rename collection:', e));
+  }, []);
+
+  const deleteCollection = useCallback((id: string) => {
+    setCollections((prev) => prev.filter((c) => c.id !== id));
+    deleteCollectionInDB(id).catch((e) => console.error('Failed to delete collection:', e));
+  }, []);
+
+  const exportCollection = useCallback(async (id: string): Promise<CollectionExportResult | null> => {
+    try {
+      return await exportCollectionFromDB(id);
+    } catch (e) {
+      console.error('Failed to export collection:', e);
+      return null;
+    }
+  }, []);
+
+  return {
+    collections,
+    collectionCounts,
+    createCollection,
+    addFiles,
+    removeFiles,
+    moveFiles,
+    moveFile,
+    renameCollection,
+    deleteCollection,
+    exportCollection,
+  };
+}
@@ -0,0 +1,86 @@
+import { useState, useEffect, useCallback, useRef } from 'react';
+import type { STLFile, EditHistoryEntry } from '../types/index';
+import { getEditHistory, undoEdit, redoEdit } from '../utils/electronBridge';
+import { stepsTo, historyShortcut } from '../utils/editHistory';
+import type { HistoryStep } from '../utils/editHistory';
+
+interface UseEditHistoryParams {
+  /** Put files an undo or redo restored back into the library, and drop the ones it removed */
+  applyRestoredFiles: (files: STLFile[], removedFileIds: string[]) => void;
+  /** Whether the history panel is showing, so its entries are loaded */
+  isOpen: boolean;
+}
+
+/**
+ * Undo and redo of journaled edits (bulk edits, detail saves, re-classification, tag and value renames),
+ * from the history panel or Ctrl/⌘+Z and Ctrl/⌘+Shift+Z outside text fields and dialogs.
+ */
+export function useEditHistory({ applyRestoredFiles, isOpen }: UseEditHistoryParams) {
+  const [entries, setEntries] = useState<EditHistoryEntry[]>([]);
+  const [lastStep, setLastStep] = useState<{ step: HistoryStep; label: string; skipped: number } | null>(null);
+  // Steps run one at a time; key repeats while one is in flight are dropped
+  const isStepping = useRef(false);
+
+  const loadHistory = useCallback(() => {
+    getEditHistory()
+      .then(setEntries)
+      .catch((e) => console.error('Failed to load edit history:', e));
+  }, []);
+
+  useEffect(() => {
+    if (isOpen) loadHistory();
+  }, [isOpen, loadHistory]);
+
+  // The notice of the last undo or redo fades after a few seconds
+  useEffect(() => {
+    if (!lastStep) return;
+    const timer = setTimeout(() => setLastStep(null), 4000);
+    return () => clearTimeout(timer);
+  }, [lastStep]);
+
+  /**
+   * Run steps in order, stopping early when the journal has nothing left in that direction.
+   * The notice counts the files every step of the run left alone.
+   */
+  const runSteps = async (steps: HistoryStep[]) => {
+    if (isStepping.current || steps.length === 0) return;
+    isStepping.current = true;
+    let skipped = 0;
+    try {
+      for (const step of steps) {
+        const result = await (step === 'undo' ? undoEdit() : redoEdit());
+        if (!result) break;
+        applyRestoredFiles(result.files, result.removedFileIds);
+        skipped += result.skipped;
+        setLastStep({ step, label: result.label, skipped });
+      }
+    } catch (e) {
+      console.error('Failed to step through edit history:', e);
+    } finally {
+      isStepping.current = false;
+      if (isOpen) loadHistory();
+    }
+  };
+
+  const undo = () => runSteps(['undo']);
+  const redo = () => runSteps(['redo']);
+
+  /** Undo or redo until `id` is the latest applied edit. */
+  const goTo = (id: number) => runSteps(stepsTo(entries, id));
+
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      const step = historyShortcut(e);
+      if (!step) return;
+      // Text fields keep their own undo; dialogs hold edits the journal doesn't know about yet
+      const target = e.target as HTMLElement | null;
+      if (target?.closest?.('input, textarea, select, [contenteditable="true"], [role="dialog"]')) return;
+      e.preventDefault();
+      runSteps([step]);
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  });
+
+  return { entries, lastStep, undo, redo, goTo };
+}
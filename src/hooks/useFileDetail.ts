@@ -1,14 +1,22 @@
 import { useState, useMemo } from 'react';
-import type { STLFile, ViewerState, CategoryValues, PrintSettings } from '../types/index';
-import { updateFile, readFile } from '../utils/electronBridge';
+import type { STLFile, DirectoryEntry, ViewerState, CategoryValues, PrintSettings } from '../types/index';
+import { updateFile, readFile, pathExists, recordCorrections } from '../utils/electronBridge';
 import { estimateWeight } from '../utils/printEstimate';
-import { loadSTLLoader } from '../utils/loadSTLLoader';
+import { parseModel } from '../utils/modelLoaders';
+import { getFileFormat } from '../utils/modelFormats';
+import { diffCorrections, learningSubjectForFile } from '../utils/learnedAssociations';
+import { retainEvidence } from '../utils/categoryClassifier';
+import { updateProvenance } from '../utils/provenance';
 
 interface UseFileDetailParams {
   updateFileInList: (id: string, updates: Partial<STLFile>) => void;
+  /** Folder layouts decide which folders a correction teaches */
+  directories: DirectoryEntry[];
+  /** Canonical form of an entered tag (aliases, path normalization) */
+  resolveTag: (raw: string) => string;
 }
 
-export function useFileDetail({ updateFileInList }: UseFileDetailParams) {
+export function useFileDetail({ updateFileInList, directories, resolveTag }: UseFileDetailParams) {
   const [selectedFile, setSelectedFile] = useState<STLFile | null>(null);
   const [fileTagsEdit, setFileTagsEdit] = useState<string[]>([]);
   const [fileCategoriesEdit, setFileCategoriesEdit] = useState<CategoryValues>({});
@@ -39,24 +47,32 @@ export function useFileDetail({ updateFileInList }: UseFileDetailParams) {
     setViewerState({ status: 'loading', geometry: null });
     try {
       const buffer = await readFile(selectedFile.fullPath);
-      if (!buffer) { setViewerState({ status: 'error', geometry: null }); return; }
-      const { STLLoader } = await loadSTLLoader();
-      const loader = new STLLoader();
+      if (!buffer) {
+        // readFile only returns null; check whether the file is gone or just unreadable
+        const exists = await pathExists(selectedFile.fullPath);
+        setViewerState({
+          status: 'error',
+          geometry: null,
+          error: exists
+            ? 'Could not read the file'
+            : 'File not found on disk — it may have been moved, or its drive is disconnected',
+        });
+        return;
+      }
       // eslint-disable-next-line @typescript-eslint/no-explicit-any
-      const geometry = loader.parse((buffer as any).buffer ?? buffer);
+      const geometry = await parseModel(getFileFormat(selectedFile), (buffer as any).buffer ?? buffer);
       geometry.computeVertexNormals();
       setViewerState({ status: 'loaded', geometry });
     } catch {
-      setViewerState({ status: 'error', geometry: null });
+      setViewerState({ status: 'error', geometry: null, error: 'Could not parse the model' });
     }
   };
 
   const addEditTag = () => {
-    const trimmed = newTag.trim();
-    if (trimmed && !fileTagsEdit.includes(trimmed)) {
-      setFileTagsEdit((prev) => [...prev, trimmed]);
-      setNewTag('');
-    }
+    const tag = resolveTag(newTag);
+    if (!tag) return;
+    if (!fileTagsEdit.includes(tag)) setFileTagsEdit((prev) => [...prev, tag]);
+    setNewTag('');
   };
 
   const removeEditTag = (tag: string) =>
@@ -64,18 +80,24 @@ export function useFileDetail({ updateFileInList }: UseFileDetailParams) {
 
   const saveTags = async () => {
     if (!selectedFile) return;
-    updateFileInList(selectedFile.id, { tags: fileTagsEdit });
-    setSelectedFile((prev) => prev ? { ...prev, tags: fileTagsEdit } : null);
+    const provenance = updateProvenance(selectedFile, { tags: fileTagsEdit }, 'manual');
+    updateFileInList(selectedFile.id, { tags: fileTagsEdit, provenance });
+    setSelectedFile((prev) => prev ? { ...prev, tags: fileTagsEdit, provenance } : null);
     try { await updateFile(selectedFile.id, { tags: fileTagsEdit }); }
     catch (e) { console.error('Failed to save tags:', e); }
   };
 
   const saveCategories = async () => {
     if (!selectedFile) return;
-    updateFileInList(selectedFile.id, { categories: fileCategoriesEdit });
-    setSelectedFile((prev) => prev ? { ...prev, categories: fileCategoriesEdit } : null);
+    const classification = retainEvidence(selectedFile.classification, selectedFile.categories || {}, fileCategoriesEdit);
+    const provenance = updateProvenance(selectedFile, { categories: fileCategoriesEdit }, 'manual');
+    updateFileInList(selectedFile.id, { categories: fileCategoriesEdit, classification, provenance });
+    setSelectedFile((prev) => prev ? { ...prev, categories: fileCategoriesEdit, classification, provenance } : null);
     try { await updateFile(selectedFile.id, { categories: fileCategoriesEdit }); }
     catch (e) { console.error('Failed to save categories:', e); }
+    // Teach the classifier so the next import gets it right
+    const corrections = diffCorrections(selectedFile.categories || {}, fileCategoriesEdit, learningSubjectForFile(selectedFile, directories));
+    if (corrections.length > 0) recordCorrections(corrections).catch((e) => console.error('Failed to record corrections:', e));
   };
 
   const savePrintSettings = (newSettings: PrintSettings) => {
@@ -1,33 +1,91 @@
-import { useState, useMemo } from 'react';
-import type { STLFile } from '../types/index';
+import { useState, useMemo, useEffect, useRef, useCallback } from 'react';
+import type { STLFile, SearchHit, SavedFilters, Collection, ValueRange } from '../types/index';
+import { searchFiles } from '../utils/electronBridge';
+import { parseSearchQuery } from '../utils/searchQuery';
+import { createFileMatcher, normalizeFilters } from '../utils/fileFilters';
+import { isRangeActive } from '../utils/rangeFilters';
+import type { RangeFieldId } from '../utils/rangeFilters';
 
-export function useFilters(files: STLFile[]) {
+const SEARCH_DEBOUNCE_MS = 150;
+
+export function useFilters(
+  files: STLFile[],
+  offlineDirectoryIds: ReadonlySet<string>,
+  collections: Collection[],
+  categoryIds: readonly string[]
+) {
   const [searchTerm, setSearchTerm] = useState('');
+  const [selectedCollectionId, setSelectedCollectionId] = useState<string | null>(null);
   const [selectedTags, setSelectedTags] = useState<string[]>([]);
   const [selectedCategories, setSelectedCategories] = useState<Record<string, string[]>>({});
+  const [selectedFormats, setSelectedFormats] = useState<string[]>([]);
+  const [selectedStatuses, setSelectedStatuses] = useState<string[]>([]);
+  const [selectedRanges, setSelectedRanges] = useState<Record<string, ValueRange>>({});
   const [mobileFiltersOpen, setMobileFiltersOpen] = useState(false);
+  // Full-text results for searchTerm; null falls back to matching names locally
+  const [searchHits, setSearchHits] = useState<Map<string, SearchHit> | null>(null);
+  const searchRequest = useRef(0);
+
+  // `key:value` terms filter locally; whatever free text is left goes to full-text search
+  const searchQuery = useMemo(() => parseSearchQuery(searchTerm, categoryIds), [searchTerm, categoryIds]);
+  const freeText = searchQuery.text;
+
+  // Re-run when files change too, so tag/category edits are reflected in results
+  useEffect(() => {
+    const request = ++searchRequest.current;
+    const term = freeText;
+    if (!term) {
+      setSearchHits(null);
+      return;
+    }
+    const timer = setTimeout(() => {
+      searchFiles(term)
+        .then((hits) => {
+          if (request !== searchRequest.current) return; // a newer search superseded this one
+          setSearchHits(hits ? new Map(hits.map((h) => [h.id, h])) : null);
+        })
+        .catch((e) => console.error('Search failed:', e));
+    }, SEARCH_DEBOUNCE_MS);
+    return () => clearTimeout(timer);
+  }, [freeText, files]);
+
+  const filters = useMemo<SavedFilters>(
+    () => ({ searchTerm, selectedTags, selectedCategories, selectedFormats, selectedStatuses, selectedRanges }),
+    [searchTerm, selectedTags, selectedCategories, selectedFormats, selectedStatuses, selectedRanges]
+  );
+
+  // A deleted collection stops filtering rather than emptying the grid
+  const selectedCollection = collections.find((c) => c.id === selectedCollectionId) ?? null;
 
   const filteredFiles = useMemo(() => {
-    return files.filter((file) => {
-      const matchesSearch =
-        !searchTerm ||
-        file.name.toLowerCase().includes(searchTerm.toLowerCase());
-      const matchesTags =
-        selectedTags.length === 0 ||
-        selectedTags.every((tag) => file.tags?.includes(tag));
-      const matchesCategories = Object.entries(selectedCategories).every(
-        ([catId, values]) =>
-          values.length === 0 || values.includes(file.categories?.[catId] ?? '')
-      );
-      return matchesSearch && matchesTags && matchesCategories;
-    });
-  }, [files, searchTerm, selectedTags, selectedCategories]);
+    const matches = createFileMatcher(filters, { offlineDirectoryIds, searchHits, categoryIds });
+    // Position in the selected collection, so its playlist order can be kept
+    const positions = selectedCollection && new Map(selectedCollection.fileIds.map((id, i) => [id, i]));
+    const matched = files.filter((file) => (!positions || positions.has(file.id)) && matches(file));
+    // Best full-text matches first, otherwise collection order
+    if (freeText && searchHits) {
+      matched.sort((a, b) => (searchHits.get(a.id)?.rank ?? 0) - (searchHits.get(b.id)?.rank ?? 0));
+    } else if (positions) {
+      matched.sort((a, b) => positions.get(a.id)! - positions.get(b.id)!);
+    }
+    return matched;
+  }, [files, filters, freeText, searchHits, offlineDirectoryIds, categoryIds, selectedCollection]);
 
   const toggleTag = (tag: string) =>
     setSelectedTags((prev) =>
       prev.includes(tag) ? prev.filter((t) => t !== tag) : [...prev, tag]
     );
 
+  const toggleFormat = (format: string) =>
+    setSelectedFormats((prev) =>
+      prev.includes(format) ? prev.filter((f) => f !== format) : [...prev, format]
+    );
+
+  const toggleStatus = (status: string) =>
+    setSelectedStatuses((prev) =>
+      prev.includes(status) ? prev.filter((s) => s !== status) : [...prev, status]
+    );
+
   const toggleCategoryValue = (catId: string, value: string) => {
     setSelectedCategories((prev) => {
       const current = prev[catId] || [];
@@ -38,26 +96,70 @@ export function useFilters(files: STLFile[]) {
     });
   };
 
+  /** Set or (with null / an open range) clear the bounds for one range field. */
+  const setRange = (id: RangeFieldId, range: ValueRange | null) =>
+    setSelectedRanges((prev) => {
+      const next = { ...prev };
+      if (range && isRangeActive(range)) next[id] = range;
+      else delete next[id];
+      return next;
+    });
+
+  const toggleCollection = (id: string) =>
+    setSelectedCollectionId((prev) => (prev === id ? null : id));
+
   const activeFilterCount =
+    (selectedCollection ? 1 : 0) +
     selectedTags.length +
+    selectedFormats.length +
+    selectedStatuses.length +
+    Object.keys(selectedRanges).length +
     Object.values(selectedCategories).reduce((sum, vals) => sum + vals.length, 0);
 
   const clearFilters = () => {
     setSelectedTags([]);
     setSelectedCategories({});
+    setSelectedFormats([]);
+    setSelectedStatuses([]);
+    setSelectedRanges({});
+    setSelectedCollectionId(null);
     setSearchTerm('');
   };
 
+  /** Replace every filter at once, e.g. when a saved search is selected. */
+  const applyFilters = useCallback((next: SavedFilters) => {
+    const normalized = normalizeFilters(next);
+    setSearchTerm(normalized.searchTerm);
+    setSelectedTags(normalized.selectedTags);
+    setSelectedCategories(normalized.selectedCategories);
+    setSelectedFormats(normalized.selectedFormats);
+    setSelectedStatuses(normalized.selectedStatuses);
+    setSelectedRanges(normalized.selectedRanges);
+    setSelectedCollectionId(null);
+  }, []);
+
   return {
+    filters,
+    applyFilters,
     searchTerm,
     setSearchTerm,
+    searchErrors: searchQuery.errors,
+    searchHits,
     selectedTags,
     selectedCategories,
+    selectedFormats,
+    selectedStatuses,
+    selectedRanges,
+    selectedCollectionId: selectedCollection?.id ?? null,
     mobileFiltersOpen,
     setMobileFiltersOpen,
     filteredFiles,
     toggleTag,
     toggleCategoryValue,
+    toggleFormat,
+    toggleStatus,
+    toggleCollection,
+    setRange,
     activeFilterCount,
     clearFilters,
   };
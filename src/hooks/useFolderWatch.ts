@@ -0,0 +1,79 @@
+import { useState, useEffect, useRef } from 'react';
+import type { STLFile, FileInfo, FileMove } from '../types/index';
+import { startWatching, onDirectoryChanged, saveIndexedFile } from '../utils/electronBridge';
+import { processFiles } from '../utils/processFiles';
+import { disposeRenderer } from '../utils/renderThumbnail';
+
+interface UseFolderWatchParams {
+  applyIndexedFile: (entry: STLFile, isNew: boolean) => void;
+  setFilesMissing: (ids: string[], missingAt: number | null) => void;
+  applyMoves: (moves: FileMove[]) => void;
+}
+
+/**
+ * Subscribes to folder-watch diffs from the main process and re-indexes only the
+ * added/changed files. Batches are processed one at a time so overlapping change
+ * events never run processFiles concurrently.
+ */
+export function useFolderWatch({ applyIndexedFile, setFilesMissing, applyMoves }: UseFolderWatchParams) {
+  // Files queued or in flight; drives the "Re-indexing…" indicator
+  const [pendingCount, setPendingCount] = useState(0);
+  const queue = useRef<Promise<void>>(Promise.resolve());
+
+  // Stable refs so the subscription effect runs once (library callbacks change identity every render)
+  const applyRef = useRef(applyIndexedFile);
+  applyRef.current = applyIndexedFile;
+  const missingRef = useRef(setFilesMissing);
+  missingRef.current = setFilesMissing;
+  const movesRef = useRef(applyMoves);
+  movesRef.current = applyMoves;
+
+  useEffect(() => {
+    async function reindex(directoryId: string, fileInfos: FileInfo[]) {
+      const writes: Promise<void>[] = [];
+      let settled = 0;
+      try {
+        await processFiles(fileInfos, {
+          directoryId,
+          onFileProcessed: (entry) => {
+            writes.push(
+              saveIndexedFile(entry)
+                .then(({ id, isNew }) => applyRef.current({ ...entry, id }, isNew))
+                .catch((e) => console.error(`Failed to save re-indexed ${entry.name}:`, e))
+            );
+          },
+          onProgress: () => {
+            settled++;
+            setPendingCount((n) => Math.max(0, n - 1));
+          },
+          onError: (name, err) => console.error(`Failed to re-index ${name}:`, err),
+        });
+        await Promise.allSettled(writes);
+      } finally {
+        // Drop anything processFiles never reported so the indicator can't get stuck
+        const unsettled = fileInfos.length - settled;
+        if (unsettled > 0) setPendingCount((n) => Math.max(0, n - unsettled));
+        disposeRenderer();
+      }
+    }
+
+    const unsubscribe = onDirectoryChanged((change) => {
+      movesRef.current(change.moved);
+      if (change.removedIds.length > 0) missingRef.current(change.removedIds, Date.now());
+      if (change.restoredIds.length > 0) missingRef.current(change.restoredIds, null);
+
+      const fileInfos = [...change.added, ...change.changed];
+      if (fileInfos.length === 0) return;
+      setPendingCount((n) => n + fileInfos.length);
+      queue.current = queue.current
+        .then(() => reindex(change.directoryId, fileInfos))
+        .catch((e) => console.error('Folder re-index failed:', e));
+    });
+
+    // Subscribe first so the catch-up scan's events aren't missed
+    startWatching();
+    return unsubscribe;
+  }, []);
+
+  return { pendingCount };
+}
@@ -1,6 +1,6 @@
-import { useState, useRef } from 'react';
+import { useState, useRef, useEffect } from 'react';
 import type { ChangeEvent, Dispatch, SetStateAction } from 'react';
-import type { STLFile, DirectoryEntry, ImportState, ImportError } from '../types/index';
+import type { STLFile, DirectoryEntry, ImportState, ImportError, FileMove, FileInfo, ImportSession } from '../types/index';
 import {
   openFolder,
   scanDirectory,
@@ -8,10 +8,22 @@ import {
   confirmPendingFiles,
   cancelPendingFiles,
   saveDirectory,
+  setDirectoryPathTemplate,
   bulkSetCategoryValues,
+  recordCorrections,
+  detectMoves,
+  createImportSession,
+  setImportSessionStatus,
+  getInterruptedImportSession,
+  getImportSessionFiles,
+  endImportSession,
 } from '../utils/electronBridge';
 import { processFiles } from '../utils/processFiles';
 import { disposeRenderer } from '../utils/renderThumbnail';
+import { isSupportedModelFile } from '../utils/modelFormats';
+import { pickSamplePaths } from '../utils/pathTemplate';
+import { diffCorrections, learningSubjectForFile } from '../utils/learnedAssociations';
+import { updateProvenance } from '../utils/provenance';
 
 const INITIAL_STATE: ImportState = {
   status: 'idle',
@@ -20,11 +32,20 @@ const INITIAL_STATE: ImportState = {
   total: 0,
   currentName: null,
   errors: [],
+  moves: [],
 };
 
 interface UseImportParams {
   addFiles: (files: STLFile[]) => void;
+  directories: DirectoryEntry[];
   setDirectories: Dispatch<SetStateAction<DirectoryEntry[]>>;
+  applyMoves: (moves: FileMove[]) => void;
+}
+
+/** A folder import waiting for its layout to be confirmed. */
+export interface FolderLayoutPrompt {
+  directory: DirectoryEntry;
+  samplePaths: string[];
 }
 
 function toImportError(name: string, err: unknown): ImportError {
@@ -33,8 +54,15 @@ function toImportError(name: string, err: unknown): ImportError {
   return { name, err: new Error(message) };
 }
 
-export function useImport({ addFiles, setDirectories }: UseImportParams) {
+export function useImport({ addFiles, directories, setDirectories, applyMoves }: UseImportParams) {
   const [importState, setImportState] = useState<ImportState>(INITIAL_STATE);
+  // Import left unfinished by a previous run of the app; offered for resume on launch
+  const [interruptedSession, setInterruptedSession] = useState<ImportSession | null>(null);
+  // Shown after a folder scan; the import waits on the resolver until it is confirmed or cancelled
+  const [layoutPrompt, setLayoutPrompt] = useState<FolderLayoutPrompt | null>(null);
+  const layoutResolver = useRef<((template: string | null | undefined) => void) | null>(null);
+  // Persisted session of the import in progress; staged rows are tagged with it
+  const sessionIdRef = useRef<string | null>(null);
   const cancelRef = useRef(false);
   const fileInputRef = useRef<HTMLInputElement>(null);
   // Tracks { clientId -> canonicalDbId } for all files successfully staged this session.
@@ -55,6 +83,10 @@ export function useImport({ addFiles, setDirectories }: UseImportParams) {
   });
   const rafHandle = useRef<number | null>(null);
 
+  useEffect(() => {
+    getInterruptedImportSession().then(setInterruptedSession);
+  }, []);
+
   /** Flush accumulated progress updates synchronously (called before state transitions). */
   function drainStateUpdate() {
     if (rafHandle.current !== null) {
@@ -102,7 +134,7 @@ export function useImport({ addFiles, setDirectories }: UseImportParams) {
         if (cancelRef.current) return;
         // savePendingFile returns the canonical DB id, which may differ from entry.id
         // when re-importing a directory whose files already exist in the DB.
-        const writePromise = savePendingFile(entry)
+        const writePromise = savePendingFile({ ...entry, importSessionId: sessionIdRef.current ?? undefined })
           .then((canonicalId) => {
             if (!canonicalId) throw new Error('savePendingFile returned an empty id');
             idMap.current.set(entry.id, canonicalId);
@@ -171,11 +203,46 @@ export function useImport({ addFiles, setDirectories }: UseImportParams) {
       files: canonicalFiles,
       errors: writeErrors.length > 0 ? [...prev.errors, ...writeErrors] : prev.errors,
     }));
+    if (sessionIdRef.current) setImportSessionStatus(sessionIdRef.current, 'reviewing');
+
+    idMap.current.clear();
+    failedIds.current.clear();
+  }
 
+  function resetBuffers() {
+    filesBuf.current = [];
+    pendingWrites.current = [];
     idMap.current.clear();
     failedIds.current.clear();
+    pendingWriteErrors.current = [];
+    stateUpdateBuf.current = { processedDelta: 0, currentName: null, newErrors: [] };
   }
 
+  /** Persist the file list first, so quitting mid-import leaves something to resume. */
+  async function startSession(fileInfos: FileInfo[], directoryId?: string) {
+    const id = crypto.randomUUID();
+    sessionIdRef.current = id;
+    await createImportSession({ id, directoryId, fileInfos });
+  }
+
+  /** Resolves with the confirmed template (null = built-in layout), or undefined when cancelled. */
+  function askFolderLayout(directory: DirectoryEntry, fileInfos: FileInfo[]): Promise<string | null | undefined> {
+    return new Promise((resolve) => {
+      layoutResolver.current = resolve;
+      setLayoutPrompt({ directory, samplePaths: pickSamplePaths(fileInfos.map((f) => f.relativePath)) });
+    });
+  }
+
+  function settleFolderLayout(template: string | null | undefined) {
+    const resolve = layoutResolver.current;
+    layoutResolver.current = null;
+    setLayoutPrompt(null);
+    resolve?.(template);
+  }
+
+  const confirmFolderLayout = (template: string | null) => settleFolderLayout(template);
+  const cancelFolderLayout = () => settleFolderLayout(undefined);
+
   const handleOpenFolder = async () => {
     const folderPath = await openFolder();
     if (!folderPath) return;
@@ -191,20 +258,38 @@ export function useImport({ addFiles, setDirectories }: UseImportParams) {
     });
 
     setImportState((prev) => ({ ...prev, status: 'scanning' }));
-    const fileInfos = await scanDirectory(folderPath);
-    if (fileInfos.length === 0) {
+    const scanned = await scanDirectory(folderPath);
+    if (scanned.length === 0) {
       setImportState(INITIAL_STATE);
       return;
     }
 
-    filesBuf.current = [];
-    pendingWrites.current = [];
-    idMap.current.clear();
-    failedIds.current.clear();
-    pendingWriteErrors.current = [];
-    stateUpdateBuf.current = { processedDelta: 0, currentName: null, newErrors: [] };
-    setImportState({ status: 'processing', files: [], processed: 0, total: fileInfos.length, currentName: null, errors: [] });
+    // Files moved/renamed since the last scan are relinked to their existing rows
+    // (keeping tags) rather than imported again as new files.
+    const moves = await detectMoves(canonicalDir.id, scanned);
+    applyMoves(moves);
+    const movedPaths = new Set(moves.map((m) => m.toPath));
+    const fileInfos = scanned.filter((info) => !movedPaths.has(info.relativePath));
+    if (fileInfos.length === 0) {
+      setImportState({ ...INITIAL_STATE, status: 'reviewing', moves });
+      return;
+    }
+
+    // The layout decides which folder levels become categories, so confirm it before processing
+    const pathTemplate = await askFolderLayout(canonicalDir, fileInfos);
+    if (pathTemplate === undefined) {
+      setImportState(moves.length > 0 ? { ...INITIAL_STATE, status: 'reviewing', moves } : INITIAL_STATE);
+      return;
+    }
+    if (pathTemplate !== (canonicalDir.pathTemplate ?? null)) {
+      await setDirectoryPathTemplate(canonicalDir.id, pathTemplate);
+      setDirectories((prev) => prev.map((d) => (d.id === canonicalDir.id ? { ...d, pathTemplate } : d)));
+    }
+
+    resetBuffers();
+    setImportState({ status: 'processing', files: [], processed: 0, total: fileInfos.length, currentName: null, errors: [], moves });
     cancelRef.current = false;
+    await startSession(fileInfos, canonicalDir.id);
 
     await processFiles(fileInfos, makeCallbacks(canonicalDir.id));
     if (cancelRef.current) return;
@@ -212,10 +297,10 @@ export function useImport({ addFiles, setDirectories }: UseImportParams) {
   };
 
   const handleDroppedFiles = async (fileList: FileList) => {
-    const stlFiles = [...fileList].filter((f) => f.name.toLowerCase().endsWith('.stl'));
-    if (stlFiles.length === 0) return;
+    const modelFiles = [...fileList].filter((f) => isSupportedModelFile(f.name));
+    if (modelFiles.length === 0) return;
 
-    const fileInfos = stlFiles.map((f) => ({
+    const fileInfos = modelFiles.map((f) => ({
       relativePath: f.name,
       fullPath: (f as File & { path?: string }).path || null,
       sizeBytes: f.size,
@@ -223,20 +308,62 @@ export function useImport({ addFiles, setDirectories }: UseImportParams) {
       _browserFile: f,
     }));
 
-    filesBuf.current = [];
-    pendingWrites.current = [];
-    idMap.current.clear();
-    failedIds.current.clear();
-    pendingWriteErrors.current = [];
-    stateUpdateBuf.current = { processedDelta: 0, currentName: null, newErrors: [] };
-    setImportState({ status: 'processing', files: [], processed: 0, total: fileInfos.length, currentName: null, errors: [] });
+    resetBuffers();
+    setImportState({ status: 'processing', files: [], processed: 0, total: fileInfos.length, currentName: null, errors: [], moves: [] });
     cancelRef.current = false;
+    await startSession(fileInfos);
 
     await processFiles(fileInfos, makeCallbacks());
     if (cancelRef.current) return;
     await finishImport();
   };
 
+  /**
+   * Continue an interrupted import: files staged before the restart are reloaded
+   * from the DB and only the remaining ones are processed.
+   */
+  const resumeImport = async () => {
+    const session = interruptedSession;
+    if (!session) return;
+    setInterruptedSession(null);
+    sessionIdRef.current = session.id;
+    const staged = await getImportSessionFiles(session.id);
+
+    if (session.status === 'reviewing' || session.remaining.length === 0) {
+      setImportState({ ...INITIAL_STATE, status: 'reviewing', files: staged });
+      setImportSessionStatus(session.id, 'reviewing');
+      return;
+    }
+
+    resetBuffers();
+    filesBuf.current = staged;
+    const total = staged.length + session.remaining.length;
+    setImportState({ ...INITIAL_STATE, status: 'processing', processed: staged.length, total });
+    cancelRef.current = false;
+
+    await processFiles(session.remaining, makeCallbacks(session.directoryId ?? undefined));
+    if (cancelRef.current) return;
+    await finishImport();
+  };
+
+  /** Open the review panel for the files staged before the interruption, skipping the rest. */
+  const reviewInterruptedImport = async () => {
+    const session = interruptedSession;
+    if (!session) return;
+    setInterruptedSession(null);
+    sessionIdRef.current = session.id;
+    const staged = await getImportSessionFiles(session.id);
+    setImportState({ ...INITIAL_STATE, status: 'reviewing', files: staged });
+    setImportSessionStatus(session.id, 'reviewing');
+  };
+
+  const discardInterruptedImport = async () => {
+    const session = interruptedSession;
+    if (!session) return;
+    setInterruptedSession(null);
+    await endImportSession(session.id, true);
+  };
+
   const handleFileInput = (e: ChangeEvent<HTMLInputElement>) => {
     if (e.target.files) handleDroppedFiles(e.target.files);
     e.target.value = '';
@@ -250,7 +377,19 @@ export function useImport({ addFiles, setDirectories }: UseImportParams) {
       .filter((f) => f.categories && Object.keys(f.categories).length > 0)
       .map((f) => ({ fileId: f.id, categories: f.categories }));
     if (entries.length > 0) await bulkSetCategoryValues(entries);
-    addFiles(reviewedFiles);
+    // Edits made during review are corrections of the classifier's guesses
+    const classified = new Map(importState.files.map((f) => [f.id, f.categories || {}]));
+    const corrections = reviewedFiles.flatMap((f) =>
+      diffCorrections(classified.get(f.id) ?? {}, f.categories || {}, learningSubjectForFile(f, directories))
+    );
+    if (corrections.length > 0) recordCorrections(corrections).catch((e) => console.error('Failed to record corrections:', e));
+    // Unticked or never-reviewed rows of the session are dropped with it
+    if (sessionIdRef.current) await endImportSession(sessionIdRef.current, true);
+    sessionIdRef.current = null;
+    addFiles(reviewedFiles.map((f) => ({
+      ...f,
+      provenance: updateProvenance({ ...f, categories: classified.get(f.id) ?? {} }, { categories: f.categories || {} }, 'manual'),
+    })));
     setImportState(INITIAL_STATE);
   };
 
@@ -267,6 +406,8 @@ export function useImport({ addFiles, setDirectories }: UseImportParams) {
     // accidentally removing rows from a concurrent import session.
     const sessionIds = Array.from(idMap.current.values());
     if (sessionIds.length > 0) await cancelPendingFiles(sessionIds);
+    if (sessionIdRef.current) await endImportSession(sessionIdRef.current, true);
+    sessionIdRef.current = null;
     filesBuf.current = [];
     pendingWrites.current = [];
     pendingWriteErrors.current = [];
@@ -277,11 +418,18 @@ export function useImport({ addFiles, setDirectories }: UseImportParams) {
 
   return {
     importState,
+    interruptedSession,
+    layoutPrompt,
     fileInputRef,
     handleOpenFolder,
     handleDroppedFiles,
     handleFileInput,
     confirmImport,
     cancelImport,
+    resumeImport,
+    reviewInterruptedImport,
+    discardInterruptedImport,
+    confirmFolderLayout,
+    cancelFolderLayout,
   };
 }
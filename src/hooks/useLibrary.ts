@@ -1,17 +1,38 @@
 import { useState, useMemo, useEffect } from 'react';
-import type { STLFile, DirectoryEntry } from '../types/index';
+import type { STLFile, DirectoryEntry, FileMove, HealthReport, CategoryReplacement } from '../types/index';
 import {
   getAllFiles,
   getAllDirectories,
-  updateFile,
   bulkSetCategoryValue,
+  bulkReplaceCategoryValue,
+  bulkClearCategoryValue,
+  bulkAddTags as bulkAddTagsInDB,
+  bulkRemoveTags as bulkRemoveTagsInDB,
+  deleteFiles as deleteFilesInDB,
+  bulkReplaceCategoryValues,
+  setDirectoryPathTemplate as setDirectoryPathTemplateInDB,
+  mergeDuplicates as mergeDuplicatesInDB,
+  computeMissingHashes,
+  relocateDirectory as relocateDirectoryInDB,
+  renameTags as renameTagsInDB,
+  deleteTags as deleteTagsInDB,
+  renameCategoryValues as renameCategoryValuesInDB,
+  deleteCategoryValues as deleteCategoryValuesInDB,
 } from '../utils/electronBridge';
-import { CATEGORY_IDS } from '../utils/categoryClassifier';
+import { getFileFormat } from '../utils/modelFormats';
+import { getFileStatus, relocatePath } from '../utils/libraryHealth';
+import { buildRangeHistograms } from '../utils/rangeFilters';
+import { planTemplateReapply, ignoreTemplateCategories } from '../utils/pathTemplate';
+import { retainEvidence } from '../utils/categoryClassifier';
+import { updateProvenance, renameTagProvenance } from '../utils/provenance';
+import { countTags, aliasRenames, renameTags, tagRenames, removeTags } from '../utils/tagHierarchy';
 
 export function useLibrary() {
   const [files, setFiles] = useState<STLFile[]>([]);
   const [isRestoring, setIsRestoring] = useState(true);
   const [directories, setDirectories] = useState<DirectoryEntry[]>([]);
+  // Why the last bulk edit could not be saved, until the next one succeeds
+  const [bulkEditError, setBulkEditError] = useState<string | null>(null);
 
   useEffect(() => {
     getAllFiles().then((saved) => {
@@ -21,25 +42,52 @@ export function useLibrary() {
     getAllDirectories().then(setDirectories);
   }, []);
 
-  const allTags = useMemo(() => {
-    const tags = new Set<string>();
-    files.forEach((f) => f.tags?.forEach((t) => tags.add(t)));
-    return [...tags].sort();
-  }, [files]);
+  /** Files per tag; parents of path tags count every file below them. */
+  const tagFacets = useMemo(() => countTags(files.map((f) => f.tags)), [files]);
+
+  /** Every tag in use, plus the parents of path tags so they can be filtered on. */
+  const allTags = useMemo(() => Object.keys(tagFacets).sort(), [tagFacets]);
 
   const categoryFacets = useMemo(() => {
+    // Keyed by whatever categories the files carry; the sidebar picks the ones in the schema
     const facets: Record<string, Record<string, number>> = {};
-    for (const catId of CATEGORY_IDS) {
-      const values: Record<string, number> = {};
-      for (const f of files) {
-        const val = f.categories?.[catId];
-        if (val) values[val] = (values[val] || 0) + 1;
+    for (const f of files) {
+      for (const [catId, val] of Object.entries(f.categories ?? {})) {
+        if (!val) continue;
+        const values = (facets[catId] ??= {});
+        values[val] = (values[val] || 0) + 1;
       }
-      if (Object.keys(values).length > 0) facets[catId] = values;
     }
     return facets;
   }, [files]);
 
+  const formatFacets = useMemo(() => {
+    const counts: Record<string, number> = {};
+    for (const f of files) {
+      const format = getFileFormat(f);
+      counts[format] = (counts[format] || 0) + 1;
+    }
+    return counts;
+  }, [files]);
+
+  const offlineDirectoryIds = useMemo(
+    () => new Set(directories.filter((d) => d.offlineAt != null).map((d) => d.id)),
+    [directories]
+  );
+
+  /** Counts of files that aren't available; empty when the whole library is reachable. */
+  const statusFacets = useMemo(() => {
+    const counts: Record<string, number> = {};
+    for (const f of files) {
+      const status = getFileStatus(f, offlineDirectoryIds);
+      if (status !== 'available') counts[status] = (counts[status] || 0) + 1;
+    }
+    return counts;
+  }, [files, offlineDirectoryIds]);
+
+  /** Distribution of each numeric range field across the library, for the sidebar histograms. */
+  const rangeHistograms = useMemo(() => buildRangeHistograms(files), [files]);
+
   const addFiles = (newFiles: STLFile[]) => {
     setFiles((prev) => [...newFiles, ...prev]);
   };
@@ -48,32 +96,344 @@ export function useLibrary() {
     setFiles((prev) => prev.map((f) => (f.id === id ? { ...f, ...updates } : f)));
   };
 
-  const bulkAddTags = (selectedIds: Set<string>, tags: string[]) => {
-    const updates: { id: string; tags: string[] }[] = [];
+  /** Merge a file re-indexed by folder watching: new rows are prepended, existing rows keep tags/categories. */
+  const applyIndexedFile = (entry: STLFile, isNew: boolean) => {
+    if (isNew) {
+      setFiles((prev) => [entry, ...prev]);
+      return;
+    }
+    setFiles((prev) =>
+      prev.map((f) =>
+        f.id === entry.id
+          ? {
+              ...f,
+              fullPath: entry.fullPath,
+              size: entry.size,
+              sizeBytes: entry.sizeBytes,
+              thumbnail: entry.thumbnail,
+              metadata: entry.metadata,
+              contentHash: entry.contentHash,
+              geometryFingerprint: entry.geometryFingerprint,
+              missingAt: null,
+            }
+          : f
+      )
+    );
+  };
+
+  const setFilesMissing = (ids: string[], missingAt: number | null) => {
+    const idSet = new Set(ids);
+    setFiles((prev) => prev.map((f) => (idSet.has(f.id) ? { ...f, missingAt } : f)));
+  };
+
+  /** Point relinked rows at their new paths; tags and categories stay untouched. */
+  const applyMoves = (moves: FileMove[]) => {
+    if (moves.length === 0) return;
+    const byId = new Map(moves.map((m) => [m.fileId, m]));
     setFiles((prev) =>
       prev.map((f) => {
-        if (!selectedIds.has(f.id)) return f;
-        const newTags = [...new Set([...(f.tags || []), ...tags])];
-        updates.push({ id: f.id, tags: newTags });
-        return { ...f, tags: newTags };
+        const move = byId.get(f.id);
+        if (!move) return f;
+        // Rule subjects read the filename from metadata; the DB updates it alongside the path
+        const originalFilename = move.toPath.slice(move.toPath.lastIndexOf('/') + 1);
+        const metadata = f.metadata && { ...f.metadata, originalFilename };
+        return { ...f, name: move.name, relativePath: move.toPath, fullPath: move.fullPath, metadata, missingAt: null };
       })
     );
-    for (const { id, tags: newTags } of updates) {
-      updateFile(id, { tags: newTags }).catch((e) =>
-        console.error('Failed to bulk-save tags:', e)
-      );
+  };
+
+  /** Apply the flags written by a health check to the in-memory library. */
+  const applyHealthReport = (report: HealthReport) => {
+    setDirectories(report.directories);
+    if (report.missingIds.length > 0) setFilesMissing(report.missingIds, report.checkedAt);
+    if (report.restoredIds.length > 0) setFilesMissing(report.restoredIds, null);
+  };
+
+  /** Point a directory root at a new location; file paths under it are rewritten to match. */
+  const relocateDirectory = async (id: string, newPath: string) => {
+    const previous = directories.find((d) => d.id === id);
+    const updated = await relocateDirectoryInDB(id, newPath);
+    if (!previous || !updated) return;
+    setDirectories((prev) => prev.map((d) => (d.id === id ? updated : d)));
+    setFiles((prev) =>
+      prev.map((f) =>
+        f.directoryId === id ? { ...f, fullPath: relocatePath(f.fullPath, previous.path, updated.path) } : f
+      )
+    );
+  };
+
+  /** Save a directory's folder layout; null restores the built-in one. */
+  const setDirectoryPathTemplate = async (id: string, template: string | null) => {
+    await setDirectoryPathTemplateInDB(id, template);
+    setDirectories((prev) => prev.map((d) => (d.id === id ? { ...d, pathTemplate: template } : d)));
+  };
+
+  /**
+   * Re-derive folder categories of a directory's files under a new layout.
+   * Values that match neither the previous nor the built-in layout were edited by hand and are kept.
+   */
+  const reapplyPathTemplate = async (directoryId: string, template: string | null, previousTemplate: string | null) => {
+    const dirFiles = files.filter((f) => f.directoryId === directoryId);
+    const changes = planTemplateReapply(dirFiles, template, [previousTemplate, null]);
+    if (changes.length === 0) return;
+    await bulkReplaceCategoryValues(changes.map((c) => ({ ...c, source: 'classifier' })));
+    const byId = new Map(changes.map((c) => [c.fileId, c.categories]));
+    setFiles((prev) => prev.map((f) => {
+      const categories = byId.get(f.id);
+      if (!categories) return f;
+      return {
+        ...f,
+        categories,
+        classification: retainEvidence(f.classification, f.categories, categories),
+        provenance: updateProvenance(f, { categories }, 'classifier'),
+      };
+    }));
+  };
+
+  /** Store re-classified categories together with the classifier's evidence. */
+  const replaceCategories = async (entries: CategoryReplacement[]) => {
+    if (entries.length === 0) return;
+    await bulkReplaceCategoryValues(entries);
+    const byId = new Map(entries.map((e) => [e.fileId, e]));
+    setFiles((prev) => prev.map((f) => {
+      const entry = byId.get(f.id);
+      if (!entry) return f;
+      return {
+        ...f,
+        categories: entry.categories,
+        classification: entry.classification,
+        provenance: updateProvenance(f, entry, entry.source ?? 'manual'),
+      };
+    }));
+  };
+
+  /** Keep one copy of a duplicate group, folding the others' tags/categories into it. */
+  const mergeDuplicates = async (keepId: string, removeIds: string[]) => {
+    const keeper = await mergeDuplicatesInDB(keepId, removeIds);
+    if (!keeper) return;
+    const removed = new Set(removeIds);
+    setFiles((prev) =>
+      prev
+        .filter((f) => f.id === keepId || !removed.has(f.id))
+        .map((f) => (f.id === keepId
+          ? { ...f, tags: keeper.tags, categories: keeper.categories, provenance: keeper.provenance }
+          : f))
+    );
+  };
+
+  /** Backfill content hashes for files imported before hashing; returns how many were hashed. */
+  const hashUnhashedFiles = async () => {
+    const hashes = await computeMissingHashes();
+    const byId = new Map(hashes.map((h) => [h.id, h.contentHash]));
+    if (byId.size > 0) {
+      setFiles((prev) => prev.map((f) => (byId.has(f.id) ? { ...f, contentHash: byId.get(f.id) } : f)));
     }
+    return byId.size;
+  };
+
+  /**
+   * Save a bulk edit, then show it in the library. A failed save leaves the library
+   * as it was and is reported through `bulkEditError`; returns whether it was saved.
+   */
+  const runBulkEdit = async (save: () => Promise<unknown>, apply: () => void, what: string) => {
+    try {
+      await save();
+    } catch (e) {
+      console.error(`Failed to ${what}:`, e);
+      setBulkEditError(`Couldn't ${what}; nothing was changed.`);
+      return false;
+    }
+    setBulkEditError(null);
+    apply();
+    return true;
+  };
+
+  const bulkAddTags = async (selectedIds: Set<string>, tags: string[]) => {
+    if (tags.length === 0) return;
+    await runBulkEdit(() => bulkAddTagsInDB([...selectedIds], tags), () => setFiles((prev) =>
+      prev.map((f) => {
+        if (!selectedIds.has(f.id)) return f;
+        const newTags = [...new Set([...(f.tags || []), ...tags])];
+        return { ...f, tags: newTags, provenance: updateProvenance(f, { tags: newTags }, 'bulk') };
+      })
+    ), 'add tags');
+  };
+
+  /** Remove tags, and the paths below them, from the selected files. */
+  const bulkRemoveTags = async (selectedIds: Set<string>, tags: string[]) => {
+    await runBulkEdit(() => bulkRemoveTagsInDB([...selectedIds], tags), () => setFiles((prev) =>
+      prev.map((f) => {
+        if (!selectedIds.has(f.id)) return f;
+        const kept = removeTags(f.tags || [], tags);
+        if (kept.length === (f.tags || []).length) return f;
+        return { ...f, tags: kept, provenance: updateProvenance(f, { tags: kept }, 'bulk') };
+      })
+    ), 'remove tags');
   };
 
-  const bulkSetCategory = (selectedIds: Set<string>, catId: string, value: string) => {
+  /**
+   * Set one category value on the selected files. With `from`, only files whose
+   * value is `from` change, so one value can be replaced without touching the rest.
+   */
+  const bulkSetCategory = async (selectedIds: Set<string>, catId: string, value: string, from?: string) => {
     const ids = [...selectedIds];
-    setFiles((prev) =>
+    const save = () => (from === undefined
+      ? bulkSetCategoryValue(ids, catId, value)
+      : bulkReplaceCategoryValue(ids, catId, from, value));
+    await runBulkEdit(save, () => setFiles((prev) =>
       prev.map((f) => {
         if (!selectedIds.has(f.id)) return f;
-        return { ...f, categories: { ...(f.categories || {}), [catId]: value } };
+        if (from !== undefined && f.categories?.[catId] !== from) return f;
+        const categories = { ...(f.categories || {}), [catId]: value };
+        return {
+          ...f,
+          categories,
+          classification: retainEvidence(f.classification, f.categories || {}, categories),
+          provenance: updateProvenance(f, { categories }, 'bulk'),
+        };
+      })
+    ), 'set the category');
+  };
+
+  const bulkClearCategory = async (selectedIds: Set<string>, catId: string) => {
+    await runBulkEdit(() => bulkClearCategoryValue([...selectedIds], catId), () => setFiles((prev) =>
+      prev.map((f) => {
+        if (!selectedIds.has(f.id) || f.categories?.[catId] === undefined) return f;
+        const categories = { ...f.categories };
+        delete categories[catId];
+        return {
+          ...f,
+          categories,
+          classification: retainEvidence(f.classification, f.categories || {}, categories),
+          provenance: updateProvenance(f, { categories }, 'bulk'),
+        };
+      })
+    ), 'clear the category');
+  };
+
+  /** Remove files from the library (not from disk); returns whether they were removed. */
+  const deleteFiles = (fileIds: string[]) => {
+    const removed = new Set(fileIds);
+    return runBulkEdit(
+      () => deleteFilesInDB(fileIds),
+      () => setFiles((prev) => prev.filter((f) => !removed.has(f.id))),
+      'remove the files',
+    );
+  };
+
+  /** Take tags, categories and metadata from files an undo or redo has restored in the DB; files it put back or removed come and go. */
+  const applyRestoredFiles = (restored: STLFile[], removedFileIds: string[] = []) => {
+    if (restored.length === 0 && removedFileIds.length === 0) return;
+    const byId = new Map(restored.map((r) => [r.id, r]));
+    const removed = new Set(removedFileIds);
+    setFiles((prev) => {
+      const known = new Set(prev.map((f) => f.id));
+      // Files an undo put back into the library come first, like new imports
+      const readded = restored.filter((r) => !known.has(r.id)).map((r) => ({ ...r, geometry: null }));
+      const updated = prev.filter((f) => !removed.has(f.id)).map((f) => {
+        const r = byId.get(f.id);
+        if (!r) return f;
+        return {
+          ...f,
+          tags: r.tags,
+          categories: r.categories,
+          classification: r.classification,
+          provenance: r.provenance,
+          metadata: r.metadata,
+        };
+      });
+      return [...readded, ...updated];
+    });
+  };
+
+  /** Rewrite tags covered by a newly saved alias to its canonical tag; the DB has already done so. */
+  const applyTagAlias = (alias: string, tag: string) => {
+    setFiles((prev) =>
+      prev.map((f) => {
+        const renames = aliasRenames(f.tags || [], alias, tag);
+        if (renames.size === 0) return f;
+        return {
+          ...f,
+          tags: renameTags(f.tags, renames),
+          provenance: f.provenance && renameTagProvenance(f.provenance, renames),
+        };
+      })
+    );
+  };
+
+  /** Rename or merge tags, and the paths below them, across the library. Renamed tags keep their provenance. */
+  const renameLibraryTags = async (from: string[], to: string) => {
+    await renameTagsInDB(from, to);
+    setFiles((prev) =>
+      prev.map((f) => {
+        const renames = tagRenames(f.tags || [], from, to);
+        if (renames.size === 0) return f;
+        return {
+          ...f,
+          tags: renameTags(f.tags, renames),
+          provenance: f.provenance && renameTagProvenance(f.provenance, renames),
+        };
+      })
+    );
+  };
+
+  /** Remove tags, and the paths below them, from every file. */
+  const deleteLibraryTags = async (tags: string[]) => {
+    await deleteTagsInDB(tags);
+    setFiles((prev) =>
+      prev.map((f) => {
+        const kept = removeTags(f.tags || [], tags);
+        if (kept.length === (f.tags || []).length) return f;
+        return { ...f, tags: kept, provenance: updateProvenance(f, { tags: kept }, 'manual') };
+      })
+    );
+  };
+
+  /** Rename or merge values of one category across the library; files keep the value's evidence and provenance. */
+  const renameCategoryValues = async (categoryId: string, from: string[], to: string) => {
+    await renameCategoryValuesInDB(categoryId, from, to);
+    setFiles((prev) =>
+      prev.map((f) => {
+        const value = f.categories?.[categoryId];
+        if (value == null || !from.includes(value)) return f;
+        return { ...f, categories: { ...f.categories, [categoryId]: to } };
+      })
+    );
+  };
+
+  /** Clear values of one category from every file carrying them. */
+  const deleteCategoryValues = async (categoryId: string, values: string[]) => {
+    await deleteCategoryValuesInDB(categoryId, values);
+    setFiles((prev) =>
+      prev.map((f) => {
+        const value = f.categories?.[categoryId];
+        if (value == null || !values.includes(value)) return f;
+        const categories = { ...f.categories };
+        delete categories[categoryId];
+        return {
+          ...f,
+          categories,
+          classification: retainEvidence(f.classification, f.categories || {}, categories),
+          provenance: updateProvenance(f, { categories }, 'manual'),
+        };
+      })
+    );
+  };
+
+  /** Drop values and folder layout levels for categories removed from the schema; the DB has already done so. */
+  const dropCategories = (catIds: string[]) => {
+    if (catIds.length === 0) return;
+    setDirectories((prev) => prev.map((d) => (
+      d.pathTemplate ? { ...d, pathTemplate: ignoreTemplateCategories(d.pathTemplate, catIds) } : d
+    )));
+    setFiles((prev) =>
+      prev.map((f) => {
+        if (!catIds.some((id) => f.categories?.[id] !== undefined)) return f;
+        const categories = { ...f.categories };
+        for (const id of catIds) delete categories[id];
+        return { ...f, categories, provenance: updateProvenance(f, { categories }, 'manual') };
       })
     );
-    bulkSetCategoryValue(ids, catId, value);
   };
 
   return {
@@ -83,10 +443,36 @@ export function useLibrary() {
     directories,
     setDirectories,
     allTags,
+    tagFacets,
     categoryFacets,
+    formatFacets,
+    offlineDirectoryIds,
+    statusFacets,
+    rangeHistograms,
     addFiles,
     updateFileInList,
+    applyIndexedFile,
+    setFilesMissing,
+    applyMoves,
+    applyHealthReport,
+    relocateDirectory,
+    setDirectoryPathTemplate,
+    reapplyPathTemplate,
+    replaceCategories,
+    applyTagAlias,
+    renameLibraryTags,
+    deleteLibraryTags,
+    renameCategoryValues,
+    deleteCategoryValues,
+    mergeDuplicates,
+    hashUnhashedFiles,
     bulkAddTags,
+    bulkRemoveTags,
     bulkSetCategory,
+    bulkClearCategory,
+    deleteFiles,
+    bulkEditError,
+    applyRestoredFiles,
+    dropCategories,
   };
 }
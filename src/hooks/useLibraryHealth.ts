@@ -0,0 +1,51 @@
+import { useState, useRef } from 'react';
+import type { HealthReport } from '../types/index';
+import { checkHealth, openFolder } from '../utils/electronBridge';
+
+interface UseLibraryHealthParams {
+  applyHealthReport: (report: HealthReport) => void;
+  relocateDirectory: (id: string, newPath: string) => Promise<void>;
+}
+
+/** Runs library health checks and directory relocation for the health panel. */
+export function useLibraryHealth({ applyHealthReport, relocateDirectory }: UseLibraryHealthParams) {
+  const [isChecking, setIsChecking] = useState(false);
+  const [lastCheckedAt, setLastCheckedAt] = useState<number | null>(null);
+  const [relocateError, setRelocateError] = useState<string | null>(null);
+  const checking = useRef(false);
+
+  const runCheck = async () => {
+    if (checking.current) return;
+    checking.current = true;
+    setIsChecking(true);
+    try {
+      const report = await checkHealth();
+      if (!report) return;
+      applyHealthReport(report);
+      setLastCheckedAt(report.checkedAt);
+    } catch (e) {
+      console.error('Library health check failed:', e);
+    } finally {
+      checking.current = false;
+      setIsChecking(false);
+    }
+  };
+
+  /** Ask for the directory's new location, relocate it, then re-check so missing flags clear. */
+  const relocate = async (directoryId: string) => {
+    const newPath = await openFolder();
+    if (!newPath) return;
+    setRelocateError(null);
+    try {
+      await relocateDirectory(directoryId, newPath);
+    } catch (e) {
+      // Strip Electron's "Error invoking remote method ..." wrapper from IPC rejections
+      const message = e instanceof Error ? e.message.replace(/^Error invoking remote method '[^']+': (Error: )?/, '') : '';
+      setRelocateError(message || 'Failed to relocate folder');
+      return;
+    }
+    await runCheck();
+  };
+
+  return { isChecking, lastCheckedAt, relocateError, runCheck, relocate };
+}
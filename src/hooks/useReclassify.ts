@@ -0,0 +1,81 @@
+import { useState, useRef, useCallback } from 'react';
+import type { STLFile, DirectoryEntry, ClassificationRule, CategoryReplacement, CategoryDef } from '../types/index';
+import { getLearnedAssociations } from '../utils/electronBridge';
+import { reclassifyFile, diffClassification, applyReclassifyChanges, changeKey } from '../utils/reclassify';
+import type { ReclassifyChange } from '../utils/reclassify';
+
+/** Which files a re-classification covers. */
+export type ReclassifyScope =
+  | { kind: 'selection'; fileIds: string[] }
+  | { kind: 'directory'; directoryId: string }
+  | { kind: 'library' };
+
+export interface ReclassifyJob {
+  scope: ReclassifyScope;
+  status: 'running' | 'ready';
+  processed: number;
+  total: number;
+  /** Proposed changes, including ones to values set by hand */
+  changes: ReclassifyChange[];
+}
+
+interface UseReclassifyParams {
+  files: STLFile[];
+  directories: DirectoryEntry[];
+  rules: ClassificationRule[];
+  categoryDefs: CategoryDef[];
+  replaceCategories: (entries: CategoryReplacement[]) => Promise<void>;
+}
+
+// Files classified between yields to the main thread
+const CHUNK_SIZE = 250;
+
+function filesInScope(files: STLFile[], scope: ReclassifyScope): STLFile[] {
+  if (scope.kind === 'library') return files;
+  if (scope.kind === 'directory') return files.filter((f) => f.directoryId === scope.directoryId);
+  const ids = new Set(scope.fileIds);
+  return files.filter((f) => ids.has(f.id));
+}
+
+/** Re-runs the classifier over library files and applies the changes the user accepts. */
+export function useReclassify({ files, directories, rules, categoryDefs, replaceCategories }: UseReclassifyParams) {
+  const [job, setJob] = useState<ReclassifyJob | null>(null);
+  // Bumped by every run and by close, so a superseded run stops quietly
+  const runId = useRef(0);
+
+  const run = useCallback(async (scope: ReclassifyScope) => {
+    const id = ++runId.current;
+    const targets = filesInScope(files, scope);
+    setJob({ scope, status: 'running', processed: 0, total: targets.length, changes: [] });
+
+    const learned = await getLearnedAssociations();
+    const context = { rules, learned, categoryDefs, pathTemplates: new Map(directories.map((d) => [d.id, d.pathTemplate])) };
+    const categoryIds = categoryDefs.map((d) => d.id);
+    const changes: ReclassifyChange[] = [];
+    for (let start = 0; start < targets.length; start += CHUNK_SIZE) {
+      if (runId.current !== id) return;
+      for (const file of targets.slice(start, start + CHUNK_SIZE)) {
+        changes.push(...diffClassification(file, reclassifyFile(file, context), categoryIds));
+      }
+      const processed = Math.min(start + CHUNK_SIZE, targets.length);
+      setJob((prev) => (prev ? { ...prev, processed } : prev));
+      await new Promise((r) => setTimeout(r, 0));
+    }
+    if (runId.current !== id) return;
+    setJob({ scope, status: 'ready', processed: targets.length, total: targets.length, changes });
+  }, [files, directories, rules, categoryDefs]);
+
+  /** Store the accepted changes and drop them from the proposal list. */
+  const apply = async (accepted: ReclassifyChange[]) => {
+    await replaceCategories(applyReclassifyChanges(files, accepted));
+    const applied = new Set(accepted.map(changeKey));
+    setJob((prev) => (prev ? { ...prev, changes: prev.changes.filter((c) => !applied.has(changeKey(c))) } : prev));
+  };
+
+  const close = () => {
+    runId.current++;
+    setJob(null);
+  };
+
+  return { job, run, apply, close };
+}
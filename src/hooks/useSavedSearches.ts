@@ -0,0 +1,96 @@
+import { useState, useEffect, useMemo, useCallback } from 'react';
+import type { STLFile, SearchHit, SavedFilters, SavedSearch } from '../types/index';
+import { getSavedSearches, saveSavedSearch, deleteSavedSearch, searchFiles } from '../utils/electronBridge';
+import { createFileMatcher, normalizeFilters, sameFilters } from '../utils/fileFilters';
+import { parseSearchQuery } from '../utils/searchQuery';
+
+interface UseSavedSearchesParams {
+  files: STLFile[];
+  offlineDirectoryIds: ReadonlySet<string>;
+  categoryIds: readonly string[];
+  /** The filters currently applied in the grid, to highlight the matching saved search */
+  filters: SavedFilters;
+}
+
+/**
+ * Saved searches persisted in the DB, with live counts so each one works as a
+ * smart collection. Counts are recomputed whenever the library changes.
+ */
+export function useSavedSearches({ files, offlineDirectoryIds, categoryIds, filters }: UseSavedSearchesParams) {
+  const [savedSearches, setSavedSearches] = useState<SavedSearch[]>([]);
+  // Full-text hits per saved search with free text, keyed by saved search id
+  const [hitsById, setHitsById] = useState<Record<string, Map<string, SearchHit>>>({});
+
+  useEffect(() => {
+    getSavedSearches()
+      .then((loaded) => setSavedSearches(loaded.map((s) => ({ ...s, filters: normalizeFilters(s.filters) }))))
+      .catch((e) => console.error('Failed to load saved searches:', e));
+  }, []);
+
+  // Re-run when files change too, so tag/category edits are reflected in counts
+  useEffect(() => {
+    let cancelled = false;
+    const withText = savedSearches
+      .map((s) => ({ id: s.id, text: parseSearchQuery(s.filters.searchTerm).text }))
+      .filter((s) => s.text);
+    Promise.all(withText.map(({ id, text }) => searchFiles(text).then((hits) => [id, hits] as const)))
+      .then((results) => {
+        if (cancelled) return;
+        const next: Record<string, Map<string, SearchHit>> = {};
+        for (const [id, hits] of results) {
+          if (hits) next[id] = new Map(hits.map((h) => [h.id, h]));
+        }
+        setHitsById(next);
+      })
+      .catch((e) => console.error('Saved search counts failed:', e));
+    return () => { cancelled = true; };
+  }, [savedSearches, files]);
+
+  const counts = useMemo(() => {
+    const result: Record<string, number> = {};
+    for (const saved of savedSearches) {
+      const matches = createFileMatcher(saved.filters, {
+        offlineDirectoryIds,
+        searchHits: hitsById[saved.id] ?? null,
+        categoryIds,
+      });
+      result[saved.id] = files.filter(matches).length;
+    }
+    return result;
+  }, [savedSearches, files, offlineDirectoryIds, categoryIds, hitsById]);
+
+  const activeSavedSearchId = useMemo(
+    () => savedSearches.find((s) => sameFilters(s.filters, filters))?.id ?? null,
+    [savedSearches, filters]
+  );
+
+  /** Save the current filters under a name; reusing a name overwrites that search. */
+  const saveCurrentSearch = useCallback(async (name: string) => {
+    const trimmed = name.trim();
+    if (!trimmed) return;
+    const existing = savedSearches.find((s) => s.name.toLowerCase() === trimmed.toLowerCase());
+    const saved: SavedSearch = {
+      id: existing?.id ?? crypto.randomUUID(),
+      name: trimmed,
+      filters: normalizeFilters(filters),
+      createdAt: existing?.createdAt ?? Date.now(),
+    };
+    try {
+      await saveSavedSearch(saved);
+      setSavedSearches((prev) => existing ? prev.map((s) => (s.id === saved.id ? saved : s)) : [...prev, saved]);
+    } catch (e) {
+      console.error('Failed to save search:', e);
+    }
+  }, [savedSearches, filters]);
+
+  const removeSavedSearch = useCallback(async (id: string) => {
+    try {
+      await deleteSavedSearch(id);
+      setSavedSearches((prev) => prev.filter((s) => s.id !== id));
+    } catch (e) {
+      console.error('Failed to delete saved search:', e);
+    }
+  }, []);
+
+  return { savedSearches, counts, activeSavedSearchId, saveCurrentSearch, removeSavedSearch };
+}
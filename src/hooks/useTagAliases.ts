@@ -0,0 +1,56 @@
+import { useState, useEffect, useCallback, useMemo } from 'react';
+import type { TagAlias } from '../types/index';
+import { getTagAliases, saveTagAlias, deleteTagAlias } from '../utils/electronBridge';
+import { aliasKey, aliasMap, normalizeTag, resolveTag, tagRenames } from '../utils/tagHierarchy';
+
+interface UseTagAliasesParams {
+  /** Every tag in the library, so entries differing only in case reuse the existing spelling */
+  allTags: string[];
+  applyTagAlias: (alias: string, tag: string) => void;
+}
+
+/** Tag aliases persisted in the DB, and resolution of entered tags to their canonical form. */
+export function useTagAliases({ allTags, applyTagAlias }: UseTagAliasesParams) {
+  const [aliases, setAliases] = useState<TagAlias[]>([]);
+
+  useEffect(() => {
+    getTagAliases()
+      .then(setAliases)
+      .catch((e) => console.error('Failed to load tag aliases:', e));
+  }, []);
+
+  const lookup = useMemo(() => aliasMap(aliases), [aliases]);
+
+  /** Canonical tag for user input; empty when the input has no tag in it. */
+  const resolve = useCallback((raw: string) => resolveTag(raw, lookup, allTags), [lookup, allTags]);
+
+  /** Insert or update an alias; files already tagged with it are retagged. */
+  const saveAlias = async (rawAlias: string, rawTag: string) => {
+    const alias = aliasKey(rawAlias);
+    const tag = normalizeTag(rawTag);
+    await saveTagAlias({ alias, tag });
+    applyTagAlias(alias, tag);
+    setAliases((prev) => {
+      const existing = prev.find((a) => a.alias === alias);
+      const next = existing
+        ? prev.map((a) => (a.alias === alias ? { ...a, tag } : a))
+        : [...prev, { alias, tag, createdAt: Date.now() }];
+      return next.sort((a, b) => a.alias.localeCompare(b.alias));
+    });
+  };
+
+  const deleteAlias = (alias: string) => {
+    setAliases((prev) => prev.filter((a) => a.alias !== alias));
+    deleteTagAlias(alias).catch((e) => console.error('Failed to delete tag alias:', e));
+  };
+
+  /** Point aliases at renamed tags; the DB has already done so. */
+  const applyTagRename = useCallback((from: string[], to: string) => {
+    setAliases((prev) => {
+      const renames = tagRenames(prev.map((a) => a.tag), from, to);
+      return renames.size === 0 ? prev : prev.map((a) => ({ ...a, tag: renames.get(a.tag) ?? a.tag }));
+    });
+  }, []);
+
+  return { aliases, resolveTag: resolve, saveAlias, deleteAlias, applyTagRename };
+}
@@ -0,0 +1,95 @@
+import { useState, useEffect, useMemo } from 'react';
+import { SORT_OPTIONS, DEFAULT_SORT } from '../utils/sortFiles';
+import type { SortKey, SortOrder } from '../utils/sortFiles';
+import { getTableColumns, isKnownColumnId, DEFAULT_TABLE_COLUMNS } from '../constants/tableColumns';
+import type { CategoryDef } from '../types/index';
+
+export type ViewMode = 'grid' | 'table';
+
+const STORAGE_KEY = 'stl-library-view';
+
+interface ViewOptions {
+  mode: ViewMode;
+  sort: SortOrder;
+  columns: string[];
+}
+
+const DEFAULT_OPTIONS: ViewOptions = { mode: 'grid', sort: DEFAULT_SORT, columns: DEFAULT_TABLE_COLUMNS };
+
+/** Read saved options, dropping anything a newer or older version doesn't know about. */
+function loadOptions(): ViewOptions {
+  try {
+    const saved = JSON.parse(localStorage.getItem(STORAGE_KEY) ?? 'null');
+    if (!saved || typeof saved !== 'object') return DEFAULT_OPTIONS;
+    return {
+      mode: saved.mode === 'table' ? 'table' : 'grid',
+      sort: saved.sort?.key in SORT_OPTIONS && (saved.sort.direction === 'asc' || saved.sort.direction === 'desc')
+        ? saved.sort
+        : DEFAULT_SORT,
+      columns: Array.isArray(saved.columns)
+        ? saved.columns.filter((id: unknown) => typeof id === 'string' && isKnownColumnId(id))
+        : DEFAULT_TABLE_COLUMNS,
+    };
+  } catch {
+    // localStorage unavailable (e.g. in tests) or unparseable
+    return DEFAULT_OPTIONS;
+  }
+}
+
+/**
+ * Grid/table mode, sort order and table columns, remembered across sessions.
+ * Category columns follow the user's category schema.
+ */
+export function useViewOptions(categoryDefs: CategoryDef[]) {
+  const [options, setOptions] = useState<ViewOptions>(loadOptions);
+  const availableTableColumns = useMemo(() => getTableColumns(categoryDefs), [categoryDefs]);
+  const tableColumns = useMemo(
+    () => availableTableColumns.filter((c) => options.columns.includes(c.id)),
+    [availableTableColumns, options.columns]
+  );
+
+  useEffect(() => {
+    try {
+      localStorage.setItem(STORAGE_KEY, JSON.stringify(options));
+    } catch {
+      // ignore
+    }
+  }, [options]);
+
+  const setViewMode = (mode: ViewMode) => setOptions((prev) => ({ ...prev, mode }));
+
+  /** Pick a sort key; picking the current key again flips the direction. */
+  const setSortKey = (key: SortKey) =>
+    setOptions((prev) => ({
+      ...prev,
+      sort: prev.sort.key === key
+        ? { key, direction: prev.sort.direction === 'asc' ? 'desc' : 'asc' }
+        : { key, direction: SORT_OPTIONS[key].defaultDirection },
+    }));
+
+  const toggleSortDirection = () =>
+    setOptions((prev) => ({
+      ...prev,
+      sort: { ...prev.sort, direction: prev.sort.direction === 'asc' ? 'desc' : 'asc' },
+    }));
+
+  /** Show or hide a table column, keeping columns in their canonical order. */
+  const toggleTableColumn = (id: string) =>
+    setOptions((prev) => {
+      const visible = new Set(prev.columns);
+      if (visible.has(id)) visible.delete(id);
+      else visible.add(id);
+      return { ...prev, columns: availableTableColumns.map((c) => c.id).filter((c) => visible.has(c)) };
+    });
+
+  return {
+    viewMode: options.mode,
+    setViewMode,
+    sort: options.sort,
+    setSortKey,
+    toggleSortDirection,
+    tableColumns,
+    availableTableColumns,
+    toggleTableColumn,
+  };
+}
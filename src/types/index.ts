@@ -1,4 +1,5 @@
 import type { BufferGeometry } from 'three';
+import type { ModelFormat } from '../utils/modelFormats';
 
 // ── File categories ──────────────────────────────────────────────────
 
@@ -29,6 +30,8 @@ export interface STLMetadata {
   volume: number | null;
   surfaceArea: number;
   isWatertight: boolean;
+  /** Source file format; absent on rows imported before multi-format support (treat as STL) */
+  format?: ModelFormat;
   headerText: string | null;
   originalFilename: string;
   suggestedTags: string[];
@@ -54,6 +57,22 @@ export interface STLFile {
   thumbnail: string | null;
   metadata?: STLMetadata;
   import_status?: 'confirmed' | 'pending';
+  /** Import session that staged this row; only sent when saving pending files */
+  importSessionId?: string;
+  /** Epoch ms the row was first written (from DB) */
+  importedAt?: number;
+  /** File mtime at last index (from DB) */
+  lastModified?: number | null;
+  /** Hex SHA-256 of the file bytes; null on rows imported before hashing */
+  contentHash?: string | null;
+  /** See geometryFingerprint() in utils/duplicates */
+  geometryFingerprint?: string | null;
+  /** Set when folder watching found the file gone from disk; the row is kept so tags survive */
+  missingAt?: number | null;
+  /** Classifier evidence per category; absent for values set by hand */
+  classification?: Record<string, CategoryEvidence>;
+  /** Where each tag and category value came from (from DB) */
+  provenance?: FileProvenance;
 }
 
 // ── Directory entry ──────────────────────────────────────────────────
@@ -64,12 +83,26 @@ export interface DirectoryEntry {
   path: string;
   addedAt: number;
   lastScannedAt?: number;
+  /** Set while the health check can't reach the root (unplugged drive, NAS offline) */
+  offlineAt?: number | null;
+  /** Folder layout such as `{ignore}/{creator}/{collection}` (see utils/pathTemplate); null uses the built-in layout */
+  pathTemplate?: string | null;
+}
+
+/** Result of a library health check; id lists only contain files whose missing flag changed */
+export interface HealthReport {
+  checkedAt: number;
+  directories: DirectoryEntry[];
+  missingIds: string[];
+  restoredIds: string[];
 }
 
 // ── Raw file info from directory scan ───────────────────────────────
 
 export interface FileInfo {
+  /** Path below the directory root; runs through the archive name for models inside a .zip */
   relativePath: string;
+  /** Absolute path, or `<archive>.zip!/<entry>` for models read from inside an archive */
   fullPath: string | null;
   sizeBytes: number;
   lastModified: number;
@@ -77,8 +110,235 @@ export interface FileInfo {
   _browserFile?: File;
 }
 
+// ── Folder watching ─────────────────────────────────────────────────
+
+/** An existing row relinked to the path its file was moved/renamed to (matched by content hash). */
+export interface FileMove {
+  fileId: string;
+  /** Display name derived from the new filename */
+  name: string;
+  fromPath: string;
+  toPath: string;
+  fullPath: string;
+}
+
+/** Diff between a watched directory on disk and its rows in the library. */
+export interface DirectoryChange {
+  directoryId: string;
+  /** Paths with no row yet */
+  added: FileInfo[];
+  /** Paths whose size or mtime differ from the stored row */
+  changed: FileInfo[];
+  /** Rows whose path disappeared; already flagged missing in the DB */
+  removedIds: string[];
+  /** Previously missing rows found again unchanged; already unflagged in the DB */
+  restoredIds: string[];
+  /** Rows found at a new path; already relinked in the DB */
+  moved: FileMove[];
+}
+
+// ── Category schema ──────────────────────────────────────────────────
+
+/** One user-defined category (see utils/categorySchema). */
+export interface CategoryDef {
+  /** Stable key used in CategoryValues; never changes once created */
+  id: string;
+  label: string;
+  /** Display order, 0-based */
+  position: number;
+  /** Restricts values to this list; null allows free text */
+  allowedValues: string[] | null;
+}
+
+// ── Classification rules ─────────────────────────────────────────────
+
+/**
+ * A user rule that sets one category value when all of its conditions hold
+ * (see utils/classificationRules). Conditions left empty are ignored; a rule
+ * with no conditions never matches.
+ */
+export interface ClassificationRule {
+  id: string;
+  categoryId: string;
+  value: string;
+  /** Higher wins when several matching rules set the same category */
+  priority: number;
+  enabled: boolean;
+  /** Matches when any keyword is one of the filename's tokens */
+  keywords: string[];
+  /** Case-insensitive regular expression */
+  pattern: string | null;
+  patternTarget: 'filename' | 'path';
+  /** Model height bounds in mm, inclusive */
+  minHeight: number | null;
+  maxHeight: number | null;
+  createdAt: number;
+}
+
+/** Why the classifier assigned a category value (see classifyFileDetailed). */
+export interface CategoryEvidence {
+  /** 0–1; values below LOW_CONFIDENCE are flagged in import review */
+  confidence: number;
+  /** Human-readable reason, e.g. `Keywords: orc, warrior` */
+  evidence: string;
+  /** Which part of the classifier assigned the value; 'classifier' when absent */
+  source?: ValueSource;
+}
+
+/**
+ * Who assigned a tag or category value: the classifier (folders, size, learned
+ * corrections), a filename token, a classification rule, a bulk action or a
+ * person editing one file.
+ */
+export type ValueSource = 'classifier' | 'filename' | 'rule' | 'bulk' | 'manual';
+
+export interface ValueProvenance {
+  source: ValueSource;
+  /** Epoch ms the value was assigned */
+  assignedAt: number;
+}
+
+/** Provenance per tag and per category id; values stored before tracking have none. */
+export interface FileProvenance {
+  tags: Record<string, ValueProvenance>;
+  categories: Record<string, ValueProvenance>;
+}
+
+/** A file's complete new category set; without `classification` changed values count as set by hand. */
+export interface CategoryReplacement {
+  fileId: string;
+  categories: CategoryValues;
+  classification?: Record<string, CategoryEvidence>;
+  /** Recorded for changed values without evidence; defaults to 'manual' */
+  source?: ValueSource;
+}
+
+/**
+ * How often the user corrected a category to `value` on files carrying `feature`
+ * (`token:orc`, `folder:artisan guild`); see utils/learnedAssociations.
+ */
+export interface LearnedAssociation {
+  feature: string;
+  categoryId: string;
+  value: string;
+  count: number;
+  updatedAt: number;
+}
+
+/** One category correction, recorded against every feature of the corrected file. */
+export interface LearnedCorrection {
+  features: string[];
+  categoryId: string;
+  value: string;
+}
+
+// ── Tags ─────────────────────────────────────────────────────────────
+
+/** Another spelling of a tag, resolved on entry (see utils/tagHierarchy). */
+export interface TagAlias {
+  /** Normalized and lowercase */
+  alias: string;
+  /** Canonical tag, possibly a path like `terrain/dungeon` */
+  tag: string;
+  createdAt: number;
+}
+
+// ── Edit history ─────────────────────────────────────────────────────
+
+/** A journaled edit to files' tags, categories or metadata, as listed in the history. */
+export interface EditHistoryEntry {
+  id: number;
+  /** e.g. `Add tags: orc, warband` */
+  label: string;
+  fileCount: number;
+  createdAt: number;
+  /** Undone entries can be redone until the next edit is made */
+  undone: boolean;
+}
+
+/** Result of undoing or redoing one entry: the files as they now are, including ones put back. */
+export interface EditStep {
+  id: number;
+  label: string;
+  files: STLFile[];
+  /** Files the step took out of the library again (redoing a removal) */
+  removedFileIds: string[];
+  /** Files removed or edited since, which were left as they are */
+  skipped: number;
+}
+
+// ── Search ───────────────────────────────────────────────────────────
+
+export type SearchField = 'name' | 'path' | 'tags' | 'categories' | 'header';
+
+/** One full-text search result, ranked by the main process (lower rank = better). */
+export interface SearchHit {
+  id: string;
+  rank: number;
+  /** Matched fields only, with matches wrapped in sentinel characters (see utils/searchHighlight) */
+  highlights: Partial<Record<SearchField, string>>;
+}
+
+/** Inclusive numeric bounds; null leaves that side open. */
+export interface ValueRange {
+  min: number | null;
+  max: number | null;
+}
+
+/** The filter state a saved search captures (see hooks/useFilters). */
+export interface SavedFilters {
+  searchTerm: string;
+  selectedTags: string[];
+  selectedCategories: Record<string, string[]>;
+  selectedFormats: string[];
+  selectedStatuses: string[];
+  /** Keyed by RangeFieldId (see utils/rangeFilters) */
+  selectedRanges: Record<string, ValueRange>;
+}
+
+/** A named filter combination, shown in the sidebar as a live "smart collection". */
+export interface SavedSearch {
+  id: string;
+  name: string;
+  filters: SavedFilters;
+  createdAt: number;
+}
+
+// ── Collections ──────────────────────────────────────────────────────
+
+/** A hand-picked, ordered set of files (unrelated to the auto-derived `collection` category). */
+export interface Collection {
+  id: string;
+  name: string;
+  createdAt: number;
+  /** Member files in playlist order */
+  fileIds: string[];
+}
+
+export interface CollectionExportResult {
+  /** Folder the files were copied into */
+  folder: string;
+  exported: number;
+  /** Names of members that couldn't be read */
+  failed: string[];
+}
+
 // ── Import pipeline state ────────────────────────────────────────────
 
+/** An import persisted in the DB that was never confirmed or cancelled (e.g. the app quit mid-import). */
+export interface ImportSession {
+  id: string;
+  directoryId: string | null;
+  /** 'reviewing' once every file was processed and the review panel was shown */
+  status: 'processing' | 'reviewing';
+  total: number;
+  /** Files already staged as pending rows */
+  staged: number;
+  startedAt: number;
+  /** Files still to process; only ones with a path on disk can be resumed */
+  remaining: FileInfo[];
+}
+
 export interface ImportError {
   name: string;
   err: Error;
@@ -92,6 +352,8 @@ export interface ImportState {
   total: number;
   currentName: string | null;
   errors: ImportError[];
+  /** Existing files found at a new path during a folder rescan; relinked instead of re-imported */
+  moves: FileMove[];
 }
 
 // ── 3D viewer state ──────────────────────────────────────────────────
@@ -99,6 +361,8 @@ export interface ImportState {
 export interface ViewerState {
   status: 'idle' | 'loading' | 'loaded' | 'error';
   geometry: BufferGeometry | null;
+  /** Human-readable reason when status is 'error' */
+  error?: string;
 }
 
 // ── Print settings (stored in localStorage) ─────────────────────────
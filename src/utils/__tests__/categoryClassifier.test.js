@@ -1,4 +1,4 @@
-import { classifyFile, CATEGORY_IDS, CATEGORY_LABELS } from '../categoryClassifier.js';
+import { classifyFile, classifyFileDetailed, LOW_CONFIDENCE, CATEGORY_IDS, CATEGORY_LABELS } from '../categoryClassifier.js';
 
 describe('classifyFile — folder structure', () => {
   it('extracts creator and collection from deep path', () => {
@@ -32,6 +32,28 @@ describe('classifyFile — folder structure', () => {
   });
 });
 
+describe('classifyFile — archive entries', () => {
+  it('uses the archive name as collection and the outer folder as creator', () => {
+    const result = classifyFile({
+      relativePath: 'DeathByTiles/2024-05 Crypts.zip/Crypts/Tiles/floor_tile.stl',
+      filename: 'floor_tile.stl',
+      tokens: ['floor', 'tile'],
+    });
+    expect(result.creator).toBe('DeathByTiles');
+    expect(result.collection).toBe('2024-05 Crypts');
+  });
+
+  it('sets only collection for an archive at the directory root', () => {
+    const result = classifyFile({
+      relativePath: 'Crypts.ZIP/Creator/floor_tile.stl',
+      filename: 'floor_tile.stl',
+      tokens: ['floor', 'tile'],
+    });
+    expect(result.creator).toBeUndefined();
+    expect(result.collection).toBe('Crypts');
+  });
+});
+
 describe('classifyFile — role keyword matching', () => {
   it('classifies "scatter" role', () => {
     const result = classifyFile({
@@ -195,6 +217,40 @@ describe('classifyFile — null value stripping', () => {
   });
 });
 
+describe('classifyFileDetailed — confidence and evidence', () => {
+  it('records evidence for every assigned value', () => {
+    const { categories, evidence } = classifyFileDetailed({
+      relativePath: 'Artisan/Crypts/orc warrior 32mm.stl',
+      filename: 'orc warrior 32mm.stl',
+      tokens: ['orc', 'warrior'],
+    });
+    expect(Object.keys(evidence).sort()).toEqual(Object.keys(categories).sort());
+    expect(evidence.creator.evidence).toBe('Folder "Artisan"');
+    expect(evidence.race.evidence).toBe('Keywords: orc');
+    expect(evidence.race.source).toBe('filename');
+    expect(evidence.creator.source).toBeUndefined();
+    expect(evidence.size.evidence).toBe('Filename mentions 32mm');
+  });
+
+  it('is less confident when keywords point at several values', () => {
+    const single = classifyFileDetailed({ relativePath: 'a.stl', filename: 'a.stl', tokens: ['dragon'] });
+    const mixed = classifyFileDetailed({ relativePath: 'a.stl', filename: 'a.stl', tokens: ['dragon', 'zombie'] });
+    expect(mixed.evidence.creature.confidence).toBeLessThan(single.evidence.creature.confidence);
+    expect(mixed.evidence.creature.confidence).toBeLessThan(LOW_CONFIDENCE);
+  });
+
+  it('flags sizes guessed from height alone as low confidence', () => {
+    const { evidence } = classifyFileDetailed({
+      relativePath: 'hero.stl',
+      filename: 'hero.stl',
+      tokens: ['hero'],
+      geometry: { dimensions: { x: 10, y: 10, z: 30 } },
+    });
+    expect(evidence.size).toEqual({ confidence: expect.any(Number), evidence: 'Height 30.0 mm' });
+    expect(evidence.size.confidence).toBeLessThan(LOW_CONFIDENCE);
+  });
+});
+
 describe('CATEGORY_IDS and CATEGORY_LABELS', () => {
   it('CATEGORY_IDS contains all expected categories', () => {
     expect(CATEGORY_IDS).toEqual(
@@ -0,0 +1,101 @@
+import {
+  DEFAULT_CATEGORY_DEFS,
+  slugifyCategoryId,
+  validateCategoryDefs,
+  parseAllowedValues,
+  isAllowedValue,
+  conformToSchema,
+  renameAllowedValues,
+} from '../categorySchema.js';
+
+const def = (overrides = {}) => ({ id: 'paint', label: 'Paint', position: 0, allowedValues: null, ...overrides });
+
+describe('DEFAULT_CATEGORY_DEFS', () => {
+  it('mirrors the built-in categories in display order', () => {
+    expect(DEFAULT_CATEGORY_DEFS.map((d) => d.id)).toEqual(['creator', 'collection', 'role', 'size', 'fill', 'creature', 'race', 'class']);
+    expect(DEFAULT_CATEGORY_DEFS[0]).toEqual({ id: 'creator', label: 'Creator', position: 0, allowedValues: null });
+  });
+});
+
+describe('slugifyCategoryId', () => {
+  it('lowercases and joins words with underscores', () => {
+    expect(slugifyCategoryId('  Paint Scheme ')).toBe('paint_scheme');
+    expect(slugifyCategoryId('Base (mm)')).toBe('base_mm');
+  });
+});
+
+describe('validateCategoryDefs', () => {
+  it('accepts a valid schema', () => {
+    expect(validateCategoryDefs(DEFAULT_CATEGORY_DEFS)).toEqual([]);
+  });
+
+  it('reports missing labels, bad ids and duplicates', () => {
+    const errors = validateCategoryDefs([def(), def({ label: 'Paint again' }), def({ id: 'Bad Id' }), def({ id: 'x', label: ' ' })]);
+    expect(errors).toHaveLength(3);
+    expect(errors[0]).toMatch(/duplicates/);
+    expect(errors[1]).toMatch(/invalid id/);
+    expect(errors[2]).toMatch(/needs a label/);
+  });
+
+  it('rejects an empty allowed-value list', () => {
+    expect(validateCategoryDefs([def({ allowedValues: [] })])).toHaveLength(1);
+  });
+});
+
+describe('parseAllowedValues', () => {
+  it('splits, trims and de-duplicates', () => {
+    expect(parseAllowedValues('hollow, solid,, hollow ')).toEqual(['hollow', 'solid']);
+  });
+
+  it('returns null for blank input', () => {
+    expect(parseAllowedValues('  ,  ')).toBeNull();
+  });
+});
+
+describe('isAllowedValue', () => {
+  it('accepts anything for free-text categories', () => {
+    expect(isAllowedValue(def(), 'whatever')).toBe(true);
+    expect(isAllowedValue(undefined, 'whatever')).toBe(true);
+  });
+
+  it('matches allowed values case-insensitively', () => {
+    const restricted = def({ allowedValues: ['Hollow', 'Solid'] });
+    expect(isAllowedValue(restricted, 'hollow')).toBe(true);
+    expect(isAllowedValue(restricted, 'partial')).toBe(false);
+  });
+});
+
+describe('conformToSchema', () => {
+  const result = {
+    categories: { paint: 'hollow', creature: 'dragon', role: 'hero' },
+    evidence: {
+      paint: { confidence: 0.6, evidence: 'Keywords: hollow' },
+      creature: { confidence: 0.6, evidence: 'Keywords: dragon' },
+      role: { confidence: 0.6, evidence: 'Keywords: hero' },
+    },
+  };
+
+  it('drops categories missing from the schema', () => {
+    const conformed = conformToSchema(result, [def(), def({ id: 'role', label: 'Role' })]);
+    expect(conformed.categories).toEqual({ paint: 'hollow', role: 'hero' });
+    expect(Object.keys(conformed.evidence)).toEqual(['paint', 'role']);
+  });
+
+  it('keeps only allowed values, in the schema spelling', () => {
+    expect(conformToSchema(result, [def({ allowedValues: ['Hollow', 'Solid'] })]).categories).toEqual({ paint: 'Hollow' });
+    expect(conformToSchema(result, [def({ allowedValues: ['Solid'] })])).toEqual({ categories: {}, evidence: {} });
+  });
+});
+
+describe('renameAllowedValues', () => {
+  it('renames, merges and removes values in place', () => {
+    expect(renameAllowedValues(['Hollow', 'Solid', 'Partial'], ['Solid', 'Partial'], 'Filled')).toEqual(['Hollow', 'Filled']);
+    expect(renameAllowedValues(['Hollow', 'Solid'], ['Hollow'], 'Solid')).toEqual(['Solid']);
+    expect(renameAllowedValues(['Hollow', 'Solid'], ['Solid'], null)).toEqual(['Hollow']);
+  });
+
+  it('allows a value renamed from outside the list, and leaves free text alone', () => {
+    expect(renameAllowedValues(['Hollow'], ['hollw'], 'Shell')).toEqual(['Hollow', 'Shell']);
+    expect(renameAllowedValues(null, ['Solid'], 'Filled')).toBeNull();
+  });
+});
@@ -0,0 +1,117 @@
+import { validateRule, applyRules, ruleSubjectForFile, previewRules } from '../classificationRules.js';
+import { classifyFile } from '../categoryClassifier.js';
+
+let nextCreatedAt = 1;
+const rule = (overrides = {}) => ({
+  id: `r${nextCreatedAt}`,
+  categoryId: 'role',
+  value: 'terrain',
+  priority: 0,
+  enabled: true,
+  keywords: [],
+  pattern: null,
+  patternTarget: 'filename',
+  minHeight: null,
+  maxHeight: null,
+  createdAt: nextCreatedAt++,
+  ...overrides,
+});
+
+const subject = (overrides = {}) => ({
+  relativePath: 'Creator/Kit/ruined_wall_01.stl',
+  filename: 'ruined_wall_01.stl',
+  tokens: ['ruined', 'wall'],
+  height: 40,
+  ...overrides,
+});
+
+describe('validateRule', () => {
+  it('accepts a rule with a condition', () => {
+    expect(validateRule(rule({ keywords: ['wall'] }))).toEqual([]);
+  });
+
+  it('requires a value and at least one condition', () => {
+    expect(validateRule(rule({ value: ' ' }))).toHaveLength(2);
+  });
+
+  it('rejects invalid regexes and inverted height bounds', () => {
+    expect(validateRule(rule({ pattern: '([' }))).toHaveLength(1);
+    expect(validateRule(rule({ minHeight: 50, maxHeight: 10 }))).toHaveLength(1);
+  });
+});
+
+describe('applyRules', () => {
+  it('overrides built-in values when every condition holds', () => {
+    const rules = [rule({ keywords: ['wall'], pattern: '^Creator/', patternTarget: 'path', maxHeight: 50 })];
+    expect(applyRules({ role: 'tile' }, subject(), rules)).toEqual({ role: 'terrain' });
+  });
+
+  it('requires all conditions to match', () => {
+    const rules = [rule({ keywords: ['wall'], minHeight: 60 })];
+    expect(applyRules({ role: 'tile' }, subject(), rules)).toEqual({ role: 'tile' });
+  });
+
+  it('never matches height bounds when the height is unknown', () => {
+    const rules = [rule({ maxHeight: 100 })];
+    expect(applyRules({}, subject({ height: null }), rules)).toEqual({});
+  });
+
+  it('picks the highest priority, then the oldest rule', () => {
+    const older = rule({ keywords: ['wall'], value: 'older' });
+    const newer = rule({ keywords: ['wall'], value: 'newer' });
+    const urgent = rule({ keywords: ['ruined'], value: 'urgent', priority: 5 });
+    expect(applyRules({}, subject(), [newer, older]).role).toBe('older');
+    expect(applyRules({}, subject(), [older, newer, urgent]).role).toBe('urgent');
+  });
+
+  it('ignores disabled rules and rules without conditions', () => {
+    const rules = [rule({ keywords: ['wall'], enabled: false }), rule()];
+    expect(applyRules({ role: 'tile' }, subject(), rules)).toEqual({ role: 'tile' });
+  });
+});
+
+describe('classifyFile with rules', () => {
+  it('applies rules after the built-in dictionaries', () => {
+    const result = classifyFile({
+      relativePath: 'Kit/orc_warrior.stl',
+      filename: 'orc_warrior.stl',
+      tokens: ['orc', 'warrior'],
+      rules: [rule({ categoryId: 'race', value: 'greenskin', keywords: ['orc'] })],
+    });
+    expect(result.race).toBe('greenskin');
+    expect(result.class).toBe('fighter');
+  });
+});
+
+describe('ruleSubjectForFile', () => {
+  it('reads filename, tokens and height from metadata', () => {
+    const file = {
+      relativePath: 'Kit/wall.stl',
+      metadata: { originalFilename: 'Wall.STL', suggestedTags: ['wall'], dimensions: { x: 1, y: 2, z: 30 } },
+    };
+    expect(ruleSubjectForFile(file)).toEqual({ relativePath: 'Kit/wall.stl', filename: 'Wall.STL', tokens: ['wall'], height: 30 });
+  });
+
+  it('falls back to the path when metadata is missing', () => {
+    const subj = ruleSubjectForFile({ relativePath: 'Kit/ruined_wall.stl' });
+    expect(subj.filename).toBe('ruined_wall.stl');
+    expect(subj.height).toBeNull();
+  });
+});
+
+describe('previewRules', () => {
+  const file = (id, relativePath, categories = {}) => ({ id, relativePath, categories });
+
+  it('counts matches and changes, after higher-priority rules', () => {
+    const files = [
+      file('a', 'Kit/stone_wall.stl', { role: 'terrain' }),
+      file('b', 'Kit/wood_wall.stl', { role: 'tile' }),
+      file('c', 'Kit/stone_floor.stl'),
+    ];
+    const walls = rule({ keywords: ['wall'] });
+    const stone = rule({ keywords: ['stone'], value: 'stonework', priority: 1 });
+    const previews = previewRules([walls, stone], files);
+    expect(previews[walls.id]).toEqual({ matched: 2, changed: 1 });
+    expect(previews[stone.id]).toEqual({ matched: 2, changed: 2 });
+  });
+});
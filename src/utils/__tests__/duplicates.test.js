@@ -0,0 +1,101 @@
+import {
+  hashBuffer,
+  geometryFingerprint,
+  findDuplicateGroups,
+  pickKeeper,
+} from '../duplicates.js';
+
+function makeFile(id, overrides = {}) {
+  return {
+    id,
+    name: id,
+    relativePath: `${id}.stl`,
+    fullPath: `/lib/${id}.stl`,
+    size: '1.0 MB',
+    sizeBytes: 1024,
+    tags: [],
+    categories: {},
+    thumbnail: null,
+    ...overrides,
+  };
+}
+
+const CUBE = { triangleCount: 12, dimensions: { x: 10, y: 20, z: 30 }, volume: 6000 };
+
+describe('hashBuffer', () => {
+  it('returns the hex SHA-256 of the bytes', async () => {
+    const bytes = new TextEncoder().encode('abc');
+    expect(await hashBuffer(bytes.buffer)).toBe(
+      'ba7816bf8f01cfea414140de5dae2223b00361a396177a9cb410ff61f20015ad'
+    );
+  });
+});
+
+describe('geometryFingerprint', () => {
+  it('is stable across axis order and float noise', () => {
+    const rotated = { triangleCount: 12, dimensions: { x: 30.004, y: 10, z: 19.98 }, volume: 6000.3 };
+    expect(geometryFingerprint(rotated)).toBe(geometryFingerprint(CUBE));
+  });
+
+  it('distinguishes different triangle counts', () => {
+    expect(geometryFingerprint({ ...CUBE, triangleCount: 14 })).not.toBe(geometryFingerprint(CUBE));
+  });
+
+  it('handles open meshes and degenerate input', () => {
+    expect(geometryFingerprint({ ...CUBE, volume: null })).toContain(':vopen');
+    expect(geometryFingerprint({ ...CUBE, triangleCount: 0 })).toBeNull();
+    expect(geometryFingerprint(undefined)).toBeNull();
+  });
+});
+
+describe('findDuplicateGroups', () => {
+  it('groups exact copies by content hash', () => {
+    const groups = findDuplicateGroups([
+      makeFile('a', { contentHash: 'h1' }),
+      makeFile('b', { contentHash: 'h1' }),
+      makeFile('c', { contentHash: 'h2' }),
+    ]);
+    expect(groups).toHaveLength(1);
+    expect(groups[0].kind).toBe('exact');
+    expect(groups[0].files.map((f) => f.id)).toEqual(['a', 'b']);
+  });
+
+  it('matches re-exports by geometry and links them transitively', () => {
+    const groups = findDuplicateGroups([
+      makeFile('orig', { contentHash: 'h1', metadata: CUBE }),
+      makeFile('copy', { contentHash: 'h1', metadata: CUBE }),
+      makeFile('reexport', { contentHash: 'h9', metadata: { ...CUBE, dimensions: { x: 30, y: 20, z: 10 } } }),
+      makeFile('other', { contentHash: 'h3', metadata: { ...CUBE, triangleCount: 99 } }),
+    ]);
+    expect(groups).toHaveLength(1);
+    expect(groups[0].kind).toBe('geometry');
+    expect(groups[0].files.map((f) => f.id).sort()).toEqual(['copy', 'orig', 'reexport']);
+  });
+
+  it('prefers the stored fingerprint over metadata', () => {
+    const groups = findDuplicateGroups([
+      makeFile('a', { geometryFingerprint: 'fp', metadata: CUBE }),
+      makeFile('b', { geometryFingerprint: 'fp' }),
+    ]);
+    expect(groups).toHaveLength(1);
+  });
+
+  it('returns nothing when every file is unique', () => {
+    expect(findDuplicateGroups([makeFile('a'), makeFile('b')])).toEqual([]);
+  });
+});
+
+describe('pickKeeper', () => {
+  it('prefers the most curated copy', () => {
+    const keeper = pickKeeper([
+      makeFile('a', { importedAt: 1 }),
+      makeFile('b', { importedAt: 2, tags: ['painted'], categories: { role: 'monster' } }),
+    ]);
+    expect(keeper.id).toBe('b');
+  });
+
+  it('falls back to the earliest import', () => {
+    const keeper = pickKeeper([makeFile('a', { importedAt: 5 }), makeFile('b', { importedAt: 3 })]);
+    expect(keeper.id).toBe('b');
+  });
+});
@@ -0,0 +1,37 @@
+import { stepsTo, historyShortcut } from '../editHistory.js';
+
+const entry = (id, undone = false) => ({ id, label: `Edit ${id}`, fileCount: 1, createdAt: id, undone });
+
+describe('stepsTo', () => {
+  const entries = [entry(5, true), entry(4, true), entry(3), entry(2), entry(1)];
+
+  it('undoes the applied entries after the target', () => {
+    expect(stepsTo(entries, 1)).toEqual(['undo', 'undo']);
+  });
+
+  it('redoes undone entries up to and including the target', () => {
+    expect(stepsTo(entries, 4)).toEqual(['redo']);
+    expect(stepsTo(entries, 5)).toEqual(['redo', 'redo']);
+  });
+
+  it('takes no steps for the latest applied entry', () => {
+    expect(stepsTo(entries, 3)).toEqual([]);
+  });
+});
+
+describe('historyShortcut', () => {
+  const key = (k, mods = {}) => ({ key: k, ctrlKey: false, metaKey: false, shiftKey: false, altKey: false, ...mods });
+
+  it('maps Ctrl/Cmd+Z to undo and the shifted or Y variants to redo', () => {
+    expect(historyShortcut(key('z', { ctrlKey: true }))).toBe('undo');
+    expect(historyShortcut(key('z', { metaKey: true }))).toBe('undo');
+    expect(historyShortcut(key('Z', { metaKey: true, shiftKey: true }))).toBe('redo');
+    expect(historyShortcut(key('y', { ctrlKey: true }))).toBe('redo');
+  });
+
+  it('ignores other keys and unmodified presses', () => {
+    expect(historyShortcut(key('z'))).toBeNull();
+    expect(historyShortcut(key('z', { ctrlKey: true, altKey: true }))).toBeNull();
+    expect(historyShortcut(key('a', { ctrlKey: true }))).toBeNull();
+  });
+});
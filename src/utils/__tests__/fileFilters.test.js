@@ -0,0 +1,90 @@
+import { createFileMatcher, normalizeFilters, sameFilters, hasFilters, EMPTY_FILTERS } from '../fileFilters.js';
+
+const file = (overrides = {}) => ({
+  id: 'f1',
+  name: 'Skeleton Archer',
+  relativePath: 'Undead/Skeleton Archer.stl',
+  directoryId: 'd1',
+  tags: ['painted'],
+  categories: { role: 'Monster', race: 'Undead', size: '32mm' },
+  metadata: { dimensions: { x: 20, y: 20, z: 40 }, isWatertight: true },
+  ...overrides,
+});
+
+const context = { offlineDirectoryIds: new Set(), searchHits: null };
+const filters = (overrides = {}) => ({ ...EMPTY_FILTERS, ...overrides });
+
+describe('createFileMatcher', () => {
+  it('matches everything with no filters set', () => {
+    expect(createFileMatcher(EMPTY_FILTERS, context)(file())).toBe(true);
+  });
+
+  it('combines chips and query terms', () => {
+    const undeadMonsters = filters({
+      searchTerm: 'size:32mm -tag:printed',
+      selectedCategories: { role: ['Monster'], race: ['Undead'] },
+    });
+    expect(createFileMatcher(undeadMonsters, context)(file())).toBe(true);
+    expect(createFileMatcher(undeadMonsters, context)(file({ tags: ['printed'] }))).toBe(false);
+  });
+
+  it('requires every selected tag', () => {
+    const matcher = createFileMatcher(filters({ selectedTags: ['painted', 'based'] }), context);
+    expect(matcher(file())).toBe(false);
+    expect(matcher(file({ tags: ['painted', 'based'] }))).toBe(true);
+  });
+
+  it('matches a selected parent tag on any tag below it', () => {
+    const matcher = createFileMatcher(filters({ selectedTags: ['terrain/dungeon'] }), context);
+    expect(matcher(file({ tags: ['terrain/dungeon/door'] }))).toBe(true);
+    expect(matcher(file({ tags: ['terrain/dungeons'] }))).toBe(false);
+    const query = createFileMatcher(filters({ searchTerm: 'tag:Terrain' }), context);
+    expect(query(file({ tags: ['terrain/dungeon/door'] }))).toBe(true);
+  });
+
+  it('uses full-text hits for free text when available, names otherwise', () => {
+    const search = filters({ searchTerm: 'bow' });
+    expect(createFileMatcher(search, context)(file())).toBe(false);
+    const hits = new Map([['f1', { id: 'f1', rank: -1, highlights: {} }]]);
+    expect(createFileMatcher(search, { ...context, searchHits: hits })(file())).toBe(true);
+  });
+
+  it('filters by format and status', () => {
+    expect(createFileMatcher(filters({ selectedFormats: ['obj'] }), context)(file())).toBe(false);
+    const offline = { ...context, offlineDirectoryIds: new Set(['d1']) };
+    expect(createFileMatcher(filters({ selectedStatuses: ['offline'] }), offline)(file())).toBe(true);
+  });
+});
+
+describe('normalizeFilters / sameFilters', () => {
+  it('fills in fields missing from older saved filters', () => {
+    expect(normalizeFilters({ searchTerm: ' orc ' })).toEqual({ ...EMPTY_FILTERS, searchTerm: 'orc' });
+  });
+
+  it('ignores selection order and empty category selections', () => {
+    const a = filters({ selectedTags: ['b', 'a'], selectedCategories: { role: ['Monster'], size: [] } });
+    const b = filters({ selectedTags: ['a', 'b'], selectedCategories: { role: ['Monster'] } });
+    expect(sameFilters(a, b)).toBe(true);
+    expect(sameFilters(a, filters({ selectedTags: ['a'] }))).toBe(false);
+  });
+
+  it('reports whether anything is set', () => {
+    expect(hasFilters(EMPTY_FILTERS)).toBe(false);
+    expect(hasFilters(filters({ selectedCategories: { role: [] } }))).toBe(false);
+    expect(hasFilters(filters({ searchTerm: 'orc' }))).toBe(true);
+  });
+});
+
+describe('range filters', () => {
+  it('applies selected ranges in the matcher', () => {
+    const under40 = filters({ selectedRanges: { height: { min: null, max: 40 } } });
+    expect(createFileMatcher(under40, context)(file())).toBe(true);
+    expect(createFileMatcher(under40, context)(file({ metadata: { dimensions: { x: 1, y: 1, z: 50 } } }))).toBe(false);
+  });
+
+  it('drops open ranges when normalizing', () => {
+    const open = filters({ selectedRanges: { height: { min: null, max: null } } });
+    expect(normalizeFilters(open).selectedRanges).toEqual({});
+    expect(hasFilters(open)).toBe(false);
+  });
+});
@@ -7,6 +7,12 @@ describe('tokenizeFilename', () => {
     expect(tokens).toContain('dragon');
   });
 
+  it('strips 3mf, obj and ply extensions', () => {
+    expect(tokenizeFilename('dragon_head.3mf')).toEqual(['dragon', 'head']);
+    expect(tokenizeFilename('dragon_head.obj')).toEqual(['dragon', 'head']);
+    expect(tokenizeFilename('dragon_head.PLY')).toEqual(['dragon', 'head']);
+  });
+
   it('splits on underscores', () => {
     expect(tokenizeFilename('goblin_warrior.stl')).toEqual(['goblin', 'warrior']);
   });
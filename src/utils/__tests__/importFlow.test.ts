@@ -72,7 +72,9 @@ vi.mock('../filenameTokenizer.js', () => ({
 }));
 
 vi.mock('../categoryClassifier.js', () => ({
-  classifyFile: () => ({}),
+  classifyFileDetailed: () => ({ categories: {}, evidence: {} }),
+  CATEGORY_IDS: [],
+  CATEGORY_LABELS: {},
 }));
 
 vi.mock('../electronBridge.js', () => ({
@@ -81,6 +83,10 @@ vi.mock('../electronBridge.js', () => ({
   getAllFiles: async () => [],
   scanDirectory: async () => [],
   countSTLFiles: async () => 0,
+  getClassificationRules: async () => [],
+  getLearnedAssociations: async () => [],
+  getAllDirectories: async () => [],
+  getCategoryDefs: async () => null,
 }));
 
 // Helper to build minimal FileInfo objects (fullPath triggers readFile mock)
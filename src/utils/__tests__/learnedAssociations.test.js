@@ -0,0 +1,99 @@
+import { learningFeatures, diffCorrections, learnedGuesses, applyLearned } from '../learnedAssociations.js';
+import { classifyFile } from '../categoryClassifier.js';
+
+const assoc = (feature, categoryId, value, count) => ({ feature, categoryId, value, count, updatedAt: 0 });
+
+describe('learningFeatures', () => {
+  const subject = { relativePath: 'Artisan Guild/Crypts.zip/Heroes/orc_boss.stl', tokens: ['orc', 'boss'] };
+
+  it('collects lowercase folder names and tokens, without the filename', () => {
+    expect(learningFeatures(subject, 'creator')).toEqual(['folder:artisan guild', 'folder:heroes', 'token:orc', 'token:boss']);
+  });
+
+  it('keeps folders the layout assigns to a category to that category', () => {
+    expect(learningFeatures(subject, 'role')).toEqual(['folder:heroes', 'token:orc', 'token:boss']);
+    expect(learningFeatures(subject, 'collection')).toEqual(['folder:crypts', 'folder:heroes', 'token:orc', 'token:boss']);
+    const templated = { ...subject, pathTemplate: '{ignore}/{collection}/{role}' };
+    expect(learningFeatures(templated, 'role')).toEqual(['folder:heroes', 'token:orc', 'token:boss']);
+    expect(learningFeatures(templated, 'creator')).toEqual(['token:orc', 'token:boss']);
+  });
+});
+
+describe('diffCorrections', () => {
+  const subject = { relativePath: 'Creator/Kit/Monsters/orc.stl', tokens: ['orc'] };
+
+  it('records changed and added values only', () => {
+    const corrections = diffCorrections({ race: 'orc', role: 'tile' }, { race: 'greenskin', role: 'tile', size: '32mm' }, subject);
+    expect(corrections).toEqual([
+      { features: ['folder:monsters', 'token:orc'], categoryId: 'race', value: 'greenskin' },
+      { features: ['folder:monsters', 'token:orc'], categoryId: 'size', value: '32mm' },
+    ]);
+  });
+
+  it('learns nothing from a file without features for the category', () => {
+    expect(diffCorrections({}, { role: 'hero' }, { relativePath: 'Creator/Pack/model.stl', tokens: [] })).toEqual([]);
+  });
+
+  it('ignores cleared values', () => {
+    expect(diffCorrections({ race: 'orc' }, { race: '' }, subject)).toEqual([]);
+  });
+});
+
+describe('learnedGuesses', () => {
+  const subject = { relativePath: 'Kit/orc_boss.stl', tokens: ['orc', 'boss'] };
+
+  it('needs repeated, consistent corrections', () => {
+    expect(learnedGuesses(subject, [assoc('token:orc', 'race', 'greenskin', 1)])).toEqual({});
+    expect(learnedGuesses(subject, [assoc('token:orc', 'race', 'greenskin', 2)]).race).toMatchObject({
+      value: 'greenskin',
+      feature: 'token:orc',
+    });
+    const contested = [assoc('token:orc', 'race', 'greenskin', 2), assoc('token:orc', 'race', 'orc', 2)];
+    expect(learnedGuesses(subject, contested)).toEqual({});
+  });
+
+  it("doesn't let a creator or collection folder vote for other categories", () => {
+    const inPack = { relativePath: 'Creator/Pack/model.stl', tokens: [] };
+    const associations = [assoc('folder:creator', 'role', 'monster', 5), assoc('folder:creator', 'creator', 'The Creator', 3)];
+    expect(learnedGuesses(inPack, associations)).toEqual({
+      creator: { value: 'The Creator', confidence: 0.75, feature: 'folder:creator' },
+    });
+  });
+
+  it('keeps token guesses off categories the folder layout decided', () => {
+    const associations = [assoc('token:orc', 'creator', 'Somebody', 5), assoc('folder:kit', 'collection', 'The Kit', 3)];
+    expect(Object.keys(learnedGuesses(subject, associations, new Set(['creator', 'collection'])))).toEqual(['collection']);
+  });
+});
+
+describe('classifyFile with learned associations', () => {
+  it('overrides the built-in dictionaries but not user rules', () => {
+    const params = {
+      relativePath: 'Kit/orc_warrior.stl',
+      filename: 'orc_warrior.stl',
+      tokens: ['orc', 'warrior'],
+      learned: [assoc('token:orc', 'race', 'greenskin', 3)],
+    };
+    expect(classifyFile(params).race).toBe('greenskin');
+    const rule = {
+      id: 'r', categoryId: 'race', value: 'goblinoid', priority: 0, enabled: true, keywords: ['orc'],
+      pattern: null, patternTarget: 'filename', minHeight: null, maxHeight: null, createdAt: 0,
+    };
+    expect(classifyFile({ ...params, rules: [rule] }).race).toBe('goblinoid');
+  });
+
+  it('only replaces built-in guesses it is more confident than', () => {
+    const params = {
+      relativePath: 'Kit/orcish_orc.stl',
+      filename: 'orcish_orc.stl',
+      tokens: ['orcish', 'orc'],
+    };
+    // Two matching keywords score 0.75; two agreeing corrections only 0.67, five 0.83
+    expect(classifyFile({ ...params, learned: [assoc('token:orc', 'race', 'greenskin', 2)] }).race).toBe('orc');
+    expect(classifyFile({ ...params, learned: [assoc('token:orc', 'race', 'greenskin', 5)] }).race).toBe('greenskin');
+  });
+
+  it('leaves categories alone without associations', () => {
+    expect(applyLearned({ role: 'tile' }, { relativePath: 'a.stl', tokens: [] }, [])).toEqual({ role: 'tile' });
+  });
+});
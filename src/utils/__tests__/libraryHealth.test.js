@@ -0,0 +1,40 @@
+import { getFileStatus, relocatePath } from '../libraryHealth.js';
+
+const file = (overrides = {}) => ({ id: 'f1', directoryId: 'd1', missingAt: null, ...overrides });
+
+describe('getFileStatus', () => {
+  it('treats unflagged files as available', () => {
+    expect(getFileStatus(file(), new Set())).toBe('available');
+    expect(getFileStatus(file({ missingAt: undefined }), new Set())).toBe('available');
+  });
+
+  it('reports files flagged missing', () => {
+    expect(getFileStatus(file({ missingAt: 1700000000000 }), new Set())).toBe('missing');
+  });
+
+  it('reports offline when the directory root is unreachable, even if also missing', () => {
+    expect(getFileStatus(file(), new Set(['d1']))).toBe('offline');
+    expect(getFileStatus(file({ missingAt: 1 }), new Set(['d1']))).toBe('offline');
+    expect(getFileStatus(file(), new Set(['d2']))).toBe('available');
+  });
+
+  it('ignores offline directories for dropped files without a directory', () => {
+    expect(getFileStatus(file({ directoryId: undefined, missingAt: 1 }), new Set(['d1']))).toBe('missing');
+  });
+});
+
+describe('relocatePath', () => {
+  it('swaps the root prefix', () => {
+    expect(relocatePath('/Volumes/NAS/models/a/b.stl', '/Volumes/NAS/models', '/mnt/models'))
+      .toBe('/mnt/models/a/b.stl');
+  });
+
+  it('keeps archive entry suffixes intact', () => {
+    expect(relocatePath('/old/Pack.zip!/inner/x.stl', '/old', '/new')).toBe('/new/Pack.zip!/inner/x.stl');
+  });
+
+  it('leaves paths outside the root and null paths unchanged', () => {
+    expect(relocatePath('/elsewhere/x.stl', '/old', '/new')).toBe('/elsewhere/x.stl');
+    expect(relocatePath(null, '/old', '/new')).toBeNull();
+  });
+});
@@ -0,0 +1,54 @@
+import {
+  getModelFormat,
+  isSupportedModelFile,
+  stripModelExtension,
+  getFileFormat,
+  MODEL_FILE_ACCEPT,
+} from '../modelFormats.js';
+
+describe('getModelFormat', () => {
+  it('maps each supported extension to its format', () => {
+    expect(getModelFormat('dragon.stl')).toBe('stl');
+    expect(getModelFormat('plate.3mf')).toBe('3mf');
+    expect(getModelFormat('statue.obj')).toBe('obj');
+    expect(getModelFormat('scan.ply')).toBe('ply');
+  });
+
+  it('is case-insensitive and works on full paths', () => {
+    expect(getModelFormat('Creator/Kit/Dragon.STL')).toBe('stl');
+    expect(getModelFormat('C:\\models\\Plate.3MF')).toBe('3mf');
+  });
+
+  it('returns null for unsupported files', () => {
+    expect(getModelFormat('readme.txt')).toBeNull();
+    expect(getModelFormat('model.stl.bak')).toBeNull();
+    expect(getModelFormat('stl')).toBeNull();
+  });
+});
+
+describe('isSupportedModelFile / stripModelExtension', () => {
+  it('accepts model files only', () => {
+    expect(isSupportedModelFile('a.obj')).toBe(true);
+    expect(isSupportedModelFile('a.gcode')).toBe(false);
+  });
+
+  it('strips only the model extension', () => {
+    expect(stripModelExtension('orc.v2.obj')).toBe('orc.v2');
+    expect(stripModelExtension('notes.txt')).toBe('notes.txt');
+  });
+
+  it('builds an accept list for file inputs', () => {
+    expect(MODEL_FILE_ACCEPT).toBe('.stl,.3mf,.obj,.ply');
+  });
+});
+
+describe('getFileFormat', () => {
+  it('prefers the recorded metadata format', () => {
+    expect(getFileFormat({ relativePath: 'a.stl', metadata: { format: 'obj' } })).toBe('obj');
+  });
+
+  it('falls back to the extension, then STL for legacy rows', () => {
+    expect(getFileFormat({ relativePath: 'kit/plate.3mf' })).toBe('3mf');
+    expect(getFileFormat({ relativePath: 'unknown' })).toBe('stl');
+  });
+});
@@ -0,0 +1,93 @@
+import { parsePathTemplate, extractFolderCategories, ignoreTemplateCategories, pickSamplePaths, planTemplateReapply } from '../pathTemplate.js';
+import { classifyFile } from '../categoryClassifier.js';
+
+const TEMPLATE = '{ignore}/{ignore}/{creator}/{collection}/{role}';
+
+describe('parsePathTemplate', () => {
+  it('maps each level to a category or null for {ignore}', () => {
+    expect(parsePathTemplate(TEMPLATE)).toEqual({ segments: [null, null, 'creator', 'collection', 'role'], errors: [] });
+  });
+
+  it('reports malformed segments, unknown categories and repeats', () => {
+    expect(parsePathTemplate('creator/{collection}').errors).toHaveLength(1);
+    expect(parsePathTemplate('{creator}/{paint}', ['creator']).errors).toEqual(['Unknown category "paint"']);
+    expect(parsePathTemplate('{creator}/{creator}').errors).toHaveLength(1);
+    expect(parsePathTemplate('  ').errors).toHaveLength(1);
+  });
+});
+
+describe('extractFolderCategories', () => {
+  it('extracts values by folder level, ignoring the filename', () => {
+    expect(extractFolderCategories('2024/05/Artisan/Crypts/tiles/floor.stl', TEMPLATE)).toEqual({
+      creator: 'Artisan',
+      collection: 'Crypts',
+      role: 'tiles',
+    });
+  });
+
+  it('skips levels the path does not have and strips .zip from archive segments', () => {
+    expect(extractFolderCategories('2024/05/Artisan/Crypts.zip/floor.stl', TEMPLATE)).toEqual({
+      creator: 'Artisan',
+      collection: 'Crypts',
+    });
+  });
+
+  it('uses the built-in layout without a valid template', () => {
+    const builtIn = { creator: 'Artisan', collection: 'Crypts' };
+    expect(extractFolderCategories('Artisan/Crypts/floor.stl', null)).toEqual(builtIn);
+    expect(extractFolderCategories('Artisan/Crypts/floor.stl', 'not a template')).toEqual(builtIn);
+  });
+});
+
+describe('classifyFile with a path template', () => {
+  it('lets the layout win over filename keywords', () => {
+    const result = classifyFile({
+      relativePath: '2024/05/Artisan/Crypts/scatter/stone_wall.stl',
+      filename: 'stone_wall.stl',
+      tokens: ['stone', 'wall'],
+      pathTemplate: TEMPLATE,
+    });
+    expect(result).toMatchObject({ creator: 'Artisan', collection: 'Crypts', role: 'scatter' });
+  });
+});
+
+describe('ignoreTemplateCategories', () => {
+  it('turns the levels of deleted categories into {ignore}', () => {
+    expect(ignoreTemplateCategories(TEMPLATE, ['creator', 'role'])).toBe('{ignore}/{ignore}/{ignore}/{collection}/{ignore}');
+    expect(ignoreTemplateCategories(TEMPLATE, ['paint'])).toBe(TEMPLATE);
+  });
+});
+
+describe('pickSamplePaths', () => {
+  it('keeps one path per folder, deepest first', () => {
+    const paths = ['a/x.stl', 'a/y.stl', 'a/b/c/z.stl', 'top.stl'];
+    expect(pickSamplePaths(paths)).toEqual(['a/b/c/z.stl', 'a/x.stl', 'top.stl']);
+    expect(pickSamplePaths(paths, 1)).toEqual(['a/b/c/z.stl']);
+  });
+});
+
+describe('planTemplateReapply', () => {
+  const file = (id, relativePath, categories) => ({ id, relativePath, categories });
+
+  it('replaces values the previous layout produced and keeps hand edits', () => {
+    const files = [
+      file('a', '2024/05/Artisan/Crypts/floor.stl', { creator: '2024', collection: '05', role: 'tile' }),
+      file('b', '2024/05/Artisan/Crypts/wall.stl', { creator: 'Someone Else', collection: '05' }),
+    ];
+    const changes = planTemplateReapply(files, '{ignore}/{ignore}/{creator}/{collection}', [null]);
+    expect(changes).toEqual([
+      { fileId: 'a', categories: { creator: 'Artisan', collection: 'Crypts', role: 'tile' } },
+      { fileId: 'b', categories: { creator: 'Someone Else', collection: 'Crypts' } },
+    ]);
+  });
+
+  it('clears values the new layout no longer produces', () => {
+    const files = [file('a', 'Artisan/Crypts/floor.stl', { creator: 'Artisan', collection: 'Crypts' })];
+    expect(planTemplateReapply(files, '{creator}', [null])).toEqual([{ fileId: 'a', categories: { creator: 'Artisan' } }]);
+  });
+
+  it('returns nothing when the layout yields the same values', () => {
+    const files = [file('a', 'Artisan/Crypts/floor.stl', { creator: 'Artisan', collection: 'Crypts' })];
+    expect(planTemplateReapply(files, '{creator}/{collection}', [null])).toEqual([]);
+  });
+});
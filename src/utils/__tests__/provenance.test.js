@@ -0,0 +1,45 @@
+import { updateProvenance, fileValueSources, isMachineSource } from '../provenance.js';
+
+const stamp = (source, assignedAt) => ({ source, assignedAt });
+
+describe('updateProvenance', () => {
+  const file = {
+    tags: ['painted', 'old'],
+    categories: { role: 'hero', race: 'elf', size: '32mm' },
+    provenance: {
+      tags: { painted: stamp('bulk', 1) },
+      categories: { role: stamp('classifier', 1), race: stamp('filename', 1) },
+    },
+  };
+
+  it('keeps provenance of unchanged values and stamps new ones', () => {
+    const next = updateProvenance(file, { tags: ['painted', 'wip'] }, 'manual', 5);
+    expect(next.tags).toEqual({ painted: stamp('bulk', 1), wip: stamp('manual', 5) });
+    expect(next.categories).toBe(file.provenance.categories);
+  });
+
+  it('takes the source of new values from their evidence', () => {
+    const next = updateProvenance(
+      file,
+      { categories: { role: 'monster', race: 'elf', class: 'rogue' }, classification: { role: { confidence: 1, evidence: 'Rule', source: 'rule' } } },
+      'bulk',
+      5
+    );
+    expect(next.categories).toEqual({ role: stamp('rule', 5), race: stamp('filename', 1), class: stamp('bulk', 5) });
+  });
+
+  it('leaves values stored before tracking without provenance', () => {
+    const next = updateProvenance(file, { tags: ['old'], categories: { size: '32mm' } }, 'manual', 5);
+    expect(next).toEqual({ tags: {}, categories: {} });
+  });
+});
+
+describe('fileValueSources', () => {
+  it('collects the sources of tags and categories', () => {
+    const file = { provenance: { tags: { a: stamp('bulk', 1) }, categories: { role: stamp('rule', 1) } } };
+    expect([...fileValueSources(file)].sort()).toEqual(['bulk', 'rule']);
+    expect(fileValueSources({}).size).toBe(0);
+    expect(isMachineSource('rule')).toBe(true);
+    expect(isMachineSource('bulk')).toBe(false);
+  });
+});
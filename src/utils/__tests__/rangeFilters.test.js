@@ -0,0 +1,69 @@
+import { RANGE_FIELDS, matchesRanges, isRangeActive, buildHistogram, buildRangeHistograms } from '../rangeFilters.js';
+
+const file = (overrides = {}) => ({
+  id: 'f1',
+  sizeBytes: 3 * 1024 * 1024,
+  metadata: {
+    dimensions: { x: 25, y: 32, z: 38 },
+    volume: 9000,
+    printEstimate: { volumeCm3: 9, estimatedGrams: 11.2 },
+  },
+  ...overrides,
+});
+
+describe('RANGE_FIELDS', () => {
+  it('reads each field from metadata', () => {
+    const f = file();
+    expect(RANGE_FIELDS.height.get(f)).toBe(38);
+    expect(RANGE_FIELDS.footprint.get(f)).toBe(32);
+    expect(RANGE_FIELDS.volume.get(f)).toBe(9);
+    expect(RANGE_FIELDS.grams.get(f)).toBe(11.2);
+    expect(RANGE_FIELDS.fileSize.get(f)).toBe(3);
+  });
+
+  it('falls back to mm³ volume when there is no print estimate', () => {
+    expect(RANGE_FIELDS.volume.get(file({ metadata: { volume: 4500 } }))).toBe(4.5);
+  });
+});
+
+describe('matchesRanges', () => {
+  it('matches inclusive bounds with either side open', () => {
+    expect(matchesRanges(file(), { height: { min: null, max: 40 } })).toBe(true);
+    expect(matchesRanges(file(), { height: { min: 38, max: 38 } })).toBe(true);
+    expect(matchesRanges(file(), { height: { min: 40, max: null } })).toBe(false);
+  });
+
+  it('requires every active range', () => {
+    expect(matchesRanges(file(), { height: { min: null, max: 40 }, grams: { min: 20, max: null } })).toBe(false);
+  });
+
+  it('ignores open ranges but excludes files without a value for active ones', () => {
+    const bare = file({ metadata: undefined });
+    expect(matchesRanges(bare, { height: { min: null, max: null } })).toBe(true);
+    expect(matchesRanges(bare, { height: { min: null, max: 40 } })).toBe(false);
+  });
+
+  it('treats undefined and open ranges as inactive', () => {
+    expect(isRangeActive(undefined)).toBe(false);
+    expect(isRangeActive({ min: null, max: null })).toBe(false);
+    expect(isRangeActive({ min: 0, max: null })).toBe(true);
+  });
+});
+
+describe('buildHistogram', () => {
+  it('bins values evenly and puts the max in the last bin', () => {
+    const h = buildHistogram([0, 1, 2, 3, 4, 10], 5);
+    expect(h).toMatchObject({ min: 0, max: 10, binWidth: 2 });
+    expect(h.counts).toEqual([2, 2, 1, 0, 1]);
+  });
+
+  it('returns null with nothing to spread', () => {
+    expect(buildHistogram([])).toBeNull();
+    expect(buildHistogram([5, 5, 5])).toBeNull();
+  });
+
+  it('only builds histograms for fields with data', () => {
+    const histograms = buildRangeHistograms([file(), file({ metadata: { dimensions: { x: 10, y: 10, z: 60 } } })]);
+    expect(Object.keys(histograms).sort()).toEqual(['footprint', 'height']);
+  });
+});
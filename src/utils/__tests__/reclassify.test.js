@@ -0,0 +1,101 @@
+import { reclassifyFile, diffClassification, applyReclassifyChanges, changeKey } from '../reclassify.js';
+import { DEFAULT_CATEGORY_DEFS } from '../categorySchema.js';
+
+const context = { rules: [], learned: [], pathTemplates: new Map(), categoryDefs: DEFAULT_CATEGORY_DEFS };
+const CATEGORY_IDS = ['creator', 'collection', 'role', 'race'];
+
+const file = (overrides = {}) => ({
+  id: 'f1',
+  name: 'orc wall',
+  relativePath: 'Artisan/Crypts/orc_wall.stl',
+  fullPath: null,
+  size: '1 MB',
+  sizeBytes: 1,
+  tags: [],
+  thumbnail: null,
+  categories: {},
+  metadata: { originalFilename: 'orc_wall.stl', suggestedTags: ['orc', 'wall'] },
+  ...overrides,
+});
+
+describe('reclassifyFile', () => {
+  it('classifies from the stored path and tokens, using the directory layout', () => {
+    const templated = { ...context, pathTemplates: new Map([['d1', '{ignore}/{collection}']]) };
+    expect(reclassifyFile(file(), context).categories).toMatchObject({ creator: 'Artisan', role: 'tile', race: 'orc' });
+    expect(reclassifyFile(file({ directoryId: 'd1' }), templated).categories).toMatchObject({ collection: 'Crypts' });
+  });
+
+  it('only proposes categories and values the schema still has', () => {
+    const categoryDefs = DEFAULT_CATEGORY_DEFS
+      .filter((d) => d.id !== 'race')
+      .map((d) => (d.id === 'role' ? { ...d, allowedValues: ['hero', 'monster'] } : d));
+    const { categories, evidence } = reclassifyFile(file(), { ...context, categoryDefs });
+    expect(categories).toMatchObject({ creator: 'Artisan' });
+    expect(categories).not.toHaveProperty('race');
+    expect(categories).not.toHaveProperty('role');
+    expect(evidence).not.toHaveProperty('race');
+  });
+});
+
+describe('diffClassification', () => {
+  const result = {
+    categories: { creator: 'Artisan', role: 'tile', race: 'orc', fill: 'hollow' },
+    evidence: {
+      creator: { confidence: 0.7, evidence: 'Folder "Artisan"' },
+      role: { confidence: 0.6, evidence: 'Keywords: wall' },
+      race: { confidence: 0.6, evidence: 'Keywords: orc' },
+      fill: { confidence: 0.6, evidence: 'Keywords: hollow' },
+    },
+  };
+
+  it('lists changed, new and cleared values within the schema', () => {
+    const current = file({
+      categories: { creator: 'Artisan', role: 'prop', collection: 'Old' },
+      classification: { role: { confidence: 0.5, evidence: 'x' }, collection: { confidence: 0.7, evidence: 'y' } },
+    });
+    const changes = diffClassification(current, result, CATEGORY_IDS);
+    expect(changes.map((c) => [c.categoryId, c.oldValue, c.newValue, c.manual])).toEqual([
+      ['collection', 'Old', undefined, false],
+      ['role', 'prop', 'tile', false],
+      ['race', undefined, 'orc', false],
+    ]);
+    expect(changes[1].evidence).toEqual(result.evidence.role);
+  });
+
+  it('marks values without evidence as manual and never clears them', () => {
+    const current = file({ categories: { role: 'prop', collection: 'Mine' } });
+    const changes = diffClassification(current, result, CATEGORY_IDS);
+    expect(changes.find((c) => c.categoryId === 'role')).toMatchObject({ manual: true, newValue: 'tile' });
+    expect(changes.find((c) => c.categoryId === 'collection')).toBeUndefined();
+  });
+
+  it('decides what was set by hand from provenance when recorded', () => {
+    const current = file({
+      categories: { role: 'prop', race: 'elf' },
+      classification: { race: { confidence: 0.6, evidence: 'Keywords: elf' } },
+      provenance: {
+        tags: {},
+        categories: { role: { source: 'rule', assignedAt: 1 }, race: { source: 'bulk', assignedAt: 2 } },
+      },
+    });
+    const changes = diffClassification(current, result, CATEGORY_IDS);
+    expect(changes.find((c) => c.categoryId === 'role').manual).toBe(false);
+    expect(changes.find((c) => c.categoryId === 'race').manual).toBe(true);
+  });
+});
+
+describe('applyReclassifyChanges', () => {
+  it('applies accepted changes and their evidence per file', () => {
+    const current = file({ categories: { role: 'prop', collection: 'Old' }, classification: { collection: { confidence: 0.7, evidence: 'y' } } });
+    const evidence = { confidence: 0.6, evidence: 'Keywords: wall' };
+    const entries = applyReclassifyChanges([current, file({ id: 'f2' })], [
+      { fileId: 'f1', categoryId: 'role', oldValue: 'prop', newValue: 'tile', evidence, manual: true },
+      { fileId: 'f1', categoryId: 'collection', oldValue: 'Old', newValue: undefined, manual: false },
+    ]);
+    expect(entries).toEqual([{ fileId: 'f1', categories: { role: 'tile' }, classification: { role: evidence } }]);
+  });
+
+  it('keys changes by file and category', () => {
+    expect(changeKey({ fileId: 'f1', categoryId: 'role' })).not.toBe(changeKey({ fileId: 'f1', categoryId: 'race' }));
+  });
+});
@@ -0,0 +1,34 @@
+import { splitHighlight, getSecondaryMatch, HIGHLIGHT_START as S, HIGHLIGHT_END as E } from '../searchHighlight.js';
+
+describe('splitHighlight', () => {
+  it('returns a single plain segment when nothing matched', () => {
+    expect(splitHighlight('elf archer')).toEqual([{ text: 'elf archer', match: false }]);
+  });
+
+  it('marks wrapped terms as matches', () => {
+    expect(splitHighlight(`Heroes/${S}Ranger${E}/elf.stl`)).toEqual([
+      { text: 'Heroes/', match: false },
+      { text: 'Ranger', match: true },
+      { text: '/elf.stl', match: false },
+    ]);
+  });
+
+  it('handles adjacent and leading matches without empty segments', () => {
+    expect(splitHighlight(`${S}elf${E}_${S}archer${E}`)).toEqual([
+      { text: 'elf', match: true },
+      { text: '_', match: false },
+      { text: 'archer', match: true },
+    ]);
+  });
+});
+
+describe('getSecondaryMatch', () => {
+  it('prefers categories and tags over paths and headers', () => {
+    const hit = { id: 'a', rank: -1, highlights: { path: `a/${S}x${E}`, categories: `${S}Ranger${E}` } };
+    expect(getSecondaryMatch(hit)).toEqual({ field: 'categories', highlighted: `${S}Ranger${E}` });
+  });
+
+  it('ignores name-only matches', () => {
+    expect(getSecondaryMatch({ id: 'a', rank: -1, highlights: { name: `${S}elf${E}` } })).toBeNull();
+  });
+});
@@ -0,0 +1,129 @@
+import { parseSearchQuery, matchesQuery } from '../searchQuery.js';
+
+const file = (overrides = {}) => ({
+  id: 'f1',
+  name: 'Goblin Warboss',
+  relativePath: 'Orcs/Goblin Warboss.stl',
+  fullPath: '/lib/Orcs/Goblin Warboss.stl',
+  directoryId: 'd1',
+  sizeBytes: 4 * 1024 * 1024,
+  tags: ['painted', 'Favourite'],
+  categories: { role: 'Monster', size: '32mm' },
+  metadata: {
+    triangleCount: 120000,
+    dimensions: { x: 30, y: 25, z: 48.6 },
+    volume: 12000,
+    surfaceArea: 5000,
+    isWatertight: true,
+    format: 'stl',
+    printEstimate: { volumeCm3: 12, estimatedGrams: 14.9 },
+  },
+  ...overrides,
+});
+
+const matches = (query, f = file()) => matchesQuery(f, parseSearchQuery(query));
+
+describe('parseSearchQuery', () => {
+  it('separates key:value terms from free text', () => {
+    const query = parseSearchQuery('role:monster dragon tag:painted big');
+    expect(query.text).toBe('dragon big');
+    expect(query.clauses).toHaveLength(2);
+    expect(query.errors).toEqual([]);
+  });
+
+  it('keeps quoted values together', () => {
+    const query = parseSearchQuery('tag:"wip bust" "red dragon"');
+    expect(query.clauses[0]).toMatchObject({ kind: 'tag', values: ['wip bust'] });
+    expect(query.text).toBe('red dragon');
+  });
+
+  it('parses comparisons with units', () => {
+    expect(parseSearchQuery('height<6cm').clauses[0]).toMatchObject({ kind: 'number', field: 'height', op: '<', value: 60 });
+    expect(parseSearchQuery('triangles>=100k').clauses[0]).toMatchObject({ op: '>=', value: 100000 });
+    expect(parseSearchQuery('height:50').clauses[0]).toMatchObject({ op: '=', value: 50 });
+  });
+
+  it('reports invalid terms without dropping the rest', () => {
+    const query = parseSearchQuery('colour:red height<tall role>monster watertight:maybe -dragon tag: role:monster');
+    expect(query.errors.map((e) => e.term)).toEqual(['colour:red', 'height<tall', 'role>monster', 'watertight:maybe', '-dragon', 'tag:']);
+    expect(query.clauses).toHaveLength(1);
+  });
+
+  it('rejects unknown formats and statuses', () => {
+    expect(parseSearchQuery('format:fbx').errors).toHaveLength(1);
+    expect(parseSearchQuery('status:gone').errors).toHaveLength(1);
+    expect(parseSearchQuery('format:STL|obj').errors).toHaveLength(0);
+  });
+
+  it('leaves plain text with colons that are not keys as free text', () => {
+    expect(parseSearchQuery('10:30').text).toBe('10:30');
+    expect(parseSearchQuery('x_1:y').text).toBe('x_1:y');
+  });
+
+  it('accepts category ids with digits and underscores, negated too', () => {
+    const ids = ['paint_scheme', 'tier2'];
+    expect(parseSearchQuery('paint_scheme:red', ids).clauses[0])
+      .toEqual({ kind: 'category', categoryId: 'paint_scheme', values: ['red'], negate: false });
+    const negated = parseSearchQuery('-tier2:elite', ids);
+    expect(negated.errors).toEqual([]);
+    expect(negated.clauses[0]).toEqual({ kind: 'category', categoryId: 'tier2', values: ['elite'], negate: true });
+    expect(negated.text).toBe('');
+  });
+});
+
+describe('matchesQuery', () => {
+  it('matches categories and tags case-insensitively', () => {
+    expect(matches('role:monster size:32MM')).toBe(true);
+    expect(matches('tag:favourite')).toBe(true);
+    expect(matches('role:hero')).toBe(false);
+  });
+
+  it('supports OR groups and negation', () => {
+    expect(matches('tag:primed|painted')).toBe(true);
+    expect(matches('-tag:printed')).toBe(true);
+    expect(matches('-tag:painted')).toBe(false);
+    expect(matches('role:hero|monster -role:monster')).toBe(false);
+  });
+
+  it('compares numeric metadata', () => {
+    expect(matches('height<60')).toBe(true);
+    expect(matches('height>60')).toBe(false);
+    expect(matches('height:49')).toBe(true);
+    expect(matches('volume<=12 grams>10 mb<5 triangles>100k')).toBe(true);
+  });
+
+  it('never matches numeric or watertight filters on files without metadata', () => {
+    const bare = file({ metadata: undefined });
+    expect(matches('height<60', bare)).toBe(false);
+    expect(matches('watertight:no', bare)).toBe(false);
+  });
+
+  it('matches watertightness, format, name and path', () => {
+    expect(matches('watertight:yes format:stl name:warboss path:orcs')).toBe(true);
+    expect(matches('watertight:no')).toBe(false);
+  });
+
+  it('matches status against offline directories', () => {
+    const query = parseSearchQuery('status:offline');
+    expect(matchesQuery(file(), query, new Set(['d1']))).toBe(true);
+    expect(matchesQuery(file(), query, new Set())).toBe(false);
+  });
+
+  it('matches any tag or category value assigned by a source', () => {
+    const tracked = file({
+      provenance: {
+        tags: { painted: { source: 'bulk', assignedAt: 1 } },
+        categories: { role: { source: 'classifier', assignedAt: 1 } },
+      },
+    });
+    expect(matches('source:bulk', tracked)).toBe(true);
+    expect(matches('source:manual|classifier', tracked)).toBe(true);
+    expect(matches('-source:manual', tracked)).toBe(true);
+    expect(matches('source:manual')).toBe(false);
+    expect(parseSearchQuery('source:robot').errors[0].message).toMatch(/Unknown source/);
+  });
+
+  it('ignores invalid terms', () => {
+    expect(matches('colour:red role:monster')).toBe(true);
+  });
+});
@@ -0,0 +1,45 @@
+import { sortFiles, SORT_OPTIONS, DEFAULT_SORT } from '../sortFiles.js';
+
+const file = (id, overrides = {}) => ({ id, name: id, sizeBytes: 0, importedAt: 0, tags: [], categories: {}, ...overrides });
+const ids = (files) => files.map((f) => f.id);
+
+describe('sortFiles', () => {
+  it('keeps the incoming order for the default sort', () => {
+    const files = [file('b'), file('a')];
+    expect(sortFiles(files, DEFAULT_SORT)).toBe(files);
+  });
+
+  it('sorts names naturally and case-insensitively', () => {
+    const files = [file('Orc 10'), file('orc 2'), file('Goblin')];
+    expect(ids(sortFiles(files, { key: 'name', direction: 'asc' }))).toEqual(['Goblin', 'orc 2', 'Orc 10']);
+    expect(ids(sortFiles(files, { key: 'name', direction: 'desc' }))).toEqual(['Orc 10', 'orc 2', 'Goblin']);
+  });
+
+  it('sorts numbers in either direction', () => {
+    const files = [file('a', { sizeBytes: 20 }), file('b', { sizeBytes: 5 }), file('c', { sizeBytes: 100 })];
+    expect(ids(sortFiles(files, { key: 'size', direction: 'desc' }))).toEqual(['c', 'a', 'b']);
+    expect(ids(sortFiles(files, { key: 'size', direction: 'asc' }))).toEqual(['b', 'a', 'c']);
+  });
+
+  it('puts files without a value last in both directions', () => {
+    const files = [
+      file('none'),
+      file('tall', { metadata: { dimensions: { x: 1, y: 1, z: 80 } } }),
+      file('short', { metadata: { dimensions: { x: 1, y: 1, z: 20 } } }),
+    ];
+    expect(ids(sortFiles(files, { key: 'height', direction: 'desc' }))).toEqual(['tall', 'short', 'none']);
+    expect(ids(sortFiles(files, { key: 'height', direction: 'asc' }))).toEqual(['short', 'tall', 'none']);
+  });
+
+  it('keeps ties in their incoming order', () => {
+    const files = [file('x', { importedAt: 1 }), file('y', { importedAt: 1 }), file('z', { importedAt: 2 })];
+    expect(ids(sortFiles(files, { key: 'imported', direction: 'desc' }))).toEqual(['z', 'x', 'y']);
+  });
+
+  it('defines a label and default direction for every key', () => {
+    for (const option of Object.values(SORT_OPTIONS)) {
+      expect(option.label).toBeTruthy();
+      expect(['asc', 'desc']).toContain(option.defaultDirection);
+    }
+  });
+});
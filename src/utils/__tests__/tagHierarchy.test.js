@@ -0,0 +1,106 @@
+import {
+  normalizeTag, tagAncestors, isTagWithin, resolveTag, aliasMap, aliasRenames, renameTags,
+  validateTagAlias, tagRenames, removeTags, validateTagRename, countTags, buildTagTree,
+} from '../tagHierarchy.js';
+
+const alias = (a, tag) => ({ alias: a, tag, createdAt: 0 });
+
+describe('tag paths', () => {
+  it('normalizes segments and lists ancestors', () => {
+    expect(normalizeTag(' terrain /  dungeon//door ')).toBe('terrain/dungeon/door');
+    expect(tagAncestors('terrain/dungeon/door')).toEqual(['terrain', 'terrain/dungeon']);
+    expect(tagAncestors('orc')).toEqual([]);
+  });
+
+  it('treats a tag as within itself and its ancestors only', () => {
+    expect(isTagWithin('terrain/dungeon/door', 'terrain')).toBe(true);
+    expect(isTagWithin('terrain', 'terrain')).toBe(true);
+    expect(isTagWithin('terrains', 'terrain')).toBe(false);
+  });
+});
+
+describe('resolveTag', () => {
+  const aliases = aliasMap([alias('orcs', 'creature/orc'), alias('dungeon', 'terrain/dungeon')]);
+
+  it('applies aliases case-insensitively, including to paths below them', () => {
+    expect(resolveTag('Orcs', aliases, [])).toBe('creature/orc');
+    expect(resolveTag('dungeon / door', aliases, [])).toBe('terrain/dungeon/door');
+  });
+
+  it('reuses the spelling of an existing tag and drops empty input', () => {
+    expect(resolveTag('Painted', aliases, ['painted'])).toBe('painted');
+    expect(resolveTag(' / ', aliases, [])).toBe('');
+  });
+});
+
+describe('aliasRenames', () => {
+  it('rewrites the alias and paths below it, merging onto existing tags', () => {
+    const tags = ['orcs', 'Orcs/warband', 'orc', 'orcish'];
+    const renames = aliasRenames(tags, 'orcs', 'orc');
+    expect([...renames]).toEqual([['orcs', 'orc'], ['Orcs/warband', 'orc/warband']]);
+    expect(renameTags(tags, renames)).toEqual(['orc', 'orc/warband', 'orcish']);
+  });
+});
+
+describe('validateTagAlias', () => {
+  const aliases = [alias('orcs', 'orc')];
+
+  it('accepts a new alias', () => {
+    expect(validateTagAlias('Greenskins', 'orc', aliases)).toEqual([]);
+  });
+
+  it('rejects self-references and chains', () => {
+    expect(validateTagAlias('door', 'Door/frame', aliases)[0]).toMatch(/itself/);
+    expect(validateTagAlias('greenskin', 'orcs', aliases)[0]).toMatch(/is itself an alias/);
+    expect(validateTagAlias('orc', 'creature/orc', aliases)[0]).toMatch(/cannot chain/);
+  });
+});
+
+describe('tag management', () => {
+  const tags = ['orc', 'orc/warband', 'orcs', 'orcish', 'creature/orc/boss'];
+
+  it('renames tags with the paths below them, merging several sources', () => {
+    expect([...tagRenames(tags, ['orc', 'orcs'], 'creature/orc')]).toEqual([
+      ['orc', 'creature/orc'],
+      ['orc/warband', 'creature/orc/warband'],
+      ['orcs', 'creature/orc'],
+    ]);
+  });
+
+  it('applies the longest source containing a tag', () => {
+    expect(tagRenames(['orc/warband'], ['orc', 'orc/warband'], 'band').get('orc/warband')).toBe('band');
+  });
+
+  it('leaves tags already below the target alone', () => {
+    expect([...tagRenames(['a', 'a/b', 'a/b/c', 'a/d'], ['a'], 'a/b')]).toEqual([
+      ['a', 'a/b'],
+      ['a/d', 'a/b/d'],
+    ]);
+    expect([...tagRenames(['orc', 'orc/warband/boss'], ['orc/warband'], 'orc')]).toEqual([['orc/warband/boss', 'orc/boss']]);
+  });
+
+  it('removes tags with the paths below them', () => {
+    expect(removeTags(tags, ['orc'])).toEqual(['orcs', 'orcish', 'creature/orc/boss']);
+  });
+
+  it('rejects renaming a tag into its own subtree', () => {
+    expect(validateTagRename(['orc'], 'creature/orc')).toEqual([]);
+    expect(validateTagRename(['orc', 'orcs'], 'orc')).toEqual([]);
+    expect(validateTagRename(['orc'], 'orc/warband')[0]).toMatch(/lies below/);
+    expect(validateTagRename(['orc'], ' / ')).toEqual(['Enter the new tag']);
+  });
+});
+
+describe('countTags and buildTagTree', () => {
+  it('counts each file once under every ancestor', () => {
+    const counts = countTags([['terrain/dungeon/door', 'terrain/dungeon'], ['terrain/forest'], undefined]);
+    expect(counts).toEqual({ terrain: 2, 'terrain/dungeon': 1, 'terrain/dungeon/door': 1, 'terrain/forest': 1 });
+  });
+
+  it('nests tags under their parents, adding missing ones', () => {
+    const tree = buildTagTree(['terrain/forest', 'orc', 'terrain/dungeon/door']);
+    expect(tree.map((n) => n.tag)).toEqual(['orc', 'terrain']);
+    expect(tree[1].children.map((n) => n.tag)).toEqual(['terrain/dungeon', 'terrain/forest']);
+    expect(tree[1].children[0].children[0].tag).toBe('terrain/dungeon/door');
+  });
+});
@@ -1,10 +1,14 @@
 /**
  * Auto-classification engine for STL files.
  * Classifies files into structured categories based on folder structure,
- * filename keywords, and geometry analysis.
+ * filename keywords, and geometry analysis, then applies what was learned from
+ * the user's corrections and any user rules.
  */
 
-import type { CategoryValues } from '../types/index';
+import type { CategoryValues, CategoryEvidence, ClassificationRule, LearnedAssociation, ValueSource } from '../types/index';
+import { winningRules, describeRuleConditions } from './classificationRules';
+import { learnedGuesses, describeFeature } from './learnedAssociations';
+import { extractFolderCategories, parsePathTemplate } from './pathTemplate';
 
 // ── Keyword dictionaries ──
 
@@ -50,6 +54,14 @@ const CLASS_KEYWORDS: Record<string, string[]> = {
   druid: ['druid', 'shaman'],
 };
 
+const KEYWORD_DICTIONARIES: Array<[categoryId: string, dictionary: Record<string, string[]>]> = [
+  ['role', ROLE_KEYWORDS],
+  ['fill', FILL_KEYWORDS],
+  ['creature', CREATURE_KEYWORDS],
+  ['race', RACE_KEYWORDS],
+  ['class', CLASS_KEYWORDS],
+];
+
 // ── Size patterns matched against raw filename, not just tokens ──
 
 const SIZE_PATTERNS: Array<{ pattern: RegExp; value: string }> = [
@@ -61,25 +73,49 @@ const SIZE_PATTERNS: Array<{ pattern: RegExp; value: string }> = [
   { pattern: /\b75\s*mm\b/i, value: '75mm' },
 ];
 
+// ── Confidence ──
+
+/** Assignments below this are flagged in import review */
+export const LOW_CONFIDENCE = 0.5;
+
+const LAYOUT_CONFIDENCE = 0.9; // The user described the directory's layout
+const FOLDER_CONFIDENCE = 0.7; // Built-in Creator/Collection guess
+const SIZE_IN_NAME_CONFIDENCE = 0.95;
+const SIZE_FROM_HEIGHT_CONFIDENCE = 0.4; // Height alone can't tell a tall 28mm mini from a short 32mm one
+
 // ── Helpers ──
 
+interface DictionaryMatch {
+  value: string;
+  /** Tokens that matched the value's keyword list */
+  keywords: string[];
+  confidence: number;
+}
+
 /**
  * Match tokens against a keyword dictionary.
- * Returns the value whose keyword list has the most overlap, or null.
+ * Returns the value whose keyword list has the most overlap, or null. More
+ * matching keywords raise the confidence; tokens pointing at other values lower it.
  */
-function matchDictionary(tokens: string[], dictionary: Record<string, string[]>): string | null {
-  let bestValue: string | null = null;
-  let bestCount = 0;
+function matchDictionary(tokens: string[], dictionary: Record<string, string[]>): DictionaryMatch | null {
+  let best: { value: string; keywords: string[] } | null = null;
+  let runnerUpCount = 0;
 
   for (const [value, keywords] of Object.entries(dictionary)) {
-    const count = tokens.filter((t) => keywords.includes(t)).length;
-    if (count > bestCount) {
-      bestCount = count;
-      bestValue = value;
+    const matched = tokens.filter((t) => keywords.includes(t));
+    if (matched.length === 0) continue;
+    if (!best || matched.length > best.keywords.length) {
+      if (best) runnerUpCount = Math.max(runnerUpCount, best.keywords.length);
+      best = { value, keywords: matched };
+    } else {
+      runnerUpCount = Math.max(runnerUpCount, matched.length);
     }
   }
 
-  return bestValue;
+  if (!best) return null;
+  const count = best.keywords.length;
+  const confidence = Math.min(0.9, 0.45 + 0.15 * count) * (count / (count + runnerUpCount));
+  return { ...best, confidence };
 }
 
 /**
@@ -119,45 +155,100 @@ interface ClassifyParams {
   filename: string;
   tokens: string[];
   geometry?: { dimensions?: { x: number; y: number; z: number } };
+  /** Folder layout of the file's directory (see utils/pathTemplate); null uses the built-in layout */
+  pathTemplate?: string | null;
+  /** Associations learned from corrections; they override less confident built-in guesses */
+  learned?: readonly LearnedAssociation[];
+  /** User rules from the DB; they override everything else */
+  rules?: readonly ClassificationRule[];
+}
+
+export interface ClassificationResult {
+  categories: CategoryValues;
+  /** Confidence and reason for every value in `categories` */
+  evidence: Record<string, CategoryEvidence>;
 }
 
 /**
- * Classify a file into structured categories.
- * Returns a CategoryValues object with only non-null keys set.
+ * Classify a file into structured categories, recording how sure each
+ * assignment is and why it was made. Later steps override earlier ones.
  */
-export function classifyFile({ relativePath, filename, tokens, geometry }: ClassifyParams): CategoryValues {
+export function classifyFileDetailed({
+  relativePath, filename, tokens, geometry, pathTemplate, learned, rules,
+}: ClassifyParams): ClassificationResult {
   const categories: CategoryValues = {};
+  const evidence: Record<string, CategoryEvidence> = {};
+  // `source` is left out for the classifier's own steps (see CategoryEvidence)
+  const assign = (categoryId: string, value: string, confidence: number, reason: string, source?: ValueSource) => {
+    categories[categoryId] = value;
+    evidence[categoryId] = source ? { confidence, evidence: reason, source } : { confidence, evidence: reason };
+  };
 
   // 1. Folder structure (highest priority)
-  const pathParts = relativePath.split('/').filter(Boolean);
-  // Remove the filename from path parts
-  const folderParts = pathParts.slice(0, -1);
-
-  if (folderParts.length >= 2) {
-    categories.creator = folderParts[0];
-    categories.collection = folderParts[1];
-  } else if (folderParts.length === 1) {
-    categories.collection = folderParts[0];
+  const usesLayout = !!pathTemplate && parsePathTemplate(pathTemplate).errors.length === 0;
+  const folderCategories = extractFolderCategories(relativePath, pathTemplate);
+  for (const [categoryId, value] of Object.entries(folderCategories)) {
+    if (!value) continue;
+    if (usesLayout) assign(categoryId, value, LAYOUT_CONFIDENCE, `Folder "${value}" (folder layout)`);
+    else assign(categoryId, value, FOLDER_CONFIDENCE, `Folder "${value}"`);
   }
+  const folderCategoryIds = new Set(Object.keys(categories));
 
-  // 2. Filename keyword matching
-  const role = matchDictionary(tokens, ROLE_KEYWORDS);
-  const fill = matchDictionary(tokens, FILL_KEYWORDS);
-  const creature = matchDictionary(tokens, CREATURE_KEYWORDS);
-  const race = matchDictionary(tokens, RACE_KEYWORDS);
-  const cls = matchDictionary(tokens, CLASS_KEYWORDS);
-
-  if (role) categories.role = role;
-  if (fill) categories.fill = fill;
-  if (creature) categories.creature = creature;
-  if (race) categories.race = race;
-  if (cls) categories.class = cls;
+  // 2. Filename keyword matching; a folder layout that names the category wins
+  for (const [categoryId, dictionary] of KEYWORD_DICTIONARIES) {
+    if (folderCategoryIds.has(categoryId)) continue;
+    const match = matchDictionary(tokens, dictionary);
+    if (match) assign(categoryId, match.value, match.confidence, `Keywords: ${match.keywords.join(', ')}`, 'filename');
+  }
 
   // 3. Size: filename patterns first, then geometry fallback
-  const size = extractSize(filename) ?? inferScale(geometry?.dimensions);
-  if (size) categories.size = size;
+  if (!folderCategoryIds.has('size')) {
+    const named = extractSize(filename);
+    const height = geometry?.dimensions?.z;
+    const inferred = named ? null : inferScale(geometry?.dimensions);
+    if (named) assign('size', named, SIZE_IN_NAME_CONFIDENCE, `Filename mentions ${named}`, 'filename');
+    else if (inferred && height != null) assign('size', inferred, SIZE_FROM_HEIGHT_CONFIDENCE, `Height ${height.toFixed(1)} mm`);
+  }
 
-  return categories;
+  // 4. Learned corrections, where they are surer than the built-in guess
+  if (learned) {
+    for (const [categoryId, guess] of Object.entries(learnedGuesses({ relativePath, tokens, pathTemplate }, learned, folderCategoryIds))) {
+      if (guess.confidence <= (evidence[categoryId]?.confidence ?? 0)) continue;
+      assign(categoryId, guess.value, guess.confidence, `Learned from corrections (${describeFeature(guess.feature)})`);
+    }
+  }
+
+  // 5. User rules
+  if (rules) {
+    const subject = { relativePath, filename, tokens, height: geometry?.dimensions?.z ?? null };
+    for (const [categoryId, rule] of winningRules(subject, rules)) {
+      assign(categoryId, rule.value, 1, `Rule: ${describeRuleConditions(rule)}`, 'rule');
+    }
+  }
+
+  return { categories, evidence };
+}
+
+/**
+ * Classify a file into structured categories.
+ * Returns a CategoryValues object with only non-null keys set.
+ */
+export function classifyFile(params: ClassifyParams): CategoryValues {
+  return classifyFileDetailed(params).categories;
+}
+
+/** Evidence still valid after `before` was edited into `after`: values the edit changed were set by hand. */
+export function retainEvidence(
+  evidence: Record<string, CategoryEvidence> | undefined,
+  before: CategoryValues,
+  after: CategoryValues
+): Record<string, CategoryEvidence> | undefined {
+  if (!evidence) return undefined;
+  const kept: Record<string, CategoryEvidence> = {};
+  for (const [categoryId, info] of Object.entries(evidence)) {
+    if (after[categoryId] && after[categoryId] === before[categoryId]) kept[categoryId] = info;
+  }
+  return kept;
 }
 
 /** All category IDs in display order */
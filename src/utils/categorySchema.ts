@@ -0,0 +1,90 @@
+/**
+ * User-defined category schema: which categories exist, their labels, display
+ * order and optional allowed-value lists. Stored in the `categories` table and
+ * seeded from the classifier's built-in categories.
+ */
+
+import type { CategoryDef, CategoryEvidence, CategoryValues } from '../types/index';
+import { CATEGORY_IDS, CATEGORY_LABELS } from './categoryClassifier';
+import type { ClassificationResult } from './categoryClassifier';
+
+/** Schema used until the stored one has loaded (and outside Electron). */
+export const DEFAULT_CATEGORY_DEFS: CategoryDef[] = CATEGORY_IDS.map((id, position) => ({
+  id,
+  label: CATEGORY_LABELS[id],
+  position,
+  allowedValues: null,
+}));
+
+/** Derive a category id from a label, e.g. "Paint Scheme" → "paint_scheme". */
+export function slugifyCategoryId(label: string): string {
+  return label
+    .trim()
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, '_')
+    .replace(/^_+|_+$/g, '');
+}
+
+/**
+ * Validate a schema before saving. Returns one message per problem; empty when valid.
+ * Ids must be unique slugs and labels non-empty.
+ */
+export function validateCategoryDefs(defs: CategoryDef[]): string[] {
+  const errors: string[] = [];
+  const seen = new Set<string>();
+  for (const def of defs) {
+    const name = def.label.trim() || def.id;
+    if (!def.label.trim()) errors.push(`Category "${def.id}" needs a label`);
+    if (!/^[a-z0-9_]+$/.test(def.id)) errors.push(`"${name}" has an invalid id`);
+    else if (seen.has(def.id)) errors.push(`"${name}" duplicates an existing category`);
+    seen.add(def.id);
+    if (def.allowedValues && def.allowedValues.length === 0) {
+      errors.push(`"${name}" has an empty allowed-value list`);
+    }
+  }
+  return errors;
+}
+
+/** Parse a comma-separated allowed-value list; blank input means free text (null). */
+export function parseAllowedValues(input: string): string[] | null {
+  const values = [...new Set(input.split(',').map((v) => v.trim()).filter(Boolean))];
+  return values.length > 0 ? values : null;
+}
+
+/** Whether `value` may be assigned to the category. Free-text categories accept anything. */
+export function isAllowedValue(def: CategoryDef | undefined, value: string): boolean {
+  if (!def?.allowedValues) return true;
+  const lower = value.toLowerCase();
+  return def.allowedValues.some((v) => v.toLowerCase() === lower);
+}
+
+/**
+ * Limit classifier output to the schema: categories that were deleted are dropped,
+ * as are values a restricted category doesn't allow. Allowed values take the
+ * schema's spelling.
+ */
+export function conformToSchema(result: ClassificationResult, defs: readonly CategoryDef[]): ClassificationResult {
+  const categories: CategoryValues = {};
+  const evidence: Record<string, CategoryEvidence> = {};
+  for (const def of defs) {
+    const value = result.categories[def.id];
+    if (!value) continue;
+    const lower = value.toLowerCase();
+    const allowed = def.allowedValues ? def.allowedValues.find((v) => v.toLowerCase() === lower) : value;
+    if (!allowed) continue;
+    categories[def.id] = allowed;
+    if (result.evidence[def.id]) evidence[def.id] = result.evidence[def.id];
+  }
+  return { categories, evidence };
+}
+
+/**
+ * Allowed values after renaming or merging `from` into `to`, or removing them when
+ * `to` is null (mirrors renameCategoryValues in the DB). Free text stays free text.
+ */
+export function renameAllowedValues(allowedValues: string[] | null, from: readonly string[], to: string | null): string[] | null {
+  if (!allowedValues) return null;
+  const values = allowedValues.flatMap((v) => (from.includes(v) ? (to == null ? [] : [to]) : [v]));
+  if (to != null && !values.includes(to)) values.push(to);
+  return [...new Set(values)];
+}
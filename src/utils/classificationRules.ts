@@ -0,0 +1,160 @@
+/**
+ * User-defined classification rules, applied on top of the built-in keyword
+ * dictionaries in categoryClassifier. Each rule sets one category value when
+ * all of its conditions hold; among matching rules for the same category the
+ * highest priority wins, then the oldest.
+ */
+
+import type { CategoryValues, ClassificationRule, STLFile } from '../types/index';
+import { tokenizeFilename } from './filenameTokenizer';
+
+/** What a rule is evaluated against — available both at import and for library files. */
+export interface RuleSubject {
+  relativePath: string;
+  filename: string;
+  /** Lowercase filename tokens, as produced by tokenizeFilename */
+  tokens: string[];
+  /** Model height (Z) in mm, when known */
+  height: number | null;
+}
+
+type RuleMatcher = (subject: RuleSubject) => boolean;
+
+function compilePattern(pattern: string): RegExp | null {
+  try {
+    return new RegExp(pattern, 'i');
+  } catch {
+    return null;
+  }
+}
+
+/** Whether the rule has at least one condition; an empty rule would match everything. */
+export function hasConditions(rule: ClassificationRule): boolean {
+  return rule.keywords.length > 0 || !!rule.pattern || rule.minHeight != null || rule.maxHeight != null;
+}
+
+/** Problems that stop a rule from being saved; empty when valid. */
+export function validateRule(rule: ClassificationRule): string[] {
+  const errors: string[] = [];
+  if (!rule.categoryId) errors.push('Pick a category');
+  if (!rule.value.trim()) errors.push('Enter the value to assign');
+  if (!hasConditions(rule)) errors.push('Add at least one keyword, pattern or height bound');
+  if (rule.pattern && !compilePattern(rule.pattern)) errors.push('The pattern is not a valid regular expression');
+  if (rule.minHeight != null && rule.maxHeight != null && rule.minHeight > rule.maxHeight) {
+    errors.push('Minimum height is above the maximum');
+  }
+  return errors;
+}
+
+/** Build a matcher, or null when the rule can never match (no conditions, bad regex). */
+function compileRule(rule: ClassificationRule): RuleMatcher | null {
+  if (!hasConditions(rule)) return null;
+  const keywords = rule.keywords.map((k) => k.toLowerCase());
+  const regex = rule.pattern ? compilePattern(rule.pattern) : null;
+  if (rule.pattern && !regex) return null;
+  const { minHeight, maxHeight, patternTarget } = rule;
+
+  return (subject) => {
+    if (keywords.length > 0 && !keywords.some((k) => subject.tokens.includes(k))) return false;
+    if (regex && !regex.test(patternTarget === 'path' ? subject.relativePath : subject.filename)) return false;
+    if (minHeight != null || maxHeight != null) {
+      if (subject.height == null) return false;
+      if (minHeight != null && subject.height < minHeight) return false;
+      if (maxHeight != null && subject.height > maxHeight) return false;
+    }
+    return true;
+  };
+}
+
+interface CompiledRule {
+  rule: ClassificationRule;
+  matches: RuleMatcher;
+}
+
+// Imports classify thousands of files against the same rule list
+const compiledCache = new WeakMap<readonly ClassificationRule[], CompiledRule[]>();
+
+/** Enabled, valid rules in evaluation order: priority descending, then oldest first. */
+function compileRules(rules: readonly ClassificationRule[]): CompiledRule[] {
+  let compiled = compiledCache.get(rules);
+  if (!compiled) {
+    compiled = rules
+      .filter((rule) => rule.enabled)
+      .map((rule) => ({ rule, matches: compileRule(rule) }))
+      .filter((c): c is CompiledRule => c.matches != null)
+      .sort((a, b) => b.rule.priority - a.rule.priority || a.rule.createdAt - b.rule.createdAt);
+    compiledCache.set(rules, compiled);
+  }
+  return compiled;
+}
+
+/** For each category, the rule that decides it for this subject. */
+export function winningRules(subject: RuleSubject, rules: readonly ClassificationRule[]): Map<string, ClassificationRule> {
+  const winners = new Map<string, ClassificationRule>();
+  for (const { rule, matches } of compileRules(rules)) {
+    if (!winners.has(rule.categoryId) && matches(subject)) winners.set(rule.categoryId, rule);
+  }
+  return winners;
+}
+
+/** Overlay matching rules onto classifier output. Rules win over built-in guesses. */
+export function applyRules(
+  categories: CategoryValues,
+  subject: RuleSubject,
+  rules: readonly ClassificationRule[]
+): CategoryValues {
+  if (rules.length === 0) return categories;
+  const result = { ...categories };
+  for (const [categoryId, rule] of winningRules(subject, rules)) result[categoryId] = rule.value;
+  return result;
+}
+
+/** One-line summary of a rule's conditions, for lists and classification evidence. */
+export function describeRuleConditions(rule: ClassificationRule): string {
+  const parts: string[] = [];
+  if (rule.keywords.length > 0) parts.push(`keywords ${rule.keywords.join(' | ')}`);
+  if (rule.pattern) parts.push(`${rule.patternTarget} ~ /${rule.pattern}/`);
+  if (rule.minHeight != null || rule.maxHeight != null) {
+    parts.push(`height ${rule.minHeight ?? '…'}–${rule.maxHeight ?? '…'} mm`);
+  }
+  return parts.join(' · ');
+}
+
+/** Rebuild a rule subject from a library file's stored metadata. */
+export function ruleSubjectForFile(file: STLFile): RuleSubject {
+  const filename = file.metadata?.originalFilename ?? file.relativePath.split('/').pop() ?? file.relativePath;
+  return {
+    relativePath: file.relativePath,
+    filename,
+    tokens: file.metadata?.suggestedTags ?? tokenizeFilename(filename),
+    height: file.metadata?.dimensions?.z ?? null,
+  };
+}
+
+export interface RulePreview {
+  /** Files the rule's conditions match */
+  matched: number;
+  /** Files whose value the rule would change, after higher-priority rules have had their say */
+  changed: number;
+}
+
+/** Count, per rule id, how many library files each rule matches and would change. */
+export function previewRules(rules: readonly ClassificationRule[], files: STLFile[]): Record<string, RulePreview> {
+  const compiled = compileRules(rules);
+  const previews: Record<string, RulePreview> = {};
+  for (const rule of rules) previews[rule.id] = { matched: 0, changed: 0 };
+  if (compiled.length === 0) return previews;
+
+  for (const file of files) {
+    const subject = ruleSubjectForFile(file);
+    const decided = new Set<string>();
+    for (const { rule, matches } of compiled) {
+      if (!matches(subject)) continue;
+      previews[rule.id].matched++;
+      if (decided.has(rule.categoryId)) continue;
+      decided.add(rule.categoryId);
+      if (file.categories?.[rule.categoryId] !== rule.value) previews[rule.id].changed++;
+    }
+  }
+  return previews;
+}
@@ -0,0 +1,107 @@
+/**
+ * Content hashing, geometry fingerprints and duplicate grouping.
+ *
+ * Exact copies share a SHA-256 of the file bytes. Re-exported copies (different
+ * header, float noise, other format) rarely do, so files are also matched on a
+ * geometry fingerprint built from triangle count, bounding box and volume.
+ */
+
+import type { STLFile, STLMetadata } from '../types/index';
+
+/** Hex SHA-256 of the raw file bytes. Matches `hashFile` in electron/filesystem.cjs. */
+export async function hashBuffer(buffer: ArrayBuffer): Promise<string> {
+  const digest = await crypto.subtle.digest('SHA-256', buffer);
+  return Array.from(new Uint8Array(digest), (b) => b.toString(16).padStart(2, '0')).join('');
+}
+
+/**
+ * Build a geometry fingerprint, or null when the geometry is too degenerate to compare.
+ * Dimensions are sorted so copies rotated by 90° steps still match, and rounded to
+ * 0.1mm / 1mm³ to absorb float noise from re-exporting.
+ */
+export function geometryFingerprint(
+  stats: Pick<STLMetadata, 'triangleCount' | 'dimensions' | 'volume'> | undefined | null
+): string | null {
+  if (!stats?.dimensions || !stats.triangleCount) return null;
+  const { x, y, z } = stats.dimensions;
+  const dims = [x, y, z].sort((a, b) => a - b).map((d) => d.toFixed(1)).join('x');
+  const volume = stats.volume != null ? Math.round(stats.volume) : 'open';
+  return `t${stats.triangleCount}:d${dims}:v${volume}`;
+}
+
+/** Stored fingerprint, falling back to metadata for rows imported before fingerprints existed. */
+export function getGeometryFingerprint(file: STLFile): string | null {
+  return file.geometryFingerprint ?? geometryFingerprint(file.metadata);
+}
+
+export interface DuplicateGroup {
+  /** 'exact' when every member has the same content hash, otherwise matched by geometry */
+  kind: 'exact' | 'geometry';
+  files: STLFile[];
+}
+
+/**
+ * Group files that share a content hash or geometry fingerprint. Matches are
+ * transitive: an exact copy of a re-export lands in the same group as both.
+ * Groups are sorted largest first.
+ */
+export function findDuplicateGroups(files: STLFile[]): DuplicateGroup[] {
+  // Union-find over file indices
+  const parent = files.map((_, i) => i);
+  const find = (i: number): number => {
+    while (parent[i] !== i) {
+      parent[i] = parent[parent[i]];
+      i = parent[i];
+    }
+    return i;
+  };
+  const union = (a: number, b: number) => {
+    const ra = find(a);
+    const rb = find(b);
+    if (ra !== rb) parent[rb] = ra;
+  };
+
+  const firstByKey = new Map<string, number>();
+  const link = (key: string | null | undefined, i: number) => {
+    if (!key) return;
+    const first = firstByKey.get(key);
+    if (first === undefined) firstByKey.set(key, i);
+    else union(first, i);
+  };
+
+  files.forEach((file, i) => {
+    link(file.contentHash && `hash:${file.contentHash}`, i);
+    const fingerprint = getGeometryFingerprint(file);
+    link(fingerprint && `geo:${fingerprint}`, i);
+  });
+
+  const byRoot = new Map<number, STLFile[]>();
+  files.forEach((file, i) => {
+    const root = find(i);
+    const members = byRoot.get(root);
+    if (members) members.push(file);
+    else byRoot.set(root, [file]);
+  });
+
+  const groups: DuplicateGroup[] = [];
+  for (const members of byRoot.values()) {
+    if (members.length < 2) continue;
+    const hash = members[0].contentHash;
+    const exact = !!hash && members.every((f) => f.contentHash === hash);
+    groups.push({ kind: exact ? 'exact' : 'geometry', files: members });
+  }
+  return groups.sort((a, b) => b.files.length - a.files.length);
+}
+
+/**
+ * Suggest which copy to keep: the most curated one (tags + categories),
+ * then the earliest imported.
+ */
+export function pickKeeper(files: STLFile[]): STLFile {
+  const score = (f: STLFile) => (f.tags?.length ?? 0) + Object.keys(f.categories ?? {}).length;
+  return files.reduce((best, f) => {
+    const diff = score(f) - score(best);
+    if (diff !== 0) return diff > 0 ? f : best;
+    return (f.importedAt ?? Infinity) < (best.importedAt ?? Infinity) ? f : best;
+  });
+}
@@ -0,0 +1,30 @@
+/**
+ * Undo history. The journal lives in the DB (edit_journal), which records each
+ * edit's before and after state; these helpers pick the steps that reach a point
+ * in it and the keys that trigger undo and redo.
+ */
+
+import type { EditHistoryEntry } from '../types/index';
+
+export type HistoryStep = 'undo' | 'redo';
+
+/**
+ * Steps that make entry `id` the latest applied one: undo the applied entries
+ * after it, then redo the undone ones up to and including it.
+ */
+export function stepsTo(entries: readonly EditHistoryEntry[], id: number): HistoryStep[] {
+  const undo = entries.filter((e) => !e.undone && e.id > id).length;
+  const redo = entries.filter((e) => e.undone && e.id <= id).length;
+  return [...Array<HistoryStep>(undo).fill('undo'), ...Array<HistoryStep>(redo).fill('redo')];
+}
+
+/** Undo or redo for a key press (Ctrl/⌘+Z, Ctrl/⌘+Shift+Z, Ctrl+Y), or null for any other key. */
+export function historyShortcut(
+  e: Pick<KeyboardEvent, 'key' | 'ctrlKey' | 'metaKey' | 'shiftKey' | 'altKey'>
+): HistoryStep | null {
+  if (!(e.ctrlKey || e.metaKey) || e.altKey) return null;
+  const key = e.key.toLowerCase();
+  if (key === 'z') return e.shiftKey ? 'redo' : 'undo';
+  if (key === 'y' && !e.shiftKey) return 'redo';
+  return null;
+}
@@ -1,4 +1,4 @@
-import type { STLFile, DirectoryEntry, CategoryValues, FileInfo } from '../types/index';
+import type { STLFile, DirectoryEntry, CategoryValues, FileInfo, DirectoryChange, FileMove, HealthReport, ImportSession, SearchHit, SavedSearch, Collection, CollectionExportResult, CategoryDef, ClassificationRule, LearnedAssociation, LearnedCorrection, CategoryReplacement, ValueSource, TagAlias, EditHistoryEntry, EditStep } from '../types/index';
 
 /**
  * Returns window.electronAPI, throwing a descriptive error if it isn't defined.
@@ -29,11 +29,45 @@ export const readFile = (path: string): Promise<ArrayBuffer | null> => {
   try { return getAPI().readFile(path); }
   catch (e) { console.error('[electronBridge] readFile failed:', e); return Promise.resolve(null); }
 };
+export const pathExists = (path: string): Promise<boolean> => {
+  try { return getAPI().pathExists(path); }
+  catch (e) { console.error('[electronBridge] pathExists failed:', e); return Promise.resolve(false); }
+};
 export const countSTLFiles = (path: string): Promise<number> => {
   try { return getAPI().countSTLFiles(path); }
   catch (e) { console.error('[electronBridge] countSTLFiles failed:', e); return Promise.resolve(0); }
 };
 
+// Folder watching
+export const startWatching = (): Promise<void> => {
+  try { return getAPI().startWatching(); }
+  catch (e) { console.error('[electronBridge] startWatching failed:', e); return Promise.resolve(); }
+};
+/** Subscribe to folder-watch diffs. Returns an unsubscribe function (a no-op outside Electron). */
+export const onDirectoryChanged = (callback: (change: DirectoryChange) => void): (() => void) => {
+  try { return getAPI().onDirectoryChanged(callback); }
+  catch (e) { console.error('[electronBridge] onDirectoryChanged failed:', e); return () => {}; }
+};
+
+// Library maintenance
+export const computeMissingHashes = (): Promise<Array<{ id: string; contentHash: string }>> => {
+  try { return getAPI().computeMissingHashes(); }
+  catch (e) { console.error('[electronBridge] computeMissingHashes failed:', e); return Promise.resolve([]); }
+};
+export const checkHealth = (): Promise<HealthReport | null> => {
+  try { return getAPI().checkHealth(); }
+  catch (e) { console.error('[electronBridge] checkHealth failed:', e); return Promise.resolve(null); }
+};
+export const detectMoves = (directoryId: string, fileInfos: FileInfo[]): Promise<FileMove[]> => {
+  try { return getAPI().detectMoves(directoryId, fileInfos); }
+  catch (e) { console.error('[electronBridge] detectMoves failed:', e); return Promise.resolve([]); }
+};
+/** Ask for a destination folder and copy the collection's files there. Null when cancelled. */
+export const exportCollection = (id: string): Promise<CollectionExportResult | null> => {
+  try { return getAPI().exportCollection(id); }
+  catch (e) { console.error('[electronBridge] exportCollection failed:', e); return Promise.resolve(null); }
+};
+
 // Database
 export const getAllFiles = (): Promise<STLFile[]> => {
   try { return getAPI().db.getAllFiles(); }
@@ -43,8 +77,9 @@ export const saveFile = (data: Partial<STLFile>): Promise<void> => {
   try { return getAPI().db.saveFile(data); }
   catch (e) { console.error('[electronBridge] saveFile failed:', e); return Promise.resolve(); }
 };
-export const updateFile = (id: string, updates: Partial<STLFile>): Promise<void> => {
-  try { return getAPI().db.updateFile(id, updates); }
+/** `source` records who added or changed tags and category values; defaults to 'manual'. */
+export const updateFile = (id: string, updates: Partial<STLFile>, source?: ValueSource): Promise<void> => {
+  try { return getAPI().db.updateFile(id, updates, source); }
   catch (e) { console.error('[electronBridge] updateFile failed:', e); return Promise.resolve(); }
 };
 export const deleteFile = (id: string): Promise<void> => {
@@ -65,6 +100,30 @@ export const cancelPendingFiles = (sessionIds?: string[]): Promise<void> => {
   try { return getAPI().db.cancelPendingFiles(sessionIds); }
   catch (e) { console.error('[electronBridge] cancelPendingFiles failed:', e); return Promise.resolve(); }
 };
+// Import sessions
+/** Persist an import's file list before processing so it can be resumed after a restart. */
+export const createImportSession = (data: { id: string; directoryId?: string; fileInfos: FileInfo[] }): Promise<void> => {
+  try { return getAPI().db.createImportSession(data); }
+  catch (e) { console.error('[electronBridge] createImportSession failed:', e); return Promise.resolve(); }
+};
+export const setImportSessionStatus = (id: string, status: ImportSession['status']): Promise<void> => {
+  try { return getAPI().db.setImportSessionStatus(id, status); }
+  catch (e) { console.error('[electronBridge] setImportSessionStatus failed:', e); return Promise.resolve(); }
+};
+export const getInterruptedImportSession = (): Promise<ImportSession | null> => {
+  try { return getAPI().db.getInterruptedImportSession(); }
+  catch (e) { console.error('[electronBridge] getInterruptedImportSession failed:', e); return Promise.resolve(null); }
+};
+export const getImportSessionFiles = (id: string): Promise<STLFile[]> => {
+  try { return getAPI().db.getImportSessionFiles(id); }
+  catch (e) { console.error('[electronBridge] getImportSessionFiles failed:', e); return Promise.resolve([]); }
+};
+/** Close an import session; discard=true also deletes its still-pending rows. */
+export const endImportSession = (id: string, discard: boolean): Promise<void> => {
+  try { return getAPI().db.endImportSession(id, discard); }
+  catch (e) { console.error('[electronBridge] endImportSession failed:', e); return Promise.resolve(); }
+};
+
 export const getAllDirectories = (): Promise<DirectoryEntry[]> => {
   try { return getAPI().db.getAllDirectories(); }
   catch (e) { console.error('[electronBridge] getAllDirectories failed:', e); return Promise.resolve([]); }
@@ -77,6 +136,134 @@ export const deleteDirectory = (id: string): Promise<void> => {
   try { return getAPI().db.deleteDirectory(id); }
   catch (e) { console.error('[electronBridge] deleteDirectory failed:', e); return Promise.resolve(); }
 };
+/** Point a directory (and every file path under it) at a new root. Rejects if the path is already a library folder. */
+export const relocateDirectory = (id: string, newPath: string): Promise<DirectoryEntry | null> => {
+  try { return getAPI().db.relocateDirectory(id, newPath); }
+  catch (e) { console.error('[electronBridge] relocateDirectory failed:', e); return Promise.resolve(null); }
+};
+export const setDirectoryPathTemplate = (id: string, template: string | null): Promise<void> => {
+  try { return getAPI().db.setDirectoryPathTemplate(id, template); }
+  catch (e) { console.error('[electronBridge] setDirectoryPathTemplate failed:', e); return Promise.resolve(); }
+};
+/** Upsert a file found by folder watching; existing rows keep their tags and categories. */
+export const saveIndexedFile = (data: Partial<STLFile>): Promise<{ id: string; isNew: boolean }> => {
+  try { return getAPI().db.saveIndexedFile(data); }
+  catch (e) { console.error('[electronBridge] saveIndexedFile failed:', e); return Promise.resolve({ id: data.id ?? '', isNew: true }); }
+};
+/** Ranked full-text search. Resolves to null when search is unavailable, so callers can fall back. */
+export const searchFiles = (text: string): Promise<SearchHit[] | null> => {
+  try { return getAPI().db.searchFiles(text); }
+  catch (e) { console.error('[electronBridge] searchFiles failed:', e); return Promise.resolve(null); }
+};
+export const getSavedSearches = (): Promise<SavedSearch[]> => {
+  try { return getAPI().db.getSavedSearches(); }
+  catch (e) { console.error('[electronBridge] getSavedSearches failed:', e); return Promise.resolve([]); }
+};
+export const saveSavedSearch = (data: SavedSearch): Promise<void> => {
+  try { return getAPI().db.saveSavedSearch(data); }
+  catch (e) { console.error('[electronBridge] saveSavedSearch failed:', e); return Promise.resolve(); }
+};
+export const deleteSavedSearch = (id: string): Promise<void> => {
+  try { return getAPI().db.deleteSavedSearch(id); }
+  catch (e) { console.error('[electronBridge] deleteSavedSearch failed:', e); return Promise.resolve(); }
+};
+/** The category schema in display order. Resolves to null when unavailable, so callers can use the defaults. */
+export const getCategoryDefs = (): Promise<CategoryDef[] | null> => {
+  try { return getAPI().db.getCategoryDefs(); }
+  catch (e) { console.error('[electronBridge] getCategoryDefs failed:', e); return Promise.resolve(null); }
+};
+/** Replace the category schema. Categories left out are deleted along with their values. */
+export const saveCategoryDefs = (defs: CategoryDef[]): Promise<void> => {
+  try { return getAPI().db.saveCategoryDefs(defs); }
+  catch (e) { console.error('[electronBridge] saveCategoryDefs failed:', e); return Promise.resolve(); }
+};
+export const getClassificationRules = (): Promise<ClassificationRule[]> => {
+  try { return getAPI().db.getClassificationRules(); }
+  catch (e) { console.error('[electronBridge] getClassificationRules failed:', e); return Promise.resolve([]); }
+};
+export const saveClassificationRule = (rule: ClassificationRule): Promise<void> => {
+  try { return getAPI().db.saveClassificationRule(rule); }
+  catch (e) { console.error('[electronBridge] saveClassificationRule failed:', e); return Promise.resolve(); }
+};
+export const deleteClassificationRule = (id: string): Promise<void> => {
+  try { return getAPI().db.deleteClassificationRule(id); }
+  catch (e) { console.error('[electronBridge] deleteClassificationRule failed:', e); return Promise.resolve(); }
+};
+export const getLearnedAssociations = (): Promise<LearnedAssociation[]> => {
+  try { return getAPI().db.getLearnedAssociations(); }
+  catch (e) { console.error('[electronBridge] getLearnedAssociations failed:', e); return Promise.resolve([]); }
+};
+export const recordCorrections = (corrections: LearnedCorrection[]): Promise<void> => {
+  try { return getAPI().db.recordCorrections(corrections); }
+  catch (e) { console.error('[electronBridge] recordCorrections failed:', e); return Promise.resolve(); }
+};
+export const getTagAliases = (): Promise<TagAlias[]> => {
+  try { return getAPI().db.getTagAliases(); }
+  catch (e) { console.error('[electronBridge] getTagAliases failed:', e); return Promise.resolve([]); }
+};
+/** Returns how many existing tags were rewritten to the canonical tag. */
+export const saveTagAlias = (alias: { alias: string; tag: string }): Promise<number> => {
+  try { return getAPI().db.saveTagAlias(alias); }
+  catch (e) { console.error('[electronBridge] saveTagAlias failed:', e); return Promise.resolve(0); }
+};
+export const deleteTagAlias = (alias: string): Promise<void> => {
+  try { return getAPI().db.deleteTagAlias(alias); }
+  catch (e) { console.error('[electronBridge] deleteTagAlias failed:', e); return Promise.resolve(); }
+};
+export const renameTags = (from: string[], to: string): Promise<void> => {
+  try { return getAPI().db.renameTags(from, to); }
+  catch (e) { console.error('[electronBridge] renameTags failed:', e); return Promise.resolve(); }
+};
+export const deleteTags = (tags: string[]): Promise<void> => {
+  try { return getAPI().db.deleteTags(tags); }
+  catch (e) { console.error('[electronBridge] deleteTags failed:', e); return Promise.resolve(); }
+};
+export const renameCategoryValues = (categoryId: string, from: string[], to: string): Promise<void> => {
+  try { return getAPI().db.renameCategoryValues(categoryId, from, to); }
+  catch (e) { console.error('[electronBridge] renameCategoryValues failed:', e); return Promise.resolve(); }
+};
+export const deleteCategoryValues = (categoryId: string, values: string[]): Promise<void> => {
+  try { return getAPI().db.deleteCategoryValues(categoryId, values); }
+  catch (e) { console.error('[electronBridge] deleteCategoryValues failed:', e); return Promise.resolve(); }
+};
+export const getCollections = (): Promise<Collection[]> => {
+  try { return getAPI().db.getCollections(); }
+  catch (e) { console.error('[electronBridge] getCollections failed:', e); return Promise.resolve([]); }
+};
+export const createCollection = (data: { id: string; name: string; createdAt: number }): Promise<void> => {
+  try { return getAPI().db.createCollection(data); }
+  catch (e) { console.error('[electronBridge] createCollection failed:', e); return Promise.resolve(); }
+};
+export const renameCollection = (id: string, name: string): Promise<void> => {
+  try { return getAPI().db.renameCollection(id, name); }
+  catch (e) { console.error('[electronBridge] renameCollection failed:', e); return Promise.resolve(); }
+};
+export const deleteCollection = (id: string): Promise<void> => {
+  try { return getAPI().db.deleteCollection(id); }
+  catch (e) { console.error('[electronBridge] deleteCollection failed:', e); return Promise.resolve(); }
+};
+/** Append files to a collection in order; files already in it keep their position. */
+export const addToCollection = (id: string, fileIds: string[]): Promise<void> => {
+  try { return getAPI().db.addToCollection(id, fileIds); }
+  catch (e) { console.error('[electronBridge] addToCollection failed:', e); return Promise.resolve(); }
+};
+export const removeFromCollection = (id: string, fileIds: string[]): Promise<void> => {
+  try { return getAPI().db.removeFromCollection(id, fileIds); }
+  catch (e) { console.error('[electronBridge] removeFromCollection failed:', e); return Promise.resolve(); }
+};
+export const moveToCollection = (fromId: string, toId: string, fileIds: string[]): Promise<void> => {
+  try { return getAPI().db.moveToCollection(fromId, toId, fileIds); }
+  catch (e) { console.error('[electronBridge] moveToCollection failed:', e); return Promise.resolve(); }
+};
+export const reorderCollection = (id: string, fileIds: string[]): Promise<void> => {
+  try { return getAPI().db.reorderCollection(id, fileIds); }
+  catch (e) { console.error('[electronBridge] reorderCollection failed:', e); return Promise.resolve(); }
+};
+/** Merge tags/categories of removeIds onto keepId and delete them. Returns the updated keeper. */
+export const mergeDuplicates = (keepId: string, removeIds: string[]): Promise<STLFile | null> => {
+  try { return getAPI().db.mergeDuplicates(keepId, removeIds); }
+  catch (e) { console.error('[electronBridge] mergeDuplicates failed:', e); return Promise.resolve(null); }
+};
 export const getCategoryValues = (fileId: string): Promise<CategoryValues> => {
   try { return getAPI().db.getCategoryValues(fileId); }
   catch (e) { console.error('[electronBridge] getCategoryValues failed:', e); return Promise.resolve({}); }
@@ -93,3 +280,42 @@ export const bulkSetCategoryValues = (entries: Array<{ fileId: string; categorie
   try { return getAPI().db.bulkSetCategoryValues(entries); }
   catch (e) { console.error('[electronBridge] bulkSetCategoryValues failed:', e); return Promise.resolve(); }
 };
+/** Replace each file's full category set; categories missing from an entry are cleared. */
+export const bulkReplaceCategoryValues = (entries: CategoryReplacement[]): Promise<void> => {
+  try { return getAPI().db.bulkReplaceCategoryValues(entries); }
+  catch (e) { console.error('[electronBridge] bulkReplaceCategoryValues failed:', e); return Promise.resolve(); }
+};
+export const bulkAddTags = (fileIds: string[], tags: string[]): Promise<void> => {
+  try { return getAPI().db.bulkAddTags(fileIds, tags); }
+  catch (e) { console.error('[electronBridge] bulkAddTags failed:', e); return Promise.resolve(); }
+};
+export const bulkRemoveTags = (fileIds: string[], tags: string[]): Promise<void> => {
+  try { return getAPI().db.bulkRemoveTags(fileIds, tags); }
+  catch (e) { console.error('[electronBridge] bulkRemoveTags failed:', e); return Promise.resolve(); }
+};
+export const bulkClearCategoryValue = (fileIds: string[], categoryId: string): Promise<void> => {
+  try { return getAPI().db.bulkClearCategoryValue(fileIds, categoryId); }
+  catch (e) { console.error('[electronBridge] bulkClearCategoryValue failed:', e); return Promise.resolve(); }
+};
+export const bulkReplaceCategoryValue = (fileIds: string[], categoryId: string, from: string, to: string): Promise<void> => {
+  try { return getAPI().db.bulkReplaceCategoryValue(fileIds, categoryId, from, to); }
+  catch (e) { console.error('[electronBridge] bulkReplaceCategoryValue failed:', e); return Promise.resolve(); }
+};
+export const deleteFiles = (fileIds: string[]): Promise<void> => {
+  try { return getAPI().db.deleteFiles(fileIds); }
+  catch (e) { console.error('[electronBridge] deleteFiles failed:', e); return Promise.resolve(); }
+};
+export const getEditHistory = (): Promise<EditHistoryEntry[]> => {
+  try { return getAPI().db.getEditHistory(); }
+  catch (e) { console.error('[electronBridge] getEditHistory failed:', e); return Promise.resolve([]); }
+};
+/** Resolves null when there is nothing to undo. */
+export const undoEdit = (): Promise<EditStep | null> => {
+  try { return getAPI().db.undoEdit(); }
+  catch (e) { console.error('[electronBridge] undoEdit failed:', e); return Promise.resolve(null); }
+};
+/** Resolves null when there is nothing to redo. */
+export const redoEdit = (): Promise<EditStep | null> => {
+  try { return getAPI().db.redoEdit(); }
+  catch (e) { console.error('[electronBridge] redoEdit failed:', e); return Promise.resolve(null); }
+};
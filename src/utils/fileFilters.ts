@@ -0,0 +1,97 @@
+/**
+ * Pure filter matching shared by the grid (useFilters) and saved-search counts
+ * (useSavedSearches), so a smart collection always shows the same files the grid
+ * would after applying it.
+ */
+
+import type { STLFile, SearchHit, SavedFilters, ValueRange } from '../types/index';
+import { getFileFormat } from './modelFormats';
+import { getFileStatus } from './libraryHealth';
+import { parseSearchQuery, matchesQuery } from './searchQuery';
+import { matchesRanges, isRangeActive } from './rangeFilters';
+import { isTagWithin } from './tagHierarchy';
+
+export const EMPTY_FILTERS: SavedFilters = {
+  searchTerm: '',
+  selectedTags: [],
+  selectedCategories: {},
+  selectedFormats: [],
+  selectedStatuses: [],
+  selectedRanges: {},
+};
+
+export interface FilterContext {
+  offlineDirectoryIds: ReadonlySet<string>;
+  /** Full-text hits for the free text in searchTerm; null falls back to matching names */
+  searchHits: Map<string, SearchHit> | null;
+  /** Category keys accepted in the query; defaults to the built-in categories */
+  categoryIds?: readonly string[];
+}
+
+/** Build a predicate for one filter combination. Parses the query once, not per file. */
+export function createFileMatcher(
+  filters: SavedFilters,
+  { offlineDirectoryIds, searchHits, categoryIds }: FilterContext
+): (file: STLFile) => boolean {
+  const query = parseSearchQuery(filters.searchTerm, categoryIds);
+  const freeText = query.text.toLowerCase();
+  const { selectedTags, selectedCategories, selectedFormats, selectedStatuses, selectedRanges } = filters;
+
+  return (file) => {
+    const matchesText =
+      !freeText || (searchHits ? searchHits.has(file.id) : file.name.toLowerCase().includes(freeText));
+    // A selected parent tag matches files carrying any tag below it
+    const matchesTags = selectedTags.every((tag) => file.tags?.some((t) => isTagWithin(t, tag)));
+    const matchesCategories = Object.entries(selectedCategories).every(
+      ([catId, values]) => values.length === 0 || values.includes(file.categories?.[catId] ?? '')
+    );
+    const matchesFormat = selectedFormats.length === 0 || selectedFormats.includes(getFileFormat(file));
+    const matchesStatus =
+      selectedStatuses.length === 0 || selectedStatuses.includes(getFileStatus(file, offlineDirectoryIds));
+    return (
+      matchesText &&
+      matchesTags &&
+      matchesCategories &&
+      matchesFormat &&
+      matchesStatus &&
+      matchesRanges(file, selectedRanges) &&
+      matchesQuery(file, query, offlineDirectoryIds)
+    );
+  };
+}
+
+/**
+ * Fill in fields missing from filters saved by an older version, drop empty
+ * category selections and open ranges, and sort everything, so equal combinations
+ * serialize equally.
+ */
+export function normalizeFilters(filters: Partial<SavedFilters>): SavedFilters {
+  const selectedCategories: Record<string, string[]> = {};
+  for (const catId of Object.keys(filters.selectedCategories ?? {}).sort()) {
+    const values = filters.selectedCategories![catId];
+    if (values.length > 0) selectedCategories[catId] = [...values].sort();
+  }
+  const selectedRanges: Record<string, ValueRange> = {};
+  for (const id of Object.keys(filters.selectedRanges ?? {}).sort()) {
+    const range = filters.selectedRanges![id];
+    if (isRangeActive(range)) selectedRanges[id] = { min: range.min ?? null, max: range.max ?? null };
+  }
+  return {
+    searchTerm: (filters.searchTerm ?? '').trim(),
+    selectedTags: [...(filters.selectedTags ?? [])].sort(),
+    selectedCategories,
+    selectedFormats: [...(filters.selectedFormats ?? [])].sort(),
+    selectedStatuses: [...(filters.selectedStatuses ?? [])].sort(),
+    selectedRanges,
+  };
+}
+
+/** True when both describe the same filter combination, ignoring selection order. */
+export function sameFilters(a: SavedFilters, b: SavedFilters): boolean {
+  return JSON.stringify(normalizeFilters(a)) === JSON.stringify(normalizeFilters(b));
+}
+
+/** Whether any filter is set at all (an empty combination isn't worth saving). */
+export function hasFilters(filters: SavedFilters): boolean {
+  return !sameFilters(filters, EMPTY_FILTERS);
+}
@@ -1,5 +1,7 @@
+import { stripModelExtension } from './modelFormats';
+
 const NOISE_WORDS = new Set([
-  'stl', 'obj', 'file', 'model', 'final', 'copy', 'new', 'old',
+  'stl', 'obj', '3mf', 'ply', 'file', 'model', 'final', 'copy', 'new', 'old',
   'fixed', 'repaired', 'export', 'exported', 'print', 'ready',
 ]);
 
@@ -7,7 +9,7 @@ const VERSION_RE = /^v?\d+$/i;
 
 export function tokenizeFilename(filename: string): string[] {
   // Strip extension
-  const base = filename.replace(/\.stl$/i, '');
+  const base = stripModelExtension(filename);
 
   // Split on separators: _ - space . ( )
   // Then split camelCase: "ForestTree" -> ["Forest", "Tree"]
@@ -0,0 +1,167 @@
+/**
+ * Associations learned from the user's category corrections. Each correction is
+ * counted against the corrected file's features — its filename tokens and folder
+ * names — and at import those features vote for the values the user chose before.
+ * A value with enough support overrides a less confident built-in guess, so the
+ * same fix for the same creator or keyword isn't needed again.
+ */
+
+import type { CategoryValues, DirectoryEntry, LearnedAssociation, LearnedCorrection, STLFile } from '../types/index';
+import type { RuleSubject } from './classificationRules';
+import { ruleSubjectForFile } from './classificationRules';
+import { folderLevelCategories } from './pathTemplate';
+
+/** Below this a learned value is ignored: it takes two agreeing corrections and no contradicting ones. */
+export const LEARNED_MIN_CONFIDENCE = 0.6;
+
+const FOLDER_PREFIX = 'folder:';
+const TOKEN_PREFIX = 'token:';
+const ARCHIVE_SEGMENT_RE = /\.zip$/i;
+
+type FeatureSubject = Pick<RuleSubject, 'relativePath' | 'tokens'> & {
+  /** Folder layout of the file's directory; null or absent uses the built-in layout */
+  pathTemplate?: string | null;
+};
+
+interface ScopedFeature {
+  feature: string;
+  /** The only category the feature may teach; undefined when it may teach any */
+  categoryId?: string;
+}
+
+/**
+ * Every feature of a file. Folder levels the layout assigns to a category are shared
+ * by everything below them (a creator's whole library), so they only teach that
+ * category; {ignore} levels teach nothing.
+ */
+function scopedFeatures({ relativePath, tokens, pathTemplate }: FeatureSubject): ScopedFeature[] {
+  const levels = folderLevelCategories(relativePath, pathTemplate);
+  const features: ScopedFeature[] = [];
+  relativePath.split('/').filter(Boolean).slice(0, -1).forEach((folder, i) => {
+    const level = levels[i];
+    if (level === null) return;
+    features.push({ feature: FOLDER_PREFIX + folder.replace(ARCHIVE_SEGMENT_RE, '').toLowerCase(), categoryId: level });
+  });
+  for (const token of tokens) features.push({ feature: TOKEN_PREFIX + token.toLowerCase() });
+  return features;
+}
+
+/** Features a correction to `categoryId` is recorded against: lowercase folder names and filename tokens. */
+export function learningFeatures(subject: FeatureSubject, categoryId: string): string[] {
+  const features = scopedFeatures(subject)
+    .filter((f) => f.categoryId === undefined || f.categoryId === categoryId)
+    .map((f) => f.feature);
+  return [...new Set(features)];
+}
+
+/** What a library file's corrections are learned from, including its directory's folder layout. */
+export function learningSubjectForFile(file: STLFile, directories: readonly DirectoryEntry[]): FeatureSubject {
+  const pathTemplate = file.directoryId ? directories.find((d) => d.id === file.directoryId)?.pathTemplate : null;
+  return { ...ruleSubjectForFile(file), pathTemplate };
+}
+
+/** Readable form of a feature, e.g. `filename word "orc"`. */
+export function describeFeature(feature: string): string {
+  if (feature.startsWith(FOLDER_PREFIX)) return `folder "${feature.slice(FOLDER_PREFIX.length)}"`;
+  if (feature.startsWith(TOKEN_PREFIX)) return `filename word "${feature.slice(TOKEN_PREFIX.length)}"`;
+  return feature;
+}
+
+/** Corrections made by editing `before` into `after`; cleared values teach nothing. */
+export function diffCorrections(before: CategoryValues, after: CategoryValues, subject: FeatureSubject): LearnedCorrection[] {
+  const corrections: LearnedCorrection[] = [];
+  for (const [categoryId, value] of Object.entries(after)) {
+    if (!value || value === before[categoryId]) continue;
+    const features = learningFeatures(subject, categoryId);
+    if (features.length > 0) corrections.push({ features, categoryId, value });
+  }
+  return corrections;
+}
+
+interface CategoryVotes {
+  total: number;
+  values: Map<string, number>;
+}
+
+/** feature → category → votes */
+type AssociationIndex = Map<string, Map<string, CategoryVotes>>;
+
+// Imports look up every file's features in the same association list
+const indexCache = new WeakMap<readonly LearnedAssociation[], AssociationIndex>();
+
+function indexAssociations(associations: readonly LearnedAssociation[]): AssociationIndex {
+  let index = indexCache.get(associations);
+  if (!index) {
+    index = new Map();
+    for (const { feature, categoryId, value, count } of associations) {
+      let byCategory = index.get(feature);
+      if (!byCategory) index.set(feature, (byCategory = new Map()));
+      let votes = byCategory.get(categoryId);
+      if (!votes) byCategory.set(categoryId, (votes = { total: 0, values: new Map() }));
+      votes.total += count;
+      votes.values.set(value, count);
+    }
+    indexCache.set(associations, index);
+  }
+  return index;
+}
+
+/**
+ * Share of a feature's corrections for a category that chose the value, discounted
+ * while there are few of them: one correction scores 0.5, two agreeing 0.67, three 0.75.
+ */
+function confidence(count: number, total: number): number {
+  return (count / total) * (count / (count + 1));
+}
+
+export interface LearnedGuess {
+  value: string;
+  confidence: number;
+  /** The feature whose corrections support the value */
+  feature: string;
+}
+
+/**
+ * The best-supported learned value per category. Filename tokens are shared by
+ * unrelated files, so they never override a category the folder layout decided
+ * (`folderCategoryIds`); folder names may, but only for the category of their level.
+ */
+export function learnedGuesses(
+  subject: FeatureSubject,
+  associations: readonly LearnedAssociation[],
+  folderCategoryIds: ReadonlySet<string> = new Set()
+): Record<string, LearnedGuess> {
+  const index = indexAssociations(associations);
+  const best: Record<string, LearnedGuess> = {};
+  for (const { feature, categoryId: scope } of scopedFeatures(subject)) {
+    const byCategory = index.get(feature);
+    if (!byCategory) continue;
+    const isToken = feature.startsWith(TOKEN_PREFIX);
+    for (const [categoryId, votes] of byCategory) {
+      if (scope !== undefined && scope !== categoryId) continue;
+      if (isToken && folderCategoryIds.has(categoryId)) continue;
+      for (const [value, count] of votes.values) {
+        const score = confidence(count, votes.total);
+        if (score >= LEARNED_MIN_CONFIDENCE && score > (best[categoryId]?.confidence ?? 0)) {
+          best[categoryId] = { value, confidence: score, feature };
+        }
+      }
+    }
+  }
+  return best;
+}
+
+/** Overlay learned values onto bare classifier output, which has no confidence to compare them with. */
+export function applyLearned(
+  categories: CategoryValues,
+  subject: FeatureSubject,
+  associations: readonly LearnedAssociation[],
+  folderCategoryIds?: ReadonlySet<string>
+): CategoryValues {
+  if (associations.length === 0) return categories;
+  const result = { ...categories };
+  for (const [categoryId, guess] of Object.entries(learnedGuesses(subject, associations, folderCategoryIds))) {
+    result[categoryId] = guess.value;
+  }
+  return result;
+}
@@ -0,0 +1,32 @@
+/**
+ * Availability of library files on disk, derived from the missing/offline flags
+ * written by the health check and folder watcher.
+ */
+
+import type { STLFile } from '../types/index';
+
+/** 'offline' wins over 'missing': a file can't be judged while its drive is unplugged. */
+export type FileStatus = 'available' | 'missing' | 'offline';
+
+export const FILE_STATUSES: FileStatus[] = ['available', 'missing', 'offline'];
+
+export const FILE_STATUS_LABELS: Record<FileStatus, string> = {
+  available: 'Available',
+  missing: 'Missing',
+  offline: 'Offline',
+};
+
+export function getFileStatus(file: STLFile, offlineDirectoryIds: ReadonlySet<string>): FileStatus {
+  if (file.directoryId && offlineDirectoryIds.has(file.directoryId)) return 'offline';
+  if (file.missingAt != null) return 'missing';
+  return 'available';
+}
+
+/**
+ * Rewrite a path under `oldRoot` to sit under `newRoot`. Paths outside the old root
+ * (or null) are returned unchanged. Mirrors relocateDirectory in electron/database.cjs.
+ */
+export function relocatePath(fullPath: string | null, oldRoot: string, newRoot: string): string | null {
+  if (!fullPath || !fullPath.startsWith(oldRoot)) return fullPath;
+  return newRoot + fullPath.slice(oldRoot.length);
+}
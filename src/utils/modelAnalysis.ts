@@ -0,0 +1,36 @@
+/**
+ * The CPU-heavy half of importing a model: hash, parse and analyse a file buffer.
+ * Runs inside the geometry worker pool, or inline when workers aren't available,
+ * so it must not touch the DOM or anything main-thread only (thumbnails, localStorage).
+ */
+
+import type { BufferGeometry } from 'three';
+import { parseModel } from './modelLoaders';
+import { analyzeGeometry } from './geometryAnalysis';
+import type { GeometryStats } from './geometryAnalysis';
+import { parseSTLHeader } from './stlHeaderParser';
+import { hashBuffer } from './duplicates';
+import type { ModelFormat } from './modelFormats';
+
+export interface ModelAnalysis {
+  contentHash: string;
+  stats: GeometryStats;
+  /** Free-text STL header; null for other formats */
+  headerText: string | null;
+}
+
+/** Callers own the returned geometry and must dispose it. */
+export async function analyzeModelBuffer(
+  format: ModelFormat,
+  buffer: ArrayBuffer
+): Promise<ModelAnalysis & { geometry: BufferGeometry }> {
+  // Hash and read the header before parsing so the bytes are untouched by any loader
+  const contentHash = await hashBuffer(buffer);
+  const headerText = format === 'stl' ? parseSTLHeader(buffer) : null;
+  const geometry = await parseModel(format, buffer);
+  // computeVertexNormals is not needed here:
+  // - analyzeGeometry uses only position/index/boundingBox
+  // - prepareScene (inside renderThumbnail) calls it on a clone
+  const stats = analyzeGeometry(geometry);
+  return { geometry, contentHash, stats, headerText };
+}
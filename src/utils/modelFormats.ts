@@ -0,0 +1,47 @@
+/**
+ * Supported model file formats, keyed by extension.
+ * Kept free of three.js imports so the tokenizer, filters and import hooks can
+ * use it without pulling the loaders into their chunk (see modelLoaders.ts).
+ *
+ * electron/filesystem.cjs keeps its own MODEL_EXTENSIONS list — keep both in sync.
+ */
+
+export type ModelFormat = 'stl' | '3mf' | 'obj' | 'ply';
+
+/** All supported formats in display order */
+export const MODEL_FORMATS: ModelFormat[] = ['stl', '3mf', 'obj', 'ply'];
+
+/** Human-readable labels */
+export const FORMAT_LABELS: Record<ModelFormat, string> = {
+  stl: 'STL',
+  '3mf': '3MF',
+  obj: 'OBJ',
+  ply: 'PLY',
+};
+
+const EXTENSION_RE = /\.(stl|3mf|obj|ply)$/i;
+
+/** Value for the `accept` attribute of file inputs. */
+export const MODEL_FILE_ACCEPT = MODEL_FORMATS.map((f) => `.${f}`).join(',');
+
+/** Returns the format for a filename or path, or null if the extension is unsupported. */
+export function getModelFormat(filename: string): ModelFormat | null {
+  const match = EXTENSION_RE.exec(filename);
+  return match ? (match[1].toLowerCase() as ModelFormat) : null;
+}
+
+export function isSupportedModelFile(filename: string): boolean {
+  return EXTENSION_RE.test(filename);
+}
+
+export function stripModelExtension(filename: string): string {
+  return filename.replace(EXTENSION_RE, '');
+}
+
+/**
+ * Effective format of a library file. Rows imported before multi-format support
+ * have no `metadata.format`, so fall back to the extension and finally to STL.
+ */
+export function getFileFormat(file: { relativePath: string; metadata?: { format?: ModelFormat } }): ModelFormat {
+  return file.metadata?.format ?? getModelFormat(file.relativePath) ?? 'stl';
+}
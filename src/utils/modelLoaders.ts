@@ -0,0 +1,119 @@
+/**
+ * Loader registry: maps each ModelFormat to a parser that produces a single
+ * Z-up BufferGeometry, so thumbnails, geometry analysis and the 3D viewer
+ * can stay format-agnostic.
+ *
+ * Loaders are dynamically imported and memoized (same approach as loadSTLLoader)
+ * so three/examples stays out of the main chunk.
+ */
+
+import * as THREE from 'three';
+import type { BufferGeometry, Object3D } from 'three';
+import { loadSTLLoader } from './loadSTLLoader';
+import type { ModelFormat } from './modelFormats';
+
+type ThreeMFLoaderModule = typeof import('three/examples/jsm/loaders/3MFLoader.js');
+type OBJLoaderModule = typeof import('three/examples/jsm/loaders/OBJLoader.js');
+type PLYLoaderModule = typeof import('three/examples/jsm/loaders/PLYLoader.js');
+
+let threeMFModule: Promise<ThreeMFLoaderModule> | null = null;
+let objModule: Promise<OBJLoaderModule> | null = null;
+let plyModule: Promise<PLYLoaderModule> | null = null;
+
+interface ModelLoaderEntry {
+  /** Axis the format conventionally treats as "up". Y-up geometry is rotated to Z-up. */
+  upAxis: 'y' | 'z';
+  /** False when the loader needs DOM APIs (3MFLoader uses DOMParser) missing from workers */
+  workerSafe: boolean;
+  parse: (buffer: ArrayBuffer) => Promise<BufferGeometry>;
+}
+
+/**
+ * Flatten every mesh in a loaded scene graph into one position-only geometry,
+ * baking each mesh's world transform. Materials, colours and UVs are dropped —
+ * the library only needs the shape.
+ */
+function mergeObjectGeometry(root: Object3D): BufferGeometry {
+  root.updateMatrixWorld(true);
+  const parts: Float32Array[] = [];
+  let total = 0;
+
+  root.traverse((child) => {
+    const mesh = child as THREE.Mesh;
+    if (!mesh.isMesh || !mesh.geometry?.attributes.position) return;
+    const geo = mesh.geometry.index ? mesh.geometry.toNonIndexed() : mesh.geometry.clone();
+    geo.applyMatrix4(mesh.matrixWorld);
+    const positions = Float32Array.from(geo.attributes.position.array as ArrayLike<number>);
+    parts.push(positions);
+    total += positions.length;
+    geo.dispose();
+    mesh.geometry.dispose();
+  });
+
+  if (total === 0) throw new Error('Model contains no mesh geometry');
+
+  const merged = new Float32Array(total);
+  let offset = 0;
+  for (const part of parts) {
+    merged.set(part, offset);
+    offset += part.length;
+  }
+
+  const geometry = new THREE.BufferGeometry();
+  geometry.setAttribute('position', new THREE.BufferAttribute(merged, 3));
+  return geometry;
+}
+
+const LOADERS: Record<ModelFormat, ModelLoaderEntry> = {
+  stl: {
+    upAxis: 'z',
+    workerSafe: true,
+    parse: async (buffer) => {
+      const { STLLoader } = await loadSTLLoader();
+      return new STLLoader().parse(buffer);
+    },
+  },
+  '3mf': {
+    upAxis: 'z',
+    workerSafe: false,
+    parse: async (buffer) => {
+      const { ThreeMFLoader } = await (threeMFModule ??= import('three/examples/jsm/loaders/3MFLoader.js'));
+      return mergeObjectGeometry(new ThreeMFLoader().parse(buffer));
+    },
+  },
+  obj: {
+    upAxis: 'y',
+    workerSafe: true,
+    parse: async (buffer) => {
+      const { OBJLoader } = await (objModule ??= import('three/examples/jsm/loaders/OBJLoader.js'));
+      const text = new TextDecoder().decode(buffer);
+      return mergeObjectGeometry(new OBJLoader().parse(text));
+    },
+  },
+  ply: {
+    upAxis: 'z',
+    workerSafe: true,
+    parse: async (buffer) => {
+      const { PLYLoader } = await (plyModule ??= import('three/examples/jsm/loaders/PLYLoader.js'));
+      return new PLYLoader().parse(buffer);
+    },
+  },
+};
+
+/**
+ * Parse a model buffer into a Z-up BufferGeometry.
+ * Callers own the returned geometry and must dispose it.
+ */
+export async function parseModel(format: ModelFormat, buffer: ArrayBuffer): Promise<BufferGeometry> {
+  const entry = LOADERS[format];
+  if (!entry) throw new Error(`Unsupported model format: ${format}`);
+  const geometry = await entry.parse(buffer);
+  // Z is "up" everywhere else in the pipeline (inferScale, threeSceneSetup)
+  if (entry.upAxis === 'y') geometry.rotateX(Math.PI / 2);
+  return geometry;
+}
+
+/** Whether the format's loader can run inside a web worker. */
+export function canParseInWorker(format: ModelFormat): boolean {
+  return LOADERS[format]?.workerSafe ?? false;
+}
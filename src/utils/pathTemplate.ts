@@ -0,0 +1,166 @@
+/**
+ * Folder layout templates: per-directory patterns such as
+ *
+ *   {ignore}/{ignore}/{creator}/{collection}/{role}
+ *
+ * mapping each folder level of a file's relativePath to a category. Directories
+ * without a template use the built-in layout (Creator/Collection/…).
+ */
+
+import type { CategoryValues, STLFile } from '../types/index';
+
+export const IGNORE_SEGMENT = 'ignore';
+
+const SEGMENT_RE = /^\{([a-z0-9_]+)\}$/;
+const ARCHIVE_SEGMENT_RE = /\.zip$/i;
+
+export interface ParsedPathTemplate {
+  /** Category id per folder level; null for {ignore} */
+  segments: (string | null)[];
+  errors: string[];
+}
+
+/**
+ * Parse a template. `categoryIds`, when given, are the only category names
+ * accepted; without it any well-formed name is.
+ */
+export function parsePathTemplate(template: string, categoryIds?: readonly string[]): ParsedPathTemplate {
+  const segments: (string | null)[] = [];
+  const errors: string[] = [];
+  const seen = new Set<string>();
+  const parts = template.trim().split('/').map((p) => p.trim());
+
+  if (parts.length === 1 && !parts[0]) return { segments, errors: ['The template is empty'] };
+
+  for (const part of parts) {
+    const match = SEGMENT_RE.exec(part);
+    if (!match) {
+      errors.push(`"${part || '(empty)'}" should be a {category} or {${IGNORE_SEGMENT}}`);
+      continue;
+    }
+    const name = match[1];
+    if (name === IGNORE_SEGMENT) {
+      segments.push(null);
+      continue;
+    }
+    if (categoryIds && !categoryIds.includes(name)) errors.push(`Unknown category "${name}"`);
+    else if (seen.has(name)) errors.push(`"${name}" appears more than once`);
+    seen.add(name);
+    segments.push(name);
+  }
+  return { segments, errors };
+}
+
+/** Folder names of a relativePath, without the filename. */
+function folderParts(relativePath: string): string[] {
+  return relativePath.split('/').filter(Boolean).slice(0, -1);
+}
+
+/**
+ * The built-in layout: Creator/Collection/…, or just Collection/… one level deep.
+ * Models indexed inside a .zip have the archive as a path segment
+ * (`Creator/Pack.zip/inner/model.stl`). Releases are named after the kit,
+ * so the archive name is a better collection hint than its inner folders.
+ */
+function builtInFolderLevels(folders: string[]): (string | undefined)[] {
+  const levels: (string | undefined)[] = folders.map(() => undefined);
+  const archiveIdx = folders.findIndex((part) => ARCHIVE_SEGMENT_RE.test(part));
+
+  if (archiveIdx !== -1) {
+    levels[archiveIdx] = 'collection';
+    if (archiveIdx >= 1) levels[0] = 'creator';
+  } else if (folders.length >= 2) {
+    levels[0] = 'creator';
+    levels[1] = 'collection';
+  } else if (folders.length === 1) {
+    levels[0] = 'collection';
+  }
+  return levels;
+}
+
+/**
+ * What the layout makes of each folder level of a relativePath: a category id,
+ * null for an {ignore} level, or undefined for a level it doesn't cover. A null
+ * or invalid template falls back to the built-in layout.
+ */
+export function folderLevelCategories(relativePath: string, template: string | null | undefined): (string | null | undefined)[] {
+  const folders = folderParts(relativePath);
+  const parsed = template ? parsePathTemplate(template) : null;
+  if (!parsed || parsed.errors.length > 0) return builtInFolderLevels(folders);
+  return folders.map((_, i) => parsed.segments[i]);
+}
+
+/**
+ * Category values implied by a file's folders. Levels beyond the template are
+ * ignored; an archive segment contributes its name without `.zip`. A null or
+ * invalid template falls back to the built-in layout.
+ */
+export function extractFolderCategories(relativePath: string, template: string | null | undefined): CategoryValues {
+  const folders = folderParts(relativePath);
+  const categories: CategoryValues = {};
+  folderLevelCategories(relativePath, template).forEach((categoryId, i) => {
+    if (categoryId && folders[i]) categories[categoryId] = folders[i].replace(ARCHIVE_SEGMENT_RE, '');
+  });
+  return categories;
+}
+
+/**
+ * A template with the given categories' levels turned into {ignore}, so the folder
+ * depth still lines up after those categories are deleted (mirrors saveCategoryDefs in the DB).
+ */
+export function ignoreTemplateCategories(template: string, categoryIds: readonly string[]): string {
+  return template
+    .split('/')
+    .map((part) => {
+      const match = SEGMENT_RE.exec(part.trim());
+      return match && categoryIds.includes(match[1]) ? `{${IGNORE_SEGMENT}}` : part;
+    })
+    .join('/');
+}
+
+/** A few example paths with distinct folder structures, for previewing a template. */
+export function pickSamplePaths(paths: string[], limit = 6): string[] {
+  const byFolder = new Map<string, string>();
+  for (const path of paths) {
+    const key = folderParts(path).join('/');
+    if (!byFolder.has(key)) byFolder.set(key, path);
+  }
+  // Deepest first — they show the most levels of the template
+  return [...byFolder.values()]
+    .sort((a, b) => folderParts(b).length - folderParts(a).length)
+    .slice(0, limit);
+}
+
+/**
+ * Work out the category changes from applying `template` to already-imported files.
+ * `previousTemplates` are the layouts the files may have been imported with (null
+ * for the built-in one). A value is replaced when it matches what one of them
+ * produced, or none of them produced one; other values were edited by hand and are kept.
+ * Returns the full new category set for each file that changes.
+ */
+export function planTemplateReapply(
+  files: STLFile[],
+  template: string | null | undefined,
+  previousTemplates: Array<string | null | undefined>
+): Array<{ fileId: string; categories: CategoryValues }> {
+  const changes: Array<{ fileId: string; categories: CategoryValues }> = [];
+  for (const file of files) {
+    const before = previousTemplates.map((t) => extractFolderCategories(file.relativePath, t));
+    const after = extractFolderCategories(file.relativePath, template);
+    const categories: CategoryValues = { ...file.categories };
+    let changed = false;
+
+    for (const categoryId of new Set([...before.flatMap((b) => Object.keys(b)), ...Object.keys(after)])) {
+      const current = categories[categoryId];
+      const previous = before.map((b) => b[categoryId]).filter((v) => v !== undefined);
+      if (previous.length > 0 && (current === undefined || !previous.includes(current))) continue; // edited by hand
+      const next = after[categoryId];
+      if (next === current) continue;
+      if (next === undefined) delete categories[categoryId];
+      else categories[categoryId] = next;
+      changed = true;
+    }
+    if (changed) changes.push({ fileId: file.id, categories });
+  }
+  return changes;
+}
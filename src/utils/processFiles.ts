@@ -1,12 +1,14 @@
-import { loadSTLLoader } from './loadSTLLoader';
+import { getModelFormat, stripModelExtension } from './modelFormats';
 import { renderThumbnail } from './renderThumbnail';
-import { analyzeGeometry } from './geometryAnalysis';
-import { parseSTLHeader } from './stlHeaderParser';
 import { tokenizeFilename } from './filenameTokenizer';
 import { estimateWeight, getPrintSettings } from './printEstimate';
-import { readFile } from './electronBridge';
-import { classifyFile } from './categoryClassifier';
-import type { STLFile, FileInfo } from '../types/index';
+import { readFile, getClassificationRules, getLearnedAssociations, getAllDirectories, getCategoryDefs } from './electronBridge';
+import { classifyFileDetailed } from './categoryClassifier';
+import { conformToSchema, DEFAULT_CATEGORY_DEFS } from './categorySchema';
+import { geometryFingerprint } from './duplicates';
+import { updateProvenance } from './provenance';
+import { analyzeModel, getPoolSize } from '../workers/geometryPool';
+import type { STLFile, FileInfo, PrintSettings, ClassificationRule, LearnedAssociation, CategoryDef } from '../types/index';
 
 interface ProcessCallbacks {
   onFileProcessed: (entry: STLFile) => void;
@@ -18,97 +20,134 @@ interface ProcessCallbacks {
 
 // Yield to the main thread every N files instead of every single file.
 // Per-file setTimeout(0) adds ~4ms of timer overhead each; chunked yielding amortises this.
+// Mostly matters when geometry runs inline (no workers); worker round-trips yield anyway.
 const YIELD_CHUNK = 5;
 
+async function readFileBuffer(fileInfo: FileInfo): Promise<ArrayBuffer> {
+  if (fileInfo.fullPath) {
+    const buffer = await readFile(fileInfo.fullPath);
+    if (!buffer) throw new Error('File not found');
+    return (buffer as unknown as { buffer: ArrayBuffer }).buffer ?? buffer;
+  }
+  if (fileInfo._browserFile) return fileInfo._browserFile.arrayBuffer();
+  throw new Error('No file path or browser file available');
+}
+
+async function processFile(
+  fileInfo: FileInfo,
+  fileName: string,
+  settings: PrintSettings,
+  rules: ClassificationRule[],
+  learned: LearnedAssociation[],
+  categoryDefs: CategoryDef[],
+  directoryId: string | undefined,
+  pathTemplate: string | null
+): Promise<STLFile> {
+  const format = getModelFormat(fileName);
+  if (!format) throw new Error('Unsupported file format');
+
+  // Hashing, parsing and analysis happen in the worker pool; the buffer is transferred there
+  const { geometry, contentHash, stats: geoStats, headerText } = await analyzeModel(format, await readFileBuffer(fileInfo));
+
+  // WebGL lives on the main thread, so thumbnails are rendered here from the returned geometry
+  const thumbnail = renderThumbnail(geometry);
+  geometry.dispose(); // Free immediately — only needed for the thumbnail
+
+  const suggestedTags = tokenizeFilename(fileName);
+  const estimatedGrams = estimateWeight(geoStats.volume, settings);
+  const volumeCm3 = geoStats.volume != null ? +(geoStats.volume / 1000).toFixed(2) : null;
+
+  // Auto-classify into structured categories, keeping why each value was chosen
+  const { categories, evidence } = conformToSchema(classifyFileDetailed({
+    relativePath: fileInfo.relativePath,
+    filename: fileName,
+    tokens: suggestedTags,
+    geometry: geoStats,
+    pathTemplate,
+    learned,
+    rules,
+  }), categoryDefs);
+
+  return {
+    id: crypto.randomUUID(),
+    name: stripModelExtension(fileName).replace(/[_-]/g, ' '),
+    relativePath: fileInfo.relativePath,
+    fullPath: fileInfo.fullPath,
+    directoryId,
+    size: `${(fileInfo.sizeBytes / (1024 * 1024)).toFixed(1)} MB`,
+    sizeBytes: fileInfo.sizeBytes,
+    tags: [],
+    categories,
+    classification: evidence,
+    provenance: updateProvenance({ tags: [], categories: {} }, { categories, classification: evidence }, 'classifier'),
+    thumbnail,
+    contentHash,
+    geometryFingerprint: geometryFingerprint(geoStats),
+    metadata: {
+      ...geoStats,
+      format,
+      headerText,
+      originalFilename: fileName,
+      suggestedTags,
+      importedAt: Date.now(),
+      lastModified: fileInfo.lastModified,
+      fileSize: fileInfo.sizeBytes,
+      printEstimate: { volumeCm3, estimatedGrams },
+    },
+  };
+}
+
 /**
  * Process an array of file info objects from the main-process directory scan.
- * Reads each file via IPC, generates thumbnail + metadata, then disposes geometry.
+ * Reads each file via IPC, hands it to the geometry worker pool for hashing,
+ * parsing and analysis, then renders a thumbnail and builds metadata.
+ * Keeps one file in flight per worker; results may arrive out of input order.
  * No binary data or geometry is kept in the returned entries.
  */
 export async function processFiles(fileInfos: FileInfo[], {
   onFileProcessed, onProgress, onError, shouldCancel, directoryId,
 }: ProcessCallbacks): Promise<void> {
-  const { STLLoader } = await loadSTLLoader();
-  const loader = new STLLoader();
   let processed = 0;
+  let started = 0;
 
-  // Hoist settings read out of the per-file loop (avoids repeated localStorage access)
+  // Hoist settings, rule, learned association, schema and folder layout reads out of the per-file loop (avoids repeated localStorage and IPC access)
   const settings = getPrintSettings();
+  const rules = await getClassificationRules();
+  const learned = await getLearnedAssociations();
+  const categoryDefs = (await getCategoryDefs()) ?? DEFAULT_CATEGORY_DEFS;
+  const pathTemplate = directoryId
+    ? (await getAllDirectories()).find((d) => d.id === directoryId)?.pathTemplate ?? null
+    : null;
 
-  for (const fileInfo of fileInfos) {
-    if (shouldCancel?.()) break;
+  async function lane() {
+    while (started < fileInfos.length) {
+      if (shouldCancel?.()) return;
 
-    // Yield to main thread every YIELD_CHUNK files to keep the UI responsive
-    if (processed % YIELD_CHUNK === 0) {
-      await new Promise((r) => setTimeout(r, 0));
-    }
+      // Yield to main thread every YIELD_CHUNK files to keep the UI responsive
+      if (started % YIELD_CHUNK === 0) {
+        await new Promise((r) => setTimeout(r, 0));
+        if (shouldCancel?.() || started >= fileInfos.length) return;
+      }
+
+      const fileInfo = fileInfos[started++];
+      const fileName = fileInfo.relativePath.split('/').pop() ?? fileInfo.relativePath;
 
-    const fileName = fileInfo.relativePath.split('/').pop() ?? fileInfo.relativePath;
-
-    try {
-      let arrayBuffer: ArrayBuffer;
-      if (fileInfo.fullPath) {
-        const buffer = await readFile(fileInfo.fullPath);
-        if (!buffer) throw new Error('File not found');
-        arrayBuffer = (buffer as unknown as { buffer: ArrayBuffer }).buffer ?? buffer;
-      } else if (fileInfo._browserFile) {
-        arrayBuffer = await fileInfo._browserFile.arrayBuffer();
-      } else {
-        throw new Error('No file path or browser file available');
+      try {
+        const entry = await processFile(fileInfo, fileName, settings, rules, learned, categoryDefs, directoryId, pathTemplate);
+        // Other lanes' files may finish after a cancel; drop them rather than report them
+        if (shouldCancel?.()) return;
+        processed++;
+        onFileProcessed(entry);
+        onProgress({ processed, currentName: entry.name });
+      } catch (err) {
+        if (shouldCancel?.()) return;
+        processed++;
+        onError(fileName, err);
+        onProgress({ processed, currentName: fileName });
       }
-      const geometry = loader.parse(arrayBuffer);
-      // computeVertexNormals is not needed here:
-      // - analyzeGeometry uses only position/index/boundingBox
-      // - prepareScene (inside renderThumbnail) calls it on a clone
-
-      const thumbnail = renderThumbnail(geometry);
-      const geoStats = analyzeGeometry(geometry);
-      const headerText = parseSTLHeader(arrayBuffer);
-      const suggestedTags = tokenizeFilename(fileName);
-
-      geometry.dispose(); // Free immediately — only needed for thumbnail + analysis
-
-      const estimatedGrams = estimateWeight(geoStats.volume, settings);
-      const volumeCm3 = geoStats.volume != null ? +(geoStats.volume / 1000).toFixed(2) : null;
-
-      // Auto-classify into structured categories
-      const categories = classifyFile({
-        relativePath: fileInfo.relativePath,
-        filename: fileName,
-        tokens: suggestedTags,
-        geometry: geoStats,
-      });
-
-      const entry: STLFile = {
-        id: crypto.randomUUID(),
-        name: fileName.replace(/\.stl$/i, '').replace(/[_-]/g, ' '),
-        relativePath: fileInfo.relativePath,
-        fullPath: fileInfo.fullPath,
-        directoryId,
-        size: `${(fileInfo.sizeBytes / (1024 * 1024)).toFixed(1)} MB`,
-        sizeBytes: fileInfo.sizeBytes,
-        tags: [],
-        categories,
-        thumbnail,
-        metadata: {
-          ...geoStats,
-          headerText,
-          originalFilename: fileName,
-          suggestedTags,
-          importedAt: Date.now(),
-          lastModified: fileInfo.lastModified,
-          fileSize: fileInfo.sizeBytes,
-          printEstimate: { volumeCm3, estimatedGrams },
-        },
-      };
-
-      processed++;
-      onFileProcessed(entry);
-      onProgress({ processed, currentName: entry.name });
-    } catch (err) {
-      processed++;
-      onError(fileName, err);
-      onProgress({ processed, currentName: fileName });
     }
   }
+
+  const lanes = Math.min(getPoolSize(), fileInfos.length);
+  await Promise.all(Array.from({ length: lanes }, lane));
 }
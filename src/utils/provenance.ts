@@ -0,0 +1,100 @@
+/**
+ * Where tags and category values came from. The DB records a source and time for
+ * every value it writes; these helpers keep the in-memory copy in step after an
+ * edit, and let cleanup tools tell machine-assigned values from human ones.
+ */
+
+import type { STLFile, CategoryValues, CategoryEvidence, ValueSource, ValueProvenance, FileProvenance } from '../types/index';
+
+export const VALUE_SOURCES: ValueSource[] = ['manual', 'bulk', 'rule', 'filename', 'classifier'];
+
+export const VALUE_SOURCE_LABELS: Record<ValueSource, string> = {
+  manual: 'Set by hand',
+  bulk: 'Bulk edit',
+  rule: 'Classification rule',
+  filename: 'Filename',
+  classifier: 'Auto-classifier',
+};
+
+/** Sources that re-classification and cleanup may replace without asking. */
+export function isMachineSource(source: ValueSource): boolean {
+  return source === 'classifier' || source === 'filename' || source === 'rule';
+}
+
+/** Source of a value the classifier assigned with this evidence. */
+export function evidenceSource(evidence: CategoryEvidence): ValueSource {
+  return evidence.source ?? 'classifier';
+}
+
+/** e.g. `Bulk edit · 19 Oct 2026` */
+export function describeProvenance({ source, assignedAt }: ValueProvenance): string {
+  const date = new Date(assignedAt).toLocaleDateString(undefined, { day: 'numeric', month: 'short', year: 'numeric' });
+  return `${VALUE_SOURCE_LABELS[source]} · ${date}`;
+}
+
+export interface ProvenanceChange {
+  tags?: string[];
+  categories?: CategoryValues;
+  /** Evidence for the new categories; values with evidence take its source */
+  classification?: Record<string, CategoryEvidence>;
+}
+
+/**
+ * The file's provenance after an edit, mirroring what the DB records: values that
+ * stay the same keep theirs (or none, if stored before tracking), new ones are
+ * stamped with `source` (or their evidence's source) and `assignedAt`, removed
+ * ones are dropped.
+ */
+export function updateProvenance(
+  file: Pick<STLFile, 'tags' | 'categories' | 'provenance'>,
+  change: ProvenanceChange,
+  source: ValueSource,
+  assignedAt = Date.now()
+): FileProvenance {
+  const previous = file.provenance ?? { tags: {}, categories: {} };
+  let { tags, categories } = previous;
+
+  if (change.tags) {
+    const before = new Set(file.tags || []);
+    tags = {};
+    for (const tag of change.tags) {
+      if (!before.has(tag)) tags[tag] = { source, assignedAt };
+      else if (previous.tags[tag]) tags[tag] = previous.tags[tag];
+    }
+  }
+
+  if (change.categories) {
+    const before = file.categories || {};
+    categories = {};
+    for (const [categoryId, value] of Object.entries(change.categories)) {
+      if (!value) continue;
+      if (before[categoryId] === value) {
+        if (previous.categories[categoryId]) categories[categoryId] = previous.categories[categoryId];
+        continue;
+      }
+      const evidence = change.classification?.[categoryId];
+      categories[categoryId] = { source: evidence ? evidenceSource(evidence) : source, assignedAt };
+    }
+  }
+
+  return { tags, categories };
+}
+
+/** Provenance after tags were renamed; a tag renamed onto an existing one keeps the existing record. */
+export function renameTagProvenance(provenance: FileProvenance, renames: ReadonlyMap<string, string>): FileProvenance {
+  const tags = { ...provenance.tags };
+  for (const [from, to] of renames) {
+    if (!(to in tags) && tags[from]) tags[to] = tags[from];
+    delete tags[from];
+  }
+  return { ...provenance, tags };
+}
+
+/** Every source among a file's tags and category values. */
+export function fileValueSources(file: STLFile): Set<ValueSource> {
+  const sources = new Set<ValueSource>();
+  if (!file.provenance) return sources;
+  for (const p of Object.values(file.provenance.tags)) sources.add(p.source);
+  for (const p of Object.values(file.provenance.categories)) sources.add(p.source);
+  return sources;
+}
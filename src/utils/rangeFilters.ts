@@ -0,0 +1,102 @@
+/**
+ * Numeric range filters over model metadata (height, footprint, volume, weight,
+ * file size) and the histograms the sidebar draws for them.
+ */
+
+import type { STLFile, ValueRange } from '../types/index';
+
+export type RangeFieldId = 'height' | 'footprint' | 'volume' | 'grams' | 'fileSize';
+
+interface RangeFieldDef {
+  label: string;
+  unit: string;
+  /** Input step, matching the precision worth filtering on */
+  step: number;
+  get: (file: STLFile) => number | null;
+}
+
+const MB = 1024 * 1024;
+
+export const RANGE_FIELDS: Record<RangeFieldId, RangeFieldDef> = {
+  height: { label: 'Height', unit: 'mm', step: 1, get: (f) => f.metadata?.dimensions?.z ?? null },
+  // Longest side of the base, i.e. what has to fit on the build plate or a base size
+  footprint: {
+    label: 'Footprint',
+    unit: 'mm',
+    step: 1,
+    get: (f) => (f.metadata?.dimensions ? Math.max(f.metadata.dimensions.x, f.metadata.dimensions.y) : null),
+  },
+  volume: {
+    label: 'Volume',
+    unit: 'cm³',
+    step: 0.1,
+    get: (f) => f.metadata?.printEstimate?.volumeCm3 ?? (f.metadata?.volume != null ? f.metadata.volume / 1000 : null),
+  },
+  grams: { label: 'Est. weight', unit: 'g', step: 1, get: (f) => f.metadata?.printEstimate?.estimatedGrams ?? null },
+  fileSize: { label: 'File size', unit: 'MB', step: 0.1, get: (f) => (f.sizeBytes ? f.sizeBytes / MB : null) },
+};
+
+export const RANGE_FIELD_IDS = Object.keys(RANGE_FIELDS) as RangeFieldId[];
+
+export function isRangeActive(range: ValueRange | undefined): range is ValueRange {
+  return !!range && (range.min != null || range.max != null);
+}
+
+/** Files without a value for an active range never match it. */
+export function matchesRanges(file: STLFile, ranges: Partial<Record<RangeFieldId, ValueRange>>): boolean {
+  for (const id of RANGE_FIELD_IDS) {
+    const range = ranges[id];
+    if (!isRangeActive(range)) continue;
+    const value = RANGE_FIELDS[id].get(file);
+    if (value == null) return false;
+    if (range.min != null && value < range.min) return false;
+    if (range.max != null && value > range.max) return false;
+  }
+  return true;
+}
+
+export interface Histogram {
+  min: number;
+  max: number;
+  /** Width of each bin; bin i covers [min + i*binWidth, min + (i+1)*binWidth) */
+  binWidth: number;
+  counts: number[];
+}
+
+/**
+ * Bin values into `binCount` equal-width bins between their min and max.
+ * Returns null when there's nothing to draw (fewer than two distinct values).
+ */
+export function buildHistogram(values: number[], binCount = 24): Histogram | null {
+  if (values.length === 0) return null;
+  let min = Infinity;
+  let max = -Infinity;
+  for (const v of values) {
+    if (v < min) min = v;
+    if (v > max) max = v;
+  }
+  if (min === max) return null;
+
+  const binWidth = (max - min) / binCount;
+  const counts = new Array<number>(binCount).fill(0);
+  for (const v of values) {
+    // The max value belongs in the last bin rather than one past it
+    counts[Math.min(binCount - 1, Math.floor((v - min) / binWidth))]++;
+  }
+  return { min, max, binWidth, counts };
+}
+
+/** Histograms of the library for every range field that has data to filter on. */
+export function buildRangeHistograms(files: STLFile[]): Partial<Record<RangeFieldId, Histogram>> {
+  const histograms: Partial<Record<RangeFieldId, Histogram>> = {};
+  for (const id of RANGE_FIELD_IDS) {
+    const values: number[] = [];
+    for (const f of files) {
+      const v = RANGE_FIELDS[id].get(f);
+      if (v != null && Number.isFinite(v)) values.push(v);
+    }
+    const histogram = buildHistogram(values);
+    if (histogram) histograms[id] = histogram;
+  }
+  return histograms;
+}
@@ -0,0 +1,107 @@
+/**
+ * Re-running the classifier over files already in the library. The result is a
+ * list of per-category changes to review; values set by hand are reported but
+ * only replaced when the user asks.
+ */
+
+import type { STLFile, CategoryValues, CategoryEvidence, CategoryDef, ClassificationRule, LearnedAssociation } from '../types/index';
+import type { ClassificationResult } from './categoryClassifier';
+import { classifyFileDetailed } from './categoryClassifier';
+import { ruleSubjectForFile } from './classificationRules';
+import { conformToSchema } from './categorySchema';
+import { isMachineSource } from './provenance';
+
+export interface ReclassifyChange {
+  fileId: string;
+  categoryId: string;
+  /** Undefined when the file has no value yet */
+  oldValue?: string;
+  /** Undefined when the classifier no longer assigns one */
+  newValue?: string;
+  /** Why the classifier proposes the new value */
+  evidence?: CategoryEvidence;
+  /** The current value was set by a person (or, without provenance, has no classifier evidence) */
+  manual: boolean;
+}
+
+/** Everything the classifier reads besides the file itself. */
+export interface ReclassifyContext {
+  rules: readonly ClassificationRule[];
+  learned: readonly LearnedAssociation[];
+  /** Folder layout per directory id */
+  pathTemplates: ReadonlyMap<string, string | null | undefined>;
+  /** Proposals are limited to these categories and their allowed values */
+  categoryDefs: readonly CategoryDef[];
+}
+
+/** Stable key of a change, for selection sets. */
+export const changeKey = (change: Pick<ReclassifyChange, 'fileId' | 'categoryId'>) => `${change.fileId}/${change.categoryId}`;
+
+/** Classify a library file from its stored path and metadata, as an import would now. */
+export function reclassifyFile(file: STLFile, context: ReclassifyContext): ClassificationResult {
+  const subject = ruleSubjectForFile(file);
+  return conformToSchema(classifyFileDetailed({
+    relativePath: file.relativePath,
+    filename: subject.filename,
+    tokens: subject.tokens,
+    geometry: { dimensions: file.metadata?.dimensions },
+    pathTemplate: file.directoryId ? context.pathTemplates.get(file.directoryId) : null,
+    learned: context.learned,
+    rules: context.rules,
+  }), context.categoryDefs);
+}
+
+/**
+ * Differences between a file's values and a fresh classification, limited to the
+ * schema's categories. Values set by hand are never proposed for clearing, only
+ * for replacement.
+ */
+export function diffClassification(file: STLFile, result: ClassificationResult, categoryIds: readonly string[]): ReclassifyChange[] {
+  const changes: ReclassifyChange[] = [];
+  for (const categoryId of categoryIds) {
+    const oldValue = file.categories?.[categoryId] || undefined;
+    const newValue = result.categories[categoryId] || undefined;
+    if (oldValue === newValue) continue;
+    const assigned = file.provenance?.categories[categoryId];
+    const manual = !!oldValue && (assigned ? !isMachineSource(assigned.source) : !file.classification?.[categoryId]);
+    if (manual && !newValue) continue;
+    changes.push({
+      fileId: file.id,
+      categoryId,
+      oldValue,
+      newValue,
+      evidence: newValue ? result.evidence[categoryId] : undefined,
+      manual,
+    });
+  }
+  return changes;
+}
+
+/** New categories and evidence for each file touched by the accepted changes. */
+export function applyReclassifyChanges(
+  files: STLFile[],
+  changes: ReclassifyChange[]
+): Array<{ fileId: string; categories: CategoryValues; classification: Record<string, CategoryEvidence> }> {
+  const byFile = new Map<string, ReclassifyChange[]>();
+  for (const change of changes) {
+    const list = byFile.get(change.fileId);
+    if (list) list.push(change);
+    else byFile.set(change.fileId, [change]);
+  }
+
+  const entries = [];
+  for (const file of files) {
+    const fileChanges = byFile.get(file.id);
+    if (!fileChanges) continue;
+    const categories: CategoryValues = { ...file.categories };
+    const classification: Record<string, CategoryEvidence> = { ...file.classification };
+    for (const { categoryId, newValue, evidence } of fileChanges) {
+      if (newValue) categories[categoryId] = newValue;
+      else delete categories[categoryId];
+      if (newValue && evidence) classification[categoryId] = evidence;
+      else delete classification[categoryId];
+    }
+    entries.push({ fileId: file.id, categories, classification });
+  }
+  return entries;
+}
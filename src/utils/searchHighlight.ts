@@ -0,0 +1,53 @@
+/**
+ * Helpers for rendering full-text search highlights. The main process wraps each
+ * matched term in sentinel control characters (see searchFiles in electron/database.cjs),
+ * which can't occur in names or paths and survive IPC untouched.
+ */
+
+import type { SearchField, SearchHit } from '../types/index';
+
+export const HIGHLIGHT_START = '\u0002';
+export const HIGHLIGHT_END = '\u0003';
+
+export interface HighlightSegment {
+  text: string;
+  match: boolean;
+}
+
+/** Split a highlighted string into plain and matched segments (empty segments dropped). */
+export function splitHighlight(highlighted: string): HighlightSegment[] {
+  const segments: HighlightSegment[] = [];
+  let match = false;
+  let current = '';
+  for (const ch of highlighted) {
+    if (ch === HIGHLIGHT_START || ch === HIGHLIGHT_END) {
+      if (current) segments.push({ text: current, match });
+      current = '';
+      match = ch === HIGHLIGHT_START;
+    } else {
+      current += ch;
+    }
+  }
+  if (current) segments.push({ text: current, match });
+  return segments;
+}
+
+export const SEARCH_FIELD_LABELS: Record<SearchField, string> = {
+  name: 'Name',
+  path: 'Path',
+  tags: 'Tags',
+  categories: 'Categories',
+  header: 'Header',
+};
+
+// Order in which non-name matches are worth showing on a card
+const SECONDARY_FIELDS: SearchField[] = ['categories', 'tags', 'path', 'header'];
+
+/** The most useful non-name match to explain why a file matched, or null. */
+export function getSecondaryMatch(hit: SearchHit): { field: SearchField; highlighted: string } | null {
+  for (const field of SECONDARY_FIELDS) {
+    const highlighted = hit.highlights[field];
+    if (highlighted) return { field, highlighted };
+  }
+  return null;
+}
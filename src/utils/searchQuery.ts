@@ -0,0 +1,226 @@
+/**
+ * Structured query syntax for the search box, e.g.
+ *
+ *   role:monster size:32mm tag:painted|primed -tag:printed height<60 watertight:yes dragon
+ *
+ * - `key:value` filters on a category, tag, format, status, name or path (case-insensitive);
+ *   `tag:terrain` also matches tags below it, like `terrain/dungeon/door`
+ * - `source:manual|bulk` matches files with any tag or category value from that source
+ * - `a|b` matches either value; a leading `-` negates the term
+ * - numeric fields take `:` `=` `<` `<=` `>` `>=` with optional units (`60mm`, `6cm`, `100k`)
+ * - anything without a key is free text, handed to full-text search
+ *
+ * Invalid terms are reported in `errors` and otherwise ignored, so a half-typed
+ * query never empties the grid.
+ */
+
+import { CATEGORY_IDS } from './categoryClassifier';
+import { MODEL_FORMATS, getFileFormat } from './modelFormats';
+import { FILE_STATUSES, getFileStatus } from './libraryHealth';
+import { VALUE_SOURCES, fileValueSources } from './provenance';
+import { isTagWithin } from './tagHierarchy';
+import type { STLFile, ValueSource } from '../types/index';
+
+export type ComparisonOperator = '=' | '<' | '<=' | '>' | '>=';
+
+type NumericField = 'height' | 'width' | 'depth' | 'volume' | 'triangles' | 'grams' | 'mb';
+
+interface NumericFieldDef {
+  get: (file: STLFile) => number | null;
+  /** Unit suffix → multiplier into the field's base unit */
+  units: Record<string, number>;
+}
+
+const MB = 1024 * 1024;
+
+const NUMERIC_FIELDS: Record<NumericField, NumericFieldDef> = {
+  height: { get: (f) => f.metadata?.dimensions?.z ?? null, units: { mm: 1, cm: 10 } },
+  width: { get: (f) => f.metadata?.dimensions?.x ?? null, units: { mm: 1, cm: 10 } },
+  depth: { get: (f) => f.metadata?.dimensions?.y ?? null, units: { mm: 1, cm: 10 } },
+  volume: {
+    get: (f) => f.metadata?.printEstimate?.volumeCm3 ?? (f.metadata?.volume != null ? f.metadata.volume / 1000 : null),
+    units: { cm3: 1, ml: 1 },
+  },
+  triangles: { get: (f) => f.metadata?.triangleCount ?? null, units: { k: 1_000, m: 1_000_000 } },
+  grams: { get: (f) => f.metadata?.printEstimate?.estimatedGrams ?? null, units: { g: 1, kg: 1000 } },
+  mb: { get: (f) => (f.sizeBytes ? f.sizeBytes / MB : null), units: { mb: 1, gb: 1024 } },
+};
+
+const KEY_ALIASES: Record<string, string> = {
+  tags: 'tag',
+  tris: 'triangles',
+  weight: 'grams',
+  filesize: 'mb',
+};
+
+export type QueryClause =
+  | { kind: 'category'; categoryId: string; values: string[]; negate: boolean }
+  | { kind: 'tag' | 'format' | 'status' | 'name' | 'path'; values: string[]; negate: boolean }
+  | { kind: 'source'; values: ValueSource[]; negate: boolean }
+  | { kind: 'number'; field: NumericField; op: ComparisonOperator; value: number; negate: boolean }
+  | { kind: 'watertight'; value: boolean; negate: boolean };
+
+export interface QueryError {
+  /** The term as typed */
+  term: string;
+  message: string;
+}
+
+export interface ParsedQuery {
+  clauses: QueryClause[];
+  /** Free-text words, for full-text search */
+  text: string;
+  errors: QueryError[];
+}
+
+const TERM_RE = /^(-?)([a-z0-9_]+)(<=|>=|:|=|<|>)(.*)$/i;
+const NUMBER_RE = /^(\d+(?:\.\d+)?|\.\d+)([a-z0-9]*)$/i;
+const BOOLEAN_VALUES: Record<string, boolean> = { yes: true, true: true, '1': true, no: false, false: false, '0': false };
+
+/** Split on whitespace, keeping double-quoted runs (`tag:"wip bust"`) together. */
+function tokenize(input: string): string[] {
+  return input.match(/(?:[^\s"]+|"[^"]*"?)+/g) ?? [];
+}
+
+function unquote(value: string): string {
+  return value.replace(/"/g, '');
+}
+
+function parseNumber(raw: string, def: NumericFieldDef): number | null {
+  const match = NUMBER_RE.exec(raw);
+  if (!match) return null;
+  const unit = match[2].toLowerCase();
+  if (!unit) return parseFloat(match[1]);
+  const multiplier = def.units[unit];
+  return multiplier == null ? null : parseFloat(match[1]) * multiplier;
+}
+
+function parseTerm(term: string, categoryIds: readonly string[]): QueryClause | QueryError | null {
+  const match = TERM_RE.exec(term);
+  if (!match) return null; // free text
+  const [, minus, rawKey, rawOp, rawValue] = match;
+  const key = KEY_ALIASES[rawKey.toLowerCase()] ?? rawKey.toLowerCase();
+  // Digits and underscores only appear in category ids; other such terms (10:30) are free text
+  if (!/^[a-z]+$/i.test(rawKey) && !categoryIds.includes(key)) return null;
+  const negate = minus === '-';
+  const value = unquote(rawValue);
+  const isComparison = rawOp !== ':' && rawOp !== '=';
+
+  if (!value) return { term, message: `"${rawKey}" needs a value` };
+
+  if (key in NUMERIC_FIELDS) {
+    const field = key as NumericField;
+    const num = parseNumber(value, NUMERIC_FIELDS[field]);
+    if (num == null) {
+      const units = Object.keys(NUMERIC_FIELDS[field].units).join(', ');
+      return { term, message: `"${value}" is not a number${units ? ` (units: ${units})` : ''}` };
+    }
+    const op: ComparisonOperator = rawOp === ':' ? '=' : (rawOp as ComparisonOperator);
+    return { kind: 'number', field, op, value: num, negate };
+  }
+
+  if (isComparison) return { term, message: `"${rawOp}" only works with numeric filters like height or triangles` };
+
+  const values = value.split('|').map((v) => v.trim()).filter(Boolean);
+  if (values.length === 0) return { term, message: `"${rawKey}" needs a value` };
+
+  if (key === 'watertight') {
+    const bool = BOOLEAN_VALUES[value.toLowerCase()];
+    if (bool == null) return { term, message: 'watertight takes yes or no' };
+    return { kind: 'watertight', value: bool, negate };
+  }
+  if (key === 'format') {
+    const bad = values.find((v) => !(MODEL_FORMATS as string[]).includes(v.toLowerCase()));
+    if (bad) return { term, message: `Unknown format "${bad}" (${MODEL_FORMATS.join(', ')})` };
+    return { kind: 'format', values: values.map((v) => v.toLowerCase()), negate };
+  }
+  if (key === 'status') {
+    const bad = values.find((v) => !(FILE_STATUSES as string[]).includes(v.toLowerCase()));
+    if (bad) return { term, message: `Unknown status "${bad}" (${FILE_STATUSES.join(', ')})` };
+    return { kind: 'status', values: values.map((v) => v.toLowerCase()), negate };
+  }
+  if (key === 'source') {
+    const bad = values.find((v) => !(VALUE_SOURCES as string[]).includes(v.toLowerCase()));
+    if (bad) return { term, message: `Unknown source "${bad}" (${VALUE_SOURCES.join(', ')})` };
+    return { kind: 'source', values: values.map((v) => v.toLowerCase() as ValueSource), negate };
+  }
+  if (key === 'tag' || key === 'name' || key === 'path') return { kind: key, values, negate };
+  if (categoryIds.includes(key)) return { kind: 'category', categoryId: key, values, negate };
+
+  return { term, message: `Unknown filter "${rawKey}"` };
+}
+
+/** `categoryIds` are the keys accepted as category filters — the user's schema, or the built-ins. */
+export function parseSearchQuery(input: string, categoryIds: readonly string[] = CATEGORY_IDS): ParsedQuery {
+  const clauses: QueryClause[] = [];
+  const words: string[] = [];
+  const errors: QueryError[] = [];
+
+  for (const term of tokenize(input)) {
+    const parsed = parseTerm(term, categoryIds);
+    if (parsed == null) {
+      if (term.startsWith('-') && term.length > 1) {
+        errors.push({ term, message: 'Only key:value terms can be negated, e.g. -tag:printed' });
+      } else {
+        words.push(unquote(term));
+      }
+    } else if ('message' in parsed) {
+      errors.push(parsed);
+    } else {
+      clauses.push(parsed);
+    }
+  }
+
+  return { clauses, text: words.join(' ').trim(), errors };
+}
+
+function compare(actual: number, op: ComparisonOperator, expected: number): boolean {
+  switch (op) {
+    // `height:60` means "about 60" — stored dimensions are rarely whole numbers
+    case '=': return Math.abs(actual - expected) < 0.5;
+    case '<': return actual < expected;
+    case '<=': return actual <= expected;
+    case '>': return actual > expected;
+    case '>=': return actual >= expected;
+  }
+}
+
+function matchesClause(file: STLFile, clause: QueryClause, offlineDirectoryIds: ReadonlySet<string>): boolean {
+  switch (clause.kind) {
+    case 'category': {
+      const actual = file.categories?.[clause.categoryId]?.toLowerCase();
+      return !!actual && clause.values.some((v) => v.toLowerCase() === actual);
+    }
+    case 'tag': {
+      const tags = (file.tags || []).map((t) => t.toLowerCase());
+      return clause.values.some((v) => tags.some((t) => isTagWithin(t, v.toLowerCase())));
+    }
+    case 'format':
+      return clause.values.includes(getFileFormat(file));
+    case 'status':
+      return clause.values.includes(getFileStatus(file, offlineDirectoryIds));
+    case 'source': {
+      const sources = fileValueSources(file);
+      return clause.values.some((v) => sources.has(v));
+    }
+    case 'name':
+      return clause.values.some((v) => file.name.toLowerCase().includes(v.toLowerCase()));
+    case 'path':
+      return clause.values.some((v) => file.relativePath.toLowerCase().includes(v.toLowerCase()));
+    case 'number': {
+      const actual = NUMERIC_FIELDS[clause.field].get(file);
+      return actual != null && compare(actual, clause.op, clause.value);
+    }
+    case 'watertight':
+      return file.metadata != null && file.metadata.isWatertight === clause.value;
+  }
+}
+
+/** True when the file satisfies every clause (free text is matched separately). */
+export function matchesQuery(
+  file: STLFile,
+  query: ParsedQuery,
+  offlineDirectoryIds: ReadonlySet<string> = new Set()
+): boolean {
+  return query.clauses.every((clause) => matchesClause(file, clause, offlineDirectoryIds) !== clause.negate);
+}
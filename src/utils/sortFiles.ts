@@ -0,0 +1,62 @@
+/**
+ * Sort orders for the grid and table views. 'default' keeps the order useFilters
+ * produced: best full-text match, then collection order, then newest imported.
+ */
+
+import type { STLFile } from '../types/index';
+import { RANGE_FIELDS } from './rangeFilters';
+
+export type SortKey = 'default' | 'name' | 'size' | 'imported' | 'modified' | 'height' | 'volume' | 'triangles' | 'grams';
+export type SortDirection = 'asc' | 'desc';
+
+export interface SortOrder {
+  key: SortKey;
+  direction: SortDirection;
+}
+
+interface SortOption {
+  label: string;
+  /** Direction used when first switching to this key (biggest/newest first for most) */
+  defaultDirection: SortDirection;
+  get: ((file: STLFile) => string | number | null) | null;
+}
+
+export const SORT_OPTIONS: Record<SortKey, SortOption> = {
+  default: { label: 'Default order', defaultDirection: 'asc', get: null },
+  name: { label: 'Name', defaultDirection: 'asc', get: (f) => f.name },
+  size: { label: 'File size', defaultDirection: 'desc', get: (f) => f.sizeBytes ?? null },
+  imported: { label: 'Date imported', defaultDirection: 'desc', get: (f) => f.importedAt ?? null },
+  modified: { label: 'Date modified', defaultDirection: 'desc', get: (f) => f.lastModified ?? null },
+  height: { label: 'Height', defaultDirection: 'desc', get: RANGE_FIELDS.height.get },
+  volume: { label: 'Volume', defaultDirection: 'desc', get: RANGE_FIELDS.volume.get },
+  triangles: { label: 'Triangles', defaultDirection: 'desc', get: (f) => f.metadata?.triangleCount ?? null },
+  grams: { label: 'Est. weight', defaultDirection: 'desc', get: RANGE_FIELDS.grams.get },
+};
+
+export const SORT_KEYS = Object.keys(SORT_OPTIONS) as SortKey[];
+
+export const DEFAULT_SORT: SortOrder = { key: 'default', direction: 'asc' };
+
+const nameCollator = new Intl.Collator(undefined, { numeric: true, sensitivity: 'base' });
+
+/**
+ * Return a sorted copy. Files without a value for the key always go last, whichever
+ * the direction, and ties keep their incoming order.
+ */
+export function sortFiles(files: STLFile[], { key, direction }: SortOrder): STLFile[] {
+  const get = SORT_OPTIONS[key]?.get;
+  if (!get) return files;
+  const sign = direction === 'asc' ? 1 : -1;
+  const keyed = files.map((file, index) => ({ file, index, value: get(file) }));
+  keyed.sort((a, b) => {
+    if (a.value == null || b.value == null) {
+      if (a.value == null && b.value == null) return a.index - b.index;
+      return a.value == null ? 1 : -1;
+    }
+    const diff = typeof a.value === 'string' && typeof b.value === 'string'
+      ? nameCollator.compare(a.value, b.value)
+      : (a.value as number) - (b.value as number);
+    return diff !== 0 ? diff * sign : a.index - b.index;
+  });
+  return keyed.map((k) => k.file);
+}
@@ -0,0 +1,176 @@
+/**
+ * Hierarchical tags and aliases. A tag names its parents in its path
+ * (`terrain/dungeon/door`), and filtering on a parent matches every descendant.
+ * Aliases map other spellings (`orcs`, `Orc`) to a canonical tag as tags are
+ * entered; an alias also covers the paths below it, so with `dungeon` →
+ * `terrain/dungeon`, `dungeon/door` resolves to `terrain/dungeon/door`.
+ */
+
+import type { TagAlias } from '../types/index';
+
+export const TAG_SEPARATOR = '/';
+
+/** Trim each path segment and drop empty ones: ` terrain / dungeon//door ` → `terrain/dungeon/door`. */
+export function normalizeTag(raw: string): string {
+  return raw
+    .split(TAG_SEPARATOR)
+    .map((segment) => segment.trim().replace(/\s+/g, ' '))
+    .filter(Boolean)
+    .join(TAG_SEPARATOR);
+}
+
+/** Key aliases are stored and looked up by. */
+export function aliasKey(raw: string): string {
+  return normalizeTag(raw).toLowerCase();
+}
+
+/** Every parent path of a tag, outermost first: `a/b/c` → `a`, `a/b`. */
+export function tagAncestors(tag: string): string[] {
+  const segments = tag.split(TAG_SEPARATOR);
+  return segments.slice(0, -1).map((_, i) => segments.slice(0, i + 1).join(TAG_SEPARATOR));
+}
+
+/** Whether `tag` is `parent` or lies below it. */
+export function isTagWithin(tag: string, parent: string): boolean {
+  return tag === parent || tag.startsWith(parent + TAG_SEPARATOR);
+}
+
+/** Last path segment, for display under its parent. */
+export function tagLeaf(tag: string): string {
+  return tag.slice(tag.lastIndexOf(TAG_SEPARATOR) + 1);
+}
+
+/** The tag with its longest aliased prefix replaced, or null when no alias applies. */
+function applyAliases(tag: string, aliases: ReadonlyMap<string, string>): string | null {
+  const key = tag.toLowerCase();
+  if (aliases.has(key)) return aliases.get(key)!;
+  const parents = tagAncestors(tag);
+  for (let i = parents.length - 1; i >= 0; i--) {
+    const target = aliases.get(parents[i].toLowerCase());
+    if (target) return target + tag.slice(parents[i].length);
+  }
+  return null;
+}
+
+/** Alias lookup keyed by lowercase alias. */
+export function aliasMap(aliases: readonly TagAlias[]): Map<string, string> {
+  return new Map(aliases.map((a) => [a.alias, a.tag]));
+}
+
+/**
+ * Canonical form of a tag as entered: normalized, aliases applied, and spelled
+ * like an existing tag that differs only in case. Empty when nothing is left.
+ */
+export function resolveTag(raw: string, aliases: ReadonlyMap<string, string>, knownTags: readonly string[]): string {
+  const tag = normalizeTag(raw);
+  if (!tag) return '';
+  const aliased = applyAliases(tag, aliases);
+  if (aliased) return aliased;
+  const key = tag.toLowerCase();
+  return knownTags.find((t) => t.toLowerCase() === key) ?? tag;
+}
+
+/** Old → new name of each of `tags` that `alias` resolving to `tag` rewrites (mirrors saveTagAlias). */
+export function aliasRenames(tags: readonly string[], alias: string, tag: string): Map<string, string> {
+  const aliases = new Map([[alias, tag]]);
+  const renames = new Map<string, string>();
+  for (const t of tags) {
+    const aliased = applyAliases(t, aliases);
+    if (aliased != null && aliased !== t) renames.set(t, aliased);
+  }
+  return renames;
+}
+
+/** Tags with renames applied; a tag renamed onto one already present is merged into it. */
+export function renameTags(tags: readonly string[], renames: ReadonlyMap<string, string>): string[] {
+  return [...new Set(tags.map((t) => renames.get(t) ?? t))];
+}
+
+/**
+ * Old → new name of each of `tags` that renaming `from` to `to` rewrites, paths below
+ * a renamed tag included (mirrors renameTags in the DB). When several sources contain
+ * a tag, the longest applies. Tags already at or below `to` stay put unless their
+ * own source lies there too, so renaming `a` to `a/b` leaves `a/b` alone.
+ */
+export function tagRenames(tags: readonly string[], from: readonly string[], to: string): Map<string, string> {
+  const renames = new Map<string, string>();
+  for (const t of tags) {
+    const prefix = from.filter((f) => isTagWithin(t, f)).sort((a, b) => b.length - a.length)[0];
+    if (prefix === undefined) continue;
+    if (isTagWithin(t, to) && !isTagWithin(prefix, to)) continue;
+    const renamed = to + t.slice(prefix.length);
+    if (renamed !== t) renames.set(t, renamed);
+  }
+  return renames;
+}
+
+/** Tags with the given ones, and every path below them, removed. */
+export function removeTags(tags: readonly string[], removed: readonly string[]): string[] {
+  return tags.filter((t) => !removed.some((r) => isTagWithin(t, r)));
+}
+
+/** Problems that prevent renaming or merging `from` into `to`; empty when it can be done. */
+export function validateTagRename(from: readonly string[], to: string): string[] {
+  const target = normalizeTag(to);
+  if (!target) return ['Enter the new tag'];
+  const container = from.find((f) => f !== target && isTagWithin(target, f));
+  return container ? [`"${target}" lies below "${container}", which would be renamed with it`] : [];
+}
+
+/** Problems that prevent saving `alias` → `tag`; empty when it can be saved. */
+export function validateTagAlias(alias: string, tag: string, aliases: readonly TagAlias[]): string[] {
+  const key = aliasKey(alias);
+  const target = normalizeTag(tag);
+  const errors: string[] = [];
+  if (!key) errors.push('Enter the alias');
+  if (!target) errors.push('Enter the tag it stands for');
+  if (!key || !target) return errors;
+  if (isTagWithin(target.toLowerCase(), key)) errors.push('A tag cannot be an alias of itself or its descendants');
+  if (aliases.some((a) => a.alias === target.toLowerCase())) {
+    errors.push(`"${target}" is itself an alias; point at the tag it stands for`);
+  }
+  const pointing = aliases.find((a) => a.alias !== key && a.tag.toLowerCase() === key);
+  if (pointing) errors.push(`"${pointing.alias}" already resolves to "${alias}"; aliases cannot chain`);
+  return errors;
+}
+
+/**
+ * Files per tag, counting each file once under every tag it carries and each of
+ * their parents, so a parent's count covers its descendants.
+ */
+export function countTags(fileTags: Iterable<readonly string[] | undefined>): Record<string, number> {
+  const counts: Record<string, number> = {};
+  for (const tags of fileTags) {
+    if (!tags || tags.length === 0) continue;
+    const seen = new Set<string>();
+    for (const tag of tags) {
+      seen.add(tag);
+      for (const parent of tagAncestors(tag)) seen.add(parent);
+    }
+    for (const tag of seen) counts[tag] = (counts[tag] || 0) + 1;
+  }
+  return counts;
+}
+
+export interface TagNode {
+  tag: string;
+  children: TagNode[];
+}
+
+/** Nest sorted tag paths under their parents. Parents missing from `tags` are added. */
+export function buildTagTree(tags: readonly string[]): TagNode[] {
+  const roots: TagNode[] = [];
+  const nodes = new Map<string, TagNode>();
+  const nodeFor = (tag: string): TagNode => {
+    let node = nodes.get(tag);
+    if (node) return node;
+    node = { tag, children: [] };
+    nodes.set(tag, node);
+    const parents = tagAncestors(tag);
+    if (parents.length === 0) roots.push(node);
+    else nodeFor(parents[parents.length - 1]).children.push(node);
+    return node;
+  };
+  for (const tag of [...tags].sort()) nodeFor(tag);
+  return roots;
+}
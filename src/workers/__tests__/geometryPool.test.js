@@ -0,0 +1,213 @@
+const inlineAnalysis = vi.fn();
+
+vi.mock('../../utils/modelAnalysis.js', () => ({
+  analyzeModelBuffer: (...args) => inlineAnalysis(...args),
+}));
+
+/** Stands in for the module worker; tests answer its jobs by hand. */
+class FakeWorker {
+  static instances = [];
+
+  constructor(url, options) {
+    this.url = String(url);
+    this.options = options;
+    this.posted = [];
+    this.terminated = false;
+    this.onmessage = null;
+    this.onerror = null;
+    FakeWorker.instances.push(this);
+  }
+
+  postMessage(job, transfer) {
+    this.posted.push({ job, transfer });
+  }
+
+  terminate() {
+    this.terminated = true;
+  }
+
+  get lastJob() {
+    return this.posted[this.posted.length - 1]?.job;
+  }
+
+  succeed(jobId = this.lastJob.jobId) {
+    this.onmessage({
+      data: {
+        jobId,
+        ok: true,
+        analysis: { contentHash: `hash-${jobId}`, stats: { triangleCount: 1 }, headerText: null },
+        positions: new Float32Array(9),
+        index: null,
+      },
+    });
+  }
+
+  fail(message, jobId = this.lastJob.jobId) {
+    this.onmessage({ data: { jobId, ok: false, message } });
+  }
+
+  crash(message) {
+    const event = { message, preventDefault: vi.fn() };
+    this.onerror(event);
+    return event;
+  }
+}
+
+// Pool state lives at module level, so every test gets a fresh copy
+async function loadPool({ cores = 4 } = {}) {
+  vi.stubGlobal('navigator', { hardwareConcurrency: cores });
+  vi.resetModules();
+  return import('../geometryPool.js');
+}
+
+const buffer = () => new ArrayBuffer(8);
+
+beforeEach(() => {
+  FakeWorker.instances = [];
+  inlineAnalysis.mockReset();
+  inlineAnalysis.mockResolvedValue({ contentHash: 'inline', stats: {}, headerText: null, geometry: {} });
+  vi.stubGlobal('Worker', FakeWorker);
+  vi.spyOn(console, 'error').mockImplementation(() => {});
+});
+
+afterEach(() => {
+  vi.useRealTimers();
+  vi.unstubAllGlobals();
+  vi.restoreAllMocks();
+});
+
+describe('getPoolSize', () => {
+  it('leaves one core for the UI thread', async () => {
+    expect((await loadPool({ cores: 4 })).getPoolSize()).toBe(3);
+  });
+
+  it('keeps at least one worker and at most eight', async () => {
+    expect((await loadPool({ cores: 1 })).getPoolSize()).toBe(1);
+    expect((await loadPool({ cores: 32 })).getPoolSize()).toBe(8);
+  });
+
+  it('is 1 when workers are unavailable', async () => {
+    vi.stubGlobal('Worker', undefined);
+    expect((await loadPool({ cores: 16 })).getPoolSize()).toBe(1);
+  });
+});
+
+describe('analyzeModel', () => {
+  it('spawns workers up to the pool size and queues the rest', async () => {
+    const { analyzeModel } = await loadPool({ cores: 3 });
+    const buffers = [buffer(), buffer(), buffer()];
+    buffers.forEach((b) => analyzeModel('stl', b));
+
+    expect(FakeWorker.instances).toHaveLength(2);
+    const [first, second] = FakeWorker.instances;
+    expect(first.options).toEqual({ type: 'module' });
+    expect(first.posted).toEqual([{ job: { jobId: 1, format: 'stl', buffer: buffers[0] }, transfer: [buffers[0]] }]);
+    expect(second.posted.map((p) => p.job.jobId)).toEqual([2]);
+  });
+
+  it('resolves with the analysis and a geometry built from the returned arrays', async () => {
+    const { analyzeModel } = await loadPool();
+    const result = analyzeModel('stl', buffer());
+    FakeWorker.instances[0].succeed();
+
+    const analysis = await result;
+    expect(analysis.contentHash).toBe('hash-1');
+    expect(analysis.geometry.getAttribute('position').count).toBe(3);
+    expect(analysis.geometry.getIndex()).toBeNull();
+  });
+
+  it('hands a queued job to the worker that finishes first', async () => {
+    const { analyzeModel } = await loadPool({ cores: 2 });
+    const results = [analyzeModel('stl', buffer()), analyzeModel('obj', buffer())];
+    const [worker] = FakeWorker.instances;
+    expect(worker.posted).toHaveLength(1);
+
+    worker.succeed();
+    await results[0];
+    expect(worker.lastJob).toMatchObject({ jobId: 2, format: 'obj' });
+    worker.succeed();
+    await expect(results[1]).resolves.toMatchObject({ contentHash: 'hash-2' });
+  });
+
+  it('rejects a job the worker could not parse and keeps the worker', async () => {
+    const { analyzeModel } = await loadPool({ cores: 2 });
+    const bad = analyzeModel('stl', buffer());
+    const good = analyzeModel('stl', buffer());
+    const [worker] = FakeWorker.instances;
+
+    worker.fail('Invalid STL');
+    await expect(bad).rejects.toThrow('Invalid STL');
+    worker.succeed();
+    await expect(good).resolves.toMatchObject({ contentHash: 'hash-2' });
+    expect(FakeWorker.instances).toHaveLength(1);
+  });
+
+  it('runs formats that need the DOM inline', async () => {
+    const { analyzeModel } = await loadPool();
+    const b = buffer();
+    await expect(analyzeModel('3mf', b)).resolves.toMatchObject({ contentHash: 'inline' });
+    expect(inlineAnalysis).toHaveBeenCalledWith('3mf', b);
+    expect(FakeWorker.instances).toHaveLength(0);
+  });
+
+  it('runs everything inline when workers are unavailable', async () => {
+    vi.stubGlobal('Worker', undefined);
+    const { analyzeModel } = await loadPool();
+    await expect(analyzeModel('stl', buffer())).resolves.toMatchObject({ contentHash: 'inline' });
+  });
+});
+
+describe('worker failure', () => {
+  it('rejects in-flight jobs, runs queued ones inline and stops using workers', async () => {
+    const { analyzeModel, getPoolSize } = await loadPool({ cores: 3 });
+    const inFlight = [analyzeModel('stl', buffer()), analyzeModel('stl', buffer())];
+    const queuedBuffer = buffer();
+    const queued = analyzeModel('ply', queuedBuffer);
+
+    const event = FakeWorker.instances[0].crash('Failed to load worker script');
+    expect(event.preventDefault).toHaveBeenCalled();
+
+    for (const result of inFlight) await expect(result).rejects.toThrow('Geometry worker failed: Failed to load worker script');
+    await expect(queued).resolves.toMatchObject({ contentHash: 'inline' });
+    expect(inlineAnalysis).toHaveBeenCalledWith('ply', queuedBuffer);
+    expect(FakeWorker.instances.every((w) => w.terminated)).toBe(true);
+
+    expect(getPoolSize()).toBe(1);
+    await expect(analyzeModel('stl', buffer())).resolves.toMatchObject({ contentHash: 'inline' });
+    expect(FakeWorker.instances).toHaveLength(2);
+  });
+});
+
+describe('idle shutdown', () => {
+  it('terminates workers after sitting idle, and respawns on the next job', async () => {
+    vi.useFakeTimers();
+    const { analyzeModel } = await loadPool();
+    const result = analyzeModel('stl', buffer());
+    const [worker] = FakeWorker.instances;
+    worker.succeed();
+    await result;
+
+    vi.advanceTimersByTime(29_000);
+    expect(worker.terminated).toBe(false);
+    vi.advanceTimersByTime(1_000);
+    expect(worker.terminated).toBe(true);
+
+    analyzeModel('stl', buffer());
+    expect(FakeWorker.instances).toHaveLength(2);
+  });
+
+  it('cancels the shutdown when a job arrives in time', async () => {
+    vi.useFakeTimers();
+    const { analyzeModel } = await loadPool();
+    const first = analyzeModel('stl', buffer());
+    const [worker] = FakeWorker.instances;
+    worker.succeed();
+    await first;
+
+    vi.advanceTimersByTime(20_000);
+    analyzeModel('stl', buffer());
+    vi.advanceTimersByTime(20_000);
+    expect(worker.terminated).toBe(false);
+    expect(worker.posted).toHaveLength(2);
+  });
+});
@@ -0,0 +1,27 @@
+import { analyzeModelBuffer } from '../utils/modelAnalysis';
+import type { GeometryJob, GeometryJobResult } from './geometryProtocol';
+
+// tsconfig only includes the DOM lib; a dedicated worker scope has the same postMessage(msg, transfer) shape as Worker
+const scope = self as unknown as Worker;
+
+/** Typed arrays can be views into a larger buffer; only transfer buffers the view owns outright. */
+function owned<T extends Float32Array | Uint16Array | Uint32Array>(array: T): T {
+  return array.byteOffset === 0 && array.byteLength === array.buffer.byteLength ? array : (array.slice() as T);
+}
+
+scope.onmessage = async (e: MessageEvent<GeometryJob>) => {
+  const { jobId, format, buffer } = e.data;
+  let result: GeometryJobResult;
+  const transfer: Transferable[] = [];
+  try {
+    const { geometry, ...analysis } = await analyzeModelBuffer(format, buffer);
+    const positions = owned(geometry.attributes.position.array as Float32Array);
+    const index = geometry.index ? owned(geometry.index.array as Uint16Array | Uint32Array) : null;
+    transfer.push(positions.buffer);
+    if (index) transfer.push(index.buffer);
+    result = { jobId, ok: true, analysis, positions, index };
+  } catch (err) {
+    result = { jobId, ok: false, message: err instanceof Error ? err.message : String(err) };
+  }
+  scope.postMessage(result, transfer);
+};
@@ -0,0 +1,132 @@
+/**
+ * Pool of web workers that hash, parse and analyse model buffers off the UI thread.
+ *
+ * Buffers are transferred in and geometry arrays transferred back, so nothing is
+ * copied. Workers are spawned lazily, sized to the CPU count, and terminated after
+ * sitting idle so three.js copies don't linger between imports. Where workers are
+ * unavailable (unit tests) or a loader needs the DOM, jobs run inline instead.
+ */
+
+import * as THREE from 'three';
+import type { BufferGeometry } from 'three';
+import { analyzeModelBuffer } from '../utils/modelAnalysis';
+import type { ModelAnalysis } from '../utils/modelAnalysis';
+import { canParseInWorker } from '../utils/modelLoaders';
+import type { ModelFormat } from '../utils/modelFormats';
+import type { GeometryJob, GeometryJobResult } from './geometryProtocol';
+
+const MAX_WORKERS = 8;
+const IDLE_TIMEOUT_MS = 30_000;
+
+interface PendingJob {
+  job: GeometryJob;
+  resolve: (result: ModelAnalysis & { geometry: BufferGeometry }) => void;
+  reject: (err: Error) => void;
+}
+
+interface PoolWorker {
+  worker: Worker;
+  current: PendingJob | null;
+}
+
+const workers: PoolWorker[] = [];
+const queue: PendingJob[] = [];
+let nextJobId = 1;
+let idleTimer: ReturnType<typeof setTimeout> | null = null;
+let workersBroken = false;
+
+function workersSupported(): boolean {
+  return typeof Worker !== 'undefined' && !workersBroken;
+}
+
+/**
+ * Number of files worth having in flight at once: one per worker, leaving a core
+ * for the UI thread (thumbnails still render there). 1 when running inline.
+ */
+export function getPoolSize(): number {
+  if (!workersSupported()) return 1;
+  const cores = typeof navigator !== 'undefined' ? navigator.hardwareConcurrency || 2 : 2;
+  return Math.max(1, Math.min(MAX_WORKERS, cores - 1));
+}
+
+function toGeometry(positions: Float32Array, index: Uint16Array | Uint32Array | null): BufferGeometry {
+  const geometry = new THREE.BufferGeometry();
+  geometry.setAttribute('position', new THREE.BufferAttribute(positions, 3));
+  if (index) geometry.setIndex(new THREE.BufferAttribute(index, 1));
+  return geometry;
+}
+
+function terminateAll() {
+  for (const w of workers.splice(0)) w.worker.terminate();
+}
+
+function scheduleIdleShutdown() {
+  if (idleTimer) clearTimeout(idleTimer);
+  idleTimer = setTimeout(() => {
+    idleTimer = null;
+    if (queue.length === 0 && workers.every((w) => !w.current)) terminateAll();
+  }, IDLE_TIMEOUT_MS);
+}
+
+function dispatch(w: PoolWorker) {
+  const next = queue.shift();
+  if (!next) {
+    w.current = null;
+    if (workers.every((other) => !other.current)) scheduleIdleShutdown();
+    return;
+  }
+  w.current = next;
+  w.worker.postMessage(next.job, [next.job.buffer]);
+}
+
+function spawnWorker(): PoolWorker {
+  const w: PoolWorker = {
+    worker: new Worker(new URL('./geometry.worker.ts', import.meta.url), { type: 'module' }),
+    current: null,
+  };
+  w.worker.onmessage = (e: MessageEvent<GeometryJobResult>) => {
+    const job = w.current;
+    const result = e.data;
+    if (job && job.job.jobId === result.jobId) {
+      if (result.ok) job.resolve({ ...result.analysis, geometry: toGeometry(result.positions, result.index) });
+      else job.reject(new Error(result.message));
+    }
+    dispatch(w);
+  };
+  w.worker.onerror = (e) => {
+    // A worker that fails to load (bad bundle, CSP) would fail every job; fall back to inline
+    console.error('[geometryPool] Worker failed:', e.message);
+    e.preventDefault();
+    workersBroken = true;
+    // In-flight buffers were transferred away and are lost; queued ones can still run inline
+    const inFlight = workers.map((other) => other.current).filter((j): j is PendingJob => !!j);
+    const queued = queue.splice(0);
+    terminateAll();
+    for (const job of inFlight) job.reject(new Error(`Geometry worker failed: ${e.message}`));
+    for (const job of queued) analyzeModelBuffer(job.job.format, job.job.buffer).then(job.resolve, job.reject);
+  };
+  workers.push(w);
+  return w;
+}
+
+/**
+ * Hash, parse and analyse a model. The buffer is transferred to a worker when one
+ * is used, so callers must not touch it afterwards. Callers own (and must dispose)
+ * the returned geometry.
+ */
+export function analyzeModel(
+  format: ModelFormat,
+  buffer: ArrayBuffer
+): Promise<ModelAnalysis & { geometry: BufferGeometry }> {
+  if (!workersSupported() || !canParseInWorker(format)) return analyzeModelBuffer(format, buffer);
+
+  if (idleTimer) {
+    clearTimeout(idleTimer);
+    idleTimer = null;
+  }
+  return new Promise((resolve, reject) => {
+    queue.push({ job: { jobId: nextJobId++, format, buffer }, resolve, reject });
+    const idle = workers.find((w) => !w.current) ?? (workers.length < getPoolSize() ? spawnWorker() : null);
+    if (idle) dispatch(idle);
+  });
+}
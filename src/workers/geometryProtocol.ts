@@ -0,0 +1,22 @@
+/** Messages exchanged between geometryPool and geometry.worker. */
+
+import type { ModelFormat } from '../utils/modelFormats';
+import type { ModelAnalysis } from '../utils/modelAnalysis';
+
+export interface GeometryJob {
+  jobId: number;
+  format: ModelFormat;
+  /** Transferred, not copied — unusable on the sending side afterwards */
+  buffer: ArrayBuffer;
+}
+
+export type GeometryJobResult =
+  | {
+      jobId: number;
+      ok: true;
+      analysis: ModelAnalysis;
+      /** Transferred back so the main thread can render a thumbnail without re-parsing */
+      positions: Float32Array;
+      index: Uint16Array | Uint32Array | null;
+    }
+  | { jobId: number; ok: false; message: string };
@@ -4,6 +4,10 @@ import react from '@vitejs/plugin-react';
 export default defineConfig({
   plugins: [react()],
   base: './',
+  // The geometry worker lazy-loads three.js loaders, which needs code-splitting
+  worker: {
+    format: 'es',
+  },
   build: {
     rollupOptions: {
       output: {